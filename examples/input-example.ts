@@ -4,8 +4,7 @@
  */
 
 import { InputManager, InputSystem } from '../src/input';
-import { Entity } from '../src/core/ecs/Entity';
-import { Transform } from '../src/math/Transform';
+import { Entity } from '../src/ecs/Entity';
 import { Vector2 } from '../src/math/Vector2';
 
 // Ejemplo de configuración e inicialización
@@ -30,7 +29,7 @@ export function setupInputExample() {
     const player = new Entity();
 
     // Agregar componente de transformación
-    player.addComponent('transform', new Transform(new Vector2(100, 100)));
+    player.addComponent({ type: 'transform', position: new Vector2(100, 100), rotation: 0, scale: new Vector2(1, 1) });
 
     // Agregar componente de input con configuración personalizada
     const inputComponent = inputSystem.createInputComponent({
@@ -48,7 +47,7 @@ export function setupInputExample() {
     inputComponent.keyBindings.set('Space', 'jump');
     inputComponent.keyBindings.set('KeyF', 'interact');
 
-    player.addComponent('input', inputComponent);
+    player.addComponent(inputComponent);
 
     // Registrar callbacks personalizados para acciones específicas
     inputManager.onKeyDown('Space', (event) => {
@@ -119,7 +118,7 @@ export function gameLoopExample() {
 
     function update(deltaTime: number) {
         // Actualizar sistema de input
-        inputSystem.update(deltaTime);
+        inputSystem.update(entities, deltaTime);
 
         // Ejemplos de consultas de estado
         if (inputManager.isKeyPressed('KeyW')) {
@@ -154,7 +153,7 @@ export function advancedInputExample() {
 
     // Crear jugador con controles WASD
     const player = new Entity();
-    player.addComponent('transform', new Transform(new Vector2(100, 100)));
+    player.addComponent({ type: 'transform', position: new Vector2(100, 100), rotation: 0, scale: new Vector2(1, 1) });
 
     const playerInput = inputSystem.createInputComponent({
         moveSpeed: 250,
@@ -170,11 +169,11 @@ export function advancedInputExample() {
     playerInput.keyBindings.set('Space', 'jump');
     playerInput.keyBindings.set('ShiftLeft', 'run');
 
-    player.addComponent('input', playerInput);
+    player.addComponent(playerInput);
 
     // Crear entidad controlada con flechas (para segundo jugador)
     const player2 = new Entity();
-    player2.addComponent('transform', new Transform(new Vector2(200, 100)));
+    player2.addComponent({ type: 'transform', position: new Vector2(200, 100), rotation: 0, scale: new Vector2(1, 1) });
 
     const player2Input = inputSystem.createInputComponent({
         moveSpeed: 200,
@@ -192,11 +191,11 @@ export function advancedInputExample() {
     player2Input.keyBindings.set('KeyM', 'jump');
     player2Input.keyBindings.set('KeyN', 'run');
 
-    player2.addComponent('input', player2Input);
+    player2.addComponent(player2Input);
 
     // Crear entidad solo controlada por mouse (cursor, cámara, etc.)
     const cursor = new Entity();
-    cursor.addComponent('transform', new Transform(new Vector2(0, 0)));
+    cursor.addComponent({ type: 'transform', position: new Vector2(0, 0), rotation: 0, scale: new Vector2(1, 1) });
 
     const cursorInput = inputSystem.createInputComponent({
         moveSpeed: 0, // No movimiento por teclado
@@ -207,7 +206,7 @@ export function advancedInputExample() {
 
     cursorInput.keyBindings.clear(); // Sin controles de teclado
 
-    cursor.addComponent('input', cursorInput);
+    cursor.addComponent(cursorInput);
 
     return { inputSystem, player, player2, cursor };
 }
@@ -1,8 +1,8 @@
 import { System } from '../ecs/System';
 import { Entity } from '../ecs/Entity';
 import { AudioManager } from './AudioManager';
-import { EventSystem } from '../core/EventSystem';
-import { ANIMATION_EVENTS } from '../types/event-const';
+import { EventSystem, releaseSubscriptions } from '../core/EventSystem';
+import { ANIMATION_EVENTS, WORLD_EVENTS } from '../types/event-const';
 import { AnimationComponent } from '../graphics/Animation';
 
 export interface AudioComponent {
@@ -50,6 +50,7 @@ export class AudioSystem extends System {
         super();
 
         // Listen for animation frame events and play audio if entity has an audio component configured
+        // Owned by the system: removed when it is destroyed or removed from the loop/scene
         this.eventSystem.on(ANIMATION_EVENTS.FRAME, (evt: any) => {
             try {
                 const data = evt.data || {};
@@ -82,7 +83,17 @@ export class AudioSystem extends System {
                 // swallow to avoid crashing game loop
                 console.warn('Error in AudioSystem FRAME handler', e);
             }
-        });
+        }, { owner: this });
+
+        // Loops and long clips stop with their entity
+        this.eventSystem.on(WORLD_EVENTS.ENTITY_DESTROYED, (evt) => {
+            const audio = evt.data.entity.getComponent<AudioComponent>('audio');
+            if (audio?.playingHandle) this.stop(evt.data.entity);
+        }, { owner: this });
+    }
+
+    destroy(): void {
+        releaseSubscriptions(this);
     }
 
     // Public API convenience methods
@@ -0,0 +1,79 @@
+/**
+ * Time source and frame scheduler used by the GameLoop. Swap it to drive
+ * the loop from tests, workers or a server tick instead of the browser.
+ */
+export interface LoopClock {
+    // Seconds
+    now(): number;
+    // Run `callback` on the next frame; returns an id for `cancelFrame`
+    requestFrame(callback: () => void): number;
+    cancelFrame(id: number): void;
+}
+
+/**
+ * performance.now + requestAnimationFrame, falling back to setTimeout at
+ * ~60 Hz where there is no rAF (Node, workers)
+ */
+export class BrowserClock implements LoopClock {
+    now(): number {
+        return (typeof performance !== 'undefined' ? performance.now() : Date.now()) / 1000;
+    }
+
+    requestFrame(callback: () => void): number {
+        if (typeof requestAnimationFrame === 'function') {
+            return requestAnimationFrame(() => callback());
+        }
+        return setTimeout(callback, 1000 / 60) as unknown as number;
+    }
+
+    cancelFrame(id: number): void {
+        if (typeof cancelAnimationFrame === 'function') {
+            cancelAnimationFrame(id);
+        } else {
+            clearTimeout(id);
+        }
+    }
+}
+
+/**
+ * Clock that only moves when told to. `advance` moves time forward and runs
+ * the frame that was requested, so a started loop runs one frame per call.
+ */
+export class ManualClock implements LoopClock {
+    private time: number;
+    private nextId = 1;
+    private pending = new Map<number, () => void>();
+
+    constructor(startTime: number = 0) {
+        this.time = startTime;
+    }
+
+    now(): number {
+        return this.time;
+    }
+
+    requestFrame(callback: () => void): number {
+        const id = this.nextId++;
+        this.pending.set(id, callback);
+        return id;
+    }
+
+    cancelFrame(id: number): void {
+        this.pending.delete(id);
+    }
+
+    /**
+     * Move time forward by `seconds` and run the frames requested so far
+     * (frames requested while running them wait for the next call)
+     */
+    advance(seconds: number): void {
+        this.time += seconds;
+        const callbacks = [...this.pending.values()];
+        this.pending.clear();
+        for (const callback of callbacks) callback();
+    }
+
+    hasPendingFrame(): boolean {
+        return this.pending.size > 0;
+    }
+}
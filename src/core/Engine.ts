@@ -1,7 +1,9 @@
 import { GameLoop, System } from './GameLoop';
 import { EventSystem } from './EventSystem';
 import { Scene, CollisionLayer } from './Scene';
-import { RenderSystem } from '../graphics/RenderSystem';
+import { SceneStack, SceneChangeOptions } from './SceneStack';
+import { SystemOptions, SystemPhase, SystemRef } from './SystemScheduler';
+import { RenderSystem, RenderFrame } from '../graphics/RenderSystem';
 import { Camera2D } from '../graphics/Camera2D';
 import { Canvas2DRenderer } from '../graphics/Canvas2DRenderer';
 import { WebGLRenderer } from '../graphics/WebGLRenderer';
@@ -16,7 +18,9 @@ export class Engine {
     private gameLoop: GameLoop;
     private eventSystem: EventSystem;
     private scenes = new Map<string, Scene>();
+    // Top of the scene stack; global systems run on it
     private activeScene: Scene | null = null;
+    private sceneStack: SceneStack;
     private initialized = false;
     private config: EngineConfig;
     private debugMode: boolean;
@@ -41,7 +45,11 @@ export class Engine {
         this.config = { ...config };
         this.debugMode = config.debug ?? false;
         this.eventSystem = EventSystem.getInstance();
-        this.gameLoop = new GameLoop();
+        if (config.events?.dispatchMode) {
+            this.eventSystem.setDispatchMode(config.events.dispatchMode);
+        }
+        this.gameLoop = new GameLoop(config.loop);
+        this.sceneStack = new SceneStack((top, previous) => this.handleActiveSceneChange(top, previous));
 
         this.setupCanvas();
         this.setupEventListeners();
@@ -75,6 +83,7 @@ export class Engine {
             // If a render system was created during initializeRenderer, attach camera & layer order
             if (this.renderSystem) {
                 this.renderSystem.setCamera(this.activeCamera);
+                this.renderSystem.setFrameProvider(() => this.getRenderFrame());
                 if (this.activeScene) {
                     this.renderSystem.setLayerOrder(this.activeScene.getLayers());
                 } else {
@@ -143,15 +152,18 @@ export class Engine {
     }
 
     /**
-     * Add a system to the engine
+     * Add an engine-wide system. It always runs on the active (top) scene;
+     * systems that belong to one scene go through `scene.addSystem` instead.
+     * `options` choose the phase and the order relative to other systems,
+     * e.g. `{ phase: 'lateUpdate', after: ['CameraSystem'] }`.
      */
-    addSystem(system: System): void {
-        this.gameLoop.addSystem(system);
+    addSystem(system: System, options: SystemOptions = {}): void {
+        this.gameLoop.addSystem(system, options);
         this.eventSystem.emit(ENGINE_EVENTS.SYSTEM_ADDED, { system });
         this.debugLog('System added:', system.constructor.name);
         // If we have an active scene, propagate to the newly added system when possible
-        if (this.activeScene && typeof (system as any).setScene === 'function') {
-            try { (system as any).setScene(this.activeScene); } catch (_) { }
+        if (this.activeScene) {
+            this.attachSceneToSystem(system, this.activeScene);
         }
     }
 
@@ -164,6 +176,13 @@ export class Engine {
         this.debugLog('System removed:', system.constructor.name);
     }
 
+    /**
+     * Enable or disable an engine-wide system (by instance or name)
+     */
+    setSystemEnabled(system: SystemRef, enabled: boolean): boolean {
+        return this.gameLoop.setSystemEnabled(system, enabled);
+    }
+
     /**
      * Add a scene to the engine
      */
@@ -188,10 +207,8 @@ export class Engine {
             return false;
         }
 
-        // If this is the active scene, deactivate it
-        if (this.activeScene === scene) {
-            this.setActiveScene(null);
-        }
+        // Take it out of the scene stack (deactivating it)
+        this.sceneStack.remove(scene);
 
         scene.destroy();
         this.scenes.delete(sceneName);
@@ -209,33 +226,50 @@ export class Engine {
     }
 
     /**
-     * Set the active scene
+     * Set the active scene. Replaces the whole scene stack instantly.
      */
     setActiveScene(sceneNameOrScene: string | Scene | null): void {
-        let scene: Scene | null = null;
+        this.sceneStack.reset(sceneNameOrScene === null ? null : this.resolveScene(sceneNameOrScene));
+    }
 
-        if (typeof sceneNameOrScene === 'string') {
-            scene = this.scenes.get(sceneNameOrScene) || null;
-            if (!scene) {
-                throw new Error(`Scene '${sceneNameOrScene}' not found`);
-            }
-        } else {
-            scene = sceneNameOrScene;
-        }
+    /**
+     * Put a scene on top of the current one (pause menu, HUD, dialog...).
+     * What keeps updating and drawing below it follows the scene's policy.
+     */
+    pushScene(sceneNameOrScene: string | Scene, options: SceneChangeOptions = {}): Promise<void> {
+        return this.sceneStack.push(this.resolveScene(sceneNameOrScene), options);
+    }
 
-        // Store previous scene before changing
-        const previousScene = this.activeScene;
+    /**
+     * Remove the top scene and go back to the one below
+     */
+    popScene(options: SceneChangeOptions = {}): Promise<void> {
+        return this.sceneStack.pop(options);
+    }
 
-        // Deactivate current scene
-        if (this.activeScene) {
-            this.activeScene.onExit();
+    /**
+     * Swap the top scene, e.g. to move to the next level with a transition
+     */
+    replaceScene(sceneNameOrScene: string | Scene, options: SceneChangeOptions = {}): Promise<void> {
+        return this.sceneStack.replace(this.resolveScene(sceneNameOrScene), options);
+    }
+
+    getSceneStack(): SceneStack {
+        return this.sceneStack;
+    }
+
+    private resolveScene(sceneNameOrScene: string | Scene): Scene {
+        if (typeof sceneNameOrScene !== 'string') return sceneNameOrScene;
+
+        const scene = this.scenes.get(sceneNameOrScene);
+        if (!scene) {
+            throw new Error(`Scene '${sceneNameOrScene}' not found`);
         }
+        return scene;
+    }
 
-        // Activate new scene
+    private handleActiveSceneChange(scene: Scene | null, previousScene: Scene | null): void {
         this.activeScene = scene;
-        if (this.activeScene) {
-            this.activeScene.onEnter();
-        }
 
         this.eventSystem.emit(ENGINE_EVENTS.ACTIVE_SCENE_CHANGE, {
             previousScene: previousScene,
@@ -247,6 +281,12 @@ export class Engine {
             'to',
             this.activeScene?.name || 'none');
 
+        // Restore the camera saved with the scene
+        const cameraSettings = this.activeScene?.getCameraSettings();
+        if (cameraSettings && this.activeCamera) {
+            this.activeCamera.applySettings(cameraSettings);
+        }
+
         // Propagate layer order to render system
         if (this.renderSystem) {
             if (this.activeScene) {
@@ -259,18 +299,34 @@ export class Engine {
         // Propagate scene to any systems that can accept it (lighting, etc)
         this.propagateSceneToSystems(this.activeScene);
     }
+
     /**
-     * Propagate the active scene to systems that expose a `setScene(scene)` method.
-     * This allows systems like `LightingSystem` to resolve layer names -> bitmasks.
+     * Scenes of the stack drawn by the RenderSystem (null falls back to its own entities)
+     */
+    private getRenderFrame(): RenderFrame | null {
+        if (this.sceneStack.size() === 0 && !this.sceneStack.isTransitioning()) return null;
+        return {
+            ...this.sceneStack.getRenderFrame(),
+            viewport: { width: this.config.width, height: this.config.height }
+        };
+    }
+
+    /**
+     * Propagate the active scene to engine-wide systems through `setScene`
+     * (e.g. `LightingSystem` resolving layer names -> bitmasks) and `setWorld`
+     * (ECS systems using the scene's cached queries).
      */
     private propagateSceneToSystems(scene: Scene | null): void {
         for (const sys of this.gameLoop.getSystems()) {
-            if (sys && typeof (sys as any).setScene === 'function') {
-                try { (sys as any).setScene(scene as any); } catch (_) { }
-            }
+            if (sys) this.attachSceneToSystem(sys, scene);
         }
     }
 
+    private attachSceneToSystem(system: System, scene: Scene | null): void {
+        try { system.setScene?.(scene); } catch (_) { }
+        try { system.setWorld?.(scene ? scene.getWorld() : null); } catch (_) { }
+    }
+
 
     /**
      * Create a new Camera2D instance and set it as active camera
@@ -293,7 +349,7 @@ export class Engine {
     }
 
     /**
-     * Get the active scene
+     * Get the active scene (top of the scene stack)
      */
     getActiveScene(): Scene | null {
         return this.activeScene;
@@ -404,11 +460,11 @@ export class Engine {
         this.stop();
 
         // Destroy all scenes
+        this.sceneStack.reset(null);
         for (const scene of this.scenes.values()) {
             scene.destroy();
         }
         this.scenes.clear();
-        this.activeScene = null;
 
         // Destroy game loop
         this.gameLoop.destroy();
@@ -483,8 +539,10 @@ export class Engine {
 
             // Add diagnostic system BEFORE main render system so it renders underneath
             const diagnosticRenderSystem = new RenderSystem(diagnosticRenderer);
-            // Insert at the beginning of systems array instead of at the end
-            this.gameLoop.getSystems().unshift(diagnosticRenderSystem);
+            this.gameLoop.addSystem(diagnosticRenderSystem, {
+                name: 'DiagnosticRenderSystem',
+                before: this.renderSystem ? [this.renderSystem] : []
+            });
 
             this.debugLog('Diagnostic overlay added successfully');
         } catch (error) {
@@ -497,7 +555,7 @@ export class Engine {
     private isWebGLSupported(): boolean {
         try {
             const canvas = document.createElement('canvas');
-            const gl = canvas.getContext('webgl') || canvas.getContext('experimental-webgl');
+            const gl = canvas.getContext('webgl2') || canvas.getContext('webgl') || canvas.getContext('experimental-webgl');
             return !!gl;
         } catch (e) {
             return false;
@@ -551,11 +609,16 @@ export class Engine {
     }
 
     /**
-     * Setup the game loop to provide entities from the active scene
+     * Setup the game loop to provide entities from the active scene and run
+     * the systems of the stacked scenes in each phase
      */
     private setupGameLoopEntityProvider(): void {
-        // Update the game loop with active scene entities each frame
-        this.eventSystem.on(GAMELOOP_EVENTS.FIXED_UPDATE, () => {
+        this.gameLoop.onPhase((phase, deltaTime, alpha) => {
+            // Sync point for entities spawned or destroyed by the loop's systems
+            for (const scene of this.sceneStack.getScenes()) scene.flushCommands();
+            this.runScenePhase(phase, deltaTime, alpha);
+
+            // Update the game loop with active scene entities before its systems run
             if (this.activeScene) {
                 const entities = this.activeScene.getActiveEntities();
                 this.gameLoop.setEntities(entities);
@@ -563,6 +626,22 @@ export class Engine {
         });
     }
 
+    private runScenePhase(phase: SystemPhase, deltaTime: number, alpha?: number): void {
+        if (phase === 'fixedUpdate') {
+            this.sceneStack.update(deltaTime);
+            for (const scene of this.sceneStack.getUpdatingScenes()) {
+                scene.update(deltaTime);
+            }
+            return;
+        }
+
+        const rendering = phase === 'render' || phase === 'postRender';
+        const scenes = rendering ? this.sceneStack.getRenderedScenes() : this.sceneStack.getUpdatingScenes();
+        for (const scene of scenes) {
+            scene.runPhase(phase, deltaTime, alpha);
+        }
+    }
+
     /**
      * Log debug messages if debug mode is enabled
      */
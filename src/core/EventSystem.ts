@@ -1,104 +1,198 @@
+/**
+ * 'immediate' calls the listeners inside `emit`; 'queued' stores the event
+ * until `processEvents` (called once per frame by the game loop)
+ */
+export type EventDispatchMode = 'immediate' | 'queued';
+
+export interface EventListenerOptions {
+    // Higher runs first (default 0); equal priorities keep registration order
+    priority?: number;
+    once?: boolean;
+    // Entity, script instance, system or scene whose destruction removes the listener
+    owner?: object;
+}
+
+/**
+ * Handle returned by `on`/`once`
+ */
+export interface EventSubscription {
+    readonly type: EventType | EventPattern;
+    // False once unsubscribed, fired (once) or released with its owner
+    readonly active: boolean;
+    unsubscribe(): void;
+}
+
+export interface EventBusOptions {
+    name?: string;
+    // Events bubble to this bus after the local listeners ran
+    parent?: EventBus | null;
+    // Inherited from the parent when not set
+    dispatchMode?: EventDispatchMode;
+}
+
+interface ListenerEntry {
+    callback: EventCallback<any>;
+    priority: number;
+    once: boolean;
+    owner?: object;
+    subscription: EventSubscription;
+    removed: boolean;
+}
+
+interface QueuedEvent {
+    event: GameEvent;
+    bus: EventBus;
+}
+
+// Dispatch mode of root buses that don't set one
+let defaultDispatchMode: EventDispatchMode = 'queued';
 
+// Subscriptions by owner, on any bus (see `releaseSubscriptions`)
+const ownedSubscriptions = new WeakMap<object, Set<EventSubscription>>();
 
 /**
- * Event system for handling game events using the Observer pattern
+ * Event bus using the Observer pattern. The global bus is `EventSystem`;
+ * scenes and entities get child buses whose events bubble up to it.
  */
-export class EventSystem {
-    private static instance: EventSystem;
-    private listeners = new Map<AllEventTypes, EventCallback<any>[]>();
-    private eventQueue: GameEvent[] = [];
+export class EventBus {
+    readonly name: string;
+    private parent: EventBus | null;
+    private dispatchMode: EventDispatchMode | undefined;
+    private listeners = new Map<EventType | EventPattern, ListenerEntry[]>();
+    // Subset of `listeners` keys ending in '*'
+    private patterns = new Set<EventPattern>();
+    private eventQueue: QueuedEvent[] = [];
     private isProcessing = false;
+    private destroyed = false;
 
-    private constructor() { }
+    constructor(options: EventBusOptions = {}) {
+        this.name = options.name ?? 'bus';
+        this.parent = options.parent ?? null;
+        this.dispatchMode = options.dispatchMode;
+    }
 
     /**
-     * Get the singleton instance of the event system
+     * Scoped bus whose events reach this one after its own listeners
      */
-    static getInstance(): EventSystem {
-        if (!EventSystem.instance) {
-            EventSystem.instance = new EventSystem();
-        }
-        return EventSystem.instance;
+    createChild(name?: string, options: Omit<EventBusOptions, 'parent' | 'name'> = {}): EventBus {
+        return new EventBus({ ...options, name: name ?? `${this.name}/child`, parent: this });
+    }
+
+    getParent(): EventBus | null {
+        return this.parent;
+    }
+
+    getRoot(): EventBus {
+        let bus: EventBus = this;
+        while (bus.parent) bus = bus.parent;
+        return bus;
+    }
+
+    setDispatchMode(mode: EventDispatchMode | undefined): void {
+        this.dispatchMode = mode;
+    }
+
+    getDispatchMode(): EventDispatchMode {
+        return this.dispatchMode ?? this.parent?.getDispatchMode() ?? defaultDispatchMode;
     }
 
     /**
      * Emit an event to be processed
      */
-    emit<T>(type: AllEventTypes & T, data: any = null): void {
-        // console.log(`[EventSystem] Emitting event: ${type}`, data);
-        const event: GameEvent = {
-            type,
-            data,
-            timestamp: performance.now()
-        };
+    emit<K extends EventType>(type: K, data: EventPayload<K> = null as EventPayload<K>): void {
+        if (this.destroyed) return;
+        const event = createEvent(type, data, this);
 
-        // In test environment, process events immediately for synchronous testing
-        if (typeof process !== 'undefined' && process.env?.NODE_ENV === 'test') {
+        if (this.getDispatchMode() === 'immediate') {
             this.dispatchEvent(event);
         } else {
-            this.eventQueue.push(event);
+            // Queued events wait in the root bus so one processEvents call flushes every scope
+            this.getRoot().eventQueue.push({ event, bus: this });
         }
     }
 
     /**
-     * Register an event listener
+     * Register an event listener (a number is taken as the priority).
+     * `type` may be a pattern: 'PHYSICS:*' for a namespace, '*' for everything.
      */
-    on<T = any>(type: AllEventTypes, callback: EventCallback<T>): void {
+    on<K extends EventType | EventPattern>(
+        type: K,
+        callback: EventCallback<EventPayload<K>>,
+        options: EventListenerOptions | number = {}
+    ): EventSubscription {
+        const { priority = 0, once = false, owner } = typeof options === 'number' ? { priority: options } : options;
         if (!this.listeners.has(type)) {
             this.listeners.set(type, []);
         }
-        this.listeners.get(type)!.push(callback);
+        if (isPattern(type)) this.patterns.add(type);
+
+        const entries = this.listeners.get(type)!;
+        const entry = { callback, priority, once, owner, removed: false } as ListenerEntry;
+        entry.subscription = {
+            type,
+            get active() { return !entry.removed; },
+            unsubscribe: () => this.removeEntry(type, entry)
+        };
+
+        const index = entries.findIndex(current => current.priority < priority);
+        if (index === -1) entries.push(entry);
+        else entries.splice(index, 0, entry);
+
+        if (owner) {
+            let owned = ownedSubscriptions.get(owner);
+            if (!owned) {
+                owned = new Set();
+                ownedSubscriptions.set(owner, owned);
+            }
+            owned.add(entry.subscription);
+        }
+        return entry.subscription;
     }
 
     /**
      * Register a one-time event listener
      */
-    once<T = any>(type: AllEventTypes, callback: EventCallback<T>): void {
-        const wrappedCallback: EventCallback<T> = (event: GameEvent<T>) => {
-            callback(event);
-            this.off(type, wrappedCallback);
-        };
-        this.on(type, wrappedCallback);
+    once<K extends EventType | EventPattern>(
+        type: K,
+        callback: EventCallback<EventPayload<K>>,
+        options: EventListenerOptions | number = {}
+    ): EventSubscription {
+        const rest = typeof options === 'number' ? { priority: options } : options;
+        return this.on(type, callback, { ...rest, once: true });
     }
 
     /**
-     * Remove an event listener
+     * Remove an event listener (same as `unsubscribe` on its subscription)
      */
-    off<T = any>(type: AllEventTypes, callback: EventCallback<T>): void {
-        const callbacks = this.listeners.get(type);
-        if (callbacks) {
-            const index = callbacks.indexOf(callback);
-            if (index > -1) {
-                callbacks.splice(index, 1);
-            }
-        }
+    off<K extends EventType | EventPattern>(type: K, callback: EventCallback<EventPayload<K>>): void {
+        const entry = this.listeners.get(type)?.find(current => current.callback === callback);
+        if (entry) this.removeEntry(type, entry);
     }
 
     /**
      * Remove all listeners for a specific event type
      */
-    removeAllListeners(type?: AllEventTypes): void {
-        if (type) {
-            this.listeners.delete(type);
-        } else {
-            this.listeners.clear();
+    removeAllListeners(type?: EventType | EventPattern): void {
+        const types = type ? [type] : Array.from(this.listeners.keys());
+        for (const current of types) {
+            for (const entry of [...this.listeners.get(current) ?? []]) this.removeEntry(current, entry);
         }
     }
 
     /**
      * Check if there are any listeners for an event type
      */
-    hasListeners(type: AllEventTypes): boolean {
-        const callbacks = this.listeners.get(type);
-        return callbacks !== undefined && callbacks.length > 0;
+    hasListeners(type: EventType | EventPattern): boolean {
+        const entries = this.listeners.get(type);
+        return entries !== undefined && entries.length > 0;
     }
 
     /**
      * Get the number of listeners for an event type
      */
-    listenerCount(type: AllEventTypes): number {
-        const callbacks = this.listeners.get(type);
-        return callbacks ? callbacks.length : 0;
+    listenerCount(type: EventType | EventPattern): number {
+        const entries = this.listeners.get(type);
+        return entries ? entries.length : 0;
     }
 
     /**
@@ -106,6 +200,12 @@ export class EventSystem {
      * This should be called once per frame in the game loop
      */
     processEvents(): void {
+        const root = this.getRoot();
+        if (root !== this) {
+            root.processEvents();
+            return;
+        }
+
         if (this.isProcessing) {
             console.warn('EventSystem is already processing events. Recursive call detected.');
             return;
@@ -115,8 +215,8 @@ export class EventSystem {
 
         try {
             while (this.eventQueue.length > 0) {
-                const event = this.eventQueue.shift()!;
-                this.dispatchEvent(event);
+                const { event, bus } = this.eventQueue.shift()!;
+                if (!bus.destroyed) bus.dispatchEvent(event);
             }
         } catch (error) {
             console.error('Error processing events:', error);
@@ -126,140 +226,85 @@ export class EventSystem {
     }
 
     /**
-     * Dispatch an event to all registered listeners
+     * Run the listeners of this bus, then bubble up until a listener calls
+     * `stopPropagation`
      */
     private dispatchEvent(event: GameEvent): void {
-        // Dispatch to exact-match listeners
-        const callbacks = this.listeners.get(event.type);
-        const invoked = new Set<EventCallback<any>>();
+        let bus: EventBus | null = this;
+        while (bus && !event.propagationStopped) {
+            bus.dispatchLocal(event);
+            bus = bus.parent;
+        }
+    }
 
-        if (callbacks) {
-            // Create a copy of the callbacks array to avoid issues if listeners are modified during dispatch
-            const callbacksCopy = [...callbacks];
-
-            for (const callback of callbacksCopy) {
-                try {
-                    callback(event);
-                    invoked.add(callback);
-                } catch (error) {
-                    console.error(`Error in event listener for '${event.type}':`, error);
-                }
-            }
+    private dispatchLocal(event: GameEvent): void {
+        // Exact type, compatibility names (see getCompatibleTypes) and matching patterns,
+        // merged by priority. sort is stable, so ties keep that order.
+        const matches: Array<{ entry: ListenerEntry; type: EventType | EventPattern }> = [];
+        for (const type of getCompatibleTypes(event.type)) {
+            for (const entry of this.listeners.get(type) ?? []) matches.push({ entry, type });
         }
+        for (const pattern of this.patterns) {
+            if (!String(event.type).startsWith(pattern.slice(0, -1))) continue;
+            for (const entry of this.listeners.get(pattern) ?? []) matches.push({ entry, type: pattern });
+        }
+        if (matches.length === 0) return;
+        matches.sort((a, b) => b.entry.priority - a.entry.priority);
 
-        // Also dispatch to compatibility names: convert SCREAMING_SNAKE_CASE to camelCase
-        // For example: 'ENGINE:ACTIVE_SCENE_CHANGE' -> 'engine:activeSceneChange' and 'engine:activeSceneChanged'
-        const parts = String(event.type).split(':');
-        if (parts.length === 2) {
-            const prefix = parts[0].toLowerCase();
-            const name = parts[1];
-
-            const toCamel = (s: string) => {
-                return s.toLowerCase().split('_').map((part, i) => i === 0 ? part : (part.charAt(0).toUpperCase() + part.slice(1))).join('');
-            };
-
-            const camelName = toCamel(name);
-            const altType = `${prefix}:${camelName}`;
-
-            // Dispatch to prefix:camelCase (e.g. 'world:entityCreated')
-            if (altType !== event.type) {
-                const altCallbacks = this.listeners.get(altType as any);
-                if (altCallbacks) {
-                    const altCopy = [...altCallbacks];
-                    for (const callback of altCopy) {
-                        if (invoked.has(callback)) continue;
-                        try {
-                            callback(event);
-                            invoked.add(callback);
-                        } catch (error) {
-                            console.error(`Error in event listener for '${altType}':`, error);
-                        }
-                    }
-                }
+        const invoked = new Set<EventCallback<any>>();
+        for (const { entry, type } of matches) {
+            // Removed by an earlier listener of this dispatch
+            if (entry.removed || invoked.has(entry.callback)) continue;
+            if (entry.once) this.removeEntry(type, entry);
+            try {
+                entry.callback(event);
+                invoked.add(entry.callback);
+            } catch (error) {
+                console.error(`Error in event listener for '${type}':`, error);
             }
+            if (event.propagationStopped) return;
+        }
+    }
 
-            // Also dispatch to unprefixed camelCase name (e.g. 'entityCreated' or 'keyDown')
-            if (camelName !== event.type) {
-                const nameOnlyCallbacks = this.listeners.get(camelName as any);
-                if (nameOnlyCallbacks) {
-                    const nameOnlyCopy = [...nameOnlyCallbacks];
-                    for (const callback of nameOnlyCopy) {
-                        if (invoked.has(callback)) continue;
-                        try {
-                            callback(event);
-                            invoked.add(callback);
-                        } catch (error) {
-                            console.error(`Error in event listener for '${camelName}':`, error);
-                        }
-                    }
-                }
-            }
+    private removeEntry(type: EventType | EventPattern, entry: ListenerEntry): void {
+        if (entry.removed) return;
+        entry.removed = true;
 
-            // Special-case: if the name ends with '_CHANGE', also emit a past-tense 'Changed' variant for both prefixed and unprefixed forms
-            if (name.endsWith('_CHANGE')) {
-                const changedName = camelName + 'd';
-                const changedType = `${prefix}:${changedName}`;
-
-                if (changedType !== event.type && changedType !== altType) {
-                    const changedCallbacks = this.listeners.get(changedType as any);
-                    if (changedCallbacks) {
-                        const changedCopy = [...changedCallbacks];
-                        for (const callback of changedCopy) {
-                            if (invoked.has(callback)) continue;
-                            try {
-                                callback(event);
-                                invoked.add(callback);
-                            } catch (error) {
-                                console.error(`Error in event listener for '${changedType}':`, error);
-                            }
-                        }
-                    }
-                }
-
-                if (changedName !== event.type && changedName !== camelName) {
-                    const changedOnlyCallbacks = this.listeners.get(changedName as any);
-                    if (changedOnlyCallbacks) {
-                        const changedOnlyCopy = [...changedOnlyCallbacks];
-                        for (const callback of changedOnlyCopy) {
-                            if (invoked.has(callback)) continue;
-                            try {
-                                callback(event);
-                                invoked.add(callback);
-                            } catch (error) {
-                                console.error(`Error in event listener for '${changedName}':`, error);
-                            }
-                        }
-                    }
-                }
-            }
+        const entries = this.listeners.get(type);
+        const index = entries ? entries.indexOf(entry) : -1;
+        if (index > -1) entries!.splice(index, 1);
+        if (entries && entries.length === 0) {
+            this.listeners.delete(type);
+            if (isPattern(type)) this.patterns.delete(type);
+        }
+
+        if (entry.owner) {
+            const owned = ownedSubscriptions.get(entry.owner);
+            owned?.delete(entry.subscription);
+            if (owned?.size === 0) ownedSubscriptions.delete(entry.owner);
         }
     }
 
     /**
      * Emit an event immediately without queuing (use with caution)
      */
-    emitImmediate(type: AllEventTypes, data: any = null): void {
-        const event: GameEvent = {
-            type,
-            data,
-            timestamp: performance.now()
-        };
-
-        this.dispatchEvent(event);
+    emitImmediate<K extends EventType>(type: K, data: EventPayload<K> = null as EventPayload<K>): void {
+        if (this.destroyed) return;
+        this.dispatchEvent(createEvent(type, data, this));
     }
 
     /**
      * Clear all queued events
      */
     clearQueue(): void {
-        this.eventQueue = [];
+        this.getRoot().eventQueue = [];
     }
 
     /**
      * Get the current number of queued events
      */
     getQueueLength(): number {
-        return this.eventQueue.length;
+        return this.getRoot().eventQueue.length;
     }
 
     /**
@@ -274,20 +319,66 @@ export class EventSystem {
      */
     getDebugInfo(): { [eventType: string]: number } {
         const info: { [eventType: string]: number } = {};
-        for (const [eventType, callbacks] of this.listeners) {
-            info[eventType] = callbacks.length;
+        for (const [eventType, entries] of this.listeners) {
+            info[eventType] = entries.length;
         }
         return info;
     }
 
+    isDestroyed(): boolean {
+        return this.destroyed;
+    }
+
     /**
-     * Destroy the event system and clean up all resources
-     * This also resets the singleton instance for testing purposes
+     * Drop every listener. Queued events of this bus are discarded and later
+     * emits are ignored.
      */
     destroy(): void {
-        this.listeners.clear();
+        this.removeAllListeners();
         this.eventQueue = [];
         this.isProcessing = false;
+        this.destroyed = this.parent !== null;
+    }
+}
+
+/**
+ * Global event bus (singleton)
+ */
+export class EventSystem extends EventBus {
+    private static instance: EventSystem;
+
+    private constructor() {
+        super({ name: 'global' });
+    }
+
+    /**
+     * Get the singleton instance of the event system
+     */
+    static getInstance(): EventSystem {
+        if (!EventSystem.instance) {
+            EventSystem.instance = new EventSystem();
+        }
+        return EventSystem.instance;
+    }
+
+    /**
+     * Dispatch mode of the global bus when `setDispatchMode` was not called
+     * ('queued' by default; test setups usually switch it to 'immediate')
+     */
+    static setDefaultDispatchMode(mode: EventDispatchMode): void {
+        defaultDispatchMode = mode;
+    }
+
+    static getDefaultDispatchMode(): EventDispatchMode {
+        return defaultDispatchMode;
+    }
+
+    /**
+     * Destroy the event system and clean up all resources
+     * This also resets the singleton instance for testing purposes
+     */
+    destroy(): void {
+        super.destroy();
         EventSystem.instance = null as any;
     }
 
@@ -301,3 +392,60 @@ export class EventSystem {
         EventSystem.instance = null as any;
     }
 }
+
+/**
+ * Remove every listener registered with `owner` on any bus. Called when
+ * entities, script instances, systems and scenes are destroyed.
+ */
+export function releaseSubscriptions(owner: object): void {
+    const owned = ownedSubscriptions.get(owner);
+    if (!owned) return;
+    ownedSubscriptions.delete(owner);
+    for (const subscription of owned) subscription.unsubscribe();
+}
+
+function isPattern(type: string): type is EventPattern {
+    return type.endsWith('*');
+}
+
+function createEvent(type: EventType, data: any, target: EventBus): GameEvent {
+    let stopped = false;
+    return {
+        type,
+        data,
+        timestamp: performance.now(),
+        target,
+        stopPropagation: () => { stopped = true; },
+        get propagationStopped() { return stopped; }
+    };
+}
+
+/**
+ * Names a listener may have used for `type`: SCREAMING_SNAKE_CASE is also
+ * delivered as camelCase, with and without prefix. For example
+ * 'ENGINE:ACTIVE_SCENE_CHANGE' -> 'engine:activeSceneChange', 'activeSceneChange'
+ * and, for '_CHANGE' names, the past tense 'engine:activeSceneChanged' / 'activeSceneChanged'
+ */
+function getCompatibleTypes(type: EventType): EventType[] {
+    const types: string[] = [type];
+    const parts = String(type).split(':');
+    if (parts.length !== 2) return types as EventType[];
+
+    const prefix = parts[0].toLowerCase();
+    const name = parts[1];
+    const camelName = name.toLowerCase().split('_')
+        .map((part, i) => i === 0 ? part : (part.charAt(0).toUpperCase() + part.slice(1)))
+        .join('');
+    const altType = `${prefix}:${camelName}`;
+
+    if (altType !== type) types.push(altType);
+    if (camelName !== type) types.push(camelName);
+
+    if (name.endsWith('_CHANGE')) {
+        const changedName = camelName + 'd';
+        const changedType = `${prefix}:${changedName}`;
+        if (changedType !== type && changedType !== altType) types.push(changedType);
+        if (changedName !== type && changedName !== camelName) types.push(changedName);
+    }
+    return types as EventType[];
+}
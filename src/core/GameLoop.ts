@@ -1,27 +1,69 @@
 import { GAMELOOP_EVENTS } from '@/types/event-const';
-import { EventSystem } from './EventSystem';
+import { EventSystem, releaseSubscriptions } from './EventSystem';
+import type { World } from '@/ecs/World';
+import type { Scene } from './Scene';
+import { SystemScheduler, SystemOptions, SystemPhase, SystemRef } from './SystemScheduler';
+import { BrowserClock, LoopClock } from './Clock';
 
 /**
  * System interface for the ECS pattern
  */
 export interface System {
-    update(entities: any[], deltaTime: number): void;
+    // `alpha` (0..1) is passed from the update phase on: how far the frame
+    // is between the last fixed step and the next one, for interpolation
+    update(entities: any[], deltaTime: number, alpha?: number): void;
+    // Default phase when the system is added without one
+    readonly phase?: SystemPhase;
     initialize?(): void;
     destroy?(): void;
+    // ECS systems deliver their onAdded/onRemoved/onChanged hooks here
+    flushChanges?(): void;
+    // Called with the scene (and its world) the system runs on
+    setWorld?(world: World | null): void;
+    setScene?(scene: Scene | null): void;
+    // Called when the owning scene is paused/left and resumed/entered again
+    suspend?(): void;
+    resume?(): void;
 }
 
 /**
- * Game loop with fixed timestep for consistent physics and variable rendering
+ * Called at the start of every phase, before the phase's systems
+ */
+export type PhaseListener = (phase: SystemPhase, deltaTime: number, alpha?: number) => void;
+
+const STEP_EPSILON = 1e-9;
+
+export interface GameLoopOptions {
+    // Seconds per fixed step (default 1/60)
+    fixedTimestep?: number;
+    // Most fixed steps run in one frame (default 5)
+    maxFrameSkip?: number;
+    // Longest frame accepted, in seconds, to avoid the spiral of death (default 0.25)
+    maxDeltaTime?: number;
+    // Game time per real second (default 1)
+    timeScale?: number;
+    // Defaults to performance.now + requestAnimationFrame
+    clock?: LoopClock;
+}
+
+/**
+ * Game loop with fixed timestep for consistent physics and variable rendering.
+ * Each animation frame runs the phases input, preUpdate, fixedUpdate (once
+ * per accumulated fixed step), update, lateUpdate, render and postRender.
  */
 export class GameLoop {
     private lastTime = 0;
     private accumulator = 0;
-    private readonly FIXED_TIMESTEP = 1 / 60; // 60 FPS for physics
-    private readonly MAX_FRAMESKIP = 5;
+    private fixedTimestep = 1 / 60; // 60 FPS for physics
+    private maxFrameSkip = 5;
+    private maxDeltaTime = 0.25;
+    private timeScale = 1;
+    private clock: LoopClock;
     private running = false;
     private requestId: number | null = null;
 
-    private systems: System[] = [];
+    private scheduler: SystemScheduler;
+    private phaseListeners: Array<{ listener: PhaseListener; priority: number }> = [];
     private entities: any[] = [];
     private eventSystem: EventSystem;
 
@@ -31,22 +73,37 @@ export class GameLoop {
     private currentFPS = 0;
     private averageFrameTime = 0;
 
-    constructor() {
+    constructor(options: GameLoopOptions = {}) {
         this.eventSystem = EventSystem.getInstance();
+        this.clock = options.clock ?? new BrowserClock();
+        if (options.fixedTimestep !== undefined) this.setFixedTimestep(options.fixedTimestep);
+        if (options.maxFrameSkip !== undefined) this.setMaxFrameSkip(options.maxFrameSkip);
+        if (options.maxDeltaTime !== undefined) this.maxDeltaTime = options.maxDeltaTime;
+        if (options.timeScale !== undefined) this.setTimeScale(options.timeScale);
+        this.scheduler = new SystemScheduler((system, error) => {
+            console.error('Error in system update:', error);
+            this.eventSystem.emit(GAMELOOP_EVENTS.SYSTEM_ERROR, { system, error });
+        });
     }
 
     /**
-     * get all systems in the game loop
+     * get all systems in the game loop, in execution order
      */
-    getSystems(): System[] {
-        return this.systems;
+    getSystems(phase?: SystemPhase): System[] {
+        return this.scheduler.getSystems(phase);
+    }
+
+    getScheduler(): SystemScheduler {
+        return this.scheduler;
     }
 
     /**
-     * Add a system to the game loop
+     * Add a system to the game loop. Without a phase it runs in the system's
+     * own `phase` or in 'fixedUpdate'.
      */
-    addSystem(system: System): void {
-        this.systems.push(system);
+    addSystem(system: System, options: SystemOptions = {}): void {
+        if (this.scheduler.has(system)) return;
+        this.scheduler.add(system, options);
         if (system.initialize) {
             system.initialize();
         }
@@ -56,13 +113,39 @@ export class GameLoop {
      * Remove a system from the game loop
      */
     removeSystem(system: System): void {
-        const index = this.systems.indexOf(system);
-        if (index > -1) {
-            if (system.destroy) {
-                system.destroy();
-            }
-            this.systems.splice(index, 1);
+        if (!this.scheduler.remove(system)) return;
+        system.destroy?.();
+        releaseSubscriptions(system);
+    }
+
+    /**
+     * Disabled systems keep their place in the order but are not updated
+     */
+    setSystemEnabled(system: SystemRef, enabled: boolean): boolean {
+        return this.scheduler.setEnabled(system, enabled);
+    }
+
+    isSystemEnabled(system: SystemRef): boolean {
+        return this.scheduler.isEnabled(system);
+    }
+
+    /**
+     * Run `listener` at the start of every phase (the engine updates the
+     * scenes of the stack from here). Higher priorities run first, e.g. an
+     * input replay that must set the input state before the scenes update.
+     * Returns a function that removes it.
+     */
+    onPhase(listener: PhaseListener, priority: number = 0): () => void {
+        const index = this.phaseListeners.findIndex(entry => entry.priority < priority);
+        const entry = { listener, priority };
+        if (index === -1) {
+            this.phaseListeners.push(entry);
+        } else {
+            this.phaseListeners.splice(index, 0, entry);
         }
+        return () => {
+            this.phaseListeners = this.phaseListeners.filter(e => e !== entry);
+        };
     }
 
     /**
@@ -82,7 +165,7 @@ export class GameLoop {
         }
 
         this.running = true;
-        this.lastTime = performance.now() / 1000;
+        this.lastTime = this.clock.now();
         this.accumulator = 0;
         this.frameCount = 0;
         this.fpsUpdateTime = this.lastTime;
@@ -101,7 +184,7 @@ export class GameLoop {
 
         this.running = false;
         if (this.requestId !== null) {
-            cancelAnimationFrame(this.requestId);
+            this.clock.cancelFrame(this.requestId);
             this.requestId = null;
         }
 
@@ -133,7 +216,62 @@ export class GameLoop {
      * Get the fixed timestep value
      */
     getFixedTimestep(): number {
-        return this.FIXED_TIMESTEP;
+        return this.fixedTimestep;
+    }
+
+    /**
+     * Seconds of game time per fixed step (1 / rate)
+     */
+    setFixedTimestep(seconds: number): void {
+        if (!(seconds > 0)) {
+            throw new Error(`Fixed timestep must be positive, got ${seconds}`);
+        }
+        this.fixedTimestep = seconds;
+    }
+
+    setMaxFrameSkip(steps: number): void {
+        this.maxFrameSkip = Math.max(1, Math.floor(steps));
+    }
+
+    /**
+     * Game time per real second: 0.25 for slow motion, 0 to freeze the
+     * simulation while the loop keeps rendering
+     */
+    setTimeScale(scale: number): void {
+        if (!(scale >= 0)) {
+            throw new Error(`Time scale must be zero or positive, got ${scale}`);
+        }
+        this.timeScale = scale;
+    }
+
+    getTimeScale(): number {
+        return this.timeScale;
+    }
+
+    setClock(clock: LoopClock): void {
+        if (this.running && this.requestId !== null) {
+            this.clock.cancelFrame(this.requestId);
+            this.requestId = clock.requestFrame(() => this.loop());
+        }
+        this.clock = clock;
+        this.lastTime = clock.now();
+    }
+
+    getClock(): LoopClock {
+        return this.clock;
+    }
+
+    /**
+     * Run one frame for `deltaTime` real seconds without waiting for the
+     * clock (headless simulations). The time scale applies.
+     */
+    advance(deltaTime: number): void {
+        if (this.running) {
+            console.warn('Game loop is running; stop it before advancing it by hand');
+            return;
+        }
+        this.frame(Math.min(deltaTime, this.maxDeltaTime) * this.timeScale);
+        this.updatePerformanceMetrics(this.clock.now(), deltaTime);
     }
 
     /**
@@ -142,35 +280,47 @@ export class GameLoop {
     private loop(): void {
         if (!this.running) return;
 
-        const currentTime = performance.now() / 1000;
+        const currentTime = this.clock.now();
         let deltaTime = currentTime - this.lastTime;
 
         // Cap deltaTime to prevent spiral of death
-        deltaTime = Math.min(deltaTime, 0.25);
+        deltaTime = Math.min(deltaTime, this.maxDeltaTime);
         this.lastTime = currentTime;
 
+        this.frame(deltaTime * this.timeScale);
+
+        // Update performance metrics
+        this.updatePerformanceMetrics(currentTime, deltaTime);
+
+        // Schedule next frame
+        this.requestId = this.clock.requestFrame(() => this.loop());
+    }
+
+    /**
+     * One frame of `deltaTime` seconds of game time: every phase once and
+     * as many fixed steps as fit in the accumulated time
+     */
+    private frame(deltaTime: number): void {
         this.accumulator += deltaTime;
 
+        this.runPhase('input', deltaTime);
+        this.runPhase('preUpdate', deltaTime);
+
         // Fixed timestep updates (physics, logic)
         let frameskip = 0;
-        while (this.accumulator >= this.FIXED_TIMESTEP && frameskip < this.MAX_FRAMESKIP) {
-            this.fixedUpdate(this.FIXED_TIMESTEP);
-            this.accumulator -= this.FIXED_TIMESTEP;
+        // The epsilon keeps float error from dropping a step (0.1s at 50 Hz is 5 steps)
+        while (this.accumulator >= this.fixedTimestep - STEP_EPSILON && frameskip < this.maxFrameSkip) {
+            this.fixedUpdate(this.fixedTimestep);
+            this.accumulator -= this.fixedTimestep;
             frameskip++;
         }
 
-        // Variable timestep update (rendering, interpolation)
-        const alpha = this.accumulator / this.FIXED_TIMESTEP;
+        // Variable timestep update and the single render of this frame
+        const alpha = Math.max(0, this.accumulator / this.fixedTimestep);
         this.variableUpdate(deltaTime, alpha);
 
         // Process events
         this.eventSystem.processEvents();
-
-        // Update performance metrics
-        this.updatePerformanceMetrics(currentTime, deltaTime);
-
-        // Schedule next frame
-        this.requestId = requestAnimationFrame(() => this.loop());
     }
 
     /**
@@ -178,17 +328,7 @@ export class GameLoop {
      */
     private fixedUpdate(deltaTime: number): void {
         this.eventSystem.emit(GAMELOOP_EVENTS.FIXED_UPDATE, { deltaTime });
-
-        // Update all systems with fixed timestep
-        for (const system of this.systems) {
-            try {
-                system.update(this.entities, deltaTime);
-            } catch (error) {
-                console.error('Error in system update:', error);
-                this.eventSystem.emit(GAMELOOP_EVENTS.SYSTEM_ERROR, { system, error });
-            }
-        }
-
+        this.runPhase('fixedUpdate', deltaTime);
         this.eventSystem.emit(GAMELOOP_EVENTS.FIXED_UPDATE_COMPLETE, { deltaTime });
     }
 
@@ -197,14 +337,32 @@ export class GameLoop {
      */
     private variableUpdate(deltaTime: number, alpha: number): void {
         this.eventSystem.emit(GAMELOOP_EVENTS.VARIABLE_UPDATE, { deltaTime, alpha });
+        this.runPhase('update', deltaTime, alpha);
 
-        // This is where rendering and interpolation would happen
-        // The alpha value can be used for smooth interpolation between physics states
+        this.eventSystem.emit(GAMELOOP_EVENTS.LATE_UPDATE, { deltaTime, alpha });
+        this.runPhase('lateUpdate', deltaTime, alpha);
 
-        this.eventSystem.emit(GAMELOOP_EVENTS.RENDER, { deltaTime, alpha });
+        this.render(deltaTime, alpha);
         this.eventSystem.emit(GAMELOOP_EVENTS.VARIABLE_UPDATE_COMPLETE, { deltaTime, alpha });
     }
 
+    /**
+     * Render and postRender phases. `alpha` can be used for smooth
+     * interpolation between the last two fixed steps.
+     */
+    private render(deltaTime: number, alpha: number): void {
+        this.eventSystem.emit(GAMELOOP_EVENTS.RENDER, { deltaTime, alpha });
+        this.runPhase('render', deltaTime, alpha);
+        this.runPhase('postRender', deltaTime, alpha);
+    }
+
+    private runPhase(phase: SystemPhase, deltaTime: number, alpha?: number): void {
+        for (const { listener } of this.phaseListeners) {
+            listener(phase, deltaTime, alpha);
+        }
+        this.scheduler.run(phase, this.entities, deltaTime, alpha);
+    }
+
     /**
      * Update performance tracking metrics
      */
@@ -239,21 +397,26 @@ export class GameLoop {
      */
     resume(): void {
         if (this.running) {
-            this.lastTime = performance.now() / 1000;
+            this.lastTime = this.clock.now();
             this.accumulator = 0;
             this.eventSystem.emit(GAMELOOP_EVENTS.RESUME);
         }
     }
 
     /**
-     * Step the game loop one fixed timestep (useful for debugging)
+     * Advance a stopped loop by `count` frames of exactly one fixed step
+     * each, ignoring the time scale (debugging, tests, server simulations)
      */
-    step(): void {
-        if (!this.running) {
-            this.fixedUpdate(this.FIXED_TIMESTEP);
-            this.eventSystem.processEvents();
-            this.eventSystem.emit(GAMELOOP_EVENTS.STEP);
+    step(count: number = 1): void {
+        if (this.running) {
+            console.warn('Game loop is running; stop it before stepping');
+            return;
+        }
+
+        for (let i = 0; i < count; i++) {
+            this.frame(this.fixedTimestep);
         }
+        this.eventSystem.emit(GAMELOOP_EVENTS.STEP, { count });
     }
 
     /**
@@ -263,13 +426,14 @@ export class GameLoop {
         this.stop();
 
         // Destroy all systems
-        for (const system of this.systems) {
+        for (const system of this.scheduler.clear()) {
             if (system.destroy) {
                 system.destroy();
             }
+            releaseSubscriptions(system);
         }
 
-        this.systems = [];
+        this.phaseListeners = [];
         this.entities = [];
 
         this.eventSystem.emit(GAMELOOP_EVENTS.DESTROY);
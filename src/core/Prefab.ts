@@ -0,0 +1,279 @@
+import { Entity, setParent } from '@/ecs';
+import { scriptRegistry } from '@/ecs/ScriptRegistry';
+import { ScriptEntry } from '@/ecs/ScriptComponent';
+import { lightRegistry } from '@/light/LightingSystem';
+import { LightEntry } from '@/light/LightComponent';
+import { ParticleRegistry } from '@/particles/ParticleRegistry';
+import { createDefaultParticleComponent, ParticleComponent } from '@/particles/ParticleComponent';
+import { Vector2 } from '@/math/Vector2';
+import { sceneSerializer } from './SceneSerializer';
+
+export interface PrefabScript {
+    scriptName: string;
+    state?: Record<string, any>;
+}
+
+export interface PrefabLight {
+    lightType: string;
+    state?: Record<string, any>;
+}
+
+export interface PrefabEmitter {
+    // Particle type registered in the ParticleRegistry (defaults are taken from it)
+    particleType?: string;
+    state?: Partial<ParticleComponent>;
+}
+
+/**
+ * Data-only description of an entity. Everything must be JSON-serializable.
+ */
+export interface PrefabDefinition {
+    // Base prefab whose data is merged under this one
+    extends?: string;
+    name?: string;
+    tags?: string[];
+    layer?: string | number;
+    active?: boolean;
+    // Components keyed by component type; the `type` field is filled in
+    components?: Record<string, Record<string, any>>;
+    scripts?: PrefabScript[];
+    lights?: PrefabLight[];
+    emitters?: PrefabEmitter[];
+    children?: PrefabChild[];
+}
+
+/**
+ * A child is either an inline definition or a reference to another prefab
+ */
+export interface PrefabChild extends PrefabDefinition {
+    prefab?: string;
+    overrides?: PrefabOverrides;
+}
+
+/**
+ * Per-instance changes applied on top of a prefab
+ */
+export interface PrefabOverrides {
+    position?: { x: number; y: number };
+    rotation?: number;
+    scale?: { x: number; y: number };
+    name?: string;
+    // Added to the prefab tags
+    tags?: string[];
+    layer?: string | number;
+    active?: boolean;
+    // Deep-merged into the prefab components
+    components?: Record<string, Record<string, any>>;
+    // State merged into the script entries with the same name
+    scripts?: Record<string, Record<string, any>>;
+    // State merged into the light entries with the same type
+    lights?: Record<string, Record<string, any>>;
+}
+
+/**
+ * Anything entities can be added to (`Scene` or `World`)
+ */
+export interface PrefabTarget {
+    addEntity(entity: Entity): void;
+}
+
+/**
+ * Registry of reusable entity templates. Prefabs can extend other prefabs and
+ * nest them as children; `instantiate` resolves everything into fresh entities.
+ */
+export class PrefabRegistry {
+    private prefabs = new Map<string, PrefabDefinition>();
+
+    register(name: string, definition: PrefabDefinition): void {
+        if (this.prefabs.has(name)) {
+            console.warn(`Prefab '${name}' is already registered. Overwriting...`);
+        }
+        this.prefabs.set(name, clone(definition));
+    }
+
+    unregister(name: string): void {
+        this.prefabs.delete(name);
+    }
+
+    has(name: string): boolean {
+        return this.prefabs.has(name);
+    }
+
+    get(name: string): PrefabDefinition | undefined {
+        const definition = this.prefabs.get(name);
+        return definition ? clone(definition) : undefined;
+    }
+
+    getRegisteredPrefabs(): string[] {
+        return Array.from(this.prefabs.keys());
+    }
+
+    /**
+     * Definition with its `extends` chain merged, nested prefab children
+     * expanded inline and the overrides applied
+     */
+    resolve(name: string, overrides: PrefabOverrides = {}): PrefabDefinition {
+        return this.expand(applyOverrides(this.flatten(name, []), overrides), [name]);
+    }
+
+    /**
+     * Create the entities of a prefab, add them to `target` (parents before
+     * children) and link the hierarchy. Returns the root entity.
+     * The whole prefab is resolved first, so errors leave `target` untouched.
+     */
+    instantiate(name: string, target: PrefabTarget, overrides: PrefabOverrides = {}): Entity {
+        return build(this.resolve(name, overrides), target);
+    }
+
+    private flatten(name: string, chain: string[]): PrefabDefinition {
+        if (chain.includes(name)) {
+            throw new Error(`Prefab cycle detected: ${[...chain, name].join(' -> ')}`);
+        }
+        const definition = this.prefabs.get(name);
+        if (!definition) {
+            throw new Error(`Prefab '${name}' is not registered`);
+        }
+
+        const own = clone(definition);
+        if (!own.extends) return own;
+
+        const base = this.flatten(own.extends, [...chain, name]);
+        delete own.extends;
+        return merge(base, own);
+    }
+
+    private expand(definition: PrefabDefinition, chain: string[]): PrefabDefinition {
+        if (!definition.children) return definition;
+
+        definition.children = definition.children.map(child => {
+            if (!child.prefab) {
+                return this.expand(applyOverrides(child, child.overrides ?? {}), chain);
+            }
+            if (chain.includes(child.prefab)) {
+                throw new Error(`Prefab cycle detected: ${[...chain, child.prefab].join(' -> ')}`);
+            }
+            const { prefab, overrides, ...inline } = child;
+            const resolved = applyOverrides(merge(this.flatten(prefab, []), inline), overrides ?? {});
+            return this.expand(resolved, [...chain, prefab]);
+        });
+        return definition;
+    }
+}
+
+function build(definition: PrefabDefinition, target: PrefabTarget): Entity {
+    const entity = new Entity();
+    if (definition.name) entity.setName(definition.name);
+    for (const tag of definition.tags ?? []) entity.addTag(tag);
+    if (definition.layer !== undefined) entity.setLayer(definition.layer);
+    if (definition.active !== undefined) entity.active = definition.active;
+
+    for (const [type, data] of Object.entries(definition.components ?? {})) {
+        // Same path as loaded scenes: Vector2 transforms, Map of animation clips...
+        const serializer = sceneSerializer.getComponentSerializer(type);
+        const component = serializer ? serializer.deserialize({ ...clone(data), type }) : clone(data);
+        entity.addComponent({ ...component, type });
+    }
+    if (definition.scripts?.length) {
+        entity.addComponent({ type: 'script', scripts: definition.scripts.map(createScriptEntry) });
+    }
+    if (definition.lights?.length) {
+        entity.addComponent({
+            type: 'light',
+            lights: definition.lights.map(createLightEntry),
+            castShadows: true,
+            affectedByAmbient: true
+        });
+    }
+    if (definition.emitters?.length) {
+        entity.addComponent({ type: 'particleEmitter', emitters: definition.emitters.map(createEmitter) });
+    }
+
+    target.addEntity(entity);
+
+    for (const child of definition.children ?? []) {
+        setParent(build(child, target), entity);
+    }
+    return entity;
+}
+
+function createScriptEntry(script: PrefabScript): ScriptEntry {
+    if (!scriptRegistry.has(script.scriptName)) {
+        console.warn(`Prefab script '${script.scriptName}' is not registered`);
+    }
+    return { scriptName: script.scriptName, state: clone(script.state ?? {}) };
+}
+
+function createLightEntry(light: PrefabLight): LightEntry {
+    if (!lightRegistry.has(light.lightType)) {
+        console.warn(`Prefab light '${light.lightType}' is not registered`);
+    }
+    return { lightType: light.lightType, state: clone(light.state ?? {}) };
+}
+
+function createEmitter(emitter: PrefabEmitter): ParticleComponent {
+    const registry = ParticleRegistry.getInstance();
+    const defaults = (emitter.particleType && registry.createDefaultParticle(emitter.particleType))
+        || createDefaultParticleComponent();
+    return registry.deserializeEmitter({ ...registry.serializeEmitter(defaults), ...(emitter.state ?? {}) });
+}
+
+function applyOverrides(definition: PrefabDefinition, overrides: PrefabOverrides): PrefabDefinition {
+    const result: PrefabChild = clone(definition);
+    delete result.overrides;
+    if (overrides.name !== undefined) result.name = overrides.name;
+    if (overrides.tags) result.tags = [...new Set([...(result.tags ?? []), ...overrides.tags])];
+    if (overrides.layer !== undefined) result.layer = overrides.layer;
+    if (overrides.active !== undefined) result.active = overrides.active;
+
+    if (overrides.components) {
+        result.components = merge(result.components ?? {}, overrides.components);
+    }
+
+    if (overrides.position || overrides.rotation !== undefined || overrides.scale) {
+        const components = result.components ?? (result.components = {});
+        const transform = components.transform ?? (components.transform = {
+            position: new Vector2(0, 0), rotation: 0, scale: new Vector2(1, 1)
+        });
+        if (overrides.position) transform.position = new Vector2(overrides.position.x, overrides.position.y);
+        if (overrides.rotation !== undefined) transform.rotation = overrides.rotation;
+        if (overrides.scale) transform.scale = new Vector2(overrides.scale.x, overrides.scale.y);
+    }
+
+    for (const script of result.scripts ?? []) {
+        const state = overrides.scripts?.[script.scriptName];
+        if (state) script.state = merge(script.state ?? {}, state);
+    }
+    for (const light of result.lights ?? []) {
+        const state = overrides.lights?.[light.lightType];
+        if (state) light.state = merge(light.state ?? {}, state);
+    }
+
+    return result;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Deep merge where `override` wins; arrays are replaced, not concatenated
+ */
+function merge<T>(base: T, override: any): T {
+    if (!isPlainObject(base) || !isPlainObject(override)) {
+        return clone(override === undefined ? base : override);
+    }
+
+    const result: Record<string, any> = clone(base);
+    for (const [key, value] of Object.entries(override)) {
+        if (value === undefined) continue;
+        result[key] = key in result ? merge(result[key], value) : clone(value);
+    }
+    return result as T;
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// ===== INSTANCIA GLOBAL =====
+export const prefabRegistry = new PrefabRegistry();
@@ -0,0 +1,319 @@
+import { EventSystem } from './EventSystem';
+import { SAVE_EVENTS } from '@/types/event-const';
+import { Entity } from '@/ecs/Entity';
+import { ScriptComponent, ScriptEntry } from '@/ecs/ScriptComponent';
+import { EntityData, SceneSerializer, sceneSerializer, SCENE_SCHEMA_VERSION } from './SceneSerializer';
+import { MemorySaveStorage, SaveStorage } from './SaveStorage';
+import type { Scene } from './Scene';
+import { RandomService, RandomState, randomService } from '@/math/Random';
+
+/**
+ * Current version of the save snapshot format (the entity data inside it
+ * follows `SCENE_SCHEMA_VERSION` and is migrated by the scene serializer)
+ */
+export const SAVE_FORMAT_VERSION = 1;
+
+/**
+ * Marks an entity whose state goes into save games.
+ * Without `components` every component of the entity is saved.
+ */
+export interface PersistentComponent {
+    type: 'persistent';
+    components?: string[];
+}
+
+export interface SaveSlotInfo {
+    slot: string;
+    sceneName: string;
+    // Date.now() when the slot was written
+    savedAt: number;
+    label?: string;
+    // Data URL (see `captureThumbnail`)
+    thumbnail?: string;
+    // Game-defined data shown in save menus (play time, chapter...)
+    custom?: Record<string, any>;
+}
+
+export interface SaveSnapshot {
+    version: number;
+    schemaVersion: number;
+    info: SaveSlotInfo;
+    entities: EntityData[];
+    // Random streams at save time, so loaded games roll the same numbers
+    random?: RandomState;
+}
+
+export interface SaveOptions {
+    label?: string;
+    thumbnail?: string | HTMLCanvasElement;
+    custom?: Record<string, any>;
+}
+
+export interface SaveManagerOptions {
+    storage?: SaveStorage;
+    serializer?: SceneSerializer;
+    // Random service captured with each save (null to leave it out)
+    random?: RandomService | null;
+}
+
+const SLOT_PREFIX = 'slot:';
+const INFO_PREFIX = 'info:';
+
+/**
+ * Save slots built on top of the scene serializer. Only persistent state is
+ * written: entities with a `persistent` component (all or the listed
+ * components) and the live state of scripts that implement `getAllProperties`.
+ *
+ * Entities are matched by id when loading, so persistent entities need stable
+ * ids (the ones from scene files or `new Entity('player')`).
+ */
+export class SaveManager {
+    private storage: SaveStorage;
+    private serializer: SceneSerializer;
+    private random: RandomService | null;
+
+    constructor(options: SaveManagerOptions = {}) {
+        this.storage = options.storage ?? new MemorySaveStorage();
+        this.serializer = options.serializer ?? sceneSerializer;
+        this.random = options.random === undefined ? randomService : options.random;
+    }
+
+    // Looked up on every emit: the global saveManager outlives EventSystem.reset()
+    private get eventSystem(): EventSystem {
+        return EventSystem.getInstance();
+    }
+
+    setStorage(storage: SaveStorage): void {
+        this.storage = storage;
+    }
+
+    getStorage(): SaveStorage {
+        return this.storage;
+    }
+
+    /**
+     * Capture the persistent state of `scene` without writing it anywhere
+     */
+    createSnapshot(scene: Scene, slot: string, options: SaveOptions = {}): SaveSnapshot {
+        const info: SaveSlotInfo = { slot, sceneName: scene.name, savedAt: Date.now() };
+        if (options.label !== undefined) info.label = options.label;
+        if (options.thumbnail !== undefined) {
+            info.thumbnail = typeof options.thumbnail === 'string'
+                ? options.thumbnail
+                : captureThumbnail(options.thumbnail);
+        }
+        if (options.custom) info.custom = JSON.parse(JSON.stringify(options.custom));
+
+        const entities: EntityData[] = [];
+        for (const entity of scene.getEntities() as Entity[]) {
+            const data = this.captureEntity(entity);
+            if (data) entities.push(data);
+        }
+
+        const snapshot: SaveSnapshot = { version: SAVE_FORMAT_VERSION, schemaVersion: SCENE_SCHEMA_VERSION, info, entities };
+        if (this.random) snapshot.random = this.random.getState();
+        return snapshot;
+    }
+
+    /**
+     * Apply a snapshot to `scene`. Saved entities are updated in place;
+     * missing ones are recreated only from full `persistent` captures, since
+     * script-only and partial entries hold just a slice of the entity.
+     * Persistent entities that are not in the snapshot were destroyed before
+     * saving and are removed.
+     */
+    applySnapshot(scene: Scene, snapshot: SaveSnapshot): void {
+        if (snapshot.version > SAVE_FORMAT_VERSION) {
+            throw new Error(`Save data version ${snapshot.version} is newer than the supported version ${SAVE_FORMAT_VERSION}`);
+        }
+
+        // Reuse the scene migrations for the entity data
+        const { entities } = this.serializer.migrate({
+            version: snapshot.schemaVersion,
+            name: snapshot.info.sceneName,
+            active: true,
+            layers: [],
+            camera: null,
+            entities: snapshot.entities
+        });
+
+        const saved = new Set(entities.map(data => data.id));
+        for (const entity of scene.getEntities() as Entity[]) {
+            if (entity.hasComponent('persistent') && !saved.has(entity.id)) {
+                scene.removeEntity(entity.id);
+            }
+        }
+
+        for (const data of entities) {
+            const entity: Entity | undefined = scene.getEntity(data.id);
+            if (!entity && !isFullCapture(data)) continue;
+
+            const restored = this.serializer.deserializeEntity(data);
+            if (!entity) {
+                scene.addEntity(restored);
+                continue;
+            }
+
+            entity.active = restored.active;
+            entity.setLayer(restored.getLayer());
+            for (const component of restored.getComponents()) {
+                const live = component.type === 'script' && entity.getComponent<ScriptComponent>('script');
+                if (live) {
+                    restoreScripts(live, component as ScriptComponent);
+                } else {
+                    entity.addComponent(component);
+                }
+            }
+        }
+
+        if (snapshot.random && this.random) {
+            this.random.setState(snapshot.random);
+        }
+    }
+
+    /**
+     * Write the persistent state of `scene` to `slot`
+     */
+    async save(slot: string, scene: Scene, options: SaveOptions = {}): Promise<SaveSlotInfo> {
+        this.eventSystem.emit(SAVE_EVENTS.SAVING, { slot, scene });
+        try {
+            const snapshot = this.createSnapshot(scene, slot, options);
+            await this.storage.write(SLOT_PREFIX + slot, JSON.stringify(snapshot));
+            await this.storage.write(INFO_PREFIX + slot, JSON.stringify(snapshot.info));
+            this.eventSystem.emit(SAVE_EVENTS.SAVED, { slot, scene, info: snapshot.info });
+            return snapshot.info;
+        } catch (error) {
+            this.eventSystem.emit(SAVE_EVENTS.ERROR, { slot, operation: 'save', error });
+            throw error;
+        }
+    }
+
+    /**
+     * Restore `slot` into `scene`. Returns null when the slot is empty, without
+     * emitting any event.
+     */
+    async load(slot: string, scene: Scene): Promise<SaveSlotInfo | null> {
+        try {
+            const raw = await this.storage.read(SLOT_PREFIX + slot);
+            if (raw === null) return null;
+
+            this.eventSystem.emit(SAVE_EVENTS.LOADING, { slot, scene });
+            const snapshot: SaveSnapshot = JSON.parse(raw);
+            this.applySnapshot(scene, snapshot);
+            this.eventSystem.emit(SAVE_EVENTS.LOADED, { slot, scene, info: snapshot.info });
+            return snapshot.info;
+        } catch (error) {
+            this.eventSystem.emit(SAVE_EVENTS.ERROR, { slot, operation: 'load', error });
+            throw error;
+        }
+    }
+
+    async read(slot: string): Promise<SaveSnapshot | null> {
+        const raw = await this.storage.read(SLOT_PREFIX + slot);
+        return raw === null ? null : JSON.parse(raw);
+    }
+
+    async has(slot: string): Promise<boolean> {
+        return (await this.storage.read(INFO_PREFIX + slot)) !== null;
+    }
+
+    async delete(slot: string): Promise<void> {
+        try {
+            await this.storage.remove(SLOT_PREFIX + slot);
+            await this.storage.remove(INFO_PREFIX + slot);
+            this.eventSystem.emit(SAVE_EVENTS.DELETED, { slot });
+        } catch (error) {
+            this.eventSystem.emit(SAVE_EVENTS.ERROR, { slot, operation: 'delete', error });
+            throw error;
+        }
+    }
+
+    /**
+     * Metadata of every slot, most recent first (snapshots are not read)
+     */
+    async listSlots(): Promise<SaveSlotInfo[]> {
+        const slots: SaveSlotInfo[] = [];
+        for (const key of await this.storage.keys()) {
+            if (!key.startsWith(INFO_PREFIX)) continue;
+            const raw = await this.storage.read(key);
+            if (raw !== null) slots.push(JSON.parse(raw));
+        }
+        return slots.sort((a, b) => b.savedAt - a.savedAt);
+    }
+
+    private captureEntity(entity: Entity): EntityData | null {
+        const persistent = entity.getComponent<PersistentComponent>('persistent');
+        if (persistent) {
+            const data = this.serializer.serializeEntity(entity);
+            if (persistent.components) {
+                const types = new Set(['persistent', ...persistent.components]);
+                data.components = data.components.filter(component => types.has(component.type));
+            }
+            return data;
+        }
+
+        // Scripts that expose their state are saved even without `persistent`
+        const script = entity.getComponent<ScriptComponent>('script');
+        if (!script || !getScriptEntries(script).some(entry => entry.instance?.getAllProperties)) {
+            return null;
+        }
+        const data = this.serializer.serializeEntity(entity);
+        data.components = data.components.filter(component => component.type === 'script');
+        return data;
+    }
+}
+
+/**
+ * Whether `data` holds a whole entity: persistent with no component filter
+ */
+function isFullCapture(data: EntityData): boolean {
+    const persistent = data.components.find(component => component.type === 'persistent');
+    return !!persistent && !persistent.components;
+}
+
+function getScriptEntries(script: ScriptComponent): ScriptEntry[] {
+    const entries = Array.isArray(script.scripts) ? [...script.scripts] : [];
+    if (script.scriptName) entries.unshift(script);
+    return entries;
+}
+
+/**
+ * Copy saved script state into the live entries (and their instances)
+ * instead of replacing the component, so running instances are kept
+ */
+function restoreScripts(live: ScriptComponent, saved: ScriptComponent): void {
+    const liveEntries = getScriptEntries(live);
+    const savedEntries = getScriptEntries(saved);
+
+    savedEntries.forEach((entry, index) => {
+        const target = liveEntries[index]?.scriptName === entry.scriptName
+            ? liveEntries[index]
+            : liveEntries.find(candidate => candidate.scriptName === entry.scriptName);
+        if (!target || !entry.state) return;
+
+        target.state = entry.state;
+        if (target.instance?.setAllProperties) {
+            target.instance.setAllProperties(entry.state);
+        } else if (target.instance) {
+            Object.assign(target.instance, entry.state);
+        }
+    });
+}
+
+/**
+ * Downscaled PNG data URL of a canvas for save-slot menus
+ */
+export function captureThumbnail(source: HTMLCanvasElement, maxWidth: number = 160): string {
+    const scale = Math.min(1, maxWidth / (source.width || 1));
+    const thumbnail = document.createElement('canvas');
+    thumbnail.width = Math.max(1, Math.round(source.width * scale));
+    thumbnail.height = Math.max(1, Math.round(source.height * scale));
+
+    const ctx = thumbnail.getContext('2d');
+    if (!ctx) return source.toDataURL('image/png');
+    ctx.drawImage(source, 0, 0, thumbnail.width, thumbnail.height);
+    return thumbnail.toDataURL('image/png');
+}
+
+// ===== INSTANCIA GLOBAL =====
+export const saveManager = new SaveManager();
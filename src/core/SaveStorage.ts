@@ -0,0 +1,128 @@
+/**
+ * Async key/value store used by `SaveManager`. Implement it to keep saves
+ * anywhere else (a server, the file system, a platform SDK...).
+ */
+export interface SaveStorage {
+    read(key: string): Promise<string | null>;
+    write(key: string, value: string): Promise<void>;
+    remove(key: string): Promise<void>;
+    keys(): Promise<string[]>;
+}
+
+/**
+ * Volatile storage; useful for tests and in-session checkpoints
+ */
+export class MemorySaveStorage implements SaveStorage {
+    private data = new Map<string, string>();
+
+    async read(key: string): Promise<string | null> {
+        return this.data.get(key) ?? null;
+    }
+
+    async write(key: string, value: string): Promise<void> {
+        this.data.set(key, value);
+    }
+
+    async remove(key: string): Promise<void> {
+        this.data.delete(key);
+    }
+
+    async keys(): Promise<string[]> {
+        return Array.from(this.data.keys());
+    }
+}
+
+/**
+ * Web Storage backend. Every key is stored under `prefix` so several games
+ * can share the same origin.
+ */
+export class LocalStorageSaveStorage implements SaveStorage {
+    constructor(
+        private prefix: string = 'atomic-saves:',
+        private storage: Storage = window.localStorage
+    ) { }
+
+    async read(key: string): Promise<string | null> {
+        return this.storage.getItem(this.prefix + key);
+    }
+
+    async write(key: string, value: string): Promise<void> {
+        this.storage.setItem(this.prefix + key, value);
+    }
+
+    async remove(key: string): Promise<void> {
+        this.storage.removeItem(this.prefix + key);
+    }
+
+    async keys(): Promise<string[]> {
+        const keys: string[] = [];
+        for (let i = 0; i < this.storage.length; i++) {
+            const key = this.storage.key(i);
+            if (key?.startsWith(this.prefix)) keys.push(key.slice(this.prefix.length));
+        }
+        return keys;
+    }
+}
+
+/**
+ * IndexedDB backend for saves too large for localStorage (e.g. thumbnails)
+ */
+export class IndexedDBSaveStorage implements SaveStorage {
+    private db: Promise<IDBDatabase> | null = null;
+
+    constructor(
+        private dbName: string = 'atomic-saves',
+        private storeName: string = 'slots',
+        private factory: IDBFactory = window.indexedDB
+    ) { }
+
+    async read(key: string): Promise<string | null> {
+        const value = await this.request('readonly', store => store.get(key));
+        return typeof value === 'string' ? value : null;
+    }
+
+    async write(key: string, value: string): Promise<void> {
+        await this.request('readwrite', store => store.put(value, key));
+    }
+
+    async remove(key: string): Promise<void> {
+        await this.request('readwrite', store => store.delete(key));
+    }
+
+    async keys(): Promise<string[]> {
+        const keys = await this.request('readonly', store => store.getAllKeys());
+        return (keys as IDBValidKey[]).map(String);
+    }
+
+    close(): void {
+        this.db?.then(db => db.close());
+        this.db = null;
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = this.factory.open(this.dbName, 1);
+                request.onupgradeneeded = () => {
+                    if (!request.result.objectStoreNames.contains(this.storeName)) {
+                        request.result.createObjectStore(this.storeName);
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Allow a retry after a failed open
+            this.db.catch(() => { this.db = null; });
+        }
+        return this.db;
+    }
+
+    private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const db = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
@@ -1,6 +1,12 @@
-import { EventSystem } from './EventSystem';
-import { Entity } from '@/ecs';
-import { SCENE_EVENTS } from '@/types/event-const';
+import { EventBus, EventSystem, releaseSubscriptions } from './EventSystem';
+import { CommandBuffer, CommandTarget, Entity, SpatialIndex, SpatialIndexOptions, World, getDescendants } from '@/ecs';
+import { GAMELOOP_EVENTS, SCENE_EVENTS } from '@/types/event-const';
+import { PrefabOverrides, PrefabRegistry, prefabRegistry } from './Prefab';
+import { SceneData, SceneSerializer, sceneSerializer } from './SceneSerializer';
+import type { CameraSettings } from '@/graphics/Camera2D';
+import type { AssetType } from '@/assets/AssetLoader';
+import type { System } from './GameLoop';
+import { SystemScheduler, SystemOptions, SystemPhase, SystemRef } from './SystemScheduler';
 
 export interface CollisionLayer {
     name: string;
@@ -11,21 +17,63 @@ export interface CollisionLayer {
     opacity?: number; // 0..1
 }
 
+/**
+ * How a scene treats the scenes below it in the engine's scene stack
+ */
+export interface ScenePolicy {
+    // Scenes below keep updating (e.g. a HUD); false pauses them (e.g. a pause menu)
+    updateBelow: boolean;
+    // Scenes below are still drawn underneath this one
+    renderBelow: boolean;
+}
+
+export interface SceneAsset {
+    name: string;
+    type: AssetType;
+    path: string;
+}
+
 /**
  * Scene class for organizing and managing game entities
  */
 export class Scene {
     public readonly name: string;
     public active: boolean = false;
-
-    private entities = new Map<EntityId, any>();
-    private eventSystem: EventSystem;
+    // Covered by a scene that does not let the scenes below update
+    public paused: boolean = false;
+
+    // Archetype storage shared by every system running on this scene
+    private world: World;
+    // Child of the global bus: scene events bubble up to EventSystem
+    private events: EventBus;
+    private entityEvents = new Map<EntityId, EventBus>();
     private initialized = false;
     private layers = new Map<string, CollisionLayer>();
+    private cameraSettings: CameraSettings | null = null;
+    private policy: ScenePolicy = { updateBelow: false, renderBelow: false };
+    private preloadAssets: SceneAsset[] = [];
+    // Multiplies the loop's delta time for this scene's update and systems
+    private timeScale = 1;
+    // Systems owned by this scene; the fixedUpdate phase runs in `update`
+    private scheduler: SystemScheduler;
+    private systemsRunning = false;
+    // Spawns and destructions requested while systems run, applied at sync points
+    private commands = new CommandBuffer();
+    private commandTarget: CommandTarget = {
+        addEntity: entity => this.addEntity(entity),
+        getEntity: entityId => this.world.getEntity(entityId),
+        destroyEntity: entityId => this.destroyEntityNow(entityId)
+    };
 
     constructor(name: string) {
         this.name = name;
-        this.eventSystem = EventSystem.getInstance();
+        this.events = EventSystem.getInstance().createChild(`scene:${name}`);
+        this.world = new World();
+        this.world.setEventBus(this.events);
+        this.scheduler = new SystemScheduler((system, error) => {
+            console.error(`Error in system update (scene '${this.name}'):`, error);
+            this.events.emit(GAMELOOP_EVENTS.SYSTEM_ERROR, { system, error, scene: this });
+        });
         this.initializeDefaultLayers();
     }
 
@@ -39,7 +87,7 @@ export class Scene {
         }
 
         this.initialized = true;
-        this.eventSystem.emit(SCENE_EVENTS.INITIALIZE, { scene: this });
+        this.events.emit(SCENE_EVENTS.INITIALIZE, { scene: this });
     }
 
     /**
@@ -47,7 +95,7 @@ export class Scene {
      */
     activate(): void {
         this.active = true;
-        this.eventSystem.emit(SCENE_EVENTS.ACTIVATE, { scene: this });
+        this.events.emit(SCENE_EVENTS.ACTIVATE, { scene: this });
     }
 
     /**
@@ -55,7 +103,105 @@ export class Scene {
      */
     deactivate(): void {
         this.active = false;
-        this.eventSystem.emit(SCENE_EVENTS.DEACTIVATE, { scene: this });
+        this.events.emit(SCENE_EVENTS.DEACTIVATE, { scene: this });
+    }
+
+    /**
+     * Stop updating the scene while it stays in the scene stack
+     */
+    pause(): void {
+        if (this.paused) return;
+        this.paused = true;
+        this.suspendSystems();
+        this.events.emit(SCENE_EVENTS.PAUSE, { scene: this });
+    }
+
+    resume(): void {
+        if (!this.paused) return;
+        this.paused = false;
+        if (this.active) this.resumeSystems();
+        this.events.emit(SCENE_EVENTS.RESUME, { scene: this });
+    }
+
+    /**
+     * Add a system owned by this scene. It runs on this scene's world and
+     * entities only, and is suspended/resumed with the scene. Phases and
+     * ordering work as in `engine.addSystem`.
+     */
+    addSystem(system: System, options: SystemOptions = {}): void {
+        if (this.scheduler.has(system)) {
+            console.warn(`System is already part of scene '${this.name}'`);
+            return;
+        }
+
+        this.scheduler.add(system, options);
+        system.initialize?.();
+        system.setWorld?.(this.world);
+        system.setScene?.(this);
+        if (this.systemsRunning) system.resume?.();
+    }
+
+    removeSystem(system: System): boolean {
+        if (!this.scheduler.remove(system)) return false;
+
+        if (this.systemsRunning) system.suspend?.();
+        system.setWorld?.(null);
+        system.destroy?.();
+        releaseSubscriptions(system);
+        return true;
+    }
+
+    /**
+     * Systems in execution order (all phases or one)
+     */
+    getSystems(phase?: SystemPhase): System[] {
+        return this.scheduler.getSystems(phase);
+    }
+
+    setSystemEnabled(system: SystemRef, enabled: boolean): boolean {
+        return this.scheduler.setEnabled(system, enabled);
+    }
+
+    /**
+     * First system of the given class (e.g. `scene.getSystem(PhysicsSystem)`)
+     */
+    getSystem<T extends System>(type: abstract new (...args: any[]) => T): T | undefined {
+        return this.getSystems().find((system): system is T => system instanceof type);
+    }
+
+    /**
+     * Scene-local time scale on top of the loop's one (bullet time for the
+     * gameplay scene while the HUD above keeps normal speed)
+     */
+    setTimeScale(scale: number): void {
+        if (!(scale >= 0)) {
+            throw new Error(`Time scale must be zero or positive, got ${scale}`);
+        }
+        this.timeScale = scale;
+    }
+
+    getTimeScale(): number {
+        return this.timeScale;
+    }
+
+    setPolicy(policy: Partial<ScenePolicy>): void {
+        this.policy = { ...this.policy, ...policy };
+    }
+
+    getPolicy(): ScenePolicy {
+        return { ...this.policy };
+    }
+
+    /**
+     * Assets loaded through the AssetManager before the scene is shown
+     * by a scene stack change
+     */
+    setPreloadAssets(assets: SceneAsset[]): void {
+        this.preloadAssets = [...assets];
+    }
+
+    getPreloadAssets(): SceneAsset[] {
+        return [...this.preloadAssets];
     }
 
     /**
@@ -66,50 +212,97 @@ export class Scene {
             throw new Error('Entity must have a valid id');
         }
 
-        if (this.entities.has(entity.id)) {
+        if (this.world.hasEntity(entity.id)) {
             console.warn(`Entity with id '${entity.id}' already exists in scene '${this.name}'`);
             return;
         }
 
-        this.entities.set(entity.id, entity);
-        this.eventSystem.emit(SCENE_EVENTS.ENTITY_ADDED, {
+        this.world.addEntity(entity);
+        this.events.emit(SCENE_EVENTS.ENTITY_ADDED, {
             scene: this,
             entity,
             entityId: entity.id
         });
     }
 
+    /**
+     * Create the entities of a registered prefab in this scene
+     * (e.g. `scene.instantiate('enemy', { position: { x: 10, y: 20 } })`)
+     */
+    instantiate(prefab: string, overrides: PrefabOverrides = {}, registry: PrefabRegistry = prefabRegistry): Entity {
+        return registry.instantiate(prefab, this, overrides);
+    }
+
     /**
      * Remove an entity from the scene
      */
     removeEntity(entityId: EntityId): boolean {
-        const entity = this.entities.get(entityId);
+        const entity = this.world.getEntity(entityId);
         if (!entity) {
             return false;
         }
 
-        this.entities.delete(entityId);
-        this.eventSystem.emit(SCENE_EVENTS.ENTITY_REMOVED, {
-            scene: this,
-            entity,
-            entityId
-        });
+        // Children leave the scene together with their parent
+        const removed = [entity, ...getDescendants(entity)];
+        this.world.detachEntity(entityId);
+        this.onEntitiesRemoved(removed);
 
         return true;
     }
 
+    /**
+     * Add an entity at the next sync point. Safe to call from systems,
+     * scripts and collision callbacks; returns the entity so it can be
+     * set up right away.
+     */
+    spawn(entity: Entity): Entity {
+        return this.commands.spawn(entity);
+    }
+
+    /**
+     * Destroy an entity and its children at the next sync point (after the
+     * running phase). WORLD_EVENTS.ENTITY_DESTROYED is sent before the
+     * components are removed; pooled entities go back to their pool.
+     */
+    destroyEntity(entity: Entity | EntityId): void {
+        this.commands.destroy(entity);
+    }
+
+    /**
+     * Commands applied at the next sync point (add or remove components,
+     * or run any other structural change)
+     */
+    getCommandBuffer(): CommandBuffer {
+        return this.commands;
+    }
+
+    /**
+     * Apply the pending commands now. The scene does it after each of its
+     * phases and the engine before each loop phase.
+     */
+    flushCommands(): number {
+        return this.commands.flush(this.commandTarget);
+    }
+
     /**
      * Get an entity by its ID
      */
     getEntity(entityId: EntityId): any | undefined {
-        return this.entities.get(entityId);
+        return this.world.getEntity(entityId);
     }
 
     /**
      * Get all entities in the scene
      */
     getEntities(): any[] {
-        return Array.from(this.entities.values());
+        return this.world.getEntities();
+    }
+
+    /**
+     * Get the ECS world holding this scene's entities
+     */
+    getWorld(): World {
+        return this.world;
     }
 
     /**
@@ -123,14 +316,14 @@ export class Scene {
      * Check if an entity exists in the scene
      */
     hasEntity(entityId: EntityId): boolean {
-        return this.entities.has(entityId);
+        return this.world.hasEntity(entityId);
     }
 
     /**
      * Get the number of entities in the scene
      */
     getEntityCount(): number {
-        return this.entities.size;
+        return this.world.getEntityCount();
     }
 
     /**
@@ -140,6 +333,41 @@ export class Scene {
         return this.getActiveEntities().length;
     }
 
+    /**
+     * Track this scene's entities in a spatial hash (default) or quadtree.
+     * Render culling, the CollisionSystem and lighting use it once enabled;
+     * scripts can query it through `getSpatialIndex()`.
+     */
+    enableSpatialIndex(options: SpatialIndexOptions = {}): SpatialIndex {
+        this.world.getSpatialIndex()?.dispose();
+        const index = new SpatialIndex(this.world, options);
+        this.world.setSpatialIndex(index);
+        return index;
+    }
+
+    disableSpatialIndex(): void {
+        this.world.getSpatialIndex()?.dispose();
+        this.world.setSpatialIndex(null);
+    }
+
+    getSpatialIndex(): SpatialIndex | null {
+        return this.world.getSpatialIndex();
+    }
+
+    /**
+     * First entity with this name (indexed, no scan)
+     */
+    getByName(name: string): Entity | undefined {
+        return this.world.getEntityByName(name);
+    }
+
+    /**
+     * Entities with a tag (indexed, no scan)
+     */
+    getByTag(tag: string): Entity[] {
+        return this.world.getEntitiesByTag(tag);
+    }
+
     /**
      * Find entities by a predicate function
      */
@@ -155,48 +383,67 @@ export class Scene {
     }
 
     /**
-     * Find entities by component type
+     * Find entities by component type (cached world query)
      */
     findEntitiesWithComponent(componentType: string): any[] {
-        return this.getEntities().filter(entity =>
-            entity.hasComponent && entity.hasComponent(componentType)
-        );
+        return [...this.world.query([componentType]).getEntities()];
     }
 
     /**
      * Find entities with multiple components
      */
     findEntitiesWithComponents(componentTypes: string[]): any[] {
-        return this.getEntities().filter(entity => {
-            if (!entity.hasComponent) return false;
-            return componentTypes.every(type => entity.hasComponent(type));
-        });
+        return [...this.world.query(componentTypes).getEntities()];
     }
 
     /**
      * Clear all entities from the scene
      */
     clear(): void {
-        const entityIds = Array.from(this.entities.keys());
+        const entityIds = this.world.getEntities().map(entity => entity.id);
 
         for (const entityId of entityIds) {
             this.removeEntity(entityId);
         }
 
-        this.eventSystem.emit(SCENE_EVENTS.CLEARED, { scene: this });
+        this.events.emit(SCENE_EVENTS.CLEARED, { scene: this });
     }
 
     /**
      * Update the scene (called by the game loop)
      */
     update(deltaTime: number): void {
-        if (!this.active) return;
+        if (!this.active || this.paused) return;
 
-        this.eventSystem.emit(SCENE_EVENTS.UPDATE, {
+        this.world.getSpatialIndex()?.sync();
+        deltaTime *= this.timeScale;
+        const entities = this.getActiveEntities();
+        this.events.emit(SCENE_EVENTS.UPDATE, {
             scene: this,
             deltaTime,
-            entities: this.getActiveEntities()
+            entities
         });
+
+        this.scheduler.run('fixedUpdate', entities, deltaTime);
+        this.flushCommands();
+    }
+
+    /**
+     * Run the scene's systems of a phase other than fixedUpdate (`update`
+     * runs that one). Render phases also run while the scene is paused, so
+     * scenes drawn below an overlay keep rendering.
+     */
+    runPhase(phase: SystemPhase, deltaTime: number, alpha?: number): void {
+        if (phase === 'fixedUpdate') {
+            this.update(deltaTime);
+            return;
+        }
+        const rendering = phase === 'render' || phase === 'postRender';
+        if (!this.active || (this.paused && !rendering)) return;
+
+        this.world.getSpatialIndex()?.sync();
+        this.scheduler.run(phase, this.getActiveEntities(), deltaTime * this.timeScale, alpha);
+        this.flushCommands();
     }
 
     /**
@@ -204,26 +451,59 @@ export class Scene {
      */
     onEnter(): void {
         this.activate();
-        this.eventSystem.emit(SCENE_EVENTS.ENTER, { scene: this });
+        if (!this.paused) this.resumeSystems();
+        this.events.emit(SCENE_EVENTS.ENTER, { scene: this });
     }
 
     /**
      * Called when the scene is exited/becomes inactive
      */
     onExit(): void {
+        this.suspendSystems();
+        this.paused = false;
         this.deactivate();
-        this.eventSystem.emit(SCENE_EVENTS.EXIT, { scene: this });
+        this.events.emit(SCENE_EVENTS.EXIT, { scene: this });
     }
 
     /**
      * Destroy the scene and clean up resources
      */
     destroy(): void {
+        for (const system of this.getSystems().reverse()) {
+            this.removeSystem(system);
+        }
+        // Entities are only detached, so release what they own here
+        for (const entity of this.world.getEntities()) releaseSubscriptions(entity);
+        this.commands.clear();
         this.clear();
         this.deactivate();
         this.initialized = false;
 
-        this.eventSystem.emit(SCENE_EVENTS.DESTROY, { scene: this });
+        this.events.emit(SCENE_EVENTS.DESTROY, { scene: this });
+        this.events.removeAllListeners();
+        releaseSubscriptions(this);
+    }
+
+    /**
+     * Event bus of this scene. Listeners here only hear this scene's events;
+     * everything emitted here also reaches the global EventSystem.
+     */
+    getEventBus(): EventBus {
+        return this.events;
+    }
+
+    /**
+     * Event bus of one entity, created on first use. Its events bubble to the
+     * scene bus and then to the global one; it is destroyed with the entity.
+     */
+    getEntityEventBus(entity: Entity | EntityId): EventBus {
+        const id = typeof entity === 'string' ? entity : entity.id;
+        let bus = this.entityEvents.get(id);
+        if (!bus) {
+            bus = this.events.createChild(`entity:${id}`);
+            this.entityEvents.set(id, bus);
+        }
+        return bus;
     }
 
     /**
@@ -232,6 +512,8 @@ export class Scene {
     getDebugInfo(): {
         name: string;
         active: boolean;
+        paused: boolean;
+        timeScale: number;
         initialized: boolean;
         entityCount: number;
         activeEntityCount: number;
@@ -239,12 +521,51 @@ export class Scene {
         return {
             name: this.name,
             active: this.active,
+            paused: this.paused,
+            timeScale: this.timeScale,
             initialized: this.initialized,
             entityCount: this.getEntityCount(),
             activeEntityCount: this.getActiveEntityCount()
         };
     }
 
+    private destroyEntityNow(entityId: EntityId): void {
+        const entity = this.world.getEntity(entityId);
+        if (!entity) return;
+
+        const removed = [entity, ...getDescendants(entity)];
+        this.world.removeEntity(entityId);
+        this.onEntitiesRemoved(removed);
+    }
+
+    private onEntitiesRemoved(removed: Entity[]): void {
+        for (const current of removed) {
+            this.entityEvents.get(current.id)?.destroy();
+            this.entityEvents.delete(current.id);
+            this.events.emit(SCENE_EVENTS.ENTITY_REMOVED, {
+                scene: this,
+                entity: current,
+                entityId: current.id
+            });
+        }
+    }
+
+    private suspendSystems(): void {
+        if (!this.systemsRunning) return;
+        this.systemsRunning = false;
+        for (const system of this.getSystems()) system.suspend?.();
+    }
+
+    private resumeSystems(): void {
+        if (this.systemsRunning) return;
+        this.systemsRunning = true;
+        for (const system of this.getSystems()) {
+            // Re-register scene-wide resolvers (layer names) taken over by other scenes
+            system.setScene?.(this);
+            system.resume?.();
+        }
+    }
+
     /**
      * Initialize default collision layers
      */
@@ -309,46 +630,29 @@ export class Scene {
     }
 
     /**
-     * Serialize the scene to JSON (basic implementation)
+     * Camera state restored by the engine when this scene becomes active
      */
-    toJSON(): any {
-        return {
-            name: this.name,
-            active: this.active,
-            entities: this.getEntities().map(entity => {
-                if (typeof entity.toJSON === 'function') {
-                    return entity.toJSON();
-                }
-                return {
-                    id: entity.id,
-                    // Additional entity serialization would go here
-                };
-            })
-        };
+    setCameraSettings(settings: CameraSettings | null): void {
+        this.cameraSettings = settings;
+    }
+
+    getCameraSettings(): CameraSettings | null {
+        return this.cameraSettings;
     }
 
     /**
-     * Create a scene from JSON data (basic implementation)
+     * Serialize the scene (layers, entities, components and camera) using
+     * the versioned scene format
      */
-    static fromJSON(data: any): Scene {
-        const scene = new Scene(data.name);
-        scene.active = data.active || false;
-
-        // Basic entity deserialization: create Entities with id and set layer if present
-        if (Array.isArray(data.entities)) {
-            for (const e of data.entities) {
-                try {
-                    const entity = new (require('../ecs/Entity').Entity)(e.id);
-                    if (e.layer) entity.setLayer(e.layer);
-                    // Components deserialization is intentionally minimal here
-                    scene.addEntity(entity);
-                } catch (err) {
-                    // best-effort deserialization; skip on error
-                    continue;
-                }
-            }
-        }
+    toJSON(serializer: SceneSerializer = sceneSerializer): SceneData {
+        return serializer.serialize(this);
+    }
 
-        return scene;
+    /**
+     * Create a scene from `toJSON()` output. Older files are migrated to
+     * the current schema version first.
+     */
+    static fromJSON(data: any, serializer: SceneSerializer = sceneSerializer): Scene {
+        return serializer.deserializeInto(new Scene(data.name), data);
     }
 }
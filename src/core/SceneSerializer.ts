@@ -0,0 +1,246 @@
+import { Entity } from '@/ecs/Entity';
+import { Component } from '@/ecs/Component';
+import { ScriptComponent, ScriptEntry } from '@/ecs/ScriptComponent';
+import { LightComponent, LightEntry } from '@/light/LightComponent';
+import { ParticleRegistry } from '@/particles/ParticleRegistry';
+import { CameraSettings } from '@/graphics/Camera2D';
+import { Vector2 } from '@/math/Vector2';
+import type { Scene, CollisionLayer } from './Scene';
+
+/**
+ * Current version of the scene file format. Bump it together with a
+ * migration whenever the shape of `SceneData` changes.
+ */
+export const SCENE_SCHEMA_VERSION = 1;
+
+export interface EntityData {
+    id: string;
+    active: boolean;
+    layer: string | number;
+    name?: string;
+    tags?: string[];
+    components: any[];
+}
+
+export interface SceneData {
+    version: number;
+    name: string;
+    active: boolean;
+    layers: CollisionLayer[];
+    camera: CameraSettings | null;
+    entities: EntityData[];
+}
+
+/**
+ * Converts one component type to plain JSON and back
+ */
+export interface ComponentSerializer {
+    serialize(component: any): any;
+    deserialize(data: any): Component;
+}
+
+/**
+ * Upgrades scene data from `version` to `version + 1`
+ */
+export type SceneMigration = (data: any) => any;
+
+/**
+ * Scene save/load with per-component serializers and versioned migrations.
+ * Components without a registered serializer are copied as plain JSON.
+ */
+export class SceneSerializer {
+    private serializers = new Map<string, ComponentSerializer>();
+    private migrations = new Map<number, SceneMigration>();
+
+    constructor() {
+        this.registerBuiltInSerializers();
+        this.registerBuiltInMigrations();
+    }
+
+    registerComponentSerializer(type: string, serializer: ComponentSerializer): void {
+        this.serializers.set(type, serializer);
+    }
+
+    getComponentSerializer(type: string): ComponentSerializer | undefined {
+        return this.serializers.get(type);
+    }
+
+    /**
+     * Register the migration that upgrades data saved with `fromVersion`
+     */
+    registerMigration(fromVersion: number, migrate: SceneMigration): void {
+        this.migrations.set(fromVersion, migrate);
+    }
+
+    serialize(scene: Scene): SceneData {
+        return {
+            version: SCENE_SCHEMA_VERSION,
+            name: scene.name,
+            active: scene.active,
+            layers: scene.getLayers().map(layer => ({ ...layer })),
+            camera: scene.getCameraSettings(),
+            entities: scene.getEntities().map(entity => this.serializeEntity(entity))
+        };
+    }
+
+    /**
+     * Fill `scene` from saved data, migrating it to the current version first
+     */
+    deserializeInto(scene: Scene, raw: any): Scene {
+        const data = this.migrate(raw);
+
+        scene.active = data.active || false;
+        for (const layer of data.layers) {
+            scene.addLayer(layer.name, layer.bit, layer.mask, layer.visible ?? true, layer.opacity ?? 1);
+        }
+        scene.setCameraSettings(data.camera ? plain(data.camera) : null);
+
+        for (const entityData of data.entities) {
+            scene.addEntity(this.deserializeEntity(entityData));
+        }
+        return scene;
+    }
+
+    serializeEntity(entity: Entity): EntityData {
+        return {
+            id: entity.id,
+            active: entity.active,
+            layer: entity.getLayer(),
+            ...(entity.getName() ? { name: entity.getName() } : {}),
+            ...(entity.getTags().length > 0 ? { tags: entity.getTags() } : {}),
+            components: entity.getComponents().map(component => {
+                const serializer = this.serializers.get(component.type);
+                const data = serializer ? serializer.serialize(component) : plain(component);
+                return { ...data, type: component.type };
+            })
+        };
+    }
+
+    deserializeEntity(data: EntityData): Entity {
+        const components = (data.components ?? []).map(component => {
+            const serializer = this.serializers.get(component.type);
+            return serializer ? { ...serializer.deserialize(component), type: component.type } : plain(component);
+        });
+        return Entity.fromJSON({ ...data, components });
+    }
+
+    /**
+     * Run migrations until the data matches `SCENE_SCHEMA_VERSION`.
+     * Data without a version is the pre-versioning `Scene.toJSON()` format (0).
+     */
+    migrate(raw: any): SceneData {
+        let data = plain(raw);
+        let version = typeof data.version === 'number' ? data.version : 0;
+
+        if (version > SCENE_SCHEMA_VERSION) {
+            throw new Error(`Scene data version ${version} is newer than the supported version ${SCENE_SCHEMA_VERSION}`);
+        }
+
+        while (version < SCENE_SCHEMA_VERSION) {
+            const migration = this.migrations.get(version);
+            if (!migration) {
+                throw new Error(`No scene migration registered from version ${version}`);
+            }
+            data = migration(data);
+            version++;
+            data.version = version;
+        }
+        return data;
+    }
+
+    private registerBuiltInSerializers(): void {
+        this.registerComponentSerializer('transform', {
+            serialize: (c) => plain(c),
+            deserialize: (d) => ({
+                ...d,
+                position: new Vector2(d.position?.x ?? 0, d.position?.y ?? 0),
+                rotation: d.rotation ?? 0,
+                scale: new Vector2(d.scale?.x ?? 1, d.scale?.y ?? 1)
+            })
+        });
+
+        // Animation clips are kept in a Map at runtime
+        this.registerComponentSerializer('animation', {
+            serialize: (c) => ({
+                ...plain({ ...c, animations: undefined }),
+                animations: c.animations instanceof Map ? plain(Object.fromEntries(c.animations)) : plain(c.animations ?? {})
+            }),
+            deserialize: (d) => ({ ...d, animations: new Map(Object.entries(d.animations ?? {})) })
+        });
+
+        // Drop the runtime playback handle
+        this.registerComponentSerializer('audio', {
+            serialize: ({ playingHandle: _handle, ...c }) => plain(c),
+            deserialize: (d) => ({ ...d })
+        });
+
+        // Instances are recreated by ScriptSystem from `scriptName` + `state`
+        this.registerComponentSerializer('script', {
+            serialize: (c: ScriptComponent) => {
+                const out: any = { type: 'script' };
+                if (c.scriptName) Object.assign(out, captureScript(c));
+                if (Array.isArray(c.scripts)) out.scripts = c.scripts.map(captureScript);
+                return out;
+            },
+            deserialize: (d) => plain(d)
+        });
+
+        // Instances are recreated by LightingSystem through the LightRegistry
+        this.registerComponentSerializer('light', {
+            serialize: (c: LightComponent) => {
+                const { instance: _instance, lights, lightType, state, ...rest } = c;
+                const out: any = plain(rest);
+                if (lightType) Object.assign(out, captureLight({ lightType, state, instance: c.instance }));
+                if (Array.isArray(lights)) out.lights = lights.map(captureLight);
+                return out;
+            },
+            deserialize: (d) => plain(d)
+        });
+
+        this.registerComponentSerializer('particleEmitter', {
+            serialize: (c) => ({
+                type: 'particleEmitter',
+                emitters: (c.emitters ?? []).map((e: any) => ParticleRegistry.getInstance().serializeEmitter(e))
+            }),
+            deserialize: (d) => ({
+                type: 'particleEmitter',
+                emitters: (d.emitters ?? []).map((e: any) => ParticleRegistry.getInstance().deserializeEmitter(e))
+            })
+        });
+    }
+
+    private registerBuiltInMigrations(): void {
+        // 0 -> 1: the original Scene.toJSON() had no layers, camera or version
+        this.registerMigration(0, (data) => ({
+            ...data,
+            layers: Array.isArray(data.layers) ? data.layers : [],
+            camera: data.camera ?? null,
+            entities: (data.entities ?? []).map((e: any) => ({
+                id: e.id,
+                active: e.active ?? true,
+                layer: e.layer ?? 'default',
+                components: e.components ?? []
+            }))
+        }));
+    }
+}
+
+function captureScript(entry: ScriptEntry): ScriptEntry {
+    const state = entry.instance?.getAllProperties?.() ?? entry.state;
+    return plain({ scriptName: entry.scriptName, state });
+}
+
+function captureLight(entry: LightEntry): LightEntry {
+    const state = entry.instance?.getAllProperties?.() ?? entry.state;
+    return plain({ lightType: entry.lightType, state });
+}
+
+/**
+ * JSON-safe deep copy (drops functions and undefined fields)
+ */
+function plain<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// ===== INSTANCIA GLOBAL =====
+export const sceneSerializer = new SceneSerializer();
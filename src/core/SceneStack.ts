@@ -0,0 +1,263 @@
+import { EventSystem } from './EventSystem';
+import { SCENE_EVENTS } from '@/types/event-const';
+import { AssetManager } from '@/assets/AssetManager';
+import { SceneTransition } from '@/graphics/SceneTransition';
+import { RenderFrame, RenderPass } from '@/graphics/RenderSystem';
+import { ParticleSystem } from '@/particles/ParticleSystem';
+import type { Scene, SceneAsset } from './Scene';
+
+export interface SceneChangeOptions {
+    transition?: SceneTransition;
+    // Extra async work finished before the switch, after the scene's preload assets
+    preload?: () => Promise<void>;
+}
+
+export type SceneAssetLoader = (assets: SceneAsset[]) => Promise<void>;
+
+interface ActiveTransition {
+    transition: SceneTransition;
+    progress: number;
+    // Top scene and scenes drawn when the transition started
+    previousTop: Scene | null;
+    from: Scene[];
+    ready: boolean;
+    switched: boolean;
+    operation: (scenes: Scene[]) => Scene[];
+    resolve: () => void;
+}
+
+/**
+ * Ordered scenes (bottom first) with push/pop/replace, update/render policies
+ * and animated transitions. Stack changes are queued, so a change requested
+ * during a transition starts when the previous one finishes.
+ */
+export class SceneStack {
+    private scenes: Scene[] = [];
+    private current: ActiveTransition | null = null;
+    private queue: Promise<void> = Promise.resolve();
+    private eventSystem: EventSystem;
+
+    constructor(
+        // Called whenever the top scene changes
+        private onTopChange: ((top: Scene | null, previous: Scene | null) => void) | null = null,
+        private loadAssets: SceneAssetLoader = (assets) => AssetManager.getInstance().preloadAssets(assets)
+    ) {
+        this.eventSystem = EventSystem.getInstance();
+    }
+
+    push(scene: Scene, options: SceneChangeOptions = {}): Promise<void> {
+        if (this.scenes.includes(scene)) {
+            return Promise.reject(new Error(`Scene '${scene.name}' is already in the scene stack`));
+        }
+        return this.change(scene, scenes => [...scenes, scene], options);
+    }
+
+    /**
+     * Remove the top scene; the scene below becomes the top one again
+     */
+    pop(options: SceneChangeOptions = {}): Promise<void> {
+        return this.change(null, scenes => scenes.slice(0, -1), options);
+    }
+
+    replace(scene: Scene, options: SceneChangeOptions = {}): Promise<void> {
+        if (this.scenes.includes(scene)) {
+            return Promise.reject(new Error(`Scene '${scene.name}' is already in the scene stack`));
+        }
+        return this.change(scene, scenes => [...scenes.slice(0, -1), scene], options);
+    }
+
+    /**
+     * Replace the whole stack instantly (no preload, no transition)
+     */
+    reset(scene: Scene | null): void {
+        this.apply(scene ? [scene] : []);
+    }
+
+    /**
+     * Take a scene out of the stack instantly
+     */
+    remove(scene: Scene): void {
+        if (this.scenes.includes(scene)) {
+            this.apply(this.scenes.filter(s => s !== scene));
+        }
+    }
+
+    getScenes(): Scene[] {
+        return [...this.scenes];
+    }
+
+    getTop(): Scene | null {
+        return this.scenes[this.scenes.length - 1] ?? null;
+    }
+
+    size(): number {
+        return this.scenes.length;
+    }
+
+    has(scene: Scene): boolean {
+        return this.scenes.includes(scene);
+    }
+
+    isTransitioning(): boolean {
+        return this.current !== null;
+    }
+
+    /**
+     * Top scene plus every scene below it whose upper neighbours all allow
+     * `updateBelow` (top first)
+     */
+    getUpdatingScenes(): Scene[] {
+        return this.visibleFromTop(this.scenes, 'updateBelow');
+    }
+
+    /**
+     * Scenes to draw, bottom first
+     */
+    getRenderedScenes(): Scene[] {
+        return this.visibleFromTop(this.scenes, 'renderBelow').reverse();
+    }
+
+    /**
+     * Advance the running transition
+     */
+    update(deltaTime: number): void {
+        if (this.current) this.advance(deltaTime);
+    }
+
+    /**
+     * Render passes for the current frame. During a transition the scenes
+     * that leave and arrive are faded with the transition's opacities.
+     */
+    getRenderFrame(): RenderFrame {
+        const active = this.current;
+        const rendered = this.getRenderedScenes();
+        if (!active) {
+            return { passes: rendered.map(scene => createPass(scene, 1)) };
+        }
+
+        const frame = active.transition.frame(active.progress);
+        if (!active.switched) {
+            return { passes: active.from.map(scene => createPass(scene, frame.from)), cover: frame.cover };
+        }
+
+        const passes = active.from.map(scene => createPass(scene, rendered.includes(scene) ? 1 : frame.from));
+        for (const scene of rendered) {
+            if (!active.from.includes(scene)) passes.push(createPass(scene, frame.to));
+        }
+        return { passes, cover: frame.cover };
+    }
+
+    private change(target: Scene | null, operation: (scenes: Scene[]) => Scene[], options: SceneChangeOptions): Promise<void> {
+        const result = this.queue.then(() => this.run(target, operation, options));
+        // A failed change must not block the ones queued after it
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private run(target: Scene | null, operation: (scenes: Scene[]) => Scene[], options: SceneChangeOptions): Promise<void> {
+        const preload = this.preload(target, options);
+        const transition = options.transition;
+        if (!transition || transition.duration <= 0) {
+            return preload.then(() => this.apply(operation(this.scenes)));
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            const active: ActiveTransition = {
+                transition,
+                progress: 0,
+                previousTop: this.getTop(),
+                from: this.getRenderedScenes(),
+                ready: false,
+                switched: false,
+                operation,
+                resolve
+            };
+            this.current = active;
+            this.eventSystem.emit(SCENE_EVENTS.TRANSITION_START, { from: this.getTop(), to: target, transition });
+
+            preload.then(() => {
+                active.ready = true;
+                // Transitions that switch at 0 start right away
+                if (this.current === active) this.advance(0);
+            }, (error) => {
+                if (this.current === active) this.current = null;
+                this.eventSystem.emit(SCENE_EVENTS.TRANSITION_END, { from: this.getTop(), to: target, transition, error });
+                reject(error);
+            });
+        });
+    }
+
+    private async preload(target: Scene | null, options: SceneChangeOptions): Promise<void> {
+        // Popping reveals the scene below, which may have been unloaded meanwhile
+        const scene = target ?? this.scenes[this.scenes.length - 2];
+        const assets = scene?.getPreloadAssets() ?? [];
+        if (assets.length > 0) await this.loadAssets(assets);
+        if (options.preload) await options.preload();
+    }
+
+    private advance(deltaTime: number): void {
+        const active = this.current!;
+        const { transition } = active;
+        active.progress = Math.min(1, active.progress + deltaTime / transition.duration);
+
+        if (!active.switched && active.progress >= transition.switchAt) {
+            if (!active.ready) {
+                // Hold until the next scene is loaded
+                active.progress = transition.switchAt;
+                return;
+            }
+            active.switched = true;
+            this.apply(active.operation(this.scenes));
+        }
+
+        if (active.switched && active.progress >= 1) {
+            this.current = null;
+            this.eventSystem.emit(SCENE_EVENTS.TRANSITION_END, { from: active.previousTop, to: this.getTop(), transition });
+            active.resolve();
+        }
+    }
+
+    private apply(next: Scene[]): void {
+        const previous = this.scenes;
+        const previousTop = this.getTop();
+        this.scenes = next;
+
+        for (const scene of previous) {
+            if (!next.includes(scene)) scene.onExit();
+        }
+        for (const scene of next) {
+            if (!previous.includes(scene)) scene.onEnter();
+        }
+
+        const updating = this.getUpdatingScenes();
+        for (const scene of next) {
+            if (updating.includes(scene)) {
+                scene.resume();
+            } else {
+                scene.pause();
+            }
+        }
+
+        const top = this.getTop();
+        if (top !== previousTop) this.onTopChange?.(top, previousTop);
+    }
+
+    private visibleFromTop(scenes: Scene[], flag: 'updateBelow' | 'renderBelow'): Scene[] {
+        const result: Scene[] = [];
+        for (let i = scenes.length - 1; i >= 0; i--) {
+            result.push(scenes[i]);
+            if (!scenes[i].getPolicy()[flag]) break;
+        }
+        return result;
+    }
+}
+
+function createPass(scene: Scene, opacity: number): RenderPass {
+    return {
+        world: scene.getWorld(),
+        entities: [],
+        layers: scene.getLayers(),
+        opacity,
+        particleSystem: scene.getSystem(ParticleSystem) ?? null
+    };
+}
@@ -0,0 +1,202 @@
+import type { System } from './GameLoop';
+
+/**
+ * Phases of a frame, in the order they run. `fixedUpdate` runs zero or more
+ * times per frame with the fixed timestep; every other phase runs once per
+ * animation frame.
+ */
+export type SystemPhase = 'input' | 'preUpdate' | 'fixedUpdate' | 'update' | 'lateUpdate' | 'render' | 'postRender';
+
+export const SYSTEM_PHASES: readonly SystemPhase[] = [
+    'input', 'preUpdate', 'fixedUpdate', 'update', 'lateUpdate', 'render', 'postRender'
+];
+
+// A registered system or its name
+export type SystemRef = System | string;
+
+export interface SystemOptions {
+    // Defaults to the system's own `phase` field, then 'fixedUpdate'
+    phase?: SystemPhase;
+    // Used by string constraints; defaults to the class name
+    name?: string;
+    // Systems of the same phase this one must run before / after
+    before?: SystemRef[];
+    after?: SystemRef[];
+    enabled?: boolean;
+}
+
+interface ScheduledSystem {
+    system: System;
+    name: string;
+    phase: SystemPhase;
+    before: SystemRef[];
+    after: SystemRef[];
+    enabled: boolean;
+}
+
+/**
+ * Runs systems grouped by phase. Inside a phase systems keep insertion order
+ * unless `before`/`after` constraints say otherwise; constraints that point
+ * to systems of another phase (or not registered yet) are ignored.
+ */
+export class SystemScheduler {
+    private entries: ScheduledSystem[] = [];
+    // Sorted systems per phase, rebuilt after any registration change
+    private order = new Map<SystemPhase, ScheduledSystem[]>();
+
+    constructor(
+        private onError: ((system: System, error: unknown) => void) | null = null
+    ) { }
+
+    /**
+     * Register a system. Throws if its constraints form a cycle.
+     */
+    add(system: System, options: SystemOptions = {}): void {
+        if (this.has(system)) {
+            console.warn('System is already scheduled');
+            return;
+        }
+
+        const phase = options.phase ?? system.phase ?? 'fixedUpdate';
+        if (!SYSTEM_PHASES.includes(phase)) {
+            throw new Error(`Unknown system phase '${phase}'`);
+        }
+
+        const entry: ScheduledSystem = {
+            system,
+            name: options.name ?? system.constructor?.name ?? 'System',
+            phase,
+            before: options.before ?? [],
+            after: options.after ?? [],
+            enabled: options.enabled ?? true
+        };
+        this.entries.push(entry);
+        this.order.clear();
+
+        try {
+            this.getOrder(phase);
+        } catch (error) {
+            this.entries.pop();
+            this.order.clear();
+            throw error;
+        }
+    }
+
+    remove(system: System): boolean {
+        const index = this.entries.findIndex(entry => entry.system === system);
+        if (index === -1) return false;
+
+        this.entries.splice(index, 1);
+        this.order.clear();
+        return true;
+    }
+
+    /**
+     * Remove every system and return them in registration order
+     */
+    clear(): System[] {
+        const systems = this.entries.map(entry => entry.system);
+        this.entries = [];
+        this.order.clear();
+        return systems;
+    }
+
+    has(system: System): boolean {
+        return this.entries.some(entry => entry.system === system);
+    }
+
+    /**
+     * First system registered with `name`
+     */
+    get(name: string): System | undefined {
+        return this.entries.find(entry => entry.name === name)?.system;
+    }
+
+    getPhase(system: SystemRef): SystemPhase | undefined {
+        return this.resolve(system)?.phase;
+    }
+
+    /**
+     * Disabled systems stay registered (and ordered) but are skipped by `run`
+     */
+    setEnabled(system: SystemRef, enabled: boolean): boolean {
+        const entry = this.resolve(system);
+        if (!entry) return false;
+        entry.enabled = enabled;
+        return true;
+    }
+
+    isEnabled(system: SystemRef): boolean {
+        return this.resolve(system)?.enabled ?? false;
+    }
+
+    /**
+     * Systems in execution order, for one phase or for the whole frame
+     */
+    getSystems(phase?: SystemPhase): System[] {
+        const phases = phase ? [phase] : SYSTEM_PHASES;
+        return phases.flatMap(p => this.getOrder(p).map(entry => entry.system));
+    }
+
+    /**
+     * Update the enabled systems of `phase`. A failing system is reported to
+     * `onError` and does not stop the others.
+     */
+    run(phase: SystemPhase, entities: any[], deltaTime: number, alpha?: number): void {
+        for (const entry of this.getOrder(phase)) {
+            if (!entry.enabled) continue;
+            try {
+                entry.system.flushChanges?.();
+                entry.system.update(entities, deltaTime, alpha);
+            } catch (error) {
+                if (!this.onError) throw error;
+                this.onError(entry.system, error);
+            }
+        }
+    }
+
+    private resolve(ref: SystemRef): ScheduledSystem | undefined {
+        return typeof ref === 'string'
+            ? this.entries.find(entry => entry.name === ref)
+            : this.entries.find(entry => entry.system === ref);
+    }
+
+    private getOrder(phase: SystemPhase): ScheduledSystem[] {
+        let sorted = this.order.get(phase);
+        if (!sorted) {
+            sorted = this.sort(this.entries.filter(entry => entry.phase === phase));
+            this.order.set(phase, sorted);
+        }
+        return sorted;
+    }
+
+    /**
+     * Topological sort of one phase; ties keep insertion order
+     */
+    private sort(entries: ScheduledSystem[]): ScheduledSystem[] {
+        const matches = (entry: ScheduledSystem, ref: SystemRef) =>
+            typeof ref === 'string' ? entry.name === ref : entry.system === ref;
+
+        // edges: a -> b when a must run before b
+        const incoming = new Map<ScheduledSystem, Set<ScheduledSystem>>(entries.map(entry => [entry, new Set()]));
+        for (const entry of entries) {
+            for (const other of entries) {
+                if (other === entry) continue;
+                if (entry.before.some(ref => matches(other, ref))) incoming.get(other)!.add(entry);
+                if (entry.after.some(ref => matches(other, ref))) incoming.get(entry)!.add(other);
+            }
+        }
+
+        const sorted: ScheduledSystem[] = [];
+        const pending = [...entries];
+        while (pending.length > 0) {
+            const index = pending.findIndex(entry => [...incoming.get(entry)!].every(dep => sorted.includes(dep)));
+            if (index === -1) {
+                const names = pending.map(entry => entry.name).join(', ');
+                throw new Error(`Circular system ordering in phase '${pending[0].phase}': ${names}`);
+            }
+            sorted.push(pending.splice(index, 1)[0]);
+        }
+        return sorted;
+    }
+}
@@ -1,5 +1,21 @@
 export { Engine } from './Engine';
 export { GameLoop } from './GameLoop';
-export type { System } from './GameLoop';
-export { EventSystem } from './EventSystem';
+export type { System, PhaseListener, GameLoopOptions } from './GameLoop';
+export { BrowserClock, ManualClock } from './Clock';
+export type { LoopClock } from './Clock';
+export { SystemScheduler, SYSTEM_PHASES } from './SystemScheduler';
+export type { SystemPhase, SystemOptions, SystemRef } from './SystemScheduler';
+export { EventSystem, EventBus, releaseSubscriptions } from './EventSystem';
+export type { EventDispatchMode, EventListenerOptions, EventSubscription, EventBusOptions } from './EventSystem';
 export { Scene } from './Scene';
+export type { ScenePolicy, SceneAsset, CollisionLayer } from './Scene';
+export { SceneStack } from './SceneStack';
+export type { SceneChangeOptions, SceneAssetLoader } from './SceneStack';
+export { PrefabRegistry, prefabRegistry } from './Prefab';
+export type { PrefabDefinition, PrefabChild, PrefabOverrides, PrefabScript, PrefabLight, PrefabEmitter } from './Prefab';
+export { SceneSerializer, sceneSerializer, SCENE_SCHEMA_VERSION } from './SceneSerializer';
+export type { SceneData, EntityData, ComponentSerializer, SceneMigration } from './SceneSerializer';
+export { SaveManager, saveManager, captureThumbnail, SAVE_FORMAT_VERSION } from './SaveManager';
+export type { PersistentComponent, SaveSlotInfo, SaveSnapshot, SaveOptions, SaveManagerOptions } from './SaveManager';
+export { MemorySaveStorage, LocalStorageSaveStorage, IndexedDBSaveStorage } from './SaveStorage';
+export type { SaveStorage } from './SaveStorage';
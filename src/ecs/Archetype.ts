@@ -0,0 +1,112 @@
+import { Component } from './Component';
+import { Entity } from './Entity';
+
+/**
+ * Table of entities that share exactly the same set of component types.
+ * Components are stored column-wise (one array per type) so queries can
+ * iterate matching tables without inspecting every entity.
+ */
+export class Archetype {
+    public readonly key: string;
+    public readonly types: ReadonlySet<string>;
+
+    private entities: Entity[] = [];
+    private rows = new Map<Entity, number>();
+    private columns = new Map<string, Component[]>();
+    // Cached transitions to the archetype reached by adding/removing one type
+    private addEdges = new Map<string, Archetype>();
+    private removeEdges = new Map<string, Archetype>();
+
+    constructor(types: Iterable<string>) {
+        const sorted = Array.from(new Set(types)).sort();
+        this.key = Archetype.keyFor(sorted);
+        this.types = new Set(sorted);
+        for (const type of sorted) {
+            this.columns.set(type, []);
+        }
+    }
+
+    static keyFor(types: Iterable<string>): string {
+        return Array.from(types).sort().join('|');
+    }
+
+    has(type: string): boolean {
+        return this.types.has(type);
+    }
+
+    contains(entity: Entity): boolean {
+        return this.rows.has(entity);
+    }
+
+    get size(): number {
+        return this.entities.length;
+    }
+
+    getEntities(): readonly Entity[] {
+        return this.entities;
+    }
+
+    getColumn<T extends Component = Component>(type: string): readonly T[] | undefined {
+        return this.columns.get(type) as T[] | undefined;
+    }
+
+    add(entity: Entity): void {
+        if (this.rows.has(entity)) return;
+
+        this.rows.set(entity, this.entities.length);
+        this.entities.push(entity);
+        for (const [type, column] of this.columns) {
+            column.push(entity.getComponent(type)!);
+        }
+    }
+
+    /**
+     * Remove an entity using swap-remove so rows stay densely packed
+     */
+    remove(entity: Entity): void {
+        const row = this.rows.get(entity);
+        if (row === undefined) return;
+
+        const last = this.entities.length - 1;
+        if (row !== last) {
+            const moved = this.entities[last];
+            this.entities[row] = moved;
+            this.rows.set(moved, row);
+            for (const column of this.columns.values()) {
+                column[row] = column[last];
+            }
+        }
+
+        this.entities.pop();
+        for (const column of this.columns.values()) {
+            column.pop();
+        }
+        this.rows.delete(entity);
+    }
+
+    /**
+     * Replace the stored component of an entity already in this table
+     */
+    setComponent(entity: Entity, component: Component): void {
+        const row = this.rows.get(entity);
+        const column = this.columns.get(component.type);
+        if (row === undefined || !column) return;
+        column[row] = component;
+    }
+
+    getAddEdge(type: string): Archetype | undefined {
+        return this.addEdges.get(type);
+    }
+
+    setAddEdge(type: string, archetype: Archetype): void {
+        this.addEdges.set(type, archetype);
+    }
+
+    getRemoveEdge(type: string): Archetype | undefined {
+        return this.removeEdges.get(type);
+    }
+
+    setRemoveEdge(type: string, archetype: Archetype): void {
+        this.removeEdges.set(type, archetype);
+    }
+}
@@ -0,0 +1,54 @@
+import { Entity } from './Entity';
+import { ColliderComponent } from './Component';
+import { getWorldTransform } from './Hierarchy';
+import type { CollisionShape } from '../math/SAT';
+
+/**
+ * World-space shape of an entity's collider (scaled, rotated and offset
+ * by its world transform), or null without a transform and collider
+ */
+export function getColliderShape(entity: Entity): CollisionShape | null {
+    const collider = entity.getComponent<ColliderComponent>('collider');
+    if (!collider || !entity.hasComponent('transform')) return null;
+
+    const transform = getWorldTransform(entity);
+    const scaleX = Math.abs(transform.scale.x);
+    const scaleY = Math.abs(transform.scale.y);
+    const shape = collider.shape ??
+        (collider.vertices ? 'polygon' : collider.radius !== undefined && collider.width === undefined ? 'circle' : 'aabb');
+    // AABBs ignore the rotation, offset included
+    const rotation = shape === 'aabb' ? 0 : transform.rotation;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const offsetX = collider.offset?.x ?? 0;
+    const offsetY = collider.offset?.y ?? 0;
+    const toWorld = (x: number, y: number): Vector2D => {
+        const lx = (x + offsetX) * scaleX;
+        const ly = (y + offsetY) * scaleY;
+        return {
+            x: transform.position.x + lx * cos - ly * sin,
+            y: transform.position.y + lx * sin + ly * cos
+        };
+    };
+
+    if (shape === 'circle') {
+        const center = toWorld(0, 0);
+        return { type: 'circle', x: center.x, y: center.y, radius: (collider.radius ?? 0) * Math.max(scaleX, scaleY) };
+    }
+    if (shape === 'polygon') {
+        if (!collider.vertices?.length) return null;
+        return { type: 'polygon', points: collider.vertices.map(v => toWorld(v.x, v.y)) };
+    }
+
+    const halfWidth = (collider.width ?? 0) / 2;
+    const halfHeight = (collider.height ?? 0) / 2;
+    return {
+        type: 'polygon',
+        points: [
+            toWorld(-halfWidth, -halfHeight),
+            toWorld(halfWidth, -halfHeight),
+            toWorld(halfWidth, halfHeight),
+            toWorld(-halfWidth, halfHeight)
+        ]
+    };
+}
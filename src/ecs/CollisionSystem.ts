@@ -1,109 +1,276 @@
 import { System } from './System';
 import { Entity } from './Entity';
-import { TransformComponent, ColliderComponent } from './Component';
-import { EventSystem } from '../core/EventSystem';
-import { PHYSICS_EVENTS } from '../types/event-const';
+import { ColliderComponent, PhysicsComponent } from './Component';
+import { getWorldPosition, setWorldTransform } from './Hierarchy';
+import { getColliderShape } from './Collider';
+import { EventBus, EventSystem, releaseSubscriptions } from '../core/EventSystem';
+import type { CollisionLayer, Scene } from '../core/Scene';
+import { PHYSICS_EVENTS, WORLD_EVENTS } from '../types/event-const';
+import { SpatialHash } from '../math/SpatialHash';
+import { CollisionShape, ShapeContact, getShapeBounds, testShapes } from '../math/SAT';
 
+export interface CollisionSystemOptions {
+    // Push overlapping solid colliders apart (default true)
+    resolve?: boolean;
+    // Cell size of the broadphase used when the scene has no spatial index
+    cellSize?: number;
+    // Gap under which a contact that already began keeps going (default 0.5).
+    // Resolved bodies end up exactly touching, so without it a body resting
+    // on the ground would end and begin its contact every update.
+    contactSlop?: number;
+}
+
+/**
+ * Two colliders currently overlapping. `entityA`/`entityB` keep the order
+ * of the first frame they touched.
+ */
+export interface CollisionContact {
+    entityA: Entity;
+    entityB: Entity;
+    isTrigger: boolean;
+    normal: Vector2D;
+    // Zero or less while the colliders rest against each other
+    depth: number;
+    point: Vector2D;
+}
+
+// Layers that are not found collide with everything
+const ALL_LAYERS = { bit: 0xFFFFFFFF, mask: 0xFFFFFFFF };
+
+/**
+ * Lightweight collision detection for games without Box2D: circles, AABBs,
+ * OBBs and convex polygons tested with SAT. Emits `COLLISION_BEGIN` when two
+ * colliders start touching, `COLLISION_STAY` every update while they touch
+ * and `COLLISION_END` when they separate. Solid (non-trigger) contacts are
+ * resolved along the minimum translation vector.
+ */
 export class CollisionSystem extends System {
     readonly requiredComponents = ['transform', 'collider'];
-    private eventSystem: EventSystem;
+    private events: EventBus;
+    private scene: Scene | null = null;
+    private resolveLayer: (name: string) => CollisionLayer | undefined = () => undefined;
+    private readonly resolveContacts: boolean;
+    private readonly contactSlop: number;
+    private broadphase: SpatialHash<Entity>;
+    private tracked = new Set<Entity>();
+    private contacts = new Map<string, CollisionContact>();
 
-    constructor() {
+    constructor(options: CollisionSystemOptions = {}) {
         super();
-        this.eventSystem = EventSystem.getInstance();
+        this.events = EventSystem.getInstance();
+        this.resolveContacts = options.resolve ?? true;
+        this.contactSlop = options.contactSlop ?? 0.5;
+        this.broadphase = new SpatialHash<Entity>(options.cellSize ?? 128);
+    }
+
+    /**
+     * Use the scene's collision layers and emit on its event bus; contacts
+     * of destroyed entities end right away
+     */
+    setScene(scene: Scene | null | undefined): void {
+        if (!scene) return;
+        if (this.scene !== scene) {
+            releaseSubscriptions(this);
+            scene.getEventBus().on(WORLD_EVENTS.ENTITY_DESTROYED, (event) => {
+                this.endContactsOf(event.data.entity);
+            }, { owner: this });
+        }
+        this.scene = scene;
+        this.events = scene.getEventBus();
+        this.resolveLayer = name => scene.getLayer(name);
+    }
+
+    destroy(): void {
+        releaseSubscriptions(this);
+        this.scene = null;
+        this.contacts.clear();
+        this.broadphase.clear();
+        this.tracked.clear();
     }
 
     update(entities: Entity[], _deltaTime: number): void {
-        const collidableEntities = this.getEntitiesWithComponents(entities, this.requiredComponents);
+        const colliders = this.getEntitiesWithComponents(entities, this.requiredComponents);
+        const shapes = new Map<Entity, CollisionShape>();
+        for (const entity of colliders) {
+            const shape = getColliderShape(entity);
+            if (shape) shapes.set(entity, shape);
+        }
 
-        if (collidableEntities.length > 0) {
-            console.log(`CollisionSystem: Checking ${collidableEntities.length} entities for collisions`);
+        const touching = new Set<string>();
+        for (const [entityA, entityB] of this.findPairs(colliders, shapes)) {
+            const key = this.testPair(entityA, entityB, shapes);
+            if (key) touching.add(key);
         }
 
-        // Check collisions between all pairs of entities
-        for (let i = 0; i < collidableEntities.length; i++) {
-            for (let j = i + 1; j < collidableEntities.length; j++) {
-                const entityA = collidableEntities[i];
-                const entityB = collidableEntities[j];
-
-                if (this.checkCollision(entityA, entityB)) {
-                    console.log('Collision detected between entities:', entityA.id, entityB.id);
-
-                    this.eventSystem.emit(PHYSICS_EVENTS.COLLISION_BEGIN, {
-                        entityA,
-                        entityB,
-                        point: this.getCollisionPoint(entityA, entityB),
-                        normal: this.getCollisionNormal(entityA, entityB)
-                    });
-                }
-            }
+        for (const [key, contact] of this.contacts) {
+            if (touching.has(key)) continue;
+            this.contacts.delete(key);
+            this.emitEnd(contact);
         }
     }
 
-    private checkCollision(entityA: Entity, entityB: Entity): boolean {
-        const transformA = entityA.getComponent<TransformComponent>('transform');
-        const colliderA = entityA.getComponent<ColliderComponent>('collider');
-        const transformB = entityB.getComponent<TransformComponent>('transform');
-        const colliderB = entityB.getComponent<ColliderComponent>('collider');
+    /**
+     * Current contacts, optionally only those involving an entity
+     */
+    getContacts(entity?: Entity): CollisionContact[] {
+        const contacts = [...this.contacts.values()];
+        return entity ? contacts.filter(c => c.entityA === entity || c.entityB === entity) : contacts;
+    }
+
+    isTouching(entityA: Entity, entityB: Entity): boolean {
+        return this.contacts.has(pairKey(entityA, entityB));
+    }
 
-        if (!transformA || !colliderA || !transformB || !colliderB) {
-            return false;
+    /**
+     * Broadphase: candidate pairs whose bounds overlap, in collider order.
+     * Uses the scene's spatial index when it has one.
+     */
+    private findPairs(colliders: Entity[], shapes: Map<Entity, CollisionShape>): Array<[Entity, Entity]> {
+        const order = new Map<Entity, number>();
+        colliders.forEach((entity, i) => {
+            if (shapes.has(entity)) order.set(entity, i);
+        });
+
+        const spatial = this.world?.getSpatialIndex();
+        if (!spatial) {
+            for (const entity of this.tracked) {
+                if (!order.has(entity)) this.broadphase.remove(entity);
+            }
+            for (const [entity, shape] of shapes) this.broadphase.insert(entity, getShapeBounds(shape));
+            this.tracked = new Set(shapes.keys());
         }
 
-        // Simple AABB (Axis-Aligned Bounding Box) collision detection
-        const aLeft = transformA.position.x - colliderA.width / 2;
-        const aRight = transformA.position.x + colliderA.width / 2;
-        const aTop = transformA.position.y - colliderA.height / 2;
-        const aBottom = transformA.position.y + colliderA.height / 2;
-
-        const bLeft = transformB.position.x - colliderB.width / 2;
-        const bRight = transformB.position.x + colliderB.width / 2;
-        const bTop = transformB.position.y - colliderB.height / 2;
-        const bBottom = transformB.position.y + colliderB.height / 2;
-
-        return (
-            aLeft < bRight &&
-            aRight > bLeft &&
-            aTop < bBottom &&
-            aBottom > bTop
-        );
+        const pairs: Array<[Entity, Entity]> = [];
+        for (const [entityA, i] of order) {
+            const bounds = grow(getShapeBounds(shapes.get(entityA)!), this.contactSlop);
+            const candidates = spatial ? spatial.queryRegion(bounds) : this.broadphase.query(bounds);
+            const after = candidates
+                .filter(entityB => (order.get(entityB) ?? -1) > i)
+                .sort((a, b) => order.get(a)! - order.get(b)!);
+            for (const entityB of after) pairs.push([entityA, entityB]);
+        }
+        return pairs;
     }
 
-    private getCollisionPoint(entityA: Entity, entityB: Entity): { x: number; y: number } {
-        const transformA = entityA.getComponent<TransformComponent>('transform');
-        const transformB = entityB.getComponent<TransformComponent>('transform');
+    /**
+     * Narrowphase for one pair; returns the contact key when they touch
+     */
+    private testPair(entityA: Entity, entityB: Entity, shapes: Map<Entity, CollisionShape>): string | null {
+        const colliderA = entityA.getComponent<ColliderComponent>('collider')!;
+        const colliderB = entityB.getComponent<ColliderComponent>('collider')!;
+        if (!this.layersCollide(entityA, colliderA, entityB, colliderB)) return null;
 
-        if (!transformA || !transformB) {
-            return { x: 0, y: 0 };
-        }
+        const key = pairKey(entityA, entityB);
+        const previous = this.contacts.get(key);
+        const hit = testShapes(shapes.get(entityA)!, shapes.get(entityB)!, previous ? this.contactSlop : 0);
+        if (!hit) return null;
 
-        // Return the midpoint between the two entities
-        return {
-            x: (transformA.position.x + transformB.position.x) / 2,
-            y: (transformA.position.y + transformB.position.y) / 2
+        const isTrigger = !!(colliderA.isTrigger || colliderB.isTrigger);
+        // Keep the A/B order of the first contact for the whole exchange
+        const swapped = previous !== undefined && previous.entityA !== entityA;
+        const contact: CollisionContact = {
+            entityA: swapped ? entityB : entityA,
+            entityB: swapped ? entityA : entityB,
+            isTrigger,
+            normal: swapped ? { x: -hit.normal.x, y: -hit.normal.y } : hit.normal,
+            depth: hit.depth,
+            point: hit.point
         };
+        this.contacts.set(key, contact);
+
+        if (!isTrigger && this.resolveContacts && hit.depth > 0) {
+            this.separate(entityA, colliderA, entityB, colliderB, hit);
+            // Later pairs see the corrected positions; setWorldTransform marks
+            // them changed, so spatial queries do too
+            for (const entity of [entityA, entityB]) {
+                const shape = getColliderShape(entity);
+                if (shape) shapes.set(entity, shape);
+            }
+        }
+
+        this.events.emit(previous ? PHYSICS_EVENTS.COLLISION_STAY : PHYSICS_EVENTS.COLLISION_BEGIN, {
+            entityA: contact.entityA,
+            entityB: contact.entityB,
+            point: contact.point,
+            normal: contact.normal,
+            depth: contact.depth,
+            isTrigger
+        });
+        return key;
     }
 
-    private getCollisionNormal(entityA: Entity, entityB: Entity): { x: number; y: number } {
-        const transformA = entityA.getComponent<TransformComponent>('transform');
-        const transformB = entityB.getComponent<TransformComponent>('transform');
+    /**
+     * Move the pair apart along the minimum translation vector; static
+     * colliders stay put and two dynamic ones share the correction. The
+     * velocity (`physics` component) pushing into the contact is removed.
+     */
+    private separate(entityA: Entity, colliderA: ColliderComponent, entityB: Entity, colliderB: ColliderComponent, hit: ShapeContact): void {
+        const staticA = !!colliderA.isStatic;
+        const staticB = !!colliderB.isStatic;
+        if (staticA && staticB) return;
 
-        if (!transformA || !transformB) {
-            return { x: 0, y: 1 };
+        const shareA = staticA ? 0 : staticB ? 1 : 0.5;
+        const shareB = 1 - shareA;
+        if (shareA > 0) {
+            translate(entityA, -hit.normal.x * hit.depth * shareA, -hit.normal.y * hit.depth * shareA);
+            stopAlong(entityA, hit.normal);
+        }
+        if (shareB > 0) {
+            translate(entityB, hit.normal.x * hit.depth * shareB, hit.normal.y * hit.depth * shareB);
+            stopAlong(entityB, { x: -hit.normal.x, y: -hit.normal.y });
         }
+    }
 
-        // Calculate normal vector from A to B
-        const dx = transformB.position.x - transformA.position.x;
-        const dy = transformB.position.y - transformA.position.y;
-        const length = Math.sqrt(dx * dx + dy * dy);
+    private layersCollide(entityA: Entity, colliderA: ColliderComponent, entityB: Entity, colliderB: ColliderComponent): boolean {
+        const layerA = this.getLayer(colliderA.layer ?? entityA.getLayer());
+        const layerB = this.getLayer(colliderB.layer ?? entityB.getLayer());
+        return (layerA.bit & layerB.mask) !== 0 && (layerB.bit & layerA.mask) !== 0;
+    }
 
-        if (length === 0) {
-            return { x: 0, y: 1 };
+    private getLayer(layer: string | number): { bit: number; mask: number } {
+        if (typeof layer === 'number') return { bit: layer, mask: ALL_LAYERS.mask };
+        const found = this.resolveLayer(layer);
+        return found ? { bit: found.bit, mask: found.mask ?? ALL_LAYERS.mask } : ALL_LAYERS;
+    }
+
+    private endContactsOf(entity: Entity): void {
+        for (const [key, contact] of this.contacts) {
+            if (contact.entityA !== entity && contact.entityB !== entity) continue;
+            this.contacts.delete(key);
+            this.emitEnd(contact);
         }
+        this.broadphase.remove(entity);
+        this.tracked.delete(entity);
+    }
 
-        return {
-            x: dx / length,
-            y: dy / length
-        };
+    private emitEnd(contact: CollisionContact): void {
+        this.events.emit(PHYSICS_EVENTS.COLLISION_END, {
+            entityA: contact.entityA,
+            entityB: contact.entityB,
+            isTrigger: contact.isTrigger
+        });
     }
 }
+
+function pairKey(entityA: Entity, entityB: Entity): string {
+    return entityA.id < entityB.id ? `${entityA.id}|${entityB.id}` : `${entityB.id}|${entityA.id}`;
+}
+
+function grow(rect: Rectangle, margin: number): Rectangle {
+    return { x: rect.x - margin, y: rect.y - margin, width: rect.width + margin * 2, height: rect.height + margin * 2 };
+}
+
+function translate(entity: Entity, dx: number, dy: number): void {
+    const position = getWorldPosition(entity);
+    setWorldTransform(entity, { x: position.x + dx, y: position.y + dy });
+}
+
+// Drop the part of the velocity that moves towards `direction`
+function stopAlong(entity: Entity, direction: Vector2D): void {
+    const velocity = entity.getComponent<PhysicsComponent>('physics')?.velocity;
+    if (!velocity) return;
+    const speed = velocity.x * direction.x + velocity.y * direction.y;
+    if (speed <= 0) return;
+    velocity.x -= direction.x * speed;
+    velocity.y -= direction.y * speed;
+}
@@ -0,0 +1,125 @@
+import { Entity } from './Entity';
+import { Component } from './Component';
+
+export type EntityCommand =
+    | { type: 'spawn'; entity: Entity }
+    | { type: 'destroy'; entityId: string }
+    | { type: 'addComponent'; entityId: string; component: Component }
+    | { type: 'removeComponent'; entityId: string; componentType: string }
+    | { type: 'run'; callback: () => void };
+
+/**
+ * What a command buffer is applied to (Scene passes its own world and events)
+ */
+export interface CommandTarget {
+    addEntity(entity: Entity): void;
+    getEntity(entityId: string): Entity | undefined;
+    // Destroys the entity and its descendants right away
+    destroyEntity(entityId: string): void;
+}
+
+// Commands queued while a flush runs (e.g. a destroyed enemy spawning loot)
+// are applied in the same flush, up to this many rounds
+const MAX_FLUSH_ROUNDS = 16;
+
+/**
+ * Structural changes recorded while systems iterate entities and applied
+ * in order at a sync point, so nothing is added to or removed from the
+ * world in the middle of an update.
+ */
+export class CommandBuffer {
+    private commands: EntityCommand[] = [];
+
+    /**
+     * Add the entity at the next flush. Returns it so components can be
+     * set up right away.
+     */
+    spawn(entity: Entity): Entity {
+        this.commands.push({ type: 'spawn', entity });
+        return entity;
+    }
+
+    destroy(entity: Entity | string): void {
+        this.commands.push({ type: 'destroy', entityId: idOf(entity) });
+    }
+
+    addComponent(entity: Entity | string, component: Component): void {
+        this.commands.push({ type: 'addComponent', entityId: idOf(entity), component });
+    }
+
+    removeComponent(entity: Entity | string, componentType: string): void {
+        this.commands.push({ type: 'removeComponent', entityId: idOf(entity), componentType });
+    }
+
+    /**
+     * Run any other change at the sync point
+     */
+    run(callback: () => void): void {
+        this.commands.push({ type: 'run', callback });
+    }
+
+    get size(): number {
+        return this.commands.length;
+    }
+
+    isEmpty(): boolean {
+        return this.commands.length === 0;
+    }
+
+    clear(): void {
+        this.commands = [];
+    }
+
+    /**
+     * Apply the queued commands to the target and return how many ran.
+     * Commands for entities that are already gone are skipped.
+     */
+    flush(target: CommandTarget): number {
+        let applied = 0;
+        for (let round = 0; round < MAX_FLUSH_ROUNDS && this.commands.length > 0; round++) {
+            const commands = this.commands;
+            this.commands = [];
+            for (const command of commands) {
+                try {
+                    if (this.apply(target, command)) applied++;
+                } catch (error) {
+                    console.error(`Error applying '${command.type}' command:`, error);
+                }
+            }
+        }
+        if (this.commands.length > 0) {
+            console.warn(`CommandBuffer: ${this.commands.length} commands left for the next flush`);
+        }
+        return applied;
+    }
+
+    private apply(target: CommandTarget, command: EntityCommand): boolean {
+        switch (command.type) {
+            case 'spawn':
+                target.addEntity(command.entity);
+                return true;
+            case 'run':
+                command.callback();
+                return true;
+        }
+
+        const entity = target.getEntity(command.entityId);
+        if (!entity) return false;
+        switch (command.type) {
+            case 'destroy':
+                target.destroyEntity(command.entityId);
+                break;
+            case 'addComponent':
+                entity.addComponent(command.component);
+                break;
+            case 'removeComponent':
+                entity.removeComponent(command.componentType);
+                break;
+        }
+        return true;
+    }
+}
+
+function idOf(entity: Entity | string): string {
+    return typeof entity === 'string' ? entity : entity.id;
+}
@@ -16,6 +16,16 @@ export interface TransformComponent extends Component {
     scale: Omit<Vector, 'z'>;
 }
 
+/**
+ * Parent/child links between entities of the same world. `children` keeps
+ * the sibling order. Use the helpers in `ecs/Hierarchy` instead of editing it.
+ */
+export interface HierarchyComponent extends Component {
+    type: 'hierarchy';
+    parent: string | null;
+    children: string[];
+}
+
 export interface SpriteComponent extends Component {
     type: 'sprite';
     texture: string;
@@ -41,11 +51,28 @@ export interface PhysicsComponent extends Component {
     angularVelocity: number;
 }
 
+/**
+ * Shape used by `CollisionSystem`. Without `shape` it is inferred: `vertices`
+ * make a polygon, a lone `radius` a circle, anything else an AABB.
+ */
+export type ColliderShape = 'aabb' | 'obb' | 'circle' | 'polygon';
+
 export interface ColliderComponent extends Component {
     type: 'collider';
-    width: number;
-    height: number;
+    shape?: ColliderShape;
+    // Box size ('aabb' ignores the entity rotation, 'obb' rotates with it)
+    width?: number;
+    height?: number;
+    radius?: number;
+    // Convex polygon in local space, around the entity position
+    vertices?: Vector[];
+    offset?: Omit<Vector, 'z'>;
+    // Triggers report contacts but are never pushed apart
     isTrigger: boolean;
+    // Not moved when resolving contacts (walls, ground)
+    isStatic?: boolean;
+    // Collision layer name or bit; defaults to the entity layer
+    layer?: string | number;
 }
 
 export interface PhysicsBodyComponent extends Component {
@@ -62,4 +89,7 @@ export interface PhysicsBodyComponent extends Component {
     fixedRotation?: boolean;
     isSensor?: boolean;
     collisionGroup?: number;
+    // Draw between the last two physics steps (default true); false draws
+    // the raw transform, e.g. for bodies that are moved by hand every step
+    interpolate?: boolean;
 }
@@ -1,12 +1,26 @@
 import { Component } from './Component';
+import type { World } from './World';
+import { releaseSubscriptions } from '../core/EventSystem';
+import { sceneSerializer } from '../core/SceneSerializer';
 import { v4 as uuidv4 } from 'uuid';
 
+// Shared across entities so a version number is never reused, even when a
+// component is removed and added again
+let nextComponentVersion = 1;
+
 export class Entity {
     public readonly id: string;
     public active: boolean;
     private components: Map<string, Component>;
+    // Bumped every time a component is added, replaced or marked changed
+    private versions = new Map<string, number>();
     // Layer bitmask or name can be attached to entity for rendering/collision filtering
     private _layer: string | number = 'default';
+    // Human-readable name; not unique, lookups by name return the first match
+    private _name = '';
+    private tags = new Set<string>();
+    // World that stores this entity in its archetype tables (null while detached)
+    private world: World | null = null;
 
     constructor(id?: string) {
         this.id = id || uuidv4();
@@ -14,8 +28,18 @@ export class Entity {
         this.components = new Map();
     }
 
+    /**
+     * Get the entity id (kept for code written against the old core ECS)
+     */
+    getId(): string {
+        return this.id;
+    }
+
     addComponent<T extends Component>(component: T): void {
+        const replaced = this.components.has(component.type);
         this.components.set(component.type, component);
+        this.versions.set(component.type, nextComponentVersion++);
+        this.world?.onComponentAdded(this, component, replaced);
     }
 
     /**
@@ -32,8 +56,47 @@ export class Entity {
         return this._layer;
     }
 
+    /**
+     * Set the entity name (indexed by its world for `getEntityByName`)
+     */
+    setName(name: string): void {
+        if (name === this._name) return;
+        const previous = this._name;
+        this._name = name;
+        this.world?.onEntityRenamed(this, previous);
+    }
+
+    getName(): string {
+        return this._name;
+    }
+
+    /**
+     * Add the entity to a group ('enemy', 'pickup'...). Its world indexes
+     * the tag and sends WORLD_EVENTS.TAG_ADDED.
+     */
+    addTag(tag: string): void {
+        if (this.tags.has(tag)) return;
+        this.tags.add(tag);
+        this.world?.onTagAdded(this, tag);
+    }
+
+    removeTag(tag: string): void {
+        if (!this.tags.delete(tag)) return;
+        this.world?.onTagRemoved(this, tag);
+    }
+
+    hasTag(tag: string): boolean {
+        return this.tags.has(tag);
+    }
+
+    getTags(): string[] {
+        return Array.from(this.tags);
+    }
+
     removeComponent(type: string): void {
-        this.components.delete(type);
+        if (!this.components.delete(type)) return;
+        this.versions.delete(type);
+        this.world?.onComponentRemoved(this, type);
     }
 
     getComponent<T extends Component>(type: string): T | undefined {
@@ -48,23 +111,108 @@ export class Entity {
         return Array.from(this.components.values());
     }
 
+    getComponentTypes(): string[] {
+        return Array.from(this.components.keys());
+    }
+
+    /**
+     * Current version of a component (0 when the entity does not have it).
+     * Compare against a stored value to know whether it changed since.
+     */
+    getComponentVersion(type: string): number {
+        return this.versions.get(type) ?? 0;
+    }
+
+    /**
+     * Flag a component as modified in place so `changed` query trackers
+     * and `onChanged` system hooks see it
+     */
+    markChanged(type: string): void {
+        if (!this.components.has(type)) return;
+        this.versions.set(type, nextComponentVersion++);
+        this.world?.markChanged(this, type);
+    }
+
+    /**
+     * Assign fields onto an existing component and mark it changed
+     */
+    patchComponent<T extends Component>(type: string, changes: Partial<T>): T | undefined {
+        const component = this.components.get(type) as T | undefined;
+        if (!component) return undefined;
+
+        Object.assign(component, changes);
+        this.markChanged(type);
+        return component;
+    }
+
+    /**
+     * Get the world this entity is stored in, if any
+     */
+    getWorld(): World | null {
+        return this.world;
+    }
+
+    /**
+     * Bind the entity to a world. Called by `World` when attaching/detaching.
+     * @internal
+     */
+    setWorld(world: World | null): void {
+        this.world = world;
+    }
+
+    /**
+     * Copy the entity without its hierarchy links. Components are deep
+     * copies, so moving the clone never moves the original.
+     */
     clone(): Entity {
         const cloned = new Entity();
         cloned.active = this.active;
 
-        this.components.forEach((component, _type) => {
-            cloned.addComponent({ ...component });
+        this.components.forEach((component, type) => {
+            // Hierarchy links point at other entities; use cloneHierarchy() to copy a subtree
+            if (type === 'hierarchy') {
+                cloned.addComponent({ type, parent: null, children: [] });
+                return;
+            }
+            // Registered serializers rebuild runtime state (script and light
+            // instances, audio handles) instead of sharing it
+            const serializer = sceneSerializer.getComponentSerializer(type);
+            cloned.addComponent(serializer
+                ? { ...serializer.deserialize(serializer.serialize(component)), type }
+                : copyValue(component));
         });
 
-        // copy layer
+        // copy layer, name and tags
         cloned.setLayer(this.getLayer());
+        cloned.setName(this._name);
+        for (const tag of this.tags) cloned.addTag(tag);
 
         return cloned;
     }
 
     destroy(): void {
         this.active = false;
-        this.components.clear();
+        for (const type of Array.from(this.components.keys())) {
+            this.removeComponent(type);
+        }
+        // Listeners registered with `{ owner: entity }`
+        releaseSubscriptions(this);
+    }
+
+    /**
+     * Rebuild an entity from `toJSON()` output. Components are added as
+     * given; use the scene serializer to restore runtime-only fields.
+     */
+    static fromJSON(data: any): Entity {
+        const entity = new Entity(data.id);
+        entity.active = data.active ?? true;
+        if (data.layer !== undefined) entity.setLayer(data.layer);
+        if (data.name) entity.setName(data.name);
+        for (const tag of data.tags ?? []) entity.addTag(tag);
+        for (const component of data.components ?? []) {
+            entity.addComponent({ ...component });
+        }
+        return entity;
     }
 
     toJSON(): any {
@@ -72,7 +220,29 @@ export class Entity {
             id: this.id,
             active: this.active,
             layer: this._layer,
+            name: this._name || undefined,
+            tags: this.tags.size > 0 ? this.getTags() : undefined,
             components: this.getComponents().map(c => ({ ...c }))
         };
     }
 }
+
+/**
+ * Deep copy of component data. Vectors and other values with a `clone()`
+ * method are cloned; other class instances (textures, entities, script
+ * instances) are shared.
+ */
+function copyValue<T>(value: T): T {
+    if (value === null || typeof value !== 'object' || value instanceof Entity) return value;
+    if (Array.isArray(value)) return value.map(copyValue) as T;
+    if (value instanceof Map) return new Map(Array.from(value, ([k, v]) => [k, copyValue(v)])) as T;
+    if (value instanceof Set) return new Set(Array.from(value, copyValue)) as T;
+
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+        return typeof (value as any).clone === 'function' ? (value as any).clone() : value;
+    }
+    const copy: Record<string, any> = {};
+    for (const [key, field] of Object.entries(value)) copy[key] = copyValue(field);
+    return copy as T;
+}
@@ -0,0 +1,107 @@
+import { Entity } from './Entity';
+import { releaseSubscriptions } from '../core/EventSystem';
+
+export interface EntityPoolOptions {
+    // Put a released entity back in its initial state (components, flags)
+    reset?: (entity: Entity) => void;
+    // Released entities beyond this are destroyed instead of kept
+    maxSize?: number;
+}
+
+// Pool that created each entity, so World.removeEntity can hand it back
+const entityPools = new WeakMap<Entity, EntityPool>();
+
+export function getEntityPool(entity: Entity): EntityPool | undefined {
+    return entityPools.get(entity);
+}
+
+/**
+ * Reuses entities that are spawned and destroyed often (bullets,
+ * particles, pickups). Entities from `acquire` return to the pool when they
+ * are destroyed through the world or scene, or with `release`.
+ */
+export class EntityPool {
+    private free: Entity[] = [];
+    private readonly reset?: (entity: Entity) => void;
+    private readonly maxSize: number;
+    private created = 0;
+
+    constructor(private factory: () => Entity, options: EntityPoolOptions = {}) {
+        this.reset = options.reset;
+        this.maxSize = options.maxSize ?? Infinity;
+    }
+
+    /**
+     * Take a free entity, or build a new one with the factory. The entity is
+     * active but not in any world yet.
+     */
+    acquire(): Entity {
+        const entity = this.free.pop() ?? this.create();
+        entity.active = true;
+        return entity;
+    }
+
+    /**
+     * Give an entity back. It must be out of its world already; use
+     * `scene.destroyEntity` or `world.removeEntity` while it is in one.
+     */
+    release(entity: Entity): void {
+        if (entityPools.get(entity) !== this) {
+            throw new Error(`Entity '${entity.id}' does not belong to this pool`);
+        }
+        if (entity.getWorld()) {
+            throw new Error(`Entity '${entity.id}' is still in a world`);
+        }
+        if (this.free.includes(entity)) return;
+
+        entity.active = false;
+        // Listeners registered with `{ owner: entity }` do not survive reuse
+        releaseSubscriptions(entity);
+        this.reset?.(entity);
+
+        if (this.free.length < this.maxSize) {
+            this.free.push(entity);
+        } else {
+            entityPools.delete(entity);
+            entity.destroy();
+        }
+    }
+
+    /**
+     * Build entities ahead of time so the first spawns do not allocate
+     */
+    prewarm(count: number): void {
+        while (this.free.length < Math.min(count, this.maxSize)) {
+            const entity = this.create();
+            entity.active = false;
+            this.free.push(entity);
+        }
+    }
+
+    /**
+     * Destroy the free entities. Entities in use stay linked to the pool.
+     */
+    clear(): void {
+        for (const entity of this.free) {
+            entityPools.delete(entity);
+            entity.destroy();
+        }
+        this.free = [];
+    }
+
+    getFreeCount(): number {
+        return this.free.length;
+    }
+
+    // Entities built by the factory, free or in use
+    getCreatedCount(): number {
+        return this.created;
+    }
+
+    private create(): Entity {
+        const entity = this.factory();
+        entityPools.set(entity, this);
+        this.created++;
+        return entity;
+    }
+}
@@ -0,0 +1,229 @@
+import { Entity } from './Entity';
+import { HierarchyComponent, TransformComponent } from './Component';
+import type { World } from './World';
+import { Transform } from '../math/Transform';
+import { Vector2 } from '../math/Vector2';
+
+interface MatrixCacheEntry {
+    // Local position x/y, rotation and scale x/y the matrix was built from
+    local: number[];
+    // Parent world matrix the entry was combined with (null for roots)
+    parent: number[] | null;
+    matrix: number[];
+}
+
+// Keyed by entity so entries disappear with it. Transforms are usually edited
+// in place, so entries are validated against the local values instead of
+// relying on `markChanged`.
+const matrixCache = new WeakMap<Entity, MatrixCacheEntry>();
+
+function getHierarchy(entity: Entity): HierarchyComponent | undefined {
+    return entity.getComponent<HierarchyComponent>('hierarchy');
+}
+
+function ensureHierarchy(entity: Entity): HierarchyComponent {
+    let hierarchy = getHierarchy(entity);
+    if (!hierarchy) {
+        hierarchy = { type: 'hierarchy', parent: null, children: [] };
+        entity.addComponent(hierarchy);
+    }
+    return hierarchy;
+}
+
+function readLocal(entity: Entity): number[] {
+    const transform = entity.getComponent<TransformComponent>('transform');
+    if (!transform) return [0, 0, 0, 1, 1];
+    // Hand-written transforms may omit rotation or scale
+    return [
+        transform.position?.x ?? 0,
+        transform.position?.y ?? 0,
+        transform.rotation ?? 0,
+        transform.scale?.x ?? 1,
+        transform.scale?.y ?? 1
+    ];
+}
+
+export function getParent(entity: Entity): Entity | undefined {
+    const parentId = getHierarchy(entity)?.parent;
+    if (!parentId) return undefined;
+    return entity.getWorld()?.getEntity(parentId);
+}
+
+/**
+ * Direct children in sibling order
+ */
+export function getChildren(entity: Entity): Entity[] {
+    const hierarchy = getHierarchy(entity);
+    const world = entity.getWorld();
+    if (!hierarchy || !world) return [];
+
+    const children: Entity[] = [];
+    for (const id of hierarchy.children) {
+        const child = world.getEntity(id);
+        if (child) children.push(child);
+    }
+    return children;
+}
+
+/**
+ * Every entity below `entity`, depth-first in sibling order
+ */
+export function getDescendants(entity: Entity): Entity[] {
+    const result: Entity[] = [];
+    for (const child of getChildren(entity)) {
+        result.push(child, ...getDescendants(child));
+    }
+    return result;
+}
+
+export function isAncestorOf(ancestor: Entity, entity: Entity): boolean {
+    for (let current = getParent(entity); current; current = getParent(current)) {
+        if (current === ancestor) return true;
+    }
+    return false;
+}
+
+/**
+ * Attach `child` under `parent` (or make it a root with `null`). The local
+ * transform is kept, so the child moves into the parent's space. `index`
+ * sets the sibling position; by default the child is appended.
+ */
+export function setParent(child: Entity, parent: Entity | null, index?: number): void {
+    if (parent === child) {
+        throw new Error(`Entity '${child.id}' cannot be its own parent`);
+    }
+    if (parent) {
+        const world = child.getWorld();
+        if (!world || parent.getWorld() !== world) {
+            throw new Error(`Entities '${child.id}' and '${parent.id}' must belong to the same world`);
+        }
+        if (isAncestorOf(child, parent)) {
+            throw new Error(`Cannot parent entity '${child.id}' to its own descendant '${parent.id}'`);
+        }
+    }
+
+    const previous = getParent(child);
+    if (previous) {
+        const siblings = getHierarchy(previous)!.children;
+        siblings.splice(siblings.indexOf(child.id), 1);
+        previous.markChanged('hierarchy');
+    }
+
+    if (!parent && !getHierarchy(child)) return;
+
+    const hierarchy = ensureHierarchy(child);
+    hierarchy.parent = parent ? parent.id : null;
+    child.markChanged('hierarchy');
+
+    if (parent) {
+        const children = ensureHierarchy(parent).children;
+        const at = index === undefined ? children.length : Math.max(0, Math.min(index, children.length));
+        children.splice(at, 0, child.id);
+        parent.markChanged('hierarchy');
+    }
+}
+
+/**
+ * World matrix (same layout as `Transform.getMatrix()`), combining the local
+ * transforms of the entity and all its ancestors. Cached per entity.
+ */
+export function getWorldMatrix(entity: Entity): number[] {
+    const local = readLocal(entity);
+    const parent = getParent(entity);
+    const parentMatrix = parent ? getWorldMatrix(parent) : null;
+
+    const cached = matrixCache.get(entity);
+    if (cached && cached.parent === parentMatrix && cached.local.every((v, i) => v === local[i])) {
+        return cached.matrix;
+    }
+
+    const localMatrix = new Transform(
+        new Vector2(local[0], local[1]),
+        local[2],
+        new Vector2(local[3], local[4])
+    ).getMatrix();
+    const matrix = parentMatrix ? Transform.multiplyMatrices(parentMatrix, localMatrix) : localMatrix;
+    matrixCache.set(entity, { local, parent: parentMatrix, matrix });
+    return matrix;
+}
+
+/**
+ * World-space position, rotation and scale of an entity
+ */
+export function getWorldTransform(entity: Entity): Transform {
+    if (!getParent(entity)) {
+        const [x, y, rotation, scaleX, scaleY] = readLocal(entity);
+        return new Transform(new Vector2(x, y), rotation, new Vector2(scaleX, scaleY));
+    }
+    return Transform.fromMatrix(getWorldMatrix(entity));
+}
+
+export function getWorldPosition(entity: Entity): Vector2 {
+    if (!getParent(entity)) {
+        const [x, y] = readLocal(entity);
+        return new Vector2(x, y);
+    }
+    const matrix = getWorldMatrix(entity);
+    return new Vector2(matrix[4], matrix[5]);
+}
+
+/**
+ * Write a world-space position (and optionally rotation) back into the
+ * entity's local transform, relative to its parent. The transform is
+ * marked changed when it actually moved.
+ */
+export function setWorldTransform(entity: Entity, position: { x: number; y: number }, rotation?: number): void {
+    const transform = entity.getComponent<TransformComponent>('transform');
+    if (!transform) return;
+
+    let local: { x: number; y: number } = position;
+    let angle = rotation;
+    const parent = getParent(entity);
+    if (parent) {
+        const parentMatrix = getWorldMatrix(parent);
+        local = Transform.applyMatrix(Transform.invertMatrix(parentMatrix), position);
+        if (rotation !== undefined) angle = rotation - Math.atan2(parentMatrix[1], parentMatrix[0]);
+    }
+
+    const moved = transform.position.x !== local.x || transform.position.y !== local.y ||
+        (angle !== undefined && transform.rotation !== angle);
+    if (!moved) return;
+    transform.position.x = local.x;
+    transform.position.y = local.y;
+    if (angle !== undefined) transform.rotation = angle;
+    entity.markChanged('transform');
+}
+
+export function localToWorld(entity: Entity, point: { x: number; y: number }): Vector2 {
+    return Transform.applyMatrix(getWorldMatrix(entity), point);
+}
+
+export function worldToLocal(entity: Entity, point: { x: number; y: number }): Vector2 {
+    return Transform.applyMatrix(Transform.invertMatrix(getWorldMatrix(entity)), point);
+}
+
+/**
+ * Clone an entity together with all its descendants. Clones are added to
+ * `world` (the source entity's world by default) and the cloned root is
+ * attached to the same parent as the original.
+ */
+export function cloneHierarchy(entity: Entity, world: World | null = entity.getWorld()): Entity {
+    const clone = cloneSubtree(entity, world);
+
+    const parent = getParent(entity);
+    if (world && parent && parent.getWorld() === world) {
+        setParent(clone, parent);
+    }
+    return clone;
+}
+
+function cloneSubtree(entity: Entity, world: World | null): Entity {
+    const clone = entity.clone();
+    if (!world) return clone;
+
+    world.addEntity(clone);
+    for (const child of getChildren(entity)) {
+        setParent(cloneSubtree(child, world), clone);
+    }
+    return clone;
+}
@@ -0,0 +1,78 @@
+import { Entity } from './Entity';
+import { Vector2 } from '../math/Vector2';
+
+interface StepTransform {
+    x: number;
+    y: number;
+    rotation: number;
+}
+
+interface InterpolationState {
+    // World transforms after the last two fixed steps
+    previous: StepTransform;
+    current: StepTransform;
+    // Set by `skipInterpolation`: draw the raw transform until the next step
+    // and start the next one without blending from the old position
+    snap: boolean;
+}
+
+// Keyed by entity so states disappear with it (and are never serialized)
+const states = new WeakMap<Entity, InterpolationState>();
+
+/**
+ * Record the world transform an entity reached in a fixed step (done by
+ * `PhysicsSystem` after syncing transforms from the bodies)
+ */
+export function recordStepTransform(entity: Entity, position: { x: number; y: number }, rotation: number): void {
+    const current = { x: position.x, y: position.y, rotation };
+    const state = states.get(entity);
+    if (!state || state.snap) {
+        states.set(entity, { previous: current, current, snap: false });
+        return;
+    }
+    state.previous = state.current;
+    state.current = current;
+}
+
+/**
+ * Don't blend the next frames from the old position (teleports, respawns)
+ */
+export function skipInterpolation(entity: Entity): void {
+    const state = states.get(entity);
+    if (state) state.snap = true;
+}
+
+/**
+ * Forget the recorded steps; the entity is drawn with its raw transform
+ */
+export function clearInterpolation(entity: Entity): void {
+    states.delete(entity);
+}
+
+/**
+ * World position and rotation between the last two fixed steps, `alpha`
+ * (0..1) being how far the frame is past the previous one. Null when the
+ * entity has no recorded steps or was teleported since the last step.
+ */
+export function getInterpolatedTransform(entity: Entity, alpha: number): { position: Vector2; rotation: number } | null {
+    const state = states.get(entity);
+    if (!state || state.snap) return null;
+
+    const t = Math.max(0, Math.min(1, alpha));
+    const { previous, current } = state;
+    return {
+        position: new Vector2(
+            previous.x + (current.x - previous.x) * t,
+            previous.y + (current.y - previous.y) * t
+        ),
+        rotation: lerpAngle(previous.rotation, current.rotation, t)
+    };
+}
+
+// Blend through the shortest arc so bodies crossing ±PI don't spin around
+function lerpAngle(from: number, to: number, t: number): number {
+    let delta = (to - from) % (Math.PI * 2);
+    if (delta > Math.PI) delta -= Math.PI * 2;
+    if (delta < -Math.PI) delta += Math.PI * 2;
+    return from + delta * t;
+}
@@ -22,6 +22,7 @@ export class MovementSystem extends System {
 
                 // Normalize rotation to keep it between 0 and 2π
                 transform.rotation = transform.rotation % (2 * Math.PI);
+                entity.markChanged('transform');
             }
         });
     }
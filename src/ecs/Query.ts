@@ -0,0 +1,284 @@
+import { Archetype } from './Archetype';
+import { Component } from './Component';
+import { Entity } from './Entity';
+
+/**
+ * Component filter for a query. A plain array is shorthand for `{ all: [...] }`.
+ */
+export type QueryDescriptor = string[] | {
+    all?: string[];
+    any?: string[];
+    none?: string[];
+};
+
+export interface NormalizedQuery {
+    all: string[];
+    any: string[];
+    none: string[];
+}
+
+interface LogEntry {
+    entity: Entity;
+    tick: number;
+    type?: string;
+}
+
+export function normalizeQuery(descriptor: QueryDescriptor): NormalizedQuery {
+    const raw = Array.isArray(descriptor) ? { all: descriptor } : descriptor;
+    return {
+        all: Array.from(new Set(raw.all ?? [])),
+        any: Array.from(new Set(raw.any ?? [])).sort(),
+        none: Array.from(new Set(raw.none ?? [])).sort()
+    };
+}
+
+// `all` keeps its declared order: it is the order of the columns forEach passes
+export function queryKey(query: NormalizedQuery): string {
+    return `all:${query.all.join(',')};any:${query.any.join(',')};none:${query.none.join(',')}`;
+}
+
+/**
+ * Cached view over every archetype that matches a component filter.
+ * Queries are created through `World.query()` and stay up to date as
+ * entities gain or lose components.
+ *
+ * `C` types the components passed to `forEach`, in the order of `all`.
+ */
+export class Query<C extends Component[] = Component[]> {
+    public readonly key: string;
+    public readonly filter: NormalizedQuery;
+
+    private archetypes: Archetype[] = [];
+    private cache: Entity[] | null = null;
+    private trackers = new Set<QueryTracker>();
+    private addedLog: LogEntry[] = [];
+    private removedLog: LogEntry[] = [];
+    private changedLog: LogEntry[] = [];
+
+    constructor(filter: NormalizedQuery, private readonly currentTick: () => number) {
+        this.filter = filter;
+        this.key = queryKey(filter);
+    }
+
+    /**
+     * Check whether a set of component types satisfies this query
+     */
+    matches(types: ReadonlySet<string>): boolean {
+        if (!this.filter.all.every(t => types.has(t))) return false;
+        if (this.filter.any.length > 0 && !this.filter.any.some(t => types.has(t))) return false;
+        return !this.filter.none.some(t => types.has(t));
+    }
+
+    /**
+     * Whether a component type participates in this query's filter
+     */
+    watches(type: string): boolean {
+        return this.filter.all.includes(type) || this.filter.any.includes(type);
+    }
+
+    /**
+     * All entities currently matching the query
+     */
+    getEntities(): readonly Entity[] {
+        if (!this.cache) {
+            const result: Entity[] = [];
+            for (const archetype of this.archetypes) {
+                result.push(...archetype.getEntities());
+            }
+            this.cache = result;
+        }
+        return this.cache;
+    }
+
+    get size(): number {
+        let total = 0;
+        for (const archetype of this.archetypes) total += archetype.size;
+        return total;
+    }
+
+    has(entity: Entity): boolean {
+        return this.archetypes.some(a => a.contains(entity));
+    }
+
+    first(): Entity | undefined {
+        for (const archetype of this.archetypes) {
+            if (archetype.size > 0) return archetype.getEntities()[0];
+        }
+        return undefined;
+    }
+
+    /**
+     * Iterate matching entities together with their `all` components,
+     * read straight from the archetype columns
+     */
+    forEach(callback: (entity: Entity, ...components: C) => void): void {
+        for (const archetype of this.archetypes) {
+            const columns = this.filter.all.map(type => archetype.getColumn(type)!);
+            const entities = archetype.getEntities();
+            // Iterate backwards so the callback may remove the current entity safely
+            for (let row = entities.length - 1; row >= 0; row--) {
+                const components = columns.map(column => column[row]) as C;
+                callback(entities[row], ...components);
+            }
+        }
+    }
+
+    /**
+     * Create a tracker that reports entities added to, removed from or
+     * changed within this query since the tracker was last read
+     */
+    track(): QueryTracker {
+        const tracker = new QueryTracker(this, this.currentTick());
+        this.trackers.add(tracker);
+        return tracker;
+    }
+
+    /** @internal */
+    getTick(): number {
+        return this.currentTick();
+    }
+
+    /** @internal */
+    addArchetype(archetype: Archetype): void {
+        this.archetypes.push(archetype);
+        this.cache = null;
+    }
+
+    /** @internal */
+    invalidate(): void {
+        this.cache = null;
+    }
+
+    /** @internal */
+    recordAdded(entity: Entity, tick: number): void {
+        this.cache = null;
+        if (this.trackers.size > 0) this.addedLog.push({ entity, tick });
+    }
+
+    /** @internal */
+    recordRemoved(entity: Entity, tick: number): void {
+        this.cache = null;
+        if (this.trackers.size > 0) this.removedLog.push({ entity, tick });
+    }
+
+    /** @internal */
+    recordChanged(entity: Entity, type: string, tick: number): void {
+        if (this.trackers.size > 0) this.changedLog.push({ entity, tick, type });
+    }
+
+    /** @internal */
+    readAdded(since: number): Entity[] {
+        return unique(this.addedLog, since).filter(e => this.has(e));
+    }
+
+    /** @internal */
+    readRemoved(since: number): Entity[] {
+        return unique(this.removedLog, since).filter(e => !this.has(e));
+    }
+
+    /** @internal */
+    readChanged(since: number, types?: string[]): Map<Entity, string[]> {
+        const result = new Map<Entity, string[]>();
+        for (const entry of this.changedLog) {
+            if (entry.tick <= since || (types && !types.includes(entry.type!))) continue;
+            if (!this.has(entry.entity)) continue;
+
+            const changedTypes = result.get(entry.entity);
+            if (!changedTypes) result.set(entry.entity, [entry.type!]);
+            else if (!changedTypes.includes(entry.type!)) changedTypes.push(entry.type!);
+        }
+        return result;
+    }
+
+    /** @internal */
+    releaseTracker(tracker: QueryTracker): void {
+        this.trackers.delete(tracker);
+        this.prune();
+    }
+
+    /**
+     * Drop log entries every live tracker has already consumed
+     * @internal
+     */
+    prune(): void {
+        if (this.trackers.size === 0) {
+            this.addedLog = [];
+            this.removedLog = [];
+            this.changedLog = [];
+            return;
+        }
+
+        let addedMin = Infinity, removedMin = Infinity, changedMin = Infinity;
+        for (const tracker of this.trackers) {
+            addedMin = Math.min(addedMin, tracker.cursors.added);
+            removedMin = Math.min(removedMin, tracker.cursors.removed);
+            changedMin = Math.min(changedMin, tracker.cursors.changed);
+        }
+        this.addedLog = this.addedLog.filter(e => e.tick > addedMin);
+        this.removedLog = this.removedLog.filter(e => e.tick > removedMin);
+        this.changedLog = this.changedLog.filter(e => e.tick > changedMin);
+    }
+}
+
+/**
+ * Per-consumer cursor over a query's change logs. Each read returns what
+ * happened since the previous read of the same kind, so several systems can
+ * share one cached query without stealing each other's notifications.
+ */
+export class QueryTracker {
+    /** @internal */
+    public readonly cursors: { added: number; removed: number; changed: number };
+
+    constructor(private readonly query: Query<any>, tick: number) {
+        this.cursors = { added: tick, removed: tick, changed: tick };
+    }
+
+    added(): Entity[] {
+        const result = this.query.readAdded(this.cursors.added);
+        this.cursors.added = this.now();
+        this.query.prune();
+        return result;
+    }
+
+    removed(): Entity[] {
+        const result = this.query.readRemoved(this.cursors.removed);
+        this.cursors.removed = this.now();
+        this.query.prune();
+        return result;
+    }
+
+    /**
+     * Entities whose components were replaced or marked changed.
+     * Optionally restricted to specific component types.
+     */
+    changed(types?: string[]): Entity[] {
+        return Array.from(this.changedComponents(types).keys());
+    }
+
+    /**
+     * Same as `changed()` but also reports which component types changed
+     * for each entity
+     */
+    changedComponents(types?: string[]): Map<Entity, string[]> {
+        const result = this.query.readChanged(this.cursors.changed, types);
+        this.cursors.changed = this.now();
+        this.query.prune();
+        return result;
+    }
+
+    dispose(): void {
+        this.query.releaseTracker(this);
+    }
+
+    private now(): number {
+        return this.query.getTick();
+    }
+}
+
+function unique(entries: LogEntry[], since: number): Entity[] {
+    const seen = new Set<Entity>();
+    for (const entry of entries) {
+        if (entry.tick > since) seen.add(entry.entity);
+    }
+    return Array.from(seen);
+}
@@ -1,4 +1,5 @@
 import { Entity } from '../ecs/Entity';
+import { Component } from './Component';
 
 export type ScriptState = Record<string, any>;
 
@@ -7,6 +8,8 @@ export interface ScriptInstance {
     init?(): void;
     update?(dt: number): void;
     destroy?(): void;
+    // Llamado cuando otro componente de la entidad se añade, reemplaza, quita o se marca como cambiado
+    onComponentChanged?(type: string, component: Component | undefined): void;
 
     // Nuevos métodos opcionales para gestión de estado avanzada
     getAllProperties?(): ScriptState;
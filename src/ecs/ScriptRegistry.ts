@@ -1,4 +1,5 @@
 import { ScriptInstance, ScriptState } from './ScriptComponent';
+import { releaseSubscriptions } from '../core/EventSystem';
 
 export interface ScriptMetadata {
     className: string;
@@ -430,6 +431,8 @@ export class ScriptRegistry {
 
     cleanupInstance(instance: ScriptInstance): void {
         this.instanceStates.delete(instance);
+        // Listeners the script registered with `{ owner: this }`
+        releaseSubscriptions(instance);
     }
 
     private deepClone(obj: any): any {
@@ -1,13 +1,15 @@
 import { System } from '../core/GameLoop';
 import { ScriptComponent } from './ScriptComponent';
 import { scriptRegistry } from './ScriptRegistry';
-import { EventSystem } from '../core/EventSystem';
+import { EventSystem, releaseSubscriptions } from '../core/EventSystem';
 import { SCENE_EVENTS, WORLD_EVENTS } from '../types/event-const';
 import { Entity } from './Entity';
 
 export class ScriptSystem implements System {
     requiredComponents = ['script'];
     private eventSystem = EventSystem.getInstance();
+    // Last seen component versions per entity, used to detect component edits
+    private componentVersions = new WeakMap<Entity, Map<string, number>>();
 
     private boundEntityRemoved = (event: any) => {
         const entity = event.data?.entity as Entity;
@@ -47,8 +49,8 @@ export class ScriptSystem implements System {
 
     initialize?(): void {
         try {
-            this.eventSystem.on(SCENE_EVENTS.ENTITY_REMOVED, this.boundEntityRemoved);
-            this.eventSystem.on(WORLD_EVENTS.ENTITY_DESTROYED, this.boundEntityRemoved);
+            this.eventSystem.on(SCENE_EVENTS.ENTITY_REMOVED, this.boundEntityRemoved, { owner: this });
+            this.eventSystem.on(WORLD_EVENTS.ENTITY_DESTROYED, this.boundEntityRemoved, { owner: this });
         } catch (err) {
             // event constants may not be available in some contexts; swallow
         }
@@ -59,11 +61,15 @@ export class ScriptSystem implements System {
             const sc = e.getComponent('script') as ScriptComponent;
             if (!sc) continue;
 
+            const changedTypes = this.collectChangedComponents(e);
+
             // Helper mejorado para crear/restaurar/init/update una entrada de script
             const handleEntry = (entry: any) => {
                 if (!entry) return;
 
-                if (!entry.instance && entry.scriptName) {
+                // Scripts created this frame already see the current components
+                const created = !entry.instance && !!entry.scriptName;
+                if (created) {
                     let inst: any;
                     try {
                         inst = scriptRegistry.create(entry.scriptName, e);
@@ -100,6 +106,14 @@ export class ScriptSystem implements System {
                     }
                 }
 
+                for (const type of created ? [] : changedTypes) {
+                    try {
+                        entry.instance?.onComponentChanged?.(type, e.getComponent(type));
+                    } catch (err) {
+                        console.error('Script onComponentChanged error', err);
+                    }
+                }
+
                 try {
                     entry.instance?.update?.(dt);
                 } catch (err) {
@@ -119,12 +133,30 @@ export class ScriptSystem implements System {
         }
     }
 
-    destroy(): void {
-        try {
-            this.eventSystem.off(SCENE_EVENTS.ENTITY_REMOVED, this.boundEntityRemoved);
-            this.eventSystem.off(WORLD_EVENTS.ENTITY_DESTROYED, this.boundEntityRemoved);
-        } catch (err) {
-            // ignore
+    /**
+     * Component types (other than 'script') whose version differs from the
+     * last frame. Nothing is reported the first time an entity is seen.
+     */
+    private collectChangedComponents(entity: Entity): string[] {
+        const previous = this.componentVersions.get(entity);
+        const current = new Map<string, number>();
+        for (const type of entity.getComponentTypes()) {
+            if (type !== 'script') current.set(type, entity.getComponentVersion(type));
+        }
+        this.componentVersions.set(entity, current);
+        if (!previous) return [];
+
+        const changed: string[] = [];
+        for (const [type, version] of current) {
+            if (previous.get(type) !== version) changed.push(type);
+        }
+        for (const type of previous.keys()) {
+            if (!current.has(type)) changed.push(type);
         }
+        return changed;
+    }
+
+    destroy(): void {
+        releaseSubscriptions(this);
     }
 }
\ No newline at end of file
@@ -0,0 +1,315 @@
+import { Entity } from './Entity';
+import type { World } from './World';
+import type { QueryTracker } from './Query';
+import { getDescendants, getWorldTransform } from './Hierarchy';
+import { Vector2 } from '../math/Vector2';
+import { SpatialPartition, distanceToRect, rayIntersectsRect, rectsEqual } from '../math/SpatialPartition';
+import { SpatialHash } from '../math/SpatialHash';
+import { QuadTree, QuadTreeOptions } from '../math/QuadTree';
+import { getShapeBounds } from '../math/SAT';
+import { getColliderShape } from './Collider';
+
+export type SpatialPartitionType = 'hash' | 'quadtree';
+
+export interface SpatialIndexOptions extends QuadTreeOptions {
+    // 'hash' (default) for open worlds, 'quadtree' for bounded levels
+    type?: SpatialPartitionType;
+    // Hash cell size in world units
+    cellSize?: number;
+    // Quadtree area; entities outside it still work but are not partitioned
+    bounds?: Rectangle;
+    // World-space bounds of an entity (null leaves it out of the index)
+    getBounds?: (entity: Entity) => Rectangle | null;
+    // Components the bounds are read from besides the transform; adding,
+    // replacing or marking one of them changed reinserts the entity
+    watch?: string[];
+}
+
+export interface SpatialQueryOptions {
+    tag?: string;
+    filter?: (entity: Entity) => boolean;
+    // Inactive entities are skipped unless this is set
+    includeInactive?: boolean;
+}
+
+export interface SpatialRayHit {
+    entity: Entity;
+    // Along the normalized direction, from the origin to the entity bounds
+    distance: number;
+    point: Vector2;
+}
+
+const DEFAULT_QUADTREE_BOUNDS: Rectangle = { x: -4096, y: -4096, width: 8192, height: 8192 };
+// Read by getEntityBounds; 'hierarchy' changes when an entity is reparented
+const DEFAULT_WATCH = ['collider', 'sprite', 'light', 'hierarchy'];
+
+/**
+ * Scene-level spatial index over the entities with a transform. Bounds come
+ * from the collider, sprite and light components (see `getEntityBounds`).
+ *
+ * The index follows the world's change tracking: before each query it
+ * reinserts the entities (and their descendants) whose transform or watched
+ * components were added, replaced or marked changed, so moves are visible
+ * right away. In-place edits need `entity.markChanged('transform')`; call
+ * `update(entity)` or `refresh()` for the ones that are not marked.
+ */
+export class SpatialIndex {
+    private partition: SpatialPartition<Entity>;
+    private readonly boundsOf: (entity: Entity) => Rectangle | null;
+    private readonly trackers: QueryTracker[];
+    private indexed = new Set<Entity>();
+    private stale = true;
+
+    constructor(private world: World, options: SpatialIndexOptions = {}) {
+        this.boundsOf = options.getBounds ?? getEntityBounds;
+        this.partition = options.type === 'quadtree'
+            ? new QuadTree<Entity>(options.bounds ?? DEFAULT_QUADTREE_BOUNDS, options)
+            : new SpatialHash<Entity>(options.cellSize ?? 128);
+        const watch = options.watch ?? DEFAULT_WATCH;
+        this.trackers = [['transform'], ...watch.map(type => ['transform', type])]
+            .map(types => world.query(types).track());
+    }
+
+    getPartition(): SpatialPartition<Entity> {
+        return this.partition;
+    }
+
+    get size(): number {
+        this.sync();
+        return this.partition.size;
+    }
+
+    /**
+     * Mark every stored bounds as possibly outdated, for edits that were not
+     * marked changed
+     */
+    invalidate(): void {
+        this.stale = true;
+    }
+
+    /**
+     * Reinsert the entities changed since the last sync. Queries sync on
+     * their own; the scene also syncs every phase so the change logs stay
+     * short when nothing queries the index.
+     */
+    sync(): void {
+        if (this.stale) {
+            this.refresh();
+            return;
+        }
+
+        const moved = new Set<Entity>();
+        for (const tracker of this.trackers) {
+            for (const entity of tracker.added()) moved.add(entity);
+            for (const entity of tracker.removed()) moved.add(entity);
+            for (const entity of tracker.changed()) {
+                moved.add(entity);
+                // Children move with their parent
+                for (const child of getDescendants(entity)) moved.add(child);
+            }
+        }
+        for (const entity of moved) this.reinsert(entity);
+    }
+
+    /**
+     * Re-read the bounds of every entity with a transform; entities that
+     * left the world or lost their bounds are dropped
+     */
+    refresh(): void {
+        this.stale = false;
+        // Everything is re-read, so the pending changes are consumed too
+        for (const tracker of this.trackers) {
+            tracker.added();
+            tracker.removed();
+            tracker.changed();
+        }
+
+        const seen = new Set<Entity>();
+        for (const entity of this.world.query(['transform']).getEntities()) {
+            const bounds = this.boundsOf(entity);
+            if (!bounds) continue;
+            seen.add(entity);
+            const current = this.partition.getBounds(entity);
+            if (!current || !rectsEqual(current, bounds)) this.partition.insert(entity, bounds);
+        }
+
+        for (const entity of this.indexed) {
+            if (!seen.has(entity)) this.partition.remove(entity);
+        }
+        this.indexed = seen;
+    }
+
+    /**
+     * Re-read the bounds of one entity edited without `markChanged`,
+     * cheaper than `refresh()` when only a few entities moved
+     */
+    update(entity: Entity): void {
+        // A stale index re-reads every bounds on the next query anyway
+        if (!this.stale) this.reinsert(entity);
+    }
+
+    getEntityBounds(entity: Entity): Rectangle | undefined {
+        this.sync();
+        return this.partition.getBounds(entity);
+    }
+
+    /**
+     * Entities whose bounds overlap the area
+     */
+    queryRegion(area: Rectangle, options: SpatialQueryOptions = {}): Entity[] {
+        this.sync();
+        return this.partition.query(area).filter(entity => accepts(entity, options));
+    }
+
+    /**
+     * Entities whose bounds touch the circle
+     */
+    queryRadius(center: Vector2D, radius: number, options: SpatialQueryOptions = {}): Entity[] {
+        const area = { x: center.x - radius, y: center.y - radius, width: radius * 2, height: radius * 2 };
+        return this.queryRegion(area, options).filter(entity =>
+            distanceToRect(center.x, center.y, this.partition.getBounds(entity)!) <= radius);
+    }
+
+    /**
+     * Entities whose bounds the ray crosses within `maxDistance`, closest first
+     */
+    raycast(origin: Vector2D, direction: Vector2D, maxDistance: number, options: SpatialQueryOptions = {}): SpatialRayHit[] {
+        const length = Math.hypot(direction.x, direction.y);
+        if (length === 0) return [];
+        const dx = direction.x / length;
+        const dy = direction.y / length;
+
+        const endX = origin.x + dx * maxDistance;
+        const endY = origin.y + dy * maxDistance;
+        const area = {
+            x: Math.min(origin.x, endX),
+            y: Math.min(origin.y, endY),
+            width: Math.abs(endX - origin.x),
+            height: Math.abs(endY - origin.y)
+        };
+
+        const candidates = Number.isFinite(maxDistance)
+            ? this.queryRegion(area, options)
+            : this.getIndexed(options);
+        const hits: SpatialRayHit[] = [];
+        for (const entity of candidates) {
+            const distance = rayIntersectsRect(origin.x, origin.y, dx, dy, this.partition.getBounds(entity)!, maxDistance);
+            if (distance === null) continue;
+            hits.push({ entity, distance, point: new Vector2(origin.x + dx * distance, origin.y + dy * distance) });
+        }
+        return hits.sort((a, b) => a.distance - b.distance);
+    }
+
+    /**
+     * The `count` entities closest to a point (distance to their bounds),
+     * closest first
+     */
+    nearest(point: Vector2D, count: number = 1, options: SpatialQueryOptions & { maxDistance?: number } = {}): Entity[] {
+        this.sync();
+        if (count <= 0 || this.partition.size === 0) return [];
+
+        const maxDistance = options.maxDistance ?? Infinity;
+        const candidates = this.getIndexed(options).length;
+        // Grow the search circle until it holds enough entities; anything
+        // outside the circle is farther than everything inside it
+        let radius = Math.min(maxDistance, this.partition instanceof SpatialHash ? this.partition.getCellSize() : 64);
+        for (;;) {
+            const found = this.queryRadius(point, radius, options);
+            if (found.length >= count || radius >= maxDistance || found.length === candidates) {
+                return found
+                    .map(entity => ({ entity, distance: distanceToRect(point.x, point.y, this.partition.getBounds(entity)!) }))
+                    .sort((a, b) => a.distance - b.distance)
+                    .slice(0, count)
+                    .map(hit => hit.entity);
+            }
+            radius = Math.min(maxDistance, radius * 2);
+        }
+    }
+
+    clear(): void {
+        this.partition.clear();
+        this.indexed.clear();
+        this.stale = true;
+    }
+
+    /**
+     * Clear the index and stop following the world's changes
+     */
+    dispose(): void {
+        this.clear();
+        for (const tracker of this.trackers) tracker.dispose();
+    }
+
+    private getIndexed(options: SpatialQueryOptions): Entity[] {
+        this.sync();
+        return [...this.indexed].filter(entity => accepts(entity, options));
+    }
+
+    private reinsert(entity: Entity): void {
+        const bounds = entity.getWorld() === this.world ? this.boundsOf(entity) : null;
+        if (bounds) {
+            const current = this.partition.getBounds(entity);
+            if (!current || !rectsEqual(current, bounds)) this.partition.insert(entity, bounds);
+            this.indexed.add(entity);
+        } else if (this.indexed.delete(entity)) {
+            this.partition.remove(entity);
+        }
+    }
+}
+
+function accepts(entity: Entity, options: SpatialQueryOptions): boolean {
+    if (!options.includeInactive && !entity.active) return false;
+    if (options.tag !== undefined && !entity.hasTag(options.tag)) return false;
+    return !options.filter || options.filter(entity);
+}
+
+/**
+ * Default bounds: the world position grown to the largest of the scaled
+ * sprite and the light radius, enlarged to cover the rotation, plus the
+ * collider shape. An entity with only a transform is a point.
+ */
+export function getEntityBounds(entity: Entity): Rectangle | null {
+    if (!entity.hasComponent('transform')) return null;
+    const transform = getWorldTransform(entity);
+    const scaleX = Math.abs(transform.scale.x);
+    const scaleY = Math.abs(transform.scale.y);
+
+    let halfWidth = 0;
+    let halfHeight = 0;
+    const grow = (width: number, height: number) => {
+        if (Number.isFinite(width)) halfWidth = Math.max(halfWidth, width / 2);
+        if (Number.isFinite(height)) halfHeight = Math.max(halfHeight, height / 2);
+    };
+
+    const sprite = entity.getComponent<any>('sprite');
+    if (sprite) grow(sprite.width * scaleX, sprite.height * scaleY);
+    const light = entity.getComponent<any>('light');
+    if (light) {
+        for (const entry of [light, ...(Array.isArray(light.lights) ? light.lights : [])]) {
+            const radius = entry?.instance?.radius ?? entry?.state?.radius;
+            if (typeof radius === 'number') grow(radius * 2, radius * 2);
+        }
+    }
+
+    if (transform.rotation !== 0 && (halfWidth > 0 || halfHeight > 0)) {
+        const cos = Math.abs(Math.cos(transform.rotation));
+        const sin = Math.abs(Math.sin(transform.rotation));
+        [halfWidth, halfHeight] = [halfWidth * cos + halfHeight * sin, halfWidth * sin + halfHeight * cos];
+    }
+
+    const { x, y } = transform.position;
+    const bounds = { x: x - halfWidth, y: y - halfHeight, width: halfWidth * 2, height: halfHeight * 2 };
+    const collider = getColliderShape(entity);
+    return collider ? unionRects(bounds, getShapeBounds(collider)) : bounds;
+}
+
+function unionRects(a: Rectangle, b: Rectangle): Rectangle {
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return {
+        x,
+        y,
+        width: Math.max(a.x + a.width, b.x + b.width) - x,
+        height: Math.max(a.y + a.height, b.y + b.height) - y
+    };
+}
@@ -1,11 +1,111 @@
 import { Entity } from './Entity';
+import type { World } from './World';
+import type { Query, QueryDescriptor, QueryTracker } from './Query';
 
 export abstract class System {
     abstract readonly requiredComponents: string[];
+    // World providing cached queries; when unset systems filter the entity list they receive
+    protected world: World | null = null;
+
+    // Reactive hook state, only used when the subclass defines a hook
+    private changeTracker: QueryTracker | null = null;
+    private changeQuery: Query | null = null;
+    private pendingAdded: Entity[] = [];
+    private delivered = new Set<Entity>();
+
+    /**
+     * Called once for each entity that starts matching `getReactiveQuery()`
+     */
+    onAdded?(entity: Entity): void;
+
+    /**
+     * Called once for each entity that stops matching `getReactiveQuery()`
+     * (component removed, entity detached, or system moved to another world)
+     */
+    onRemoved?(entity: Entity): void;
+
+    /**
+     * Called for matching entities whose watched components were replaced
+     * or marked changed since the last flush
+     */
+    onChanged?(entity: Entity, types: string[]): void;
 
     abstract update(entities: Entity[], deltaTime: number): void;
 
+    /**
+     * Attach the system to a world (done by `World.addSystem` and by the engine
+     * for the active scene). Subclasses can override to rebuild trackers.
+     */
+    setWorld(world: World | null): void {
+        if (world === this.world) return;
+
+        this.releaseChangeTracker();
+        this.world = world;
+
+        if (world && this.isReactive()) {
+            this.changeQuery = world.query(this.getReactiveQuery());
+            this.changeTracker = this.changeQuery.track();
+            // Entities already in the world are reported on the first flush
+            this.pendingAdded = [...this.changeQuery.getEntities()];
+        }
+    }
+
+    getWorld(): World | null {
+        return this.world;
+    }
+
+    /**
+     * Deliver queued `onRemoved`, `onAdded` and `onChanged` hooks. Called by
+     * `World.update` and the game loop right before `update`.
+     */
+    flushChanges(): void {
+        const tracker = this.changeTracker;
+        const query = this.changeQuery;
+        if (!tracker || !query) return;
+
+        for (const entity of tracker.removed()) {
+            if (this.delivered.delete(entity)) this.onRemoved?.(entity);
+        }
+
+        const added = new Set<Entity>();
+        for (const entity of [...this.pendingAdded.splice(0), ...tracker.added()]) {
+            if (this.delivered.has(entity) || !query.has(entity)) continue;
+            this.delivered.add(entity);
+            added.add(entity);
+            this.onAdded?.(entity);
+        }
+
+        // Always read so the tracker cursor advances and the log can be pruned
+        const changed = tracker.changedComponents();
+        if (!this.onChanged) return;
+        for (const [entity, types] of changed) {
+            if (!added.has(entity) && this.delivered.has(entity)) this.onChanged(entity, types);
+        }
+    }
+
+    /**
+     * Component filter the reactive hooks follow. Defaults to `requiredComponents`.
+     */
+    protected getReactiveQuery(): QueryDescriptor {
+        return this.requiredComponents;
+    }
+
+    /**
+     * Get a cached query from the attached world
+     */
+    protected query(descriptor: QueryDescriptor): Query | null {
+        return this.world ? this.world.query(descriptor) : null;
+    }
+
+    /**
+     * Entities that own every component in `components`. Uses the world's
+     * cached query when attached; otherwise filters `entities` directly.
+     */
     protected getEntitiesWithComponents(entities: Entity[], components: string[]): Entity[] {
+        if (this.world) {
+            return this.world.query(components).getEntities().filter(entity => entity.active);
+        }
+
         return entities.filter(entity =>
             entity.active && components.every(comp => entity.hasComponent(comp))
         );
@@ -14,4 +114,25 @@ export abstract class System {
     protected filterInactiveEntities(entities: Entity[]): Entity[] {
         return entities.filter(entity => entity.active);
     }
+
+    private isReactive(): boolean {
+        return !!(this.onAdded || this.onRemoved || this.onChanged);
+    }
+
+    /**
+     * Stop following the current world; entities already reported through
+     * `onAdded` get a matching `onRemoved`
+     */
+    private releaseChangeTracker(): void {
+        if (!this.changeTracker) return;
+
+        this.changeTracker.dispose();
+        this.changeTracker = null;
+        this.changeQuery = null;
+        this.pendingAdded = [];
+
+        const delivered = Array.from(this.delivered);
+        this.delivered.clear();
+        for (const entity of delivered) this.onRemoved?.(entity);
+    }
 }
@@ -1,55 +1,280 @@
 import { Entity } from './Entity';
 import { System } from './System';
-import { EventSystem } from '../core/EventSystem';
+import { Component } from './Component';
+import { Archetype } from './Archetype';
+import { Query, QueryDescriptor, normalizeQuery, queryKey } from './Query';
+import { getChildren, getParent, setParent } from './Hierarchy';
+import { EventBus, EventSystem, EventSubscription } from '../core/EventSystem';
 import { WORLD_EVENTS } from '@/types/event-const';
+import { getEntityPool } from './EntityPool';
+import type { SpatialIndex } from './SpatialIndex';
 
+/**
+ * Archetype-based entity store. Entities are grouped into tables by their
+ * exact component set, and queries cache the tables that match them so
+ * systems never have to re-filter every entity each frame.
+ */
 export class World {
     private entities: Map<string, Entity>;
     private systems: System[];
-    private eventSystem: EventSystem;
+    // Global bus unless the owner (a scene) gives the world its own
+    private eventSystem: EventBus;
+
+    private archetypes = new Map<string, Archetype>();
+    private entityArchetype = new Map<Entity, Archetype>();
+    private queries = new Map<string, Query<any>>();
+    // Entities by name and by tag, kept up to date by the Entity setters
+    private names = new Map<string, Set<Entity>>();
+    private tags = new Map<string, Set<Entity>>();
+    // Optional broad phase shared by culling, collisions and gameplay queries
+    private spatialIndex: SpatialIndex | null = null;
+    private readonly emptyArchetype: Archetype;
+    // Monotonic counter stamped on every structural change or component edit
+    private tick = 0;
 
     constructor() {
         this.entities = new Map();
         this.systems = [];
         this.eventSystem = EventSystem.getInstance();
+        this.emptyArchetype = this.getOrCreateArchetype([]);
+    }
+
+    /**
+     * Emit world events on another bus (scenes use their own bus so the
+     * events still bubble up to the global one)
+     */
+    setEventBus(bus: EventBus): void {
+        this.eventSystem = bus;
+    }
+
+    getEventBus(): EventBus {
+        return this.eventSystem;
+    }
+
+    setSpatialIndex(index: SpatialIndex | null): void {
+        this.spatialIndex = index;
+    }
+
+    /**
+     * Spatial index of this world, if its scene enabled one
+     */
+    getSpatialIndex(): SpatialIndex | null {
+        return this.spatialIndex;
     }
 
     createEntity(): Entity {
         const entity = new Entity();
-        this.entities.set(entity.id, entity);
+        this.addEntity(entity);
         this.eventSystem.emit(WORLD_EVENTS.ENTITY_CREATED, { entity });
         return entity;
     }
 
+    /**
+     * Attach an existing entity (and its current components) to this world
+     */
+    addEntity(entity: Entity): void {
+        if (this.entities.has(entity.id)) return;
+
+        const owner = entity.getWorld();
+        if (owner && owner !== this) {
+            throw new Error(`Entity '${entity.id}' already belongs to another world`);
+        }
+
+        this.entities.set(entity.id, entity);
+        entity.setWorld(this);
+
+        const archetype = this.getOrCreateArchetype(entity.getComponentTypes());
+        this.moveEntity(entity, null, archetype);
+
+        addToIndex(this.names, entity.getName(), entity);
+        for (const tag of entity.getTags()) this.onTagAdded(entity, tag);
+    }
+
+    /**
+     * Destroy an entity and, depth-first, all of its children.
+     * ENTITY_DESTROYED is dispatched right away, while the entity still has
+     * its components, so systems can release bodies, sounds or lights.
+     * Entities taken from an EntityPool go back to it instead.
+     */
     removeEntity(entityId: string): void {
         const entity = this.entities.get(entityId);
-        if (entity) {
+        if (!entity) return;
+
+        for (const child of getChildren(entity)) {
+            this.removeEntity(child.id);
+        }
+        this.eventSystem.emitImmediate(WORLD_EVENTS.ENTITY_DESTROYED, { entityId, entity, world: this });
+        this.detachEntity(entityId);
+
+        const pool = getEntityPool(entity);
+        if (pool) {
+            pool.release(entity);
+        } else {
             entity.destroy();
-            this.entities.delete(entityId);
-            this.eventSystem.emit(WORLD_EVENTS.ENTITY_DESTROYED, { entityId });
         }
     }
 
+    /**
+     * Remove an entity and its descendants from the world tables without
+     * destroying them. The entity is unlinked from its parent; links inside
+     * the detached subtree are kept.
+     */
+    detachEntity(entityId: string): Entity | undefined {
+        const entity = this.entities.get(entityId);
+        if (!entity) return undefined;
+
+        setParent(entity, null);
+        this.detachSubtree(entity);
+        return entity;
+    }
+
+    hasEntity(entityId: string): boolean {
+        return this.entities.has(entityId);
+    }
+
     addSystem(system: System): void {
         this.systems.push(system);
+        system.setWorld(this);
     }
 
     removeSystem(system: System): void {
         const index = this.systems.indexOf(system);
         if (index !== -1) {
             this.systems.splice(index, 1);
+            system.setWorld(null);
         }
     }
 
     update(deltaTime: number): void {
-        const activeEntities = Array.from(this.entities.values()).filter(entity => entity.active);
-        this.systems.forEach(system => system.update(activeEntities, deltaTime));
+        const activeEntities = this.getActiveEntities();
+        this.systems.forEach(system => {
+            system.flushChanges();
+            system.update(activeEntities, deltaTime);
+        });
+    }
+
+    /**
+     * Get (or create and cache) a query over a set of component types.
+     * The same descriptor always returns the same `Query` instance; `all` in
+     * another order is another query, with its columns in that order.
+     */
+    query<C extends Component[] = Component[]>(descriptor: QueryDescriptor): Query<C> {
+        const filter = normalizeQuery(descriptor);
+        const key = queryKey(filter);
+
+        let query = this.queries.get(key);
+        if (!query) {
+            query = new Query<C>(filter, () => this.tick);
+            for (const archetype of this.archetypes.values()) {
+                if (query.matches(archetype.types)) query.addArchetype(archetype);
+            }
+            this.queries.set(key, query);
+        }
+        return query as Query<C>;
+    }
+
+    /**
+     * Record an in-place edit of a component so `changed` trackers report it
+     */
+    markChanged(entity: Entity, type: string): void {
+        const archetype = this.entityArchetype.get(entity);
+        if (!archetype || !archetype.has(type)) return;
+
+        const tick = ++this.tick;
+        for (const query of this.queries.values()) {
+            if (query.watches(type) && query.matches(archetype.types)) {
+                query.recordChanged(entity, type, tick);
+            }
+        }
+    }
+
+    getTick(): number {
+        return this.tick;
+    }
+
+    getArchetypeCount(): number {
+        return this.archetypes.size;
+    }
+
+    /** @internal Called by `Entity.addComponent` */
+    onComponentAdded(entity: Entity, component: Component, replaced: boolean): void {
+        const from = this.entityArchetype.get(entity);
+        if (!from) return;
+
+        if (replaced) {
+            from.setComponent(entity, component);
+            this.markChanged(entity, component.type);
+            return;
+        }
+
+        let to = from.getAddEdge(component.type);
+        if (!to) {
+            to = this.getOrCreateArchetype([...from.types, component.type]);
+            from.setAddEdge(component.type, to);
+            to.setRemoveEdge(component.type, from);
+        }
+        this.moveEntity(entity, from, to);
+    }
+
+    /** @internal Called by `Entity.removeComponent` */
+    onComponentRemoved(entity: Entity, type: string): void {
+        const from = this.entityArchetype.get(entity);
+        if (!from || !from.has(type)) return;
+
+        let to = from.getRemoveEdge(type);
+        if (!to) {
+            to = this.getOrCreateArchetype([...from.types].filter(t => t !== type));
+            from.setRemoveEdge(type, to);
+            to.setAddEdge(type, from);
+        }
+        this.moveEntity(entity, from, to);
+    }
+
+    /** @internal Called by `Entity.setName` */
+    onEntityRenamed(entity: Entity, previous: string): void {
+        removeFromIndex(this.names, previous, entity);
+        addToIndex(this.names, entity.getName(), entity);
+    }
+
+    /** @internal Called by `Entity.addTag` and when a tagged entity is added */
+    onTagAdded(entity: Entity, tag: string): void {
+        addToIndex(this.tags, tag, entity);
+        this.eventSystem.emit(WORLD_EVENTS.TAG_ADDED, { entity, tag });
+    }
+
+    /** @internal Called by `Entity.removeTag` and when a tagged entity leaves */
+    onTagRemoved(entity: Entity, tag: string): void {
+        removeFromIndex(this.tags, tag, entity);
+        this.eventSystem.emit(WORLD_EVENTS.TAG_REMOVED, { entity, tag });
     }
 
     getEntity(entityId: string): Entity | undefined {
         return this.entities.get(entityId);
     }
 
+    /**
+     * First entity added with this name (names are not unique)
+     */
+    getEntityByName(name: string): Entity | undefined {
+        const entities = this.names.get(name);
+        return entities ? entities.values().next().value : undefined;
+    }
+
+    getEntitiesByName(name: string): Entity[] {
+        return Array.from(this.names.get(name) ?? []);
+    }
+
+    /**
+     * Entities with a tag, in the order they joined the group
+     */
+    getEntitiesByTag(tag: string): Entity[] {
+        return Array.from(this.tags.get(tag) ?? []);
+    }
+
+    getTagCount(tag: string): number {
+        return this.tags.get(tag)?.size ?? 0;
+    }
+
     getEntities(): Entity[] {
         return Array.from(this.entities.values());
     }
@@ -58,17 +283,92 @@ export class World {
         return this.getEntities().filter(entity => entity.active);
     }
 
+    getEntityCount(): number {
+        return this.entities.size;
+    }
+
     clear(): void {
-        this.entities.clear();
+        // Detach whole subtrees from their roots so hierarchy links survive
+        for (const entity of this.getEntities()) {
+            if (this.entities.has(entity.id) && !getParent(entity)) this.detachSubtree(entity);
+        }
+        for (const system of this.systems) {
+            system.setWorld(null);
+        }
         this.systems = [];
         this.eventSystem.emit(WORLD_EVENTS.WORLD_CLEARED, {});
     }
 
-    on(eventName: AllEventTypes, callback: Function): void {
-        this.eventSystem.on(eventName, callback as any);
+    on(eventName: AllEventTypes, callback: Function): EventSubscription {
+        return this.eventSystem.on(eventName, callback as any);
     }
 
     off(eventName: AllEventTypes, callback: Function): void {
         this.eventSystem.off(eventName, callback as any);
     }
+
+    private detachSubtree(entity: Entity): void {
+        for (const child of getChildren(entity)) {
+            this.detachSubtree(child);
+        }
+        this.moveEntity(entity, this.entityArchetype.get(entity) ?? null, null);
+        this.entities.delete(entity.id);
+        removeFromIndex(this.names, entity.getName(), entity);
+        for (const tag of entity.getTags()) this.onTagRemoved(entity, tag);
+        entity.setWorld(null);
+    }
+
+    private getOrCreateArchetype(types: string[]): Archetype {
+        const key = Archetype.keyFor(types);
+        let archetype = this.archetypes.get(key);
+        if (!archetype) {
+            archetype = new Archetype(types);
+            this.archetypes.set(key, archetype);
+            for (const query of this.queries.values()) {
+                if (query.matches(archetype.types)) query.addArchetype(archetype);
+            }
+        }
+        return archetype;
+    }
+
+    /**
+     * Move an entity between tables (null means outside the world) and
+     * notify queries whose membership changed
+     */
+    private moveEntity(entity: Entity, from: Archetype | null, to: Archetype | null): void {
+        from?.remove(entity);
+        if (to) {
+            to.add(entity);
+            this.entityArchetype.set(entity, to);
+        } else {
+            this.entityArchetype.delete(entity);
+        }
+
+        const tick = ++this.tick;
+        const fromTypes = from?.types ?? this.emptyArchetype.types;
+        for (const query of this.queries.values()) {
+            const before = !!from && query.matches(fromTypes);
+            const after = !!to && query.matches(to.types);
+            if (!before && after) query.recordAdded(entity, tick);
+            else if (before && !after) query.recordRemoved(entity, tick);
+            else if (before && after) query.invalidate();
+        }
+    }
+}
+
+function addToIndex(index: Map<string, Set<Entity>>, key: string, entity: Entity): void {
+    if (!key) return;
+    let entities = index.get(key);
+    if (!entities) {
+        entities = new Set();
+        index.set(key, entities);
+    }
+    entities.add(entity);
+}
+
+function removeFromIndex(index: Map<string, Set<Entity>>, key: string, entity: Entity): void {
+    const entities = index.get(key);
+    if (!entities) return;
+    entities.delete(entity);
+    if (entities.size === 0) index.delete(key);
 }
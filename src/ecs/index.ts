@@ -2,7 +2,15 @@ export * from './Entity';
 export * from './Component';
 export * from './System';
 export * from './World';
+export * from './EntityPool';
+export * from './CommandBuffer';
+export * from './Archetype';
+export * from './Query';
+export * from './Hierarchy';
+export * from './SpatialIndex';
+export * from './Interpolation';
 export * from './MovementSystem';
+export * from './Collider';
 export * from './CollisionSystem';
 export * from './ScriptComponent';
 export * from './ScriptRegistry';
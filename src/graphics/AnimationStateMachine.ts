@@ -2,7 +2,7 @@ import { System } from '../ecs/System';
 import { Entity } from '../ecs/Entity';
 import { AnimationStateMachineComponent } from '../types/anim-state';
 import { StateMachineDefinition, AnimationTransition } from '../types/anim-state';
-import { EventSystem } from '../core/EventSystem';
+import { EventSubscription, EventSystem, releaseSubscriptions } from '../core/EventSystem';
 import { AnimationComponent } from './Animation';
 
 // Simple registry to hold shared definitions
@@ -17,8 +17,8 @@ export class AnimationStateMachineSystem extends System {
     private eventSystem = EventSystem.getInstance();
     // track entities that contain anim-machine so event handlers can find targets
     private trackedEntities: Map<string, Entity> = new Map();
-    // map of registered global handlers per event name
-    private globalEventHandlers: Map<string, (ev: any) => void> = new Map();
+    // global subscription per trigger event name
+    private globalEventHandlers: Map<string, EventSubscription> = new Map();
     // cache entities grouped by state machine defKey for faster lookup from handlers
     private entityCache: Map<string, Set<Entity>> = new Map();
     // map trigger -> set of defKeys that declare transitions using that trigger
@@ -87,8 +87,7 @@ export class AnimationStateMachineSystem extends System {
         // remove handlers that are no longer needed
         for (const registered of Array.from(this.globalEventHandlers.keys())) {
             if (!neededTriggers.has(registered)) {
-                const handler = this.globalEventHandlers.get(registered)!;
-                this.eventSystem.off(registered as any, handler);
+                this.globalEventHandlers.get(registered)!.unsubscribe();
                 this.globalEventHandlers.delete(registered);
                 this.triggerToDefKeys.delete(registered);
             }
@@ -126,8 +125,7 @@ export class AnimationStateMachineSystem extends System {
                 }
             };
 
-            this.eventSystem.on(trigger as any, handler);
-            this.globalEventHandlers.set(trigger, handler);
+            this.globalEventHandlers.set(trigger, this.eventSystem.on(trigger as any, handler, { owner: this }));
         }
     }
 
@@ -192,6 +190,12 @@ export class AnimationStateMachineSystem extends System {
         matching.sort((a, b) => (b.priority || 0) - (a.priority || 0));
         this.applyTransition(entity, machine, entity.getComponent<AnimationComponent>('animation')!, def, matching[0]);
     }
+
+    destroy(): void {
+        releaseSubscriptions(this);
+        this.globalEventHandlers.clear();
+        this.triggerToDefKeys.clear();
+    }
 }
 
 export default AnimationStateMachineSystem;
@@ -1,15 +1,28 @@
 import { Vector2 } from '../math/Vector2';
+import { PostProcessStack } from './PostProcess';
 
 export interface CameraFollowOptions {
     lerp?: number; // smoothing factor [0..1]
     offset?: Vector2;
 }
 
+/**
+ * Serializable camera state stored with a scene
+ */
+export interface CameraSettings {
+    position: { x: number; y: number };
+    zoom: number;
+    rotation: number;
+    bounds?: { x: number; y: number; width: number; height: number } | null;
+}
+
 export class Camera2D {
     public position: Vector2 = new Vector2(0, 0);
     public zoom: number = 1;
     public rotation: number = 0; // radians
     public viewport = { x: 0, y: 0, width: 800, height: 600 };
+    // Effects applied to what this camera sees (see PostEffects)
+    public postProcess = new PostProcessStack();
     private target: any = null;
     private followOptions: CameraFollowOptions = { lerp: 1, offset: new Vector2(0, 0) };
     private bounds: { x: number; y: number; width: number; height: number } | null = null;
@@ -37,6 +50,16 @@ export class Camera2D {
         return new Vector2(x, y);
     }
 
+    /**
+     * World-space area shown by the viewport (rotation is ignored, as in
+     * `worldToScreen`)
+     */
+    getViewBounds(): { x: number; y: number; width: number; height: number } {
+        const width = this.viewport.width / this.zoom;
+        const height = this.viewport.height / this.zoom;
+        return { x: this.position.x - width / 2, y: this.position.y - height / 2, width, height };
+    }
+
     follow(target: any, options?: CameraFollowOptions) {
         this.target = target;
         this.followOptions = { ...this.followOptions, ...(options ?? {}) };
@@ -46,6 +69,26 @@ export class Camera2D {
         this.bounds = rect;
     }
 
+    getBounds(): { x: number; y: number; width: number; height: number } | null {
+        return this.bounds ? { ...this.bounds } : null;
+    }
+
+    getSettings(): CameraSettings {
+        return {
+            position: { x: this.position.x, y: this.position.y },
+            zoom: this.zoom,
+            rotation: this.rotation,
+            bounds: this.getBounds()
+        };
+    }
+
+    applySettings(settings: CameraSettings) {
+        this.position.set(settings.position.x, settings.position.y);
+        this.zoom = settings.zoom;
+        this.rotation = settings.rotation;
+        if (settings.bounds !== undefined) this.setBounds(settings.bounds ? { ...settings.bounds } : null);
+    }
+
     shake(_intensity: number, _duration: number) {
         // Placeholder: implement later
     }
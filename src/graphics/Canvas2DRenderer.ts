@@ -1,11 +1,46 @@
-import { RenderStrategy } from './Renderer';
+import { createRenderCapabilities, RenderStrategy, RenderTarget, TextStyle } from './Renderer';
+import { executeRenderCommands, RenderCommand } from './RenderCommands';
+import type { BlendMode } from './SpriteBatch';
+import type { MaterialInstance } from './Material';
+import type { PostEffectInstance } from './PostProcess';
 import { Texture } from './Texture';
 import { Vector2 } from '../math/Vector2';
 import { Color } from '../math/Color';
 
+interface CanvasRenderTarget extends RenderTarget {
+    canvas: HTMLCanvasElement;
+    ctx: CanvasRenderingContext2D;
+}
+
+const COMPOSITE_OPERATIONS: Record<BlendMode, GlobalCompositeOperation> = {
+    normal: 'source-over',
+    additive: 'lighter',
+    multiply: 'multiply',
+    screen: 'screen'
+};
+
 export class Canvas2DRenderer implements RenderStrategy {
+    readonly capabilities = createRenderCapabilities({
+        camera: true,
+        uvSprites: true,
+        globalAlpha: true,
+        backgroundColor: true,
+        primitives: true,
+        text: true,
+        clip: true,
+        blendModes: true,
+        materials: true,
+        renderTargets: true,
+        postProcessing: true
+    });
+    // Context being drawn: the screen's or the bound render target's
     private ctx!: CanvasRenderingContext2D;
+    private screen!: CanvasRenderingContext2D;
     private imageCache = new Map<string, HTMLImageElement>();
+    private clipping = false;
+    private material: MaterialInstance | null = null;
+    // Scratch canvas for the silhouettes of overlay effects (flash)
+    private silhouette: HTMLCanvasElement | null = null;
 
     initialize(canvas: HTMLCanvasElement): void {
         this.ctx = canvas.getContext('2d')!;
@@ -16,6 +51,7 @@ export class Canvas2DRenderer implements RenderStrategy {
         // Optimize canvas rendering
         this.ctx.imageSmoothingEnabled = true;
         this.ctx.imageSmoothingQuality = 'high';
+        this.screen = this.ctx;
     }
 
     clear(): void {
@@ -68,14 +104,19 @@ export class Canvas2DRenderer implements RenderStrategy {
         const image = texture.getImage();
         // console.log(`[Canvas2DRenderer] Image loaded:`, image.complete, 'Size:', image.width, 'x', image.height);
 
-        if (image.complete && image.width > 0 && image.height > 0) {
-            this.ctx.drawImage(
-                image,
-                -size.x / 2,
-                -size.y / 2,
-                size.x,
-                size.y
-            );
+        // Canvases (dynamic textures) have no `complete`
+        if (image.complete !== false && image.width > 0 && image.height > 0) {
+            if (this.material) {
+                this.drawMaterialImage(image, { x: 0, y: 0, width: image.width, height: image.height }, -size.x / 2, -size.y / 2, size.x, size.y);
+            } else {
+                this.ctx.drawImage(
+                    image,
+                    -size.x / 2,
+                    -size.y / 2,
+                    size.x,
+                    size.y
+                );
+            }
             // console.log(`[Canvas2DRenderer] Image drawn successfully`);
         } else {
             console.warn(`[Canvas2DRenderer] Image not ready or invalid size`, {
@@ -145,12 +186,16 @@ export class Canvas2DRenderer implements RenderStrategy {
         // console.log(`[Canvas2DRenderer] UV Image loaded:`, image.complete, 'Size:', image.width, 'x', image.height);
         // console.log(`[Canvas2DRenderer] UV drawImage params - Source: (${uvX}, ${uvY}, ${uvWidth}, ${uvHeight}) Dest: (${-size.x / 2}, ${-size.y / 2}, ${size.x}, ${size.y})`);
 
-        if (image.complete && image.width > 0 && image.height > 0) {
-            this.ctx.drawImage(
-                image,
-                uvX, uvY, uvWidth, uvHeight,  // Source rectangle
-                -size.x / 2, -size.y / 2, size.x, size.y  // Destination rectangle
-            );
+        if (image.complete !== false && image.width > 0 && image.height > 0) {
+            if (this.material) {
+                this.drawMaterialImage(image, { x: uvX, y: uvY, width: uvWidth, height: uvHeight }, -size.x / 2, -size.y / 2, size.x, size.y);
+            } else {
+                this.ctx.drawImage(
+                    image,
+                    uvX, uvY, uvWidth, uvHeight,  // Source rectangle
+                    -size.x / 2, -size.y / 2, size.x, size.y  // Destination rectangle
+                );
+            }
             // console.log(`[Canvas2DRenderer] UV Image drawn successfully`);
         } else {
             console.warn(`[Canvas2DRenderer] UV Image not ready or invalid size`, {
@@ -239,6 +284,101 @@ export class Canvas2DRenderer implements RenderStrategy {
         this.ctx.restore();
     }
 
+    drawText(text: string, position: Vector2, color: Color, style: TextStyle = {}): void {
+        this.ctx.save();
+        this.ctx.font = style.font ?? '16px sans-serif';
+        this.ctx.textAlign = style.align ?? 'left';
+        this.ctx.textBaseline = style.baseline ?? 'alphabetic';
+        this.ctx.fillStyle = color.toString();
+        this.ctx.fillText(text, position.x, position.y);
+        this.ctx.restore();
+    }
+
+    /**
+     * Limit drawing to a screen rectangle until `setClip(null)`. Clear the clip
+     * before `resetTransform()`: both use the context state stack.
+     */
+    setClip(rect: Rectangle | null): void {
+        if (this.clipping) {
+            this.ctx.restore();
+            this.clipping = false;
+        }
+        if (!rect) return;
+
+        this.ctx.save();
+        // The rectangle is in screen pixels, whatever camera is applied
+        const transform = this.ctx.getTransform();
+        this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+        this.ctx.beginPath();
+        this.ctx.rect(rect.x, rect.y, rect.width, rect.height);
+        this.ctx.clip();
+        this.ctx.setTransform(transform);
+        this.clipping = true;
+    }
+
+    setBlendMode(mode: BlendMode): void {
+        this.ctx.globalCompositeOperation = COMPOSITE_OPERATIONS[mode];
+    }
+
+    /**
+     * Canvas2D has no shaders: effects with a `canvas` fallback are drawn with
+     * a CSS filter and/or a coloured silhouette, the others as plain sprites
+     */
+    setMaterial(material: MaterialInstance | null): void {
+        this.material = material;
+    }
+
+    /**
+     * Offscreen canvas the size of the target
+     */
+    createRenderTarget(width: number, height: number): RenderTarget {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Canvas 2D not supported');
+        }
+        const target: CanvasRenderTarget = { width, height, canvas, ctx };
+        return target;
+    }
+
+    setRenderTarget(target: RenderTarget | null, clear: boolean = false): void {
+        this.ctx = target ? (target as CanvasRenderTarget).ctx : this.screen;
+        if (clear) this.clear();
+    }
+
+    destroyRenderTarget(target: RenderTarget): void {
+        const { canvas } = target as CanvasRenderTarget;
+        if (this.ctx === (target as CanvasRenderTarget).ctx) this.setRenderTarget(null);
+        // Releases the canvas memory without waiting for the GC
+        canvas.width = 0;
+        canvas.height = 0;
+    }
+
+    /**
+     * Run the effect's Canvas2D fallback; without one the image is copied unchanged
+     */
+    applyPostEffect(effect: PostEffectInstance, source: RenderTarget, destination: RenderTarget | null): void {
+        this.setRenderTarget(destination, destination !== null);
+        const ctx = this.ctx;
+        const image = (source as CanvasRenderTarget).canvas;
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalAlpha = 1;
+        ctx.globalCompositeOperation = 'source-over';
+        if (effect.canvas) {
+            effect.canvas(ctx, image, effect);
+        } else {
+            ctx.drawImage(image, 0, 0, ctx.canvas.width, ctx.canvas.height);
+        }
+        ctx.restore();
+    }
+
+    submit(commands: readonly RenderCommand[]): void {
+        executeRenderCommands(this, commands);
+    }
+
     present(): void {
         // Canvas2D no requiere presentación explícita
         // Pero podríamos hacer flush si fuera necesario
@@ -249,6 +389,43 @@ export class Canvas2DRenderer implements RenderStrategy {
         this.imageCache.clear();
     }
 
+    private drawMaterialImage(image: HTMLImageElement, source: Rectangle, x: number, y: number, width: number, height: number): void {
+        const effect = this.material?.canvas?.(this.material.uniforms) ?? {};
+
+        if (effect.filter) this.ctx.filter = effect.filter;
+        this.ctx.drawImage(image, source.x, source.y, source.width, source.height, x, y, width, height);
+        if (effect.filter) this.ctx.filter = 'none';
+
+        const overlay = effect.overlay;
+        if (overlay && overlay.alpha > 0) {
+            const silhouette = this.getSilhouette(image, source, overlay.color);
+            if (!silhouette) return;
+            const alpha = this.ctx.globalAlpha;
+            this.ctx.globalAlpha = alpha * Math.min(1, overlay.alpha) * (overlay.color.a / 255);
+            this.ctx.drawImage(silhouette, 0, 0, source.width, source.height, x, y, width, height);
+            this.ctx.globalAlpha = alpha;
+        }
+    }
+
+    private getSilhouette(image: HTMLImageElement, source: Rectangle, color: Color): HTMLCanvasElement | null {
+        this.silhouette ??= document.createElement('canvas');
+        const canvas = this.silhouette;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+
+        canvas.width = Math.max(canvas.width, Math.ceil(source.width));
+        canvas.height = Math.max(canvas.height, Math.ceil(source.height));
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.drawImage(image, source.x, source.y, source.width, source.height, 0, 0, source.width, source.height);
+        // Keep the sprite's alpha, replace its colour
+        ctx.globalCompositeOperation = 'source-in';
+        ctx.fillStyle = `rgb(${color.r}, ${color.g}, ${color.b})`;
+        ctx.fillRect(0, 0, source.width, source.height);
+        ctx.globalCompositeOperation = 'source-over';
+        return canvas;
+    }
+
     // Utility methods
     getContext(): CanvasRenderingContext2D {
         return this.ctx;
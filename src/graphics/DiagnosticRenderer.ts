@@ -1,4 +1,4 @@
-import { RenderStrategy } from './Renderer';
+import { createRenderCapabilities, RenderStrategy } from './Renderer';
 import { Texture } from './Texture';
 import { Vector2 } from '../math/Vector2';
 import { Color } from '../math/Color';
@@ -7,6 +7,8 @@ import { Color } from '../math/Color';
  * Diagnostic renderer that overlays visual debugging information
  */
 export class DiagnosticRenderer implements RenderStrategy {
+    // Only outlines sprites
+    readonly capabilities = createRenderCapabilities();
     private ctx!: CanvasRenderingContext2D;
     private diagnosticCanvas!: HTMLCanvasElement;
     private isEnabled: boolean = true;
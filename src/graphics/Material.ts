@@ -0,0 +1,122 @@
+import { Color } from '../math/Color';
+import type { BlendMode } from './SpriteBatch';
+import type { Texture } from './Texture';
+import { registerBuiltInEffects } from './MaterialEffects';
+
+/**
+ * Uniform value: numbers and booleans for float/int/bool uniforms, arrays
+ * for vectors and arrays, colours as normalized vec4
+ */
+export type MaterialUniformValue = number | boolean | number[] | Color | Color[];
+
+/**
+ * How a sprite is drawn beyond its tint. All fields are optional: a material
+ * with only `blendMode` just changes how the sprite mixes with the scene.
+ */
+export interface Material {
+    blendMode?: BlendMode;
+    // Registered effect (see materialRegistry and the built-in effects)
+    effect?: string;
+    // Custom GLSL ES 1.0 effect; takes precedence over `effect`
+    fragment?: string;
+    // Overrides the effect's default uniform values
+    uniforms?: Record<string, MaterialUniformValue>;
+    // Extra sampler uniforms: uniform name -> registered texture name
+    textures?: Record<string, string>;
+}
+
+/**
+ * What Canvas2D can do instead of a shader
+ */
+export interface CanvasEffect {
+    // CSS filter applied while the sprite is drawn
+    filter?: string;
+    // Silhouette of the sprite filled with a colour, drawn over it
+    overlay?: { color: Color; alpha: number };
+}
+
+/**
+ * A named effect. `fragment` defines `vec4 effect(vec4 tint, vec2 uv)`, where
+ * `u_texture`, `u_textureSize` (pixels) and `u_time` (seconds) are declared
+ * for it; it declares its own uniforms.
+ */
+export interface MaterialEffect {
+    fragment: string;
+    uniforms?: Record<string, MaterialUniformValue>;
+    canvas?: (uniforms: Record<string, MaterialUniformValue>) => CanvasEffect;
+}
+
+/**
+ * Material ready for a renderer: effect looked up, default uniforms merged
+ * and texture names resolved
+ */
+export interface MaterialInstance {
+    // Effect name ('custom' for inline fragments), null for blend-only materials
+    effect: string | null;
+    fragment: string | null;
+    uniforms: Record<string, MaterialUniformValue>;
+    textures: Record<string, Texture>;
+    canvas?: MaterialEffect['canvas'];
+}
+
+export class MaterialRegistry {
+    private effects = new Map<string, MaterialEffect>();
+
+    register(name: string, effect: MaterialEffect): void {
+        if (this.effects.has(name)) {
+            console.warn(`Material effect '${name}' is already registered. Overwriting...`);
+        }
+        this.effects.set(name, effect);
+    }
+
+    unregister(name: string): void {
+        this.effects.delete(name);
+    }
+
+    has(name: string): boolean {
+        return this.effects.has(name);
+    }
+
+    get(name: string): MaterialEffect | undefined {
+        return this.effects.get(name);
+    }
+
+    getRegisteredEffects(): string[] {
+        return Array.from(this.effects.keys());
+    }
+
+    /**
+     * Instance of a material for the renderers. Unknown effects and
+     * textures are reported and left out.
+     */
+    resolve(material: Material, textures: Map<string, Texture>): MaterialInstance {
+        const effect = material.fragment === undefined && material.effect !== undefined
+            ? this.effects.get(material.effect)
+            : undefined;
+        if (material.fragment === undefined && material.effect !== undefined && !effect) {
+            console.warn(`Material effect '${material.effect}' is not registered`);
+        }
+
+        const resolvedTextures: Record<string, Texture> = {};
+        for (const [uniform, name] of Object.entries(material.textures ?? {})) {
+            const texture = textures.get(name);
+            if (texture) {
+                resolvedTextures[uniform] = texture;
+            } else {
+                console.warn(`Texture '${name}' not found for material uniform '${uniform}'`);
+            }
+        }
+
+        return {
+            effect: material.fragment !== undefined ? 'custom' : effect ? material.effect! : null,
+            fragment: material.fragment ?? effect?.fragment ?? null,
+            uniforms: { ...effect?.uniforms, ...material.uniforms },
+            textures: resolvedTextures,
+            canvas: effect?.canvas
+        };
+    }
+}
+
+// ===== INSTANCIA GLOBAL =====
+export const materialRegistry = new MaterialRegistry();
+registerBuiltInEffects(materialRegistry);
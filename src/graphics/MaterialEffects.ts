@@ -0,0 +1,149 @@
+import { Color } from '../math/Color';
+import type { Material, MaterialRegistry, MaterialUniformValue } from './Material';
+
+// Colour pairs the palette swap shader can hold
+export const MAX_PALETTE_COLORS = 8;
+
+const FLASH_FRAGMENT = `
+    uniform vec4 u_flashColor;
+    uniform float u_amount;
+
+    vec4 effect(vec4 tint, vec2 uv) {
+        vec4 color = texture2D(u_texture, uv) * tint;
+        color.rgb = mix(color.rgb, u_flashColor.rgb, u_amount * u_flashColor.a);
+        return color;
+    }
+`;
+
+// Only pixels inside the quad can be outlined: sprites need transparent padding
+const OUTLINE_FRAGMENT = `
+    uniform vec4 u_outlineColor;
+    uniform float u_thickness;
+
+    vec4 effect(vec4 tint, vec2 uv) {
+        vec4 color = texture2D(u_texture, uv) * tint;
+        vec2 texel = u_thickness / u_textureSize;
+        float around = max(
+            max(texture2D(u_texture, uv + vec2(texel.x, 0.0)).a, texture2D(u_texture, uv - vec2(texel.x, 0.0)).a),
+            max(texture2D(u_texture, uv + vec2(0.0, texel.y)).a, texture2D(u_texture, uv - vec2(0.0, texel.y)).a)
+        );
+        vec4 outline = vec4(u_outlineColor.rgb, u_outlineColor.a * around * tint.a);
+        return mix(outline, color, color.a);
+    }
+`;
+
+const GRAYSCALE_FRAGMENT = `
+    uniform float u_amount;
+
+    vec4 effect(vec4 tint, vec2 uv) {
+        vec4 color = texture2D(u_texture, uv) * tint;
+        float luma = dot(color.rgb, vec3(0.299, 0.587, 0.114));
+        color.rgb = mix(color.rgb, vec3(luma), u_amount);
+        return color;
+    }
+`;
+
+// Texture colours are swapped before the tint is applied
+const PALETTE_SWAP_FRAGMENT = `
+    uniform vec4 u_from[${MAX_PALETTE_COLORS}];
+    uniform vec4 u_to[${MAX_PALETTE_COLORS}];
+    uniform int u_count;
+    uniform float u_tolerance;
+
+    vec4 effect(vec4 tint, vec2 uv) {
+        vec4 color = texture2D(u_texture, uv);
+        for (int i = 0; i < ${MAX_PALETTE_COLORS}; i++) {
+            if (i >= u_count) break;
+            if (distance(color.rgb, u_from[i].rgb) <= u_tolerance) {
+                color.rgb = u_to[i].rgb;
+                break;
+            }
+        }
+        return color * tint;
+    }
+`;
+
+/**
+ * Register flash, outline, grayscale and paletteSwap. Palette swap has no
+ * Canvas2D equivalent and draws the sprite unchanged there.
+ */
+export function registerBuiltInEffects(registry: MaterialRegistry): void {
+    registry.register('flash', {
+        fragment: FLASH_FRAGMENT,
+        uniforms: { u_flashColor: new Color(255, 255, 255, 255), u_amount: 1 },
+        canvas: uniforms => ({
+            overlay: { color: uniformColor(uniforms.u_flashColor), alpha: uniformNumber(uniforms.u_amount) }
+        })
+    });
+
+    registry.register('outline', {
+        fragment: OUTLINE_FRAGMENT,
+        uniforms: { u_outlineColor: new Color(255, 255, 255, 255), u_thickness: 1 },
+        canvas: uniforms => {
+            const color = uniformColor(uniforms.u_outlineColor).toString();
+            const t = uniformNumber(uniforms.u_thickness);
+            const offsets = [[t, 0], [-t, 0], [0, t], [0, -t]];
+            return { filter: offsets.map(([x, y]) => `drop-shadow(${x}px ${y}px 0 ${color})`).join(' ') };
+        }
+    });
+
+    registry.register('grayscale', {
+        fragment: GRAYSCALE_FRAGMENT,
+        uniforms: { u_amount: 1 },
+        canvas: uniforms => ({ filter: `grayscale(${uniformNumber(uniforms.u_amount)})` })
+    });
+
+    registry.register('paletteSwap', {
+        fragment: PALETTE_SWAP_FRAGMENT,
+        uniforms: { u_from: [], u_to: [], u_count: 0, u_tolerance: 0.01 }
+    });
+}
+
+/**
+ * Tint the sprite towards `color` (`amount` 0..1), e.g. on hit
+ */
+export function flashMaterial(color: Color = new Color(255, 255, 255, 255), amount: number = 1): Material {
+    return { effect: 'flash', uniforms: { u_flashColor: color, u_amount: amount } };
+}
+
+/**
+ * Outline `thickness` texture pixels wide around the opaque pixels
+ */
+export function outlineMaterial(color: Color = new Color(255, 255, 255, 255), thickness: number = 1): Material {
+    return { effect: 'outline', uniforms: { u_outlineColor: color, u_thickness: thickness } };
+}
+
+export function grayscaleMaterial(amount: number = 1): Material {
+    return { effect: 'grayscale', uniforms: { u_amount: amount } };
+}
+
+/**
+ * Replace texture colours: each [from, to] pair, up to MAX_PALETTE_COLORS.
+ * `tolerance` is the RGB distance (0..1 per channel) still taken as a match.
+ */
+export function paletteSwapMaterial(pairs: Array<[Color, Color]>, tolerance: number = 0.01): Material {
+    if (pairs.length > MAX_PALETTE_COLORS) {
+        console.warn(`Palette swap supports ${MAX_PALETTE_COLORS} colours; ignoring the last ${pairs.length - MAX_PALETTE_COLORS}`);
+    }
+    const used = pairs.slice(0, MAX_PALETTE_COLORS);
+    return {
+        effect: 'paletteSwap',
+        uniforms: {
+            u_from: used.map(([from]) => from),
+            u_to: used.map(([, to]) => to),
+            u_count: used.length,
+            u_tolerance: tolerance
+        }
+    };
+}
+
+/**
+ * Uniform read by a Canvas2D fallback, with a default for other types
+ */
+export function uniformColor(value: MaterialUniformValue | undefined): Color {
+    return value instanceof Color ? value : new Color(255, 255, 255, 255);
+}
+
+export function uniformNumber(value: MaterialUniformValue | undefined): number {
+    return typeof value === 'number' ? value : 0;
+}
@@ -0,0 +1,246 @@
+import { Color } from '../math/Color';
+import { uniformColor, uniformNumber } from './MaterialEffects';
+import type { PostEffectRegistry, PostProcessPass } from './PostProcess';
+import type { Texture } from './Texture';
+
+// Soft glow of the pixels brighter than the threshold (5x5 taps, `u_radius` pixels apart)
+const BLOOM_FRAGMENT = `
+    uniform float u_threshold;
+    uniform float u_intensity;
+    uniform float u_radius;
+
+    vec3 bright(vec2 uv) {
+        vec3 color = texture2D(u_texture, uv).rgb;
+        return max(color - u_threshold, 0.0) / max(1.0 - u_threshold, 0.0001);
+    }
+
+    vec4 effect(vec2 uv) {
+        vec4 color = texture2D(u_texture, uv);
+        vec2 texel = u_radius / u_textureSize;
+        vec3 glow = vec3(0.0);
+        for (int x = -2; x <= 2; x++) {
+            for (int y = -2; y <= 2; y++) {
+                glow += bright(uv + vec2(float(x), float(y)) * texel);
+            }
+        }
+        return vec4(color.rgb + glow / 25.0 * u_intensity, color.a);
+    }
+`;
+
+const VIGNETTE_FRAGMENT = `
+    uniform float u_strength;
+    uniform float u_radius;
+    uniform float u_softness;
+    uniform vec4 u_color;
+
+    vec4 effect(vec2 uv) {
+        vec4 color = texture2D(u_texture, uv);
+        float edge = smoothstep(u_radius - u_softness, u_radius, distance(uv, vec2(0.5)));
+        color.rgb = mix(color.rgb, u_color.rgb, edge * u_strength * u_color.a);
+        return color;
+    }
+`;
+
+// 256x16 strip LUT: 16 blue slices of 16x16 red (x) / green (y)
+const COLOR_GRADING_FRAGMENT = `
+    uniform sampler2D u_lut;
+    uniform float u_intensity;
+
+    vec3 lookup(vec3 color, float slice) {
+        vec2 cell = (color.rg * 15.0 + 0.5) / vec2(256.0, 16.0);
+        return texture2D(u_lut, vec2(slice / 16.0 + cell.x, cell.y)).rgb;
+    }
+
+    vec4 effect(vec2 uv) {
+        vec4 color = texture2D(u_texture, uv);
+        float blue = clamp(color.b, 0.0, 1.0) * 15.0;
+        float slice = floor(blue);
+        vec3 graded = mix(lookup(color.rgb, slice), lookup(color.rgb, min(slice + 1.0, 15.0)), blue - slice);
+        color.rgb = mix(color.rgb, graded, u_intensity);
+        return color;
+    }
+`;
+
+const CRT_FRAGMENT = `
+    uniform float u_scanlines;
+    uniform float u_curvature;
+
+    vec4 effect(vec2 uv) {
+        vec2 centered = uv * 2.0 - 1.0;
+        centered += centered * centered.yx * centered.yx * u_curvature;
+        vec2 curved = centered * 0.5 + 0.5;
+        if (curved.x < 0.0 || curved.x > 1.0 || curved.y < 0.0 || curved.y > 1.0) {
+            return vec4(0.0, 0.0, 0.0, 1.0);
+        }
+        vec4 color = texture2D(u_texture, curved);
+        // One dark line every two pixels
+        float line = sin(curved.y * u_textureSize.y * 3.14159265) * 0.5 + 0.5;
+        color.rgb *= 1.0 - u_scanlines * line;
+        return color;
+    }
+`;
+
+// Red and blue pulled apart towards the edges, `u_offset` pixels at the corners
+const CHROMATIC_ABERRATION_FRAGMENT = `
+    uniform float u_offset;
+
+    vec4 effect(vec2 uv) {
+        vec2 shift = (uv - 0.5) * 2.0 * u_offset / u_textureSize;
+        vec4 color = texture2D(u_texture, uv);
+        color.r = texture2D(u_texture, uv + shift).r;
+        color.b = texture2D(u_texture, uv - shift).b;
+        return color;
+    }
+`;
+
+const PIXELATE_FRAGMENT = `
+    uniform float u_size;
+
+    vec4 effect(vec2 uv) {
+        vec2 cell = max(u_size, 1.0) / u_textureSize;
+        return texture2D(u_texture, (floor(uv / cell) + 0.5) * cell);
+    }
+`;
+
+// Multiplies the image by a light map, as lights are composed on Canvas2D
+const LIGHTING_FRAGMENT = `
+    uniform sampler2D u_lightMap;
+
+    vec4 effect(vec2 uv) {
+        vec4 color = texture2D(u_texture, uv);
+        vec4 light = texture2D(u_lightMap, uv);
+        color.rgb *= mix(vec3(1.0), light.rgb, light.a);
+        return color;
+    }
+`;
+
+/**
+ * Register bloom, vignette, colorGrading, crt, chromaticAberration,
+ * pixelate and lighting. Color grading and chromatic aberration have no
+ * Canvas2D equivalent and pass the image unchanged there; the others are
+ * approximated with filters and composite operations.
+ */
+export function registerBuiltInPostEffects(registry: PostEffectRegistry): void {
+    registry.register('bloom', {
+        fragment: BLOOM_FRAGMENT,
+        uniforms: { u_threshold: 0.7, u_intensity: 0.8, u_radius: 2 },
+        canvas: (ctx, source, { uniforms }) => {
+            const { width, height } = ctx.canvas;
+            ctx.drawImage(source, 0, 0, width, height);
+            // No threshold here: the whole image glows a little
+            ctx.save();
+            ctx.filter = `blur(${uniformNumber(uniforms.u_radius) * 2}px)`;
+            ctx.globalCompositeOperation = 'lighter';
+            ctx.globalAlpha = Math.min(1, uniformNumber(uniforms.u_intensity) * 0.5);
+            ctx.drawImage(source, 0, 0, width, height);
+            ctx.restore();
+        }
+    });
+
+    registry.register('vignette', {
+        fragment: VIGNETTE_FRAGMENT,
+        uniforms: { u_strength: 0.5, u_radius: 0.75, u_softness: 0.45, u_color: new Color(0, 0, 0, 255) },
+        canvas: (ctx, source, { uniforms }) => {
+            const { width, height } = ctx.canvas;
+            ctx.drawImage(source, 0, 0, width, height);
+            const size = Math.max(width, height);
+            const radius = uniformNumber(uniforms.u_radius) * size;
+            const inner = Math.max(0, radius - uniformNumber(uniforms.u_softness) * size);
+            const color = uniformColor(uniforms.u_color);
+            const alpha = uniformNumber(uniforms.u_strength) * (color.a / 255);
+            const gradient = ctx.createRadialGradient(width / 2, height / 2, inner, width / 2, height / 2, radius);
+            gradient.addColorStop(0, `rgba(${color.r}, ${color.g}, ${color.b}, 0)`);
+            gradient.addColorStop(1, `rgba(${color.r}, ${color.g}, ${color.b}, ${alpha})`);
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, width, height);
+        }
+    });
+
+    registry.register('colorGrading', {
+        fragment: COLOR_GRADING_FRAGMENT,
+        uniforms: { u_intensity: 1 }
+    });
+
+    registry.register('crt', {
+        fragment: CRT_FRAGMENT,
+        uniforms: { u_scanlines: 0.25, u_curvature: 0.1 },
+        canvas: (ctx, source, { uniforms }) => {
+            // Scanlines only; Canvas2D cannot bend the image
+            const { width, height } = ctx.canvas;
+            ctx.drawImage(source, 0, 0, width, height);
+            ctx.fillStyle = `rgba(0, 0, 0, ${uniformNumber(uniforms.u_scanlines)})`;
+            for (let y = 1; y < height; y += 2) ctx.fillRect(0, y, width, 1);
+        }
+    });
+
+    registry.register('chromaticAberration', {
+        fragment: CHROMATIC_ABERRATION_FRAGMENT,
+        uniforms: { u_offset: 2 }
+    });
+
+    registry.register('pixelate', {
+        fragment: PIXELATE_FRAGMENT,
+        uniforms: { u_size: 4 },
+        canvas: (ctx, source, { uniforms }) => {
+            const { width, height } = ctx.canvas;
+            const size = Math.max(1, uniformNumber(uniforms.u_size));
+            const small = { width: Math.max(1, Math.round(width / size)), height: Math.max(1, Math.round(height / size)) };
+            // Shrink into the corner, then blow the corner up without smoothing
+            ctx.save();
+            ctx.imageSmoothingEnabled = false;
+            ctx.drawImage(source, 0, 0, small.width, small.height);
+            ctx.drawImage(ctx.canvas, 0, 0, small.width, small.height, 0, 0, width, height);
+            ctx.restore();
+        }
+    });
+
+    registry.register('lighting', {
+        fragment: LIGHTING_FRAGMENT,
+        canvas: (ctx, source, { textures }) => {
+            const { width, height } = ctx.canvas;
+            ctx.drawImage(source, 0, 0, width, height);
+            const lightMap = textures.u_lightMap;
+            if (!lightMap) return;
+            ctx.save();
+            ctx.globalCompositeOperation = 'multiply';
+            ctx.drawImage(lightMap.getImage(), 0, 0, width, height);
+            ctx.restore();
+        }
+    });
+}
+
+/**
+ * Glow around pixels brighter than `threshold` (0..1)
+ */
+export function bloomPass(threshold: number = 0.7, intensity: number = 0.8, radius: number = 2): PostProcessPass {
+    return { effect: 'bloom', uniforms: { u_threshold: threshold, u_intensity: intensity, u_radius: radius } };
+}
+
+/**
+ * Darken the edges; `radius` and `softness` are fractions of the screen
+ */
+export function vignettePass(strength: number = 0.5, radius: number = 0.75, softness: number = 0.45, color: Color = new Color(0, 0, 0, 255)): PostProcessPass {
+    return { effect: 'vignette', uniforms: { u_strength: strength, u_radius: radius, u_softness: softness, u_color: color } };
+}
+
+/**
+ * Remap colours through a 256x16 LUT (registered texture name or texture)
+ */
+export function colorGradingPass(lut: string | Texture, intensity: number = 1): PostProcessPass {
+    return { effect: 'colorGrading', uniforms: { u_intensity: intensity }, textures: { u_lut: lut } };
+}
+
+export function crtPass(scanlines: number = 0.25, curvature: number = 0.1): PostProcessPass {
+    return { effect: 'crt', uniforms: { u_scanlines: scanlines, u_curvature: curvature } };
+}
+
+export function chromaticAberrationPass(offset: number = 2): PostProcessPass {
+    return { effect: 'chromaticAberration', uniforms: { u_offset: offset } };
+}
+
+/**
+ * Blocks of `size` screen pixels
+ */
+export function pixelatePass(size: number = 4): PostProcessPass {
+    return { effect: 'pixelate', uniforms: { u_size: size } };
+}
@@ -0,0 +1,164 @@
+import type { Camera2D } from './Camera2D';
+import type { MaterialUniformValue } from './Material';
+import { Texture } from './Texture';
+import { registerBuiltInPostEffects } from './PostEffects';
+
+/**
+ * A full-screen effect. `fragment` defines `vec4 effect(vec2 uv)`, where
+ * `u_texture` is the image drawn so far, `u_textureSize` its size in pixels
+ * and `u_time` the renderer time in seconds; it declares its own uniforms.
+ */
+export interface PostEffect {
+    fragment: string;
+    uniforms?: Record<string, MaterialUniformValue>;
+    // Canvas2D version: draw `source` on `ctx` with the effect. Without it the image passes unchanged
+    canvas?: (ctx: CanvasRenderingContext2D, source: CanvasImageSource, effect: PostEffectInstance) => void;
+}
+
+/**
+ * Pass ready for a renderer: effect looked up, default uniforms merged and
+ * textures resolved
+ */
+export interface PostEffectInstance {
+    effect: string;
+    fragment: string;
+    uniforms: Record<string, MaterialUniformValue>;
+    textures: Record<string, Texture>;
+    canvas?: PostEffect['canvas'];
+}
+
+export interface PostProcessContext {
+    // Size of the image being processed
+    width: number;
+    height: number;
+    camera: Camera2D | null;
+}
+
+/**
+ * One step of a camera's post-process stack
+ */
+export interface PostProcessPass {
+    effect: string;
+    // Disabled passes stay in the stack and are skipped (true by default)
+    enabled?: boolean;
+    uniforms?: Record<string, MaterialUniformValue>;
+    // Sampler uniform -> texture registered in the RenderSystem, or a texture owned by the caller
+    textures?: Record<string, string | Texture>;
+    // Runs every frame before the pass, e.g. to redraw a dynamic texture
+    beforeApply?: (context: PostProcessContext) => void;
+}
+
+export class PostEffectRegistry {
+    private effects = new Map<string, PostEffect>();
+    private reported = new Set<string>();
+
+    register(name: string, effect: PostEffect): void {
+        if (this.effects.has(name)) {
+            console.warn(`Post effect '${name}' is already registered. Overwriting...`);
+        }
+        this.effects.set(name, effect);
+        this.reported.delete(name);
+    }
+
+    unregister(name: string): void {
+        this.effects.delete(name);
+    }
+
+    has(name: string): boolean {
+        return this.effects.has(name);
+    }
+
+    get(name: string): PostEffect | undefined {
+        return this.effects.get(name);
+    }
+
+    getRegisteredEffects(): string[] {
+        return Array.from(this.effects.keys());
+    }
+
+    /**
+     * Instance of a pass for the renderers; null for unknown effects, which
+     * are reported once
+     */
+    resolve(pass: PostProcessPass, textures: Map<string, Texture>): PostEffectInstance | null {
+        const effect = this.effects.get(pass.effect);
+        if (!effect) {
+            if (!this.reported.has(pass.effect)) {
+                this.reported.add(pass.effect);
+                console.warn(`Post effect '${pass.effect}' is not registered`);
+            }
+            return null;
+        }
+
+        const resolvedTextures: Record<string, Texture> = {};
+        for (const [uniform, source] of Object.entries(pass.textures ?? {})) {
+            const texture = source instanceof Texture ? source : textures.get(source);
+            if (texture) resolvedTextures[uniform] = texture;
+        }
+
+        return {
+            effect: pass.effect,
+            fragment: effect.fragment,
+            uniforms: { ...effect.uniforms, ...pass.uniforms },
+            textures: resolvedTextures,
+            canvas: effect.canvas
+        };
+    }
+}
+
+/**
+ * Ordered effects applied to what a camera sees, before the HUD:
+ *
+ *     camera.postProcess.add(bloomPass(0.7));
+ *     camera.postProcess.add(vignettePass());
+ */
+export class PostProcessStack {
+    private passes: PostProcessPass[] = [];
+
+    /**
+     * Append a pass (or insert it at `index`); a string adds the effect with its defaults
+     */
+    add(pass: PostProcessPass | string, index: number = this.passes.length): PostProcessPass {
+        const entry = typeof pass === 'string' ? { effect: pass } : pass;
+        this.passes.splice(Math.max(0, Math.min(index, this.passes.length)), 0, entry);
+        return entry;
+    }
+
+    /**
+     * Remove a pass, or the first pass of an effect
+     */
+    remove(pass: PostProcessPass | string): boolean {
+        const index = typeof pass === 'string'
+            ? this.passes.findIndex(entry => entry.effect === pass)
+            : this.passes.indexOf(pass);
+        if (index < 0) return false;
+        this.passes.splice(index, 1);
+        return true;
+    }
+
+    get(effect: string): PostProcessPass | undefined {
+        return this.passes.find(pass => pass.effect === effect);
+    }
+
+    setEnabled(effect: string, enabled: boolean): void {
+        for (const pass of this.passes) {
+            if (pass.effect === effect) pass.enabled = enabled;
+        }
+    }
+
+    getPasses(): readonly PostProcessPass[] {
+        return this.passes;
+    }
+
+    getActivePasses(): PostProcessPass[] {
+        return this.passes.filter(pass => pass.enabled !== false);
+    }
+
+    clear(): void {
+        this.passes = [];
+    }
+}
+
+// ===== INSTANCIA GLOBAL =====
+export const postEffectRegistry = new PostEffectRegistry();
+registerBuiltInPostEffects(postEffectRegistry);
@@ -0,0 +1,267 @@
+import { createRenderCapabilities, RenderCapabilities, RenderStrategy, RenderTarget, SpriteBatchItem, TextStyle } from './Renderer';
+import { executeRenderCommands, RenderCommand } from './RenderCommands';
+import type { BlendMode, SpriteBatchStats } from './SpriteBatch';
+import type { MaterialInstance } from './Material';
+import type { PostEffectInstance } from './PostProcess';
+import { Texture } from './Texture';
+import { Vector2 } from '../math/Vector2';
+import { Color } from '../math/Color';
+
+export interface RecordingRendererOptions {
+    // Pretend to lack some capabilities (all on by default) to test fallbacks
+    capabilities?: Partial<RenderCapabilities>;
+    // Name textures are recorded with; the image src by default
+    textureName?: (texture: Texture) => string;
+    // Decimals kept in recorded numbers (3 by default) so snapshots stay stable
+    precision?: number;
+}
+
+/**
+ * A command in plain data: textures by name, vectors as {x, y}, colours as
+ * rgba strings and numbers rounded
+ */
+export type RecordedCommand = { type: RenderCommand['type'] } & Record<string, unknown>;
+
+/**
+ * Headless renderer that records what it is asked to draw, frame by frame.
+ * Meant for tests: render a scene, then compare `getCommands()` or
+ * `toSnapshot()` with the expected output.
+ */
+export class RecordingRenderer implements RenderStrategy {
+    readonly capabilities: RenderCapabilities;
+    private options: RecordingRendererOptions;
+    private frames: RenderCommand[][] = [];
+    private current: RenderCommand[] = [];
+    private drawCalls = 0;
+    private stats: SpriteBatchStats = { drawCalls: 0, sprites: 0, vertices: 0 };
+    private targets = 0;
+
+    constructor(options: RecordingRendererOptions = {}) {
+        this.options = options;
+        this.capabilities = createRenderCapabilities({
+            camera: true,
+            uvSprites: true,
+            globalAlpha: true,
+            backgroundColor: true,
+            primitives: true,
+            text: true,
+            clip: true,
+            blendModes: true,
+            spriteBatch: true,
+            frameStats: true,
+            materials: true,
+            renderTargets: true,
+            postProcessing: true,
+            ...options.capabilities
+        });
+    }
+
+    initialize(_canvas?: HTMLCanvasElement): void { }
+
+    /**
+     * Start a new frame
+     */
+    clear(): void {
+        this.current = [];
+        this.drawCalls = 0;
+    }
+
+    /**
+     * Finish the frame: it becomes the last recorded frame
+     */
+    present(): void {
+        this.frames.push(this.current);
+        const sprites = this.current.filter(command => command.type !== 'spriteBatch' && command.type !== 'postEffect' && !isStateCommand(command)).length +
+            this.current.reduce((count, command) => count + (command.type === 'spriteBatch' ? command.items.length : 0), 0);
+        this.stats = { drawCalls: this.drawCalls, sprites, vertices: sprites * 4 };
+        this.current = [];
+    }
+
+    destroy(): void {
+        this.reset();
+    }
+
+    /**
+     * Forget every recorded frame
+     */
+    reset(): void {
+        this.frames = [];
+        this.current = [];
+        this.drawCalls = 0;
+    }
+
+    applyCameraTransform(x: number, y: number, zoom: number, rotation: number = 0): void {
+        this.record({ type: 'camera', x, y, zoom, rotation });
+    }
+
+    resetTransform(): void {
+        this.record({ type: 'resetTransform' });
+    }
+
+    drawSprite(texture: Texture, position: Vector2, size: Vector2, rotation: number = 0, tint: Color = new Color(255, 255, 255, 255)): void {
+        this.draw({ type: 'sprite', texture, position, size, rotation, tint });
+    }
+
+    drawSpriteUV(
+        texture: Texture,
+        position: Vector2,
+        size: Vector2,
+        uvX: number,
+        uvY: number,
+        uvWidth: number,
+        uvHeight: number,
+        rotation: number = 0,
+        flipX: boolean = false,
+        flipY: boolean = false,
+        tint: Color = new Color(255, 255, 255, 255)
+    ): void {
+        this.draw({ type: 'spriteUV', texture, position, size, uv: { x: uvX, y: uvY, width: uvWidth, height: uvHeight }, rotation, flipX, flipY, tint });
+    }
+
+    drawSpriteBatch(texture: Texture, items: SpriteBatchItem[]): void {
+        this.draw({ type: 'spriteBatch', texture, items: items.map(item => ({ ...item })) });
+    }
+
+    setGlobalAlpha(alpha: number): void {
+        this.record({ type: 'alpha', alpha });
+    }
+
+    resetGlobalAlpha(): void {
+        this.record({ type: 'alpha', alpha: 1 });
+    }
+
+    setBackgroundColor(color: Color): void {
+        this.record({ type: 'background', color });
+    }
+
+    drawRectangle(position: Vector2, size: Vector2, color: Color, filled: boolean = true): void {
+        this.draw({ type: 'rectangle', position, size, color, filled });
+    }
+
+    drawCircle(position: Vector2, radius: number, color: Color, filled: boolean = true): void {
+        this.draw({ type: 'circle', position, radius, color, filled });
+    }
+
+    drawLine(start: Vector2, end: Vector2, color: Color, lineWidth: number = 1): void {
+        this.draw({ type: 'line', start, end, color, lineWidth });
+    }
+
+    drawText(text: string, position: Vector2, color: Color, style: TextStyle = {}): void {
+        this.draw({ type: 'text', text, position, color, style: { ...style } });
+    }
+
+    setClip(rect: Rectangle | null): void {
+        this.record({ type: 'clip', rect: rect ? { ...rect } : null });
+    }
+
+    setBlendMode(mode: BlendMode): void {
+        this.record({ type: 'blend', mode });
+    }
+
+    setMaterial(material: MaterialInstance | null): void {
+        this.record({
+            type: 'material',
+            material: material ? { ...material, uniforms: { ...material.uniforms }, textures: { ...material.textures } } : null
+        });
+    }
+
+    /**
+     * Targets are plain `{ width, height, id }` records, numbered in creation order
+     */
+    createRenderTarget(width: number, height: number): RenderTarget {
+        return { width, height, id: ++this.targets } as RenderTarget;
+    }
+
+    setRenderTarget(target: RenderTarget | null, clear: boolean = false): void {
+        this.record({ type: 'target', target, clear });
+    }
+
+    destroyRenderTarget(_target: RenderTarget): void { }
+
+    applyPostEffect(effect: PostEffectInstance, source: RenderTarget, destination: RenderTarget | null): void {
+        this.draw({ type: 'postEffect', effect: { ...effect, uniforms: { ...effect.uniforms } }, source, destination });
+    }
+
+    getFrameStats(): SpriteBatchStats {
+        return { ...this.stats };
+    }
+
+    submit(commands: readonly RenderCommand[]): void {
+        executeRenderCommands(this, commands);
+    }
+
+    /**
+     * Commands of the last presented frame (or of the frame in progress
+     * before the first present)
+     */
+    getCommands(): RenderCommand[] {
+        return this.frames.length > 0 ? this.frames[this.frames.length - 1] : this.current;
+    }
+
+    getFrames(): RenderCommand[][] {
+        return this.frames;
+    }
+
+    /**
+     * Commands of the last frame as plain data, for `toEqual` / `toMatchSnapshot`
+     */
+    toSnapshot(commands: readonly RenderCommand[] = this.getCommands()): RecordedCommand[] {
+        return commands.map(command => {
+            if (command.type === 'material' && command.material) {
+                // Shader source and Canvas fallback are left out
+                const { effect, uniforms, textures } = command.material;
+                return this.serialize({ type: 'material', material: { effect, uniforms, textures } }) as RecordedCommand;
+            }
+            if (command.type === 'postEffect') {
+                const { effect: { effect, uniforms, textures }, source, destination } = command;
+                return this.serialize({ type: 'postEffect', effect, uniforms, textures, source, destination }) as RecordedCommand;
+            }
+            return this.serialize(command) as RecordedCommand;
+        });
+    }
+
+    private draw(command: RenderCommand): void {
+        this.drawCalls++;
+        this.record(command);
+    }
+
+    private record(command: RenderCommand): void {
+        // Vectors and colours are often reused and mutated by the caller, so keep copies
+        this.current.push(cloneCommand(command));
+    }
+
+    private serialize(value: unknown): unknown {
+        if (value instanceof Texture || (value && typeof (value as Texture).getImage === 'function')) {
+            const texture = value as Texture;
+            return this.options.textureName?.(texture) ?? texture.getImage()?.src ?? 'texture';
+        }
+        if (value instanceof Color) return value.toString();
+        if (typeof value === 'number') {
+            const factor = 10 ** (this.options.precision ?? 3);
+            return Math.round(value * factor) / factor + 0;
+        }
+        if (Array.isArray(value)) return value.map(item => this.serialize(item));
+        if (value && typeof value === 'object') {
+            const result: Record<string, unknown> = {};
+            for (const [key, item] of Object.entries(value)) {
+                if (item !== undefined) result[key] = this.serialize(item);
+            }
+            return result;
+        }
+        return value;
+    }
+}
+
+function isStateCommand(command: RenderCommand): boolean {
+    return command.type === 'clip' || command.type === 'blend' || command.type === 'material' || command.type === 'target' || command.type === 'alpha' ||
+        command.type === 'camera' || command.type === 'resetTransform' || command.type === 'background';
+}
+
+function cloneCommand(command: RenderCommand): RenderCommand {
+    const copy: Record<string, unknown> = { ...command };
+    for (const [key, value] of Object.entries(copy)) {
+        if (value instanceof Vector2) copy[key] = new Vector2(value.x, value.y);
+        else if (value instanceof Color) copy[key] = new Color(value.r, value.g, value.b, value.a);
+    }
+    return copy as unknown as RenderCommand;
+}
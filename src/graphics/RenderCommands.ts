@@ -0,0 +1,250 @@
+import { Texture } from './Texture';
+import { Vector2 } from '../math/Vector2';
+import { Color } from '../math/Color';
+import type { BlendMode } from './SpriteBatch';
+import type { MaterialInstance } from './Material';
+import type { PostEffectInstance } from './PostProcess';
+import { getRenderCapabilities, RenderStrategy, RenderTarget, SpriteBatchItem, TextStyle } from './Renderer';
+
+const WHITE = new Color(255, 255, 255, 255);
+
+export interface SpriteCommand {
+    type: 'sprite';
+    texture: Texture;
+    position: Vector2;
+    size: Vector2;
+    rotation: number;
+    tint: Color;
+}
+
+export interface SpriteUVCommand {
+    type: 'spriteUV';
+    texture: Texture;
+    position: Vector2;
+    size: Vector2;
+    // Texture pixels
+    uv: Rectangle;
+    rotation: number;
+    flipX: boolean;
+    flipY: boolean;
+    tint: Color;
+}
+
+export interface SpriteBatchCommand {
+    type: 'spriteBatch';
+    texture: Texture;
+    items: SpriteBatchItem[];
+}
+
+export type PrimitiveCommand =
+    | { type: 'rectangle'; position: Vector2; size: Vector2; color: Color; filled: boolean }
+    | { type: 'circle'; position: Vector2; radius: number; color: Color; filled: boolean }
+    | { type: 'line'; start: Vector2; end: Vector2; color: Color; lineWidth: number };
+
+export interface TextCommand {
+    type: 'text';
+    text: string;
+    position: Vector2;
+    color: Color;
+    style: TextStyle;
+}
+
+export interface PostEffectCommand {
+    type: 'postEffect';
+    effect: PostEffectInstance;
+    source: RenderTarget;
+    destination: RenderTarget | null;
+}
+
+/**
+ * Renderer state changes; they apply to the commands that follow
+ */
+export type StateCommand =
+    | { type: 'clip'; rect: Rectangle | null }
+    | { type: 'blend'; mode: BlendMode }
+    | { type: 'material'; material: MaterialInstance | null }
+    | { type: 'target'; target: RenderTarget | null; clear: boolean }
+    | { type: 'alpha'; alpha: number }
+    | { type: 'camera'; x: number; y: number; zoom: number; rotation: number }
+    | { type: 'resetTransform' }
+    | { type: 'background'; color: Color };
+
+export type RenderCommand = SpriteCommand | SpriteUVCommand | SpriteBatchCommand | PrimitiveCommand | TextCommand | PostEffectCommand | StateCommand;
+
+/**
+ * Run commands on a renderer through its RenderStrategy methods. Commands the
+ * renderer has no capability for are skipped, except UV sprites, which fall
+ * back to drawing the whole texture.
+ */
+export function executeRenderCommands(renderer: RenderStrategy, commands: readonly RenderCommand[]): void {
+    const capabilities = getRenderCapabilities(renderer);
+    for (const command of commands) {
+        switch (command.type) {
+            case 'sprite':
+                renderer.drawSprite(command.texture, command.position, command.size, command.rotation, command.tint);
+                break;
+            case 'spriteUV':
+                if (capabilities.uvSprites) {
+                    const { uv } = command;
+                    renderer.drawSpriteUV?.(
+                        command.texture, command.position, command.size,
+                        uv.x, uv.y, uv.width, uv.height,
+                        command.rotation, command.flipX, command.flipY, command.tint
+                    );
+                } else {
+                    renderer.drawSprite(command.texture, command.position, command.size, command.rotation, command.tint);
+                }
+                break;
+            case 'spriteBatch':
+                if (capabilities.spriteBatch) {
+                    renderer.drawSpriteBatch?.(command.texture, command.items);
+                } else {
+                    for (const item of command.items) {
+                        const color = item.color
+                            ? new Color(item.color.r, item.color.g, item.color.b, (item.color.a ?? 1) * 255)
+                            : WHITE;
+                        renderer.drawSprite(command.texture, new Vector2(item.x, item.y), new Vector2(item.size, item.size), 0, color);
+                    }
+                }
+                break;
+            case 'rectangle':
+                if (capabilities.primitives) renderer.drawRectangle?.(command.position, command.size, command.color, command.filled);
+                break;
+            case 'circle':
+                if (capabilities.primitives) renderer.drawCircle?.(command.position, command.radius, command.color, command.filled);
+                break;
+            case 'line':
+                if (capabilities.primitives) renderer.drawLine?.(command.start, command.end, command.color, command.lineWidth);
+                break;
+            case 'text':
+                if (capabilities.text) renderer.drawText?.(command.text, command.position, command.color, command.style);
+                break;
+            case 'clip':
+                if (capabilities.clip) renderer.setClip?.(command.rect);
+                break;
+            case 'blend':
+                if (capabilities.blendModes) renderer.setBlendMode?.(command.mode);
+                break;
+            case 'material':
+                if (capabilities.materials) renderer.setMaterial?.(command.material);
+                break;
+            case 'target':
+                if (capabilities.renderTargets) renderer.setRenderTarget?.(command.target, command.clear);
+                break;
+            case 'postEffect':
+                if (capabilities.postProcessing) renderer.applyPostEffect?.(command.effect, command.source, command.destination);
+                break;
+            case 'alpha':
+                if (capabilities.globalAlpha) renderer.setGlobalAlpha?.(command.alpha);
+                break;
+            case 'camera':
+                if (capabilities.camera) renderer.applyCameraTransform?.(command.x, command.y, command.zoom, command.rotation);
+                break;
+            case 'resetTransform':
+                if (capabilities.camera) renderer.resetTransform?.();
+                break;
+            case 'background':
+                if (capabilities.backgroundColor) renderer.setBackgroundColor?.(command.color);
+                break;
+        }
+    }
+}
+
+/**
+ * Commands recorded now and drawn later, on any renderer:
+ *
+ *     const list = new RenderCommandList()
+ *         .rectangle(new Vector2(50, 20), new Vector2(100, 40), panel)
+ *         .text('Score: 10', new Vector2(10, 24), white);
+ *     renderSystem.drawCommands(list, 'screen');
+ */
+export class RenderCommandList {
+    readonly commands: RenderCommand[] = [];
+
+    get length(): number {
+        return this.commands.length;
+    }
+
+    push(command: RenderCommand): this {
+        this.commands.push(command);
+        return this;
+    }
+
+    sprite(texture: Texture, position: Vector2, size: Vector2, rotation: number = 0, tint: Color = WHITE): this {
+        return this.push({ type: 'sprite', texture, position, size, rotation, tint });
+    }
+
+    spriteUV(
+        texture: Texture,
+        position: Vector2,
+        size: Vector2,
+        uv: Rectangle,
+        options: { rotation?: number; flipX?: boolean; flipY?: boolean; tint?: Color } = {}
+    ): this {
+        return this.push({
+            type: 'spriteUV',
+            texture,
+            position,
+            size,
+            uv,
+            rotation: options.rotation ?? 0,
+            flipX: options.flipX ?? false,
+            flipY: options.flipY ?? false,
+            tint: options.tint ?? WHITE
+        });
+    }
+
+    rectangle(position: Vector2, size: Vector2, color: Color, filled: boolean = true): this {
+        return this.push({ type: 'rectangle', position, size, color, filled });
+    }
+
+    circle(position: Vector2, radius: number, color: Color, filled: boolean = true): this {
+        return this.push({ type: 'circle', position, radius, color, filled });
+    }
+
+    line(start: Vector2, end: Vector2, color: Color, lineWidth: number = 1): this {
+        return this.push({ type: 'line', start, end, color, lineWidth });
+    }
+
+    text(text: string, position: Vector2, color: Color, style: TextStyle = {}): this {
+        return this.push({ type: 'text', text, position, color, style });
+    }
+
+    clip(rect: Rectangle | null): this {
+        return this.push({ type: 'clip', rect });
+    }
+
+    blend(mode: BlendMode): this {
+        return this.push({ type: 'blend', mode });
+    }
+
+    material(material: MaterialInstance | null): this {
+        return this.push({ type: 'material', material });
+    }
+
+    /**
+     * Draw the following commands into `target` (null: the screen)
+     */
+    target(target: RenderTarget | null, clear: boolean = false): this {
+        return this.push({ type: 'target', target, clear });
+    }
+
+    alpha(alpha: number): this {
+        return this.push({ type: 'alpha', alpha });
+    }
+
+    clear(): void {
+        this.commands.length = 0;
+    }
+
+    /**
+     * Draw the list with the renderer's own `submit` when it has one
+     */
+    submit(renderer: RenderStrategy): void {
+        if (renderer.submit) {
+            renderer.submit(this.commands);
+        } else {
+            executeRenderCommands(renderer, this.commands);
+        }
+    }
+}
@@ -1,11 +1,22 @@
 import { System } from '../ecs/System';
 import { Entity } from '../ecs/Entity';
+import { World } from '../ecs/World';
+import { getWorldTransform } from '../ecs/Hierarchy';
+import { getInterpolatedTransform } from '../ecs/Interpolation';
 import { SpriteComponent } from './Sprite';
-import { RenderStrategy } from './Renderer';
+import { getRenderCapabilities, RenderCapabilities, RenderCapability, RenderStrategy, RenderTarget } from './Renderer';
+import { executeRenderCommands, RenderCommand, RenderCommandList } from './RenderCommands';
+import type { BlendMode } from './SpriteBatch';
+import { Material, materialRegistry } from './Material';
+import { PostEffectInstance, postEffectRegistry } from './PostProcess';
 import { Texture } from './Texture';
 import { Vector2 } from '../math/Vector2';
 import { Camera2D } from './Camera2D';
 import { Color } from '../math/Color';
+import { TransitionCover } from './SceneTransition';
+import type { SystemPhase } from '../core/SystemScheduler';
+import type { TilemapComponent } from '../tilemap/TilemapComponent';
+import { renderTilemap } from '../tilemap/TilemapRenderer';
 
 export interface TransformComponent {
     type: 'transform';
@@ -14,15 +25,81 @@ export interface TransformComponent {
     scale: Vector2;
 }
 
+export type RenderLayer = { name: string; bit: number; mask?: number; visible?: boolean; opacity?: number };
+
+/**
+ * Particle as drawn by the RenderSystem. Without a texture it is a circle
+ * of diameter `size`; `color.a` goes from 0 to 1.
+ */
+export interface RenderParticle {
+    x: number;
+    y: number;
+    size: number;
+    color?: { r: number; g: number; b: number; a?: number };
+    texture?: string | null;
+    layer?: string;
+    layerMask?: number;
+    visible?: boolean;
+}
+
+/**
+ * Anything that provides particles to draw, such as the ParticleSystem
+ */
+export interface ParticleSource {
+    getParticlesForRender(): RenderParticle[];
+}
+
+/**
+ * One scene drawn in a frame. Passes are drawn in order (bottom first).
+ */
+export interface RenderPass {
+    world: World | null;
+    // Used when `world` is null
+    entities: Entity[];
+    layers: RenderLayer[] | null;
+    opacity: number;
+    // Scene-owned particle system drawn with the pass
+    particleSystem?: ParticleSource | null;
+}
+
+export interface RenderFrame {
+    passes: RenderPass[];
+    // Screen-space overlay drawn after every pass (scene transitions)
+    cover?: TransitionCover;
+    viewport?: { width: number; height: number };
+}
+
 export class RenderSystem extends System {
     requiredComponents = ['transform', 'sprite'];
+    // Drawn once per animation frame, after the fixed steps
+    readonly phase: SystemPhase = 'render';
     private renderer: RenderStrategy;
+    private capabilities: RenderCapabilities;
+    // Capabilities already reported missing for the current renderer
+    private missingCapabilities = new Set<RenderCapability>();
+    // Command lists queued with drawCommands for the next frame
+    private queuedCommands: { world: RenderCommand[]; screen: RenderCommand[] } = { world: [], screen: [] };
     private textures = new Map<string, Texture>();
+    // Draw state last sent to the renderer, to restore it after effects
+    private blendMode: BlendMode = 'normal';
+    private activeMaterial: Material | null = null;
     private _backgroundColor: Color = new Color(0, 0, 0, 255);
+    // Ping-pong targets of the camera's post-process stack
+    private postTargets: { width: number; height: number; scene: RenderTarget; swap: RenderTarget } | null = null;
     private camera: Camera2D | null = null;
-    private layerOrder: Array<{ name: string; bit: number; mask?: number; visible?: boolean; opacity?: number }> | null = null;
+    private layerOrder: RenderLayer[] | null = null;
+    // Supplies the scenes to draw (e.g. the engine scene stack); without it
+    // only the attached world / given entities are drawn
+    private frameProvider: (() => RenderFrame | null) | null = null;
+    // Position of this frame between the last two fixed steps (GameLoop alpha)
+    private alpha = 1;
+    private interpolation = true;
     // optional particle system to render after sprites
-    private particleSystem: any | null = null;
+    private particleSystem: ParticleSource | null = null;
+    // Sorted draw list reused between frames while attached to a world; rebuilt
+    // only when renderables come and go, a sprite changes or layers are edited
+    private drawOrder: Entity[] | null = null;
+    private drawOrderLayers: Array<string | number> = [];
     // renderer metadata/mappers
     private rendererMappers: Array<{
         typeName: string;
@@ -57,14 +134,32 @@ export class RenderSystem extends System {
     constructor(renderer: RenderStrategy) {
         super();
         this.renderer = renderer;
+        this.capabilities = getRenderCapabilities(renderer);
     }
 
-    setParticleSystem(ps: any | null) {
+    setParticleSystem(ps: ParticleSource | null) {
         this.particleSystem = ps;
     }
 
     setRenderer(renderer: RenderStrategy): void {
+        this.destroyPostTargets();
         this.renderer = renderer;
+        this.capabilities = getRenderCapabilities(renderer);
+        this.missingCapabilities.clear();
+        this.activeMaterial = null;
+    }
+
+    getCapabilities(): RenderCapabilities {
+        return this.capabilities;
+    }
+
+    /**
+     * Queue commands for the next frame: 'world' ones are drawn after the
+     * scenes, under the camera; 'screen' ones last, in screen pixels
+     */
+    drawCommands(commands: RenderCommandList | readonly RenderCommand[], space: 'world' | 'screen' = 'world'): void {
+        const list = commands instanceof RenderCommandList ? commands.commands : commands;
+        this.queuedCommands[space].push(...list);
     }
 
     getRenderer(): RenderStrategy {
@@ -86,8 +181,8 @@ export class RenderSystem extends System {
     setBackgroundColor(color: Color): void {
         this._backgroundColor = color;
         // Apply background color if renderer supports it
-        if ('setBackgroundColor' in this.renderer) {
-            (this.renderer as any).setBackgroundColor(color);
+        if (this.capabilities.backgroundColor) {
+            this.renderer.setBackgroundColor!(color);
         }
     }
 
@@ -95,40 +190,246 @@ export class RenderSystem extends System {
         return this._backgroundColor;
     }
 
-    update(entities: Entity[], _deltaTime: number): void {
+    setFrameProvider(provider: (() => RenderFrame | null) | null): void {
+        this.frameProvider = provider;
+    }
+
+    /**
+     * Draw physics-driven entities between their last two steps (on by default)
+     */
+    setInterpolationEnabled(enabled: boolean): void {
+        this.interpolation = enabled;
+    }
+
+    update(entities: Entity[], _deltaTime: number, alpha: number = 1): void {
+        this.alpha = alpha;
+        const frame = this.frameProvider?.() ?? {
+            passes: [{ world: this.world, entities, layers: this.layerOrder, opacity: 1 }]
+        };
+
         // Clear the screen
         this.renderer.clear();
+        // With post-processing the scenes are drawn into a target first
+        const postEffects = this.preparePostProcess();
+        if (postEffects.length > 0) {
+            this.renderer.setRenderTarget!(this.postTargets!.scene, true);
+        }
         // Apply camera transform if available
-        if (this.camera && 'applyCameraTransform' in this.renderer) {
-            (this.renderer as any).applyCameraTransform(
-                this.camera.position.x,
-                this.camera.position.y,
-                this.camera.zoom,
-                this.camera.rotation
+        const useCamera = this.camera !== null && this.requireCapability('camera');
+        if (useCamera) {
+            this.renderer.applyCameraTransform!(
+                this.camera!.position.x,
+                this.camera!.position.y,
+                this.camera!.zoom,
+                this.camera!.rotation
             );
         }
 
-        // Get all renderable entities
-        const renderableEntities = this.getEntitiesWithComponents(
-            entities,
-            this.requiredComponents
-        );
+        for (const pass of frame.passes) {
+            this.renderPass(pass);
+        }
+
+        this.flushQueuedCommands('world');
+        // Reset transform if renderer supports it
+        if (useCamera) {
+            this.renderer.resetTransform!();
+        }
+
+        // Render particles if a particle system is attached, then the ones owned by each scene
+        if (this.particleSystem) {
+            this.renderParticles(this.particleSystem, this.layerOrder);
+        }
+        for (const pass of frame.passes) {
+            if (pass.particleSystem && pass.particleSystem !== this.particleSystem && pass.opacity > 0) {
+                this.renderParticles(pass.particleSystem, pass.layers ?? this.layerOrder);
+            }
+        }
+
+        // Effects apply to the scenes, not to the transition cover or the HUD
+        if (postEffects.length > 0) {
+            this.applyPostProcess(postEffects);
+        }
+
+        if (frame.cover) {
+            this.renderCover(frame.cover, frame.viewport);
+        }
+
+        this.flushQueuedCommands('screen');
+
+        // Present the rendered frame (batching renderers draw what is still queued)
+        this.applyMaterial(null);
+        this.setBlendMode('normal');
+        this.renderer.present();
+    }
+
+    /**
+     * Resolve the camera's active post-process passes (running their
+     * beforeApply) and size the targets for them. Empty when there is nothing
+     * to apply or the renderer cannot do it.
+     */
+    private preparePostProcess(): PostEffectInstance[] {
+        const passes = this.camera?.postProcess.getActivePasses() ?? [];
+        if (passes.length === 0) return [];
+        if (!this.requireCapability('renderTargets') || !this.requireCapability('postProcessing')) return [];
+
+        const width = Math.max(1, Math.round(this.camera!.viewport.width));
+        const height = Math.max(1, Math.round(this.camera!.viewport.height));
+        const effects: PostEffectInstance[] = [];
+        for (const pass of passes) {
+            pass.beforeApply?.({ width, height, camera: this.camera });
+            const effect = postEffectRegistry.resolve(pass, this.textures);
+            if (effect) effects.push(effect);
+        }
+        if (effects.length === 0) return effects;
+
+        if (!this.postTargets || this.postTargets.width !== width || this.postTargets.height !== height) {
+            this.destroyPostTargets();
+            this.postTargets = {
+                width,
+                height,
+                scene: this.renderer.createRenderTarget!(width, height),
+                swap: this.renderer.createRenderTarget!(width, height)
+            };
+        }
+        return effects;
+    }
+
+    /**
+     * Run the effects in order, ping-ponging between the two targets; the
+     * last one draws on the screen
+     */
+    private applyPostProcess(effects: PostEffectInstance[]): void {
+        this.applyMaterial(null);
+        this.setBlendMode('normal');
+        let source = this.postTargets!.scene;
+        let spare = this.postTargets!.swap;
+        effects.forEach((effect, index) => {
+            const destination = index === effects.length - 1 ? null : spare;
+            this.renderer.applyPostEffect!(effect, source, destination);
+            spare = source;
+            source = destination!;
+        });
+    }
+
+    private destroyPostTargets(): void {
+        if (!this.postTargets) return;
+        this.renderer.destroyRenderTarget?.(this.postTargets.scene);
+        this.renderer.destroyRenderTarget?.(this.postTargets.swap);
+        this.postTargets = null;
+    }
+
+    private renderParticles(particleSystem: ParticleSource, layerOrder: RenderLayer[] | null): void {
+        const parts = particleSystem.getParticlesForRender();
+
+        // Filter by visibility and layer order if present
+        let visibleParts = parts.filter(p => p && (p.visible === undefined || p.visible));
+        if (layerOrder && layerOrder.length > 0) {
+            visibleParts = visibleParts.filter(p => {
+                if (p.layer === undefined && (p.layerMask === undefined || p.layerMask === 0)) return true;
+                // If particle has a named layer, ensure that layer exists and is visible
+                if (typeof p.layer === 'string') {
+                    const layerDef = layerOrder.find(l => l.name === p.layer);
+                    return layerDef ? (layerDef.visible !== false) : true;
+                }
+                // If particle has a bitmask, check any matching visible layer
+                if (typeof p.layerMask === 'number' && p.layerMask !== 0) {
+                    for (const l of layerOrder) {
+                        if (l.visible === false) continue;
+                        if ((l.bit & p.layerMask) !== 0) return true;
+                    }
+                    return false;
+                }
+                return true;
+            });
+        }
+
+        // Camera frustum culling: if camera available, skip particles outside viewport plus margin.
+        // Compared in world space against the view rectangle, so no per-particle projection
+        if (this.camera) {
+            const margin = 32;
+            const zoom = this.camera.zoom;
+            const view = this.camera.getViewBounds();
+            visibleParts = visibleParts.filter(p => {
+                const extent = (p.size + margin) / zoom;
+                return p.x >= view.x - extent && p.x <= view.x + view.width + extent &&
+                    p.y >= view.y - extent && p.y <= view.y + view.height + extent;
+            });
+        }
+
+        // Group by texture so each group is one batch (or a loop of drawSprite calls without batching)
+        const groupByTexture = new Map<string | null, RenderParticle[]>();
+        for (const p of visibleParts) {
+            const key = p.texture || null;
+            const arr = groupByTexture.get(key) || [];
+            arr.push(p);
+            groupByTexture.set(key, arr);
+        }
+
+        const commands: RenderCommand[] = [];
+        for (const [texKey, group] of groupByTexture) {
+            const tex = texKey ? this.textures.get(texKey) : undefined;
+            if (tex) {
+                commands.push({ type: 'spriteBatch', texture: tex, items: group.map(p => ({ x: p.x, y: p.y, size: p.size, color: p.color })) });
+                continue;
+            }
+
+            // Untextured particles are drawn as circles
+            for (const p of group) {
+                const color = p.color ? new Color(p.color.r, p.color.g, p.color.b, (p.color.a ?? 1) * 255) : new Color(255, 255, 255, 255);
+                commands.push({ type: 'circle', position: new Vector2(p.x, p.y), radius: p.size / 2, color, filled: true });
+            }
+        }
+        executeRenderCommands(this.renderer, commands);
+    }
+
+    setCamera(camera: Camera2D | null): void {
+        this.camera = camera;
+    }
+
+    setLayerOrder(layers: RenderLayer[]) {
+        this.layerOrder = layers;
+        this.drawOrder = null;
+    }
+
+    onAdded(_entity: Entity): void {
+        this.drawOrder = null;
+    }
+
+    onRemoved(_entity: Entity): void {
+        this.drawOrder = null;
+    }
+
+    onChanged(_entity: Entity, types: string[]): void {
+        // Transform edits do not affect the draw order
+        if (types.includes('sprite')) this.drawOrder = null;
+    }
+
+    private renderPass(pass: RenderPass): void {
+        if (pass.opacity <= 0) return;
 
-        // Sort entities by z-index if available (for rendering order)
-        const sortedEntities = this.sortEntitiesByZIndex(renderableEntities);
+        const layers = pass.layers ?? this.layerOrder;
+        // Get all renderable entities sorted by layer and z-index
+        let sortedEntities = this.getDrawOrder(pass.entities, pass.world, layers);
+        const visible = this.getVisibleEntities(pass.world);
+        if (visible) sortedEntities = sortedEntities.filter(entity => visible.has(entity));
+        const tilemaps = this.getTilemaps(pass);
 
         // If we have a layer order, group entities by layer and respect visibility/opacity
-        if (this.layerOrder && this.layerOrder.length > 0) {
-            for (const layer of this.layerOrder) {
+        if (layers && layers.length > 0) {
+            for (const layer of layers) {
                 // skip invisible layers
                 if (layer.visible === false) continue;
 
                 // set global alpha if supported
-                if ('setGlobalAlpha' in this.renderer && layer.opacity !== undefined) {
-                    try {
-                        (this.renderer as any).setGlobalAlpha(layer.opacity);
-                    } catch (e) {
-                        // ignore if not supported
+                const fade = (layer.opacity ?? 1) * pass.opacity !== 1 && this.requireCapability('globalAlpha');
+                if (fade) this.renderer.setGlobalAlpha!((layer.opacity ?? 1) * pass.opacity);
+
+                // tile layers go under the sprites of their render layer
+                for (const tilemap of tilemaps) {
+                    const entityLayer = tilemap.getLayer();
+                    if (entityLayer === layer.name || entityLayer === layer.bit) {
+                        this.resetDrawState();
+                        this.renderTilemapEntity(tilemap, (layer.opacity ?? 1) * pass.opacity);
                     }
                 }
 
@@ -141,119 +442,99 @@ export class RenderSystem extends System {
                 });
 
                 // reset alpha after layer
-                if ('resetGlobalAlpha' in this.renderer) {
-                    try {
-                        (this.renderer as any).resetGlobalAlpha();
-                    } catch (e) {
-                        // ignore
-                    }
-                }
+                if (fade) this.resetGlobalAlpha();
             }
         } else {
             // No layer order provided - render all
+            const fade = pass.opacity !== 1 && this.requireCapability('globalAlpha');
+            if (fade) this.renderer.setGlobalAlpha!(pass.opacity);
+            for (const tilemap of tilemaps) this.renderTilemapEntity(tilemap, pass.opacity);
             sortedEntities.forEach((entity) => {
                 this.renderEntity(entity);
             });
+            if (fade) this.resetGlobalAlpha();
         }
 
-        // Reset transform if renderer supports it
-        if (this.camera && 'resetTransform' in this.renderer) {
-            (this.renderer as any).resetTransform();
-        }
-
-        // Present the rendered frame
-        this.renderer.present();
-
-        // Render particles if a particle system is attached
-        if (this.particleSystem && typeof this.particleSystem.getParticlesForRender === 'function') {
-            const parts = this.particleSystem.getParticlesForRender();
-
-            // Filter by visibility and layer order if present
-            let visibleParts = parts.filter((p: any) => p && (p.visible === undefined || p.visible));
-            if (this.layerOrder && this.layerOrder.length > 0) {
-                const layerOrder = this.layerOrder;
-                visibleParts = visibleParts.filter((p: any) => {
-                    if (p.layer === undefined && (p.layerMask === undefined || p.layerMask === 0)) return true;
-                    // If particle has a named layer, ensure that layer exists and is visible
-                    if (typeof p.layer === 'string') {
-                        const layerDef = layerOrder.find(l => l.name === p.layer);
-                        return layerDef ? (layerDef.visible !== false) : true;
-                    }
-                    // If particle has a bitmask, check any matching visible layer
-                    if (typeof p.layerMask === 'number' && p.layerMask !== 0) {
-                        for (const l of layerOrder) {
-                            if (l.visible === false) continue;
-                            if ((l.bit & p.layerMask) !== 0) return true;
-                        }
-                        return false;
-                    }
-                    return true;
-                });
-            }
-
-            // Camera frustum culling: if camera available, skip particles outside viewport plus margin
-            if (this.camera) {
-                const margin = 32;
-                const cam = this.camera;
-                visibleParts = visibleParts.filter((p: any) => {
-                    const worldPos = new Vector2(p.x, p.y);
-                    const screenPos = cam.worldToScreen(worldPos);
-                    const sx = screenPos.x;
-                    const sy = screenPos.y;
-                    if (sx + p.size < -margin || sx - p.size > cam.viewport.width + margin) return false;
-                    if (sy + p.size < -margin || sy - p.size > cam.viewport.height + margin) return false;
-                    return true;
-                });
-            }
-
-            // Group by texture for batching if renderer supports a batch API
-            const groupByTexture = new Map<string | null, any[]>();
-            for (const p of visibleParts) {
-                const key = p.texture || null;
-                const arr = groupByTexture.get(key) || [];
-                arr.push(p);
-                groupByTexture.set(key, arr);
-            }
+        // Particles, commands and the next pass are drawn without the last sprite's effect
+        this.resetDrawState();
+    }
 
-            for (const [texKey, group] of groupByTexture) {
-                if (texKey && (this.renderer as any).drawSpriteBatch) {
-                    const tex = this.textures.get(texKey as string);
-                    if (tex) {
-                        try {
-                            // convert group to batch-friendly format
-                            const batchItems = group.map((p: any) => ({ x: p.x, y: p.y, size: p.size, color: p.color }));
-                            (this.renderer as any).drawSpriteBatch(tex, batchItems);
-                            continue;
-                        } catch (e) {
-                            // fallback to per-particle draws
-                        }
-                    }
-                }
+    private getTilemaps(pass: RenderPass): Entity[] {
+        const entities = pass.world
+            ? pass.world.query(['transform', 'tilemap']).getEntities()
+            : pass.entities.filter(entity => entity.hasComponent('tilemap') && entity.hasComponent('transform'));
+        return entities.filter(entity => entity.active);
+    }
 
-                // Per-particle rendering fallback
-                for (const p of group) {
-                    if ((this.renderer as any).drawSprite && p.texture) {
-                        const tex = this.textures.get(p.texture);
-                        if (tex) {
-                            (this.renderer as any).drawSprite(tex, { x: p.x, y: p.y }, { x: p.size, y: p.size }, 0, p.color);
-                            continue;
-                        }
-                    }
+    /**
+     * Draw a tilemap entity, culled to the camera view
+     */
+    private renderTilemapEntity(entity: Entity, opacity: number): void {
+        if (!this.requireCapability('uvSprites')) return;
+        const tilemap = entity.getComponent<TilemapComponent>('tilemap')!;
+        const transform = getWorldTransform(entity);
+        renderTilemap(this.renderer, tilemap.map, {
+            origin: transform.position,
+            scale: transform.scale,
+            layers: tilemap.layers,
+            time: tilemap.time,
+            view: this.camera?.getViewBounds() ?? null,
+            opacity
+        });
+    }
 
-                    if ((this.renderer as any).drawCircle) {
-                        try { (this.renderer as any).drawCircle(p.x, p.y, p.size, p.color); } catch (e) { }
-                    }
-                }
-            }
-        }
+    /**
+     * Entities inside the camera view (plus the culling margin) according to
+     * the world's spatial index; null when there is no camera or index
+     */
+    private getVisibleEntities(world: World | null): Set<Entity> | null {
+        const index = world?.getSpatialIndex();
+        if (!this.camera || !index) return null;
+
+        const margin = 50 / this.camera.zoom;
+        const view = this.camera.getViewBounds();
+        return new Set(index.queryRegion({
+            x: view.x - margin,
+            y: view.y - margin,
+            width: view.width + margin * 2,
+            height: view.height + margin * 2
+        }, { includeInactive: true }));
     }
 
-    setCamera(camera: Camera2D | null): void {
-        this.camera = camera;
+    private renderCover(cover: TransitionCover, viewport?: { width: number; height: number }): void {
+        const size = viewport ?? this.camera?.viewport;
+        if (!size || cover.alpha <= 0 || cover.width <= 0 || cover.height <= 0) return;
+        if (!this.requireCapability('primitives')) return;
+
+        const color = new Color(cover.color.r, cover.color.g, cover.color.b, cover.color.a * cover.alpha);
+        this.renderer.drawRectangle!(
+            new Vector2((cover.x + cover.width / 2) * size.width, (cover.y + cover.height / 2) * size.height),
+            new Vector2(cover.width * size.width, cover.height * size.height),
+            color,
+            true
+        );
     }
 
-    setLayerOrder(layers: Array<{ name: string; bit: number; mask?: number }>) {
-        this.layerOrder = layers;
+    private getDrawOrder(entities: Entity[], world: World | null = this.world, layers: RenderLayer[] | null = this.layerOrder): Entity[] {
+        if (!world) {
+            return this.sortEntitiesByZIndex(this.getEntitiesWithComponents(entities, this.requiredComponents), layers);
+        }
+        if (world !== this.world) {
+            // Other scenes of the stack (overlays, transitions) are not tracked, so sort them every frame
+            const renderable = [...world.query(this.requiredComponents).getEntities()];
+            return this.sortEntitiesByZIndex(renderable, layers).filter(entity => entity.active);
+        }
+
+        this.flushChanges();
+        // Entity layers are plain fields, so compare them against the cached list
+        const stale = !this.drawOrder ||
+            this.drawOrder.some((entity, i) => entity.getLayer() !== this.drawOrderLayers[i]);
+        if (stale) {
+            const renderable = [...this.world.query(this.requiredComponents).getEntities()];
+            this.drawOrder = this.sortEntitiesByZIndex(renderable);
+            this.drawOrderLayers = this.drawOrder.map(entity => entity.getLayer());
+        }
+        return this.drawOrder!.filter(entity => entity.active);
     }
 
     private renderEntity(entity: Entity): void {
@@ -274,15 +555,18 @@ export class RenderSystem extends System {
 
         // console.log(`Rendering entity ${entity.id} with texture '${sprite.texture}' at (${transform.position.x}, ${transform.position.y})`);
 
-        // Calculate final position and size
-        const finalPosition = new Vector2(
-            transform.position.x,
-            transform.position.y
-        );
+        // Calculate final position and size in world space (includes parent transforms)
+        const worldTransform = getWorldTransform(entity);
+        const interpolated = this.interpolation ? getInterpolatedTransform(entity, this.alpha) : null;
+        if (interpolated) {
+            worldTransform.position = interpolated.position;
+            worldTransform.rotation = interpolated.rotation;
+        }
+        const finalPosition = worldTransform.position;
 
         const finalSize = new Vector2(
-            sprite.width * transform.scale.x,
-            sprite.height * transform.scale.y
+            sprite.width * worldTransform.scale.x,
+            sprite.height * worldTransform.scale.y
         );
 
         // Simple viewport culling: if camera present, convert world pos to screen and
@@ -304,21 +588,86 @@ export class RenderSystem extends System {
         // console.log(`[RenderSystem] About to call renderer.drawSprite for entity ${entity.id}`);
         // console.log(`[RenderSystem] Renderer type:`, this.renderer.constructor.name);
 
+        const blendMode = sprite.material?.blendMode ?? sprite.blendMode ?? 'normal';
+        if (blendMode !== 'normal') this.requireCapability('blendModes');
+        this.setBlendMode(blendMode);
+        this.applyMaterial(sprite.material ?? null);
         if (this.hasUVMapping(sprite)) {
             // console.log(`[RenderSystem] Using UV mapping for entity ${entity.id}`);
-            this.renderSpriteWithUV(texture, finalPosition, finalSize, transform.rotation, sprite);
+            this.renderSpriteWithUV(texture, finalPosition, finalSize, worldTransform.rotation, sprite);
         } else {
             // console.log(`[RenderSystem] Using standard drawSprite for entity ${entity.id}`);
             this.renderer.drawSprite(
                 texture,
                 finalPosition,
                 finalSize,
-                transform.rotation,
+                worldTransform.rotation,
                 sprite.tint
             );
         }
     }
 
+    private setBlendMode(mode: BlendMode): void {
+        if (this.capabilities.blendModes) {
+            this.renderer.setBlendMode!(mode);
+            this.blendMode = mode;
+        }
+    }
+
+    /**
+     * Send the sprite's material to the renderer when it differs from the
+     * active one. It is resolved again every frame, so uniform edits apply.
+     */
+    private applyMaterial(material: Material | null): void {
+        // Blend-only materials need no effect
+        const effect = material && (material.effect !== undefined || material.fragment !== undefined) ? material : null;
+        if (effect === this.activeMaterial) return;
+        if (effect && !this.requireCapability('materials')) return;
+
+        this.activeMaterial = effect;
+        this.renderer.setMaterial!(effect ? materialRegistry.resolve(effect, this.textures) : null);
+    }
+
+    /**
+     * Back to plain drawing: no material, normal blending (only what changed is sent)
+     */
+    private resetDrawState(): void {
+        this.applyMaterial(null);
+        if (this.blendMode !== 'normal') this.setBlendMode('normal');
+    }
+
+    private resetGlobalAlpha(): void {
+        if (this.renderer.resetGlobalAlpha) {
+            this.renderer.resetGlobalAlpha();
+        } else {
+            this.renderer.setGlobalAlpha!(1);
+        }
+    }
+
+    /**
+     * Whether the renderer can do what the frame needs; the first time it
+     * cannot, say so instead of silently drawing something else
+     */
+    private requireCapability(capability: RenderCapability): boolean {
+        if (this.capabilities[capability]) return true;
+        if (!this.missingCapabilities.has(capability)) {
+            this.missingCapabilities.add(capability);
+            console.warn(`[RenderSystem] ${this.renderer.constructor.name} has no '${capability}' capability; drawing without it`);
+        }
+        return false;
+    }
+
+    private flushQueuedCommands(space: 'world' | 'screen'): void {
+        const commands = this.queuedCommands[space];
+        if (commands.length === 0) return;
+        this.queuedCommands[space] = [];
+        if (this.renderer.submit) {
+            this.renderer.submit(commands);
+        } else {
+            executeRenderCommands(this.renderer, commands);
+        }
+    }
+
     private hasUVMapping(sprite: SpriteComponent): boolean {
         return sprite.uvX !== undefined || sprite.uvY !== undefined ||
             sprite.uvWidth !== undefined || sprite.uvHeight !== undefined;
@@ -331,8 +680,8 @@ export class RenderSystem extends System {
         rotation: number,
         sprite: SpriteComponent
     ): void {
-        // Check if renderer supports UV mapping (Canvas2D does, WebGL should too)
-        if ('drawSpriteUV' in this.renderer) {
+        // Without UV support the whole texture is drawn
+        if (this.requireCapability('uvSprites')) {
             // Convert normalized UV coordinates (0-1) to pixel coordinates
             const uvX = (sprite.uvX || 0) * texture.width;
             const uvY = (sprite.uvY || 0) * texture.height;
@@ -341,7 +690,7 @@ export class RenderSystem extends System {
 
             // console.log(`[RenderSystem] UV conversion - Original: (${sprite.uvX}, ${sprite.uvY}, ${sprite.uvWidth}, ${sprite.uvHeight}) Converted: (${uvX}, ${uvY}, ${uvWidth}, ${uvHeight})`);
 
-            (this.renderer as any).drawSpriteUV(
+            this.renderer.drawSpriteUV!(
                 texture,
                 position,
                 size,
@@ -360,14 +709,14 @@ export class RenderSystem extends System {
         }
     }
 
-    private sortEntitiesByZIndex(entities: Entity[]): Entity[] {
+    private sortEntitiesByZIndex(entities: Entity[], layerOrder: RenderLayer[] | null = this.layerOrder): Entity[] {
         // If layerOrder is provided, sort by layer index first, then zIndex
         return entities.sort((a, b) => {
             const spriteA = a.getComponent<SpriteComponent>('sprite');
             const spriteB = b.getComponent<SpriteComponent>('sprite');
 
-            const zIndexA = (spriteA as any)?.zIndex || 0;
-            const zIndexB = (spriteB as any)?.zIndex || 0;
+            const zIndexA = spriteA?.zIndex || 0;
+            const zIndexB = spriteB?.zIndex || 0;
 
             let layerIdxA = 0;
             let layerIdxB = 0;
@@ -375,16 +724,27 @@ export class RenderSystem extends System {
             const layerA = a.getLayer ? a.getLayer() : null;
             const layerB = b.getLayer ? b.getLayer() : null;
 
-            if (this.layerOrder) {
-                const idxA = this.layerOrder.findIndex(l => l.name === layerA || l.bit === layerA);
-                const idxB = this.layerOrder.findIndex(l => l.name === layerB || l.bit === layerB);
-                layerIdxA = idxA >= 0 ? idxA : this.layerOrder.length;
-                layerIdxB = idxB >= 0 ? idxB : this.layerOrder.length;
+            if (layerOrder) {
+                const idxA = layerOrder.findIndex(l => l.name === layerA || l.bit === layerA);
+                const idxB = layerOrder.findIndex(l => l.name === layerB || l.bit === layerB);
+                layerIdxA = idxA >= 0 ? idxA : layerOrder.length;
+                layerIdxB = idxB >= 0 ? idxB : layerOrder.length;
             }
 
             if (layerIdxA !== layerIdxB) return layerIdxA - layerIdxB;
-
-            return zIndexA - zIndexB;
+            if (zIndexA !== zIndexB) return zIndexA - zIndexB;
+
+            // Same layer and depth: group by blend mode, effect and texture so batching
+            // renderers change state as little as possible
+            const blendA = spriteA?.material?.blendMode ?? spriteA?.blendMode ?? 'normal';
+            const blendB = spriteB?.material?.blendMode ?? spriteB?.blendMode ?? 'normal';
+            if (blendA !== blendB) return blendA < blendB ? -1 : 1;
+            const effectA = spriteA?.material?.fragment ?? spriteA?.material?.effect ?? '';
+            const effectB = spriteB?.material?.fragment ?? spriteB?.material?.effect ?? '';
+            if (effectA !== effectB) return effectA < effectB ? -1 : 1;
+            const textureA = spriteA?.texture ?? '';
+            const textureB = spriteB?.texture ?? '';
+            return textureA < textureB ? -1 : textureA > textureB ? 1 : 0;
         });
     }
 
@@ -399,14 +759,23 @@ export class RenderSystem extends System {
 
     // Statistics for performance monitoring
     getStats(): RenderStats {
-        return {
+        const stats: RenderStats = {
             textureCount: this.textures.size,
             rendererType: this.renderer.constructor.name,
         };
+        // Batching renderers report the work of the last frame
+        if (this.capabilities.frameStats) {
+            Object.assign(stats, this.renderer.getFrameStats!());
+        }
+        return stats;
     }
 }
 
 export interface RenderStats {
     textureCount: number;
     rendererType: string;
+    // Last frame, when the renderer reports it
+    drawCalls?: number;
+    sprites?: number;
+    vertices?: number;
 }
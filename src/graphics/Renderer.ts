@@ -1,8 +1,75 @@
 import { Texture } from './Texture';
 import { Vector2 } from '../math/Vector2';
 import { Color } from '../math/Color';
+import type { BlendMode, SpriteBatchStats } from './SpriteBatch';
+import type { RenderCommand } from './RenderCommands';
+import type { MaterialInstance } from './Material';
+import type { PostEffectInstance } from './PostProcess';
+
+/**
+ * What a renderer can draw beyond plain sprites. `RenderSystem` and the
+ * command executor read it instead of probing for methods.
+ */
+export interface RenderCapabilities {
+    // applyCameraTransform / resetTransform
+    camera: boolean;
+    // drawSpriteUV (atlas regions and flips)
+    uvSprites: boolean;
+    // setGlobalAlpha / resetGlobalAlpha (layer and scene opacity)
+    globalAlpha: boolean;
+    // setBackgroundColor
+    backgroundColor: boolean;
+    // drawRectangle / drawCircle / drawLine
+    primitives: boolean;
+    // drawText
+    text: boolean;
+    // setClip
+    clip: boolean;
+    // setBlendMode
+    blendModes: boolean;
+    // drawSpriteBatch (many particles of one texture in one call)
+    spriteBatch: boolean;
+    // getFrameStats
+    frameStats: boolean;
+    // setMaterial (effects; Canvas2D approximates them with filters)
+    materials: boolean;
+    // createRenderTarget / setRenderTarget / destroyRenderTarget
+    renderTargets: boolean;
+    // applyPostEffect
+    postProcessing: boolean;
+}
+
+export type RenderCapability = keyof RenderCapabilities;
+
+export interface TextStyle {
+    // CSS font, '16px sans-serif' by default
+    font?: string;
+    align?: 'left' | 'center' | 'right';
+    baseline?: 'top' | 'middle' | 'alphabetic' | 'bottom';
+}
+
+/**
+ * Offscreen image drawing can be redirected to; created by the renderer and
+ * only usable with it
+ */
+export interface RenderTarget {
+    readonly width: number;
+    readonly height: number;
+}
+
+/**
+ * Particle-style item accepted by `drawSpriteBatch` (alpha in 0..1)
+ */
+export interface SpriteBatchItem {
+    x: number;
+    y: number;
+    size: number;
+    color?: { r: number; g: number; b: number; a?: number };
+}
 
 export interface RenderStrategy {
+    // Renderers without it get capabilities inferred from their methods
+    readonly capabilities?: RenderCapabilities;
     initialize(canvas: HTMLCanvasElement): void;
     clear(): void;
     // Optional camera transform support
@@ -15,6 +82,86 @@ export interface RenderStrategy {
         rotation: number,
         tint: Color
     ): void;
+    // UV rectangle in texture pixels
+    drawSpriteUV?(
+        texture: Texture,
+        position: Vector2,
+        size: Vector2,
+        uvX: number,
+        uvY: number,
+        uvWidth: number,
+        uvHeight: number,
+        rotation: number,
+        flipX: boolean,
+        flipY: boolean,
+        tint: Color
+    ): void;
+    drawSpriteBatch?(texture: Texture, items: SpriteBatchItem[]): void;
+    setGlobalAlpha?(alpha: number): void;
+    resetGlobalAlpha?(): void;
+    setBackgroundColor?(color: Color): void;
+    drawRectangle?(position: Vector2, size: Vector2, color: Color, filled?: boolean): void;
+    drawCircle?(position: Vector2, radius: number, color: Color, filled?: boolean): void;
+    drawLine?(start: Vector2, end: Vector2, color: Color, lineWidth?: number): void;
+    drawText?(text: string, position: Vector2, color: Color, style?: TextStyle): void;
+    // Screen-space rectangle drawing is limited to; null removes the clip
+    setClip?(rect: Rectangle | null): void;
+    setBlendMode?(mode: BlendMode): void;
+    // Effect for the following sprites; null goes back to plain tinting
+    setMaterial?(material: MaterialInstance | null): void;
+    getFrameStats?(): SpriteBatchStats;
+    createRenderTarget?(width: number, height: number): RenderTarget;
+    // Draw into `target` (null: the screen); `clear` fills it with the background colour first
+    setRenderTarget?(target: RenderTarget | null, clear?: boolean): void;
+    destroyRenderTarget?(target: RenderTarget): void;
+    // Draw `source` through the effect into `destination` (null: the screen), which stays bound
+    applyPostEffect?(effect: PostEffectInstance, source: RenderTarget, destination: RenderTarget | null): void;
+    // Run a command list (see RenderCommands)
+    submit?(commands: readonly RenderCommand[]): void;
     present(): void;
     destroy(): void;
 }
+
+/**
+ * Capabilities with everything not listed turned off
+ */
+export function createRenderCapabilities(enabled: Partial<RenderCapabilities> = {}): RenderCapabilities {
+    return {
+        camera: false,
+        uvSprites: false,
+        globalAlpha: false,
+        backgroundColor: false,
+        primitives: false,
+        text: false,
+        clip: false,
+        blendModes: false,
+        spriteBatch: false,
+        frameStats: false,
+        materials: false,
+        renderTargets: false,
+        postProcessing: false,
+        ...enabled
+    };
+}
+
+/**
+ * Declared capabilities of a renderer, or the ones its methods imply
+ */
+export function getRenderCapabilities(renderer: RenderStrategy): RenderCapabilities {
+    if (renderer.capabilities) return renderer.capabilities;
+    return createRenderCapabilities({
+        camera: typeof renderer.applyCameraTransform === 'function' && typeof renderer.resetTransform === 'function',
+        uvSprites: typeof renderer.drawSpriteUV === 'function',
+        globalAlpha: typeof renderer.setGlobalAlpha === 'function',
+        backgroundColor: typeof renderer.setBackgroundColor === 'function',
+        primitives: typeof renderer.drawRectangle === 'function',
+        text: typeof renderer.drawText === 'function',
+        clip: typeof renderer.setClip === 'function',
+        blendModes: typeof renderer.setBlendMode === 'function',
+        spriteBatch: typeof renderer.drawSpriteBatch === 'function',
+        frameStats: typeof renderer.getFrameStats === 'function',
+        materials: typeof renderer.setMaterial === 'function',
+        renderTargets: typeof renderer.createRenderTarget === 'function' && typeof renderer.setRenderTarget === 'function',
+        postProcessing: typeof renderer.applyPostEffect === 'function'
+    });
+}
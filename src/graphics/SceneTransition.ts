@@ -0,0 +1,99 @@
+import { Color } from '../math/Color';
+
+/**
+ * Screen-space rectangle drawn over the scenes. Position and size are
+ * fractions of the viewport (0..1).
+ */
+export interface TransitionCover {
+    color: Color;
+    alpha: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * What to draw at one point of a transition
+ */
+export interface TransitionFrame {
+    // Opacity of the scenes that are leaving
+    from: number;
+    // Opacity of the scenes that are arriving
+    to: number;
+    cover?: TransitionCover;
+}
+
+export interface SceneTransition {
+    // Seconds
+    duration: number;
+    // Progress (0..1) at which the scene stack switches scenes. The
+    // transition waits there until the next scene's assets are loaded.
+    switchAt: number;
+    frame(progress: number): TransitionFrame;
+}
+
+export type WipeDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * Fade out to a color, switch scenes, fade back in
+ */
+export function fadeTransition(duration: number = 0.5, color: Color = new Color(0, 0, 0)): SceneTransition {
+    return {
+        duration,
+        switchAt: 0.5,
+        frame: (progress) => progress < 0.5
+            ? { from: 1, to: 0, cover: fullCover(color, progress * 2) }
+            : { from: 0, to: 1, cover: fullCover(color, (1 - progress) * 2) }
+    };
+}
+
+/**
+ * A color band sweeps over the old scene and then uncovers the new one
+ */
+export function wipeTransition(
+    duration: number = 0.5,
+    direction: WipeDirection = 'left',
+    color: Color = new Color(0, 0, 0)
+): SceneTransition {
+    return {
+        duration,
+        switchAt: 0.5,
+        frame: (progress) => {
+            // Leading and trailing edges of the band along the wipe axis
+            const covering = progress < 0.5;
+            const start = covering ? 0 : (progress - 0.5) * 2;
+            const end = covering ? progress * 2 : 1;
+            return {
+                from: covering ? 1 : 0,
+                to: covering ? 0 : 1,
+                cover: { color, alpha: 1, ...wipeRect(direction, start, end) }
+            };
+        }
+    };
+}
+
+/**
+ * The new scene fades in over the old one
+ */
+export function crossfadeTransition(duration: number = 0.5): SceneTransition {
+    return {
+        duration,
+        switchAt: 0,
+        frame: (progress) => ({ from: 1, to: progress })
+    };
+}
+
+function fullCover(color: Color, alpha: number): TransitionCover {
+    return { color, alpha: Math.max(0, Math.min(1, alpha)), x: 0, y: 0, width: 1, height: 1 };
+}
+
+function wipeRect(direction: WipeDirection, start: number, end: number): Omit<TransitionCover, 'color' | 'alpha'> {
+    const size = Math.max(0, end - start);
+    switch (direction) {
+        case 'left': return { x: start, y: 0, width: size, height: 1 };
+        case 'right': return { x: 1 - end, y: 0, width: size, height: 1 };
+        case 'up': return { x: 0, y: start, width: 1, height: size };
+        case 'down': return { x: 0, y: 1 - end, width: 1, height: size };
+    }
+}
@@ -1,5 +1,7 @@
 import { Component } from '../ecs/Component';
 import { Color } from '../math/Color';
+import type { BlendMode } from './SpriteBatch';
+import type { Material } from './Material';
 
 export interface SpriteComponent extends Component {
     type: 'sprite';
@@ -14,6 +16,12 @@ export interface SpriteComponent extends Component {
     uvHeight: number;
     flipX: boolean;
     flipY: boolean;
+    // Cómo se mezcla con lo ya dibujado ('normal' por defecto)
+    blendMode?: BlendMode;
+    // Efecto (shader en WebGL, filtros en Canvas2D); su blendMode tiene prioridad
+    material?: Material;
+    // Orden de dibujado dentro de su capa (mayor encima, 0 por defecto)
+    zIndex?: number;
 }
 
 export class Sprite {
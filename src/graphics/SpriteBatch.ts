@@ -0,0 +1,414 @@
+import { Color } from '../math/Color';
+
+export type BlendMode = 'normal' | 'additive' | 'multiply' | 'screen';
+
+export interface SpriteBatchOptions {
+    // Quads buffered before a forced flush (16-bit indices cap it at 16383)
+    maxSprites?: number;
+    // Texture units sampled by one draw call (capped by the GPU)
+    maxTextures?: number;
+}
+
+/**
+ * Work done by the batch in one frame
+ */
+export interface SpriteBatchStats {
+    drawCalls: number;
+    sprites: number;
+    vertices: number;
+}
+
+/**
+ * Program the batch draws with. Every shader shares the batch vertex shader
+ * and its varyings: v_texCoord, v_color and v_texIndex.
+ */
+export interface BatchShader {
+    program: WebGLProgram;
+    // Texture units the sprites of one call are spread over
+    textureUnits: number;
+    // Sets uniforms and extra textures at each flush, after the sprite textures are bound
+    bind?: (gl: WebGLRenderingContext, textures: readonly WebGLTexture[]) => void;
+}
+
+interface VertexAttribute {
+    location: number;
+    size: number;
+    type: number;
+    normalized: boolean;
+    // Byte offset inside a vertex
+    offset: number;
+}
+
+interface ProgramInfo {
+    // Only the attributes the program uses
+    attributes: VertexAttribute[];
+    projection: WebGLUniformLocation | null;
+    // Projection last uploaded to this program
+    projectionVersion: number;
+}
+
+// x, y, u, v, color (4 packed bytes), texture unit
+const FLOATS_PER_VERTEX = 6;
+const BYTES_PER_VERTEX = FLOATS_PER_VERTEX * 4;
+const MAX_QUADS = 16383;
+
+const VERTEX_SHADER_SOURCE = `
+    attribute vec2 a_position;
+    attribute vec2 a_texCoord;
+    attribute vec4 a_color;
+    attribute float a_texIndex;
+
+    uniform mat3 u_projection;
+
+    varying vec2 v_texCoord;
+    varying vec4 v_color;
+    varying float v_texIndex;
+
+    void main() {
+        vec3 position = u_projection * vec3(a_position, 1.0);
+        gl_Position = vec4(position.xy, 0.0, 1.0);
+        v_texCoord = a_texCoord;
+        v_color = a_color;
+        v_texIndex = a_texIndex;
+    }
+`;
+
+/**
+ * Accumulates textured quads into a dynamic vertex buffer and draws them
+ * with as few draw calls as possible. Up to `maxTextures` textures are bound
+ * to separate units per call; the batch flushes when it is full, when a new
+ * texture does not fit in the free units or when the blend mode or the
+ * shader changes.
+ * Quads are drawn in submission order, so callers sort by texture/blend
+ * wherever the draw order allows it.
+ */
+export class SpriteBatch {
+    private gl: WebGLRenderingContext;
+    private defaultShader!: BatchShader;
+    private shader!: BatchShader;
+    private programs = new Map<WebGLProgram, ProgramInfo>();
+    private projection: Float32Array = new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+    private projectionVersion = 0;
+    private vertexBuffer!: WebGLBuffer;
+    private indexBuffer!: WebGLBuffer;
+    private readonly maxSprites: number;
+    private readonly maxTextures: number;
+    private readonly vertexData: ArrayBuffer;
+    private readonly floats: Float32Array;
+    private readonly colors: Uint32Array;
+    private count = 0;
+    private textures: WebGLTexture[] = [];
+    private blendMode: BlendMode = 'normal';
+    private frame: SpriteBatchStats = { drawCalls: 0, sprites: 0, vertices: 0 };
+    private lastFrame: SpriteBatchStats = { drawCalls: 0, sprites: 0, vertices: 0 };
+
+    constructor(gl: WebGLRenderingContext, options: SpriteBatchOptions = {}) {
+        this.gl = gl;
+        this.maxSprites = Math.max(1, Math.min(options.maxSprites ?? 4096, MAX_QUADS));
+        const units = gl.getParameter(gl.MAX_TEXTURE_IMAGE_UNITS);
+        const available = typeof units === 'number' && units > 0 ? Math.min(units, 16) : 8;
+        this.maxTextures = Math.max(1, Math.min(options.maxTextures ?? available, available));
+
+        this.vertexData = new ArrayBuffer(this.maxSprites * 4 * BYTES_PER_VERTEX);
+        this.floats = new Float32Array(this.vertexData);
+        this.colors = new Uint32Array(this.vertexData);
+
+        this.initializeDefaultShader();
+        this.initializeBuffers();
+        this.applyBlendMode();
+    }
+
+    /**
+     * Set the matrix that maps pixel coordinates to clip space
+     */
+    setProjection(matrix: Float32Array): void {
+        this.flush();
+        this.projection = matrix;
+        this.projectionVersion++;
+        this.gl.useProgram(this.shader.program);
+        this.uploadProjection(this.programs.get(this.shader.program)!);
+    }
+
+    /**
+     * Compile a shader for this batch from a fragment shader that reads the
+     * batch varyings. The caller binds its own samplers in `bind`.
+     */
+    createShader(fragmentSource: string, textureUnits: number = 1, bind?: BatchShader['bind']): BatchShader {
+        const program = this.createProgram(fragmentSource);
+        return { program, textureUnits: Math.max(1, Math.min(textureUnits, this.maxTextures)), bind };
+    }
+
+    /**
+     * Draw the following quads with `shader` (the built-in one for null)
+     */
+    setShader(shader: BatchShader | null): void {
+        const next = shader ?? this.defaultShader;
+        if (next === this.shader) return;
+        this.flush();
+        this.shader = next;
+    }
+
+    getShader(): BatchShader {
+        return this.shader;
+    }
+
+    /**
+     * Start a new frame: resets the per-frame counters
+     */
+    begin(): void {
+        this.frame = { drawCalls: 0, sprites: 0, vertices: 0 };
+    }
+
+    /**
+     * Draw what is pending and return the counters of the frame
+     */
+    end(): SpriteBatchStats {
+        this.flush();
+        this.lastFrame = { ...this.frame };
+        return this.lastFrame;
+    }
+
+    /**
+     * Counters of the last finished frame
+     */
+    getStats(): SpriteBatchStats {
+        return { ...this.lastFrame };
+    }
+
+    getBlendMode(): BlendMode {
+        return this.blendMode;
+    }
+
+    setBlendMode(mode: BlendMode): void {
+        if (mode === this.blendMode) return;
+        this.flush();
+        this.blendMode = mode;
+        this.applyBlendMode();
+    }
+
+    /**
+     * Queue a quad centred on (x, y). UVs are normalized; swap u0/u1 or v0/v1
+     * to flip. The tint alpha is multiplied by `alpha`.
+     */
+    draw(
+        texture: WebGLTexture,
+        x: number,
+        y: number,
+        width: number,
+        height: number,
+        rotation: number,
+        u0: number,
+        v0: number,
+        u1: number,
+        v1: number,
+        tint: Color,
+        alpha: number = 1
+    ): void {
+        if (this.count >= this.maxSprites) this.flush();
+        let unit = this.textures.indexOf(texture);
+        if (unit < 0) {
+            if (this.textures.length >= this.shader.textureUnits) this.flush();
+            unit = this.textures.length;
+            this.textures.push(texture);
+        }
+
+        const color = packColor(tint, alpha);
+        const halfWidth = width / 2;
+        const halfHeight = height / 2;
+        const cos = rotation !== 0 ? Math.cos(rotation) : 1;
+        const sin = rotation !== 0 ? Math.sin(rotation) : 0;
+
+        let offset = this.count * 4 * FLOATS_PER_VERTEX;
+        // Top-left, top-right, bottom-right, bottom-left
+        for (let corner = 0; corner < 4; corner++) {
+            const localX = corner === 0 || corner === 3 ? -halfWidth : halfWidth;
+            const localY = corner < 2 ? -halfHeight : halfHeight;
+            this.floats[offset] = x + localX * cos - localY * sin;
+            this.floats[offset + 1] = y + localX * sin + localY * cos;
+            this.floats[offset + 2] = corner === 0 || corner === 3 ? u0 : u1;
+            this.floats[offset + 3] = corner < 2 ? v0 : v1;
+            this.colors[offset + 4] = color;
+            this.floats[offset + 5] = unit;
+            offset += FLOATS_PER_VERTEX;
+        }
+        this.count++;
+    }
+
+    /**
+     * Upload the queued quads and draw them with one call
+     */
+    flush(): void {
+        if (this.count === 0) return;
+        const gl = this.gl;
+
+        const info = this.programs.get(this.shader.program)!;
+        gl.useProgram(this.shader.program);
+        if (info.projectionVersion !== this.projectionVersion) this.uploadProjection(info);
+        for (let i = 0; i < this.textures.length; i++) {
+            gl.activeTexture(gl.TEXTURE0 + i);
+            gl.bindTexture(gl.TEXTURE_2D, this.textures[i]);
+        }
+        this.shader.bind?.(gl, this.textures);
+
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+        gl.bufferSubData(gl.ARRAY_BUFFER, 0, this.floats.subarray(0, this.count * 4 * FLOATS_PER_VERTEX));
+        gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+
+        for (const { location, size, type, normalized, offset } of info.attributes) {
+            gl.enableVertexAttribArray(location);
+            gl.vertexAttribPointer(location, size, type, normalized, BYTES_PER_VERTEX, offset);
+        }
+
+        gl.drawElements(gl.TRIANGLES, this.count * 6, gl.UNSIGNED_SHORT, 0);
+
+        this.frame.drawCalls++;
+        this.frame.sprites += this.count;
+        this.frame.vertices += this.count * 4;
+        this.count = 0;
+        this.textures = [];
+    }
+
+    destroy(): void {
+        this.count = 0;
+        this.textures = [];
+        this.programs.forEach((_, program) => this.gl.deleteProgram(program));
+        this.programs.clear();
+        this.gl.deleteBuffer(this.vertexBuffer);
+        this.gl.deleteBuffer(this.indexBuffer);
+    }
+
+    private initializeDefaultShader(): void {
+        // GLSL ES 1.0 cannot index samplers with a varying, so pick the unit with a branch chain
+        const branches: string[] = [];
+        for (let i = 0; i < this.maxTextures; i++) {
+            const condition = i < this.maxTextures - 1 ? `if (v_texIndex < ${i}.5) ` : '';
+            branches.push(`${condition}color = texture2D(u_textures[${i}], v_texCoord);`);
+        }
+        const fragmentSource = `
+            precision mediump float;
+
+            varying vec2 v_texCoord;
+            varying vec4 v_color;
+            varying float v_texIndex;
+
+            uniform sampler2D u_textures[${this.maxTextures}];
+
+            void main() {
+                vec4 color;
+                ${branches.join('\n                else ')}
+                gl_FragColor = color * v_color;
+            }
+        `;
+
+        const program = this.createProgram(fragmentSource);
+        this.gl.useProgram(program);
+        const units = Array.from({ length: this.maxTextures }, (_, i) => i);
+        this.gl.uniform1iv(this.gl.getUniformLocation(program, 'u_textures'), units);
+
+        this.defaultShader = { program, textureUnits: this.maxTextures };
+        this.shader = this.defaultShader;
+    }
+
+    private createProgram(fragmentSource: string): WebGLProgram {
+        const gl = this.gl;
+        const vertexShader = this.compileShader(gl.VERTEX_SHADER, VERTEX_SHADER_SOURCE);
+        const fragmentShader = this.compileShader(gl.FRAGMENT_SHADER, fragmentSource);
+
+        const program = gl.createProgram()!;
+        gl.attachShader(program, vertexShader);
+        gl.attachShader(program, fragmentShader);
+        gl.linkProgram(program);
+
+        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+            const info = gl.getProgramInfoLog(program);
+            gl.deleteProgram(program);
+            throw new Error('Failed to link shader program: ' + info);
+        }
+
+        const attributes: VertexAttribute[] = [];
+        const attribute = (name: string, size: number, type: number, normalized: boolean, offset: number) => {
+            // The linker drops attributes whose varying the fragment shader
+            // never reads (effects ignore v_texIndex, post effects v_color)
+            const location = gl.getAttribLocation(program, name);
+            if (location >= 0) attributes.push({ location, size, type, normalized, offset });
+        };
+        attribute('a_position', 2, gl.FLOAT, false, 0);
+        attribute('a_texCoord', 2, gl.FLOAT, false, 8);
+        attribute('a_color', 4, gl.UNSIGNED_BYTE, true, 16);
+        attribute('a_texIndex', 1, gl.FLOAT, false, 20);
+
+        this.programs.set(program, {
+            attributes,
+            projection: gl.getUniformLocation(program, 'u_projection'),
+            projectionVersion: -1
+        });
+        return program;
+    }
+
+    private uploadProjection(info: ProgramInfo): void {
+        this.gl.uniformMatrix3fv(info.projection, false, this.projection);
+        info.projectionVersion = this.projectionVersion;
+    }
+
+    private compileShader(type: number, source: string): WebGLShader {
+        const shader = this.gl.createShader(type)!;
+        this.gl.shaderSource(shader, source);
+        this.gl.compileShader(shader);
+
+        if (!this.gl.getShaderParameter(shader, this.gl.COMPILE_STATUS)) {
+            const info = this.gl.getShaderInfoLog(shader);
+            this.gl.deleteShader(shader);
+            throw new Error('Failed to compile shader: ' + info);
+        }
+
+        return shader;
+    }
+
+    private initializeBuffers(): void {
+        const gl = this.gl;
+        // Quad indices never change: two triangles per quad (0, 1, 2) (2, 3, 0)
+        const indices = new Uint16Array(this.maxSprites * 6);
+        for (let quad = 0, vertex = 0; quad < indices.length; quad += 6, vertex += 4) {
+            indices[quad] = vertex;
+            indices[quad + 1] = vertex + 1;
+            indices[quad + 2] = vertex + 2;
+            indices[quad + 3] = vertex + 2;
+            indices[quad + 4] = vertex + 3;
+            indices[quad + 5] = vertex;
+        }
+
+        this.vertexBuffer = gl.createBuffer()!;
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, this.vertexData.byteLength, gl.DYNAMIC_DRAW);
+
+        this.indexBuffer = gl.createBuffer()!;
+        gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+        gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+    }
+
+    private applyBlendMode(): void {
+        const gl = this.gl;
+        gl.enable(gl.BLEND);
+        switch (this.blendMode) {
+            case 'additive':
+                gl.blendFunc(gl.SRC_ALPHA, gl.ONE);
+                break;
+            case 'multiply':
+                gl.blendFunc(gl.DST_COLOR, gl.ONE_MINUS_SRC_ALPHA);
+                break;
+            case 'screen':
+                gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_COLOR);
+                break;
+            default:
+                gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+        }
+    }
+}
+
+/**
+ * RGBA bytes in memory order, read by the shader as a normalized vec4
+ */
+function packColor(tint: Color, alpha: number): number {
+    const a = Math.round(Math.max(0, Math.min(1, alpha)) * tint.a);
+    return ((a << 24) | (tint.b << 16) | (tint.g << 8) | tint.r) >>> 0;
+}
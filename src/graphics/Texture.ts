@@ -2,15 +2,23 @@ export class Texture {
     public readonly width: number;
     public readonly height: number;
     private image: HTMLImageElement;
+    // Renderers that uploaded the image release their GPU copy here
+    private disposeListeners = new Set<(texture: Texture) => void>();
+    private disposed = false;
+    // Bumped by invalidate() so renderers upload the source again
+    private version = 0;
 
-    constructor(image: HTMLImageElement) {
-        this.image = image;
+    // A canvas works as the image of a dynamic texture (light maps, generated content)
+    constructor(image: HTMLImageElement | HTMLCanvasElement) {
+        this.image = image as HTMLImageElement;
         this.width = image.width;
         this.height = image.height;
 
-        console.log(`[Texture] Created texture with dimensions: ${this.width}x${this.height}, complete: ${image.complete}, src: ${image.src}`);
+        if (typeof HTMLCanvasElement !== 'undefined' && image instanceof HTMLCanvasElement) return;
 
-        if (!image.complete) {
+        console.log(`[Texture] Created texture with dimensions: ${this.width}x${this.height}, complete: ${this.image.complete}, src: ${this.image.src}`);
+
+        if (!this.image.complete) {
             console.warn(`[Texture] Warning: Image not fully loaded when creating texture!`);
         }
     }
@@ -19,9 +27,38 @@ export class Texture {
         return this.image;
     }
 
+    /**
+     * Run `listener` once when the texture is disposed. Returns a function that
+     * removes it.
+     */
+    onDispose(listener: (texture: Texture) => void): () => void {
+        this.disposeListeners.add(listener);
+        return () => this.disposeListeners.delete(listener);
+    }
+
+    /**
+     * The source canvas was redrawn: renderers with a GPU copy upload it
+     * again before drawing the texture
+     */
+    invalidate(): void {
+        this.version++;
+    }
+
+    getVersion(): number {
+        return this.version;
+    }
+
+    isDisposed(): boolean {
+        return this.disposed;
+    }
+
     dispose(): void {
-        // En WebGL, aquí liberaríamos la textura de la GPU
-        // Por ahora solo eliminamos la referencia a la imagen
+        if (this.disposed) return;
+        this.disposed = true;
+        // Los renderers liberan sus copias en la GPU antes de soltar la imagen
+        const listeners = [...this.disposeListeners];
+        this.disposeListeners.clear();
+        for (const listener of listeners) listener(this);
         (this.image as any) = null;
     }
 }
@@ -1,244 +1,682 @@
-import { RenderStrategy } from './Renderer';
+import { createRenderCapabilities, RenderStrategy, RenderTarget, SpriteBatchItem, TextStyle } from './Renderer';
+import { executeRenderCommands, RenderCommand } from './RenderCommands';
 import { Texture } from './Texture';
 import { Vector2 } from '../math/Vector2';
 import { Color } from '../math/Color';
+import { BatchShader, BlendMode, SpriteBatch, SpriteBatchOptions, SpriteBatchStats } from './SpriteBatch';
+import type { MaterialInstance, MaterialUniformValue } from './Material';
+import type { PostEffectInstance } from './PostProcess';
+
+const WHITE = new Color(255, 255, 255, 255);
+// Side of the generated disc texture used by drawCircle
+const CIRCLE_TEXTURE_SIZE = 64;
+// Rasterized strings kept on the GPU by drawText
+const MAX_TEXT_TEXTURES = 128;
+
+// Wraps the effect() of a material or post effect into a fragment shader for the sprite batch
+const EFFECT_HEADER = `
+    precision mediump float;
+
+    varying vec2 v_texCoord;
+    varying vec4 v_color;
+    varying float v_texIndex;
+
+    uniform sampler2D u_texture;
+    uniform vec2 u_textureSize;
+    uniform float u_time;
+`;
+const MATERIAL_MAIN = `
+    void main() {
+        gl_FragColor = effect(v_color, v_texCoord);
+    }
+`;
+const POST_EFFECT_MAIN = `
+    void main() {
+        gl_FragColor = effect(v_texCoord);
+    }
+`;
 
-export class WebGLRenderer implements RenderStrategy {
-    private gl!: WebGLRenderingContext;
-    private shaderProgram!: WebGLProgram;
-    private vertexBuffer!: WebGLBuffer;
-    private indexBuffer!: WebGLBuffer;
-    private textures = new Map<string, WebGLTexture>();
-
-    // Shader sources
-    private static readonly VERTEX_SHADER_SOURCE = `
-        attribute vec2 a_position;
-        attribute vec2 a_texCoord;
-
-        uniform mat3 u_transform;
-        uniform mat3 u_projection;
-
-        varying vec2 v_texCoord;
+interface ActiveUniform {
+    location: WebGLUniformLocation;
+    type: number;
+    size: number;
+}
 
-        void main() {
-            vec3 position = u_projection * u_transform * vec3(a_position, 1.0);
-            gl_Position = vec4(position.xy, 0.0, 1.0);
-            v_texCoord = a_texCoord;
-        }
-    `;
+interface EffectShader {
+    shader: BatchShader;
+    // Active uniforms by name (arrays without the '[0]' suffix)
+    uniforms: Map<string, ActiveUniform>;
+}
 
-    private static readonly FRAGMENT_SHADER_SOURCE = `
-        precision mediump float;
+interface WebGLRenderTarget extends RenderTarget {
+    framebuffer: WebGLFramebuffer;
+    texture: WebGLTexture;
+}
 
-        varying vec2 v_texCoord;
-        uniform sampler2D u_texture;
-        uniform vec4 u_tint;
+export interface WebGLRendererOptions extends SpriteBatchOptions {
+    // Prefer a WebGL2 context (default); false forces WebGL1
+    webgl2?: boolean;
+}
 
-        void main() {
-            vec4 texColor = texture2D(u_texture, v_texCoord);
-            gl_FragColor = texColor * u_tint;
-        }
-    `;
+export class WebGLRenderer implements RenderStrategy {
+    readonly capabilities = createRenderCapabilities({
+        camera: true,
+        uvSprites: true,
+        globalAlpha: true,
+        backgroundColor: true,
+        primitives: true,
+        text: true,
+        clip: true,
+        blendModes: true,
+        spriteBatch: true,
+        frameStats: true,
+        materials: true,
+        renderTargets: true,
+        postProcessing: true
+    });
+    private gl!: WebGLRenderingContext;
+    private canvas!: HTMLCanvasElement;
+    private webgl2 = false;
+    private batch!: SpriteBatch;
+    private options: WebGLRendererOptions;
+    // GPU copies of the textures drawn so far, released on Texture.dispose()
+    private textures = new Map<Texture, { texture: WebGLTexture; version: number; release: () => void }>();
+    // 1x1 white texture for rectangles and lines, soft disc for circles
+    private whiteTexture: WebGLTexture | null = null;
+    private circleTexture: WebGLTexture | null = null;
+    // Strings rendered white on a 2D canvas, tinted when drawn; oldest evicted first
+    private textTextures = new Map<string, { texture: WebGLTexture; width: number; height: number }>();
+    private textCanvas: HTMLCanvasElement | null = null;
+    private projection = new Float32Array(9);
+    private viewport = { width: 0, height: 0 };
+    private backgroundColor = new Color(0, 0, 0, 255);
+    private globalAlpha = 1;
+    // Material and post effect shaders by source; null when the source failed to compile
+    private effectShaders = new Map<string, EffectShader | null>();
+    // Uniforms and extra textures of the active effect, uploaded at each flush
+    private effect: { uniforms: Record<string, MaterialUniformValue>; textures: Array<{ name: string; texture: WebGLTexture }> } | null = null;
+    // Bound render target (null: the canvas)
+    private target: WebGLRenderTarget | null = null;
+    private textureSizes = new WeakMap<WebGLTexture, { width: number; height: number }>();
+    private startTime = 0;
+    private time = 0;
+
+    constructor(options: WebGLRendererOptions = {}) {
+        this.options = options;
+    }
 
     initialize(canvas: HTMLCanvasElement): void {
-        this.gl = canvas.getContext('webgl')!;
+        this.canvas = canvas;
+        const gl2 = this.options.webgl2 !== false ? canvas.getContext('webgl2') : null;
+        // WebGL2 accepts every WebGL1 call the batch makes
+        this.gl = (gl2 ?? canvas.getContext('webgl')) as WebGLRenderingContext;
         if (!this.gl) {
             throw new Error('WebGL not supported');
         }
+        this.webgl2 = !!gl2;
 
-        // Enable blending for transparency if supported by the context (tests may provide a minimal/mock context)
-        if (typeof (this.gl as any).enable === 'function') {
-            this.gl.enable((this.gl as any).BLEND);
-        }
-        if (typeof (this.gl as any).blendFunc === 'function') {
-            this.gl.blendFunc((this.gl as any).SRC_ALPHA, (this.gl as any).ONE_MINUS_SRC_ALPHA);
-        }
+        // Sprites are accumulated and drawn in batches (one draw call per texture set / blend mode)
+        this.batch = new SpriteBatch(this.gl, this.options);
+        this.updateViewport();
+        this.startTime = performance.now();
+    }
 
-        this.initializeShaders();
-        this.initializeBuffers();
-        this.setupProjectionMatrix(canvas.width, canvas.height);
+    isWebGL2(): boolean {
+        return this.webgl2;
     }
 
     clear(): void {
-        this.gl.clearColor(0, 0, 0, 1);
+        this.batch.begin();
+        this.time = (performance.now() - this.startTime) / 1000;
+        this.updateViewport();
+        const color = this.backgroundColor;
+        this.gl.clearColor(color.r / 255, color.g / 255, color.b / 255, color.a / 255);
         this.gl.clear(this.gl.COLOR_BUFFER_BIT);
     }
 
+    setBackgroundColor(color: Color): void {
+        this.backgroundColor = color;
+    }
+
+    applyCameraTransform(x: number, y: number, zoom: number, rotation: number = 0): void {
+        // Same as Canvas2D: centre of the screen, zoom, rotation, then minus the camera position
+        const { width, height } = this.viewport;
+        const cos = Math.cos(rotation) * zoom;
+        const sin = Math.sin(rotation) * zoom;
+        const offsetX = width / 2 - (cos * x - sin * y);
+        const offsetY = height / 2 - (sin * x + cos * y);
+        const sx = 2 / width;
+        const sy = this.target ? 2 / height : -2 / height;
+        this.batch.setProjection(new Float32Array([
+            sx * cos, sy * sin, 0,
+            -sx * sin, sy * cos, 0,
+            sx * offsetX - 1, sy * offsetY + (this.target ? -1 : 1), 1
+        ]));
+    }
+
+    resetTransform(): void {
+        this.batch.setProjection(this.projection);
+    }
+
+    setGlobalAlpha(alpha: number): void {
+        this.globalAlpha = Math.max(0, Math.min(1, alpha));
+    }
+
+    resetGlobalAlpha(): void {
+        this.globalAlpha = 1;
+    }
+
     drawSprite(
         texture: Texture,
         position: Vector2,
         size: Vector2,
         rotation: number = 0,
-        tint: Color = new Color(255, 255, 255, 255)
+        tint: Color = WHITE
     ): void {
-        if (!this.shaderProgram) return;
+        const webglTexture = this.getOrCreateTexture(texture);
+        if (!webglTexture) return;
+        this.batch.draw(webglTexture, position.x, position.y, size.x, size.y, rotation, 0, 0, 1, 1, tint, this.globalAlpha);
+    }
 
-        this.gl.useProgram(this.shaderProgram);
+    /**
+     * Draw a region of the texture (in pixels), optionally mirrored
+     */
+    drawSpriteUV(
+        texture: Texture,
+        position: Vector2,
+        size: Vector2,
+        uvX: number = 0,
+        uvY: number = 0,
+        uvWidth: number = texture.width,
+        uvHeight: number = texture.height,
+        rotation: number = 0,
+        flipX: boolean = false,
+        flipY: boolean = false,
+        tint: Color = WHITE
+    ): void {
+        const webglTexture = this.getOrCreateTexture(texture);
+        if (!webglTexture || texture.width <= 0 || texture.height <= 0) return;
+
+        const left = uvX / texture.width;
+        const top = uvY / texture.height;
+        const right = (uvX + uvWidth) / texture.width;
+        const bottom = (uvY + uvHeight) / texture.height;
+        this.batch.draw(
+            webglTexture, position.x, position.y, size.x, size.y, rotation,
+            flipX ? right : left, flipY ? bottom : top,
+            flipX ? left : right, flipY ? top : bottom,
+            tint, this.globalAlpha
+        );
+    }
 
-        // Bind texture
+    /**
+     * Draw many untransformed square sprites of one texture (particles)
+     */
+    drawSpriteBatch(texture: Texture, items: SpriteBatchItem[]): void {
         const webglTexture = this.getOrCreateTexture(texture);
-        this.gl.activeTexture(this.gl.TEXTURE0);
-        this.gl.bindTexture(this.gl.TEXTURE_2D, webglTexture);
+        if (!webglTexture) return;
+        for (const item of items) {
+            const tint = item.color ? new Color(item.color.r, item.color.g, item.color.b, 255) : WHITE;
+            const alpha = (item.color?.a ?? 1) * this.globalAlpha;
+            this.batch.draw(webglTexture, item.x, item.y, item.size, item.size, 0, 0, 0, 1, 1, tint, alpha);
+        }
+    }
 
-        const textureLocation = this.gl.getUniformLocation(this.shaderProgram, 'u_texture');
-        this.gl.uniform1i(textureLocation, 0);
+    drawRectangle(
+        position: Vector2,
+        size: Vector2,
+        color: Color,
+        filled: boolean = true
+    ): void {
+        if (filled) {
+            this.batch.draw(this.getWhiteTexture(), position.x, position.y, size.x, size.y, 0, 0, 0, 1, 1, color, this.globalAlpha);
+            return;
+        }
+        const left = position.x - size.x / 2;
+        const top = position.y - size.y / 2;
+        const right = left + size.x;
+        const bottom = top + size.y;
+        this.drawLine(new Vector2(left, top), new Vector2(right, top), color);
+        this.drawLine(new Vector2(right, top), new Vector2(right, bottom), color);
+        this.drawLine(new Vector2(right, bottom), new Vector2(left, bottom), color);
+        this.drawLine(new Vector2(left, bottom), new Vector2(left, top), color);
+    }
 
-        // Set tint
-        const tintLocation = this.gl.getUniformLocation(this.shaderProgram, 'u_tint');
-        this.gl.uniform4f(tintLocation, tint.r / 255, tint.g / 255, tint.b / 255, tint.a / 255);
+    drawCircle(
+        position: Vector2,
+        radius: number,
+        color: Color,
+        filled: boolean = true
+    ): void {
+        if (filled) {
+            const size = radius * 2;
+            this.batch.draw(this.getCircleTexture(), position.x, position.y, size, size, 0, 0, 0, 1, 1, color, this.globalAlpha);
+            return;
+        }
+        // Outline as a polygon; more segments for bigger circles
+        const segments = Math.max(12, Math.min(64, Math.round(radius / 2)));
+        let previous = new Vector2(position.x + radius, position.y);
+        for (let i = 1; i <= segments; i++) {
+            const angle = (i / segments) * Math.PI * 2;
+            const next = new Vector2(position.x + Math.cos(angle) * radius, position.y + Math.sin(angle) * radius);
+            this.drawLine(previous, next, color);
+            previous = next;
+        }
+    }
 
-        // Create transform matrix
-        const transform = this.createTransformMatrix(position, size, rotation);
-        const transformLocation = this.gl.getUniformLocation(this.shaderProgram, 'u_transform');
-        this.gl.uniformMatrix3fv(transformLocation, false, transform);
+    drawLine(
+        start: Vector2,
+        end: Vector2,
+        color: Color,
+        lineWidth: number = 1
+    ): void {
+        const dx = end.x - start.x;
+        const dy = end.y - start.y;
+        const length = Math.sqrt(dx * dx + dy * dy);
+        if (length === 0) return;
+        this.batch.draw(
+            this.getWhiteTexture(),
+            (start.x + end.x) / 2, (start.y + end.y) / 2,
+            length, lineWidth, Math.atan2(dy, dx),
+            0, 0, 1, 1, color, this.globalAlpha
+        );
+    }
 
-        // Bind buffers and draw
-        this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.vertexBuffer);
-        this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+    /**
+     * Text is rasterized once per string and font, then drawn as a tinted
+     * sprite. The 'alphabetic' baseline is treated as 'bottom'.
+     */
+    drawText(text: string, position: Vector2, color: Color, style: TextStyle = {}): void {
+        const entry = this.getTextTexture(text, style.font ?? '16px sans-serif');
+        if (!entry) return;
+
+        const align = style.align ?? 'left';
+        const baseline = style.baseline ?? 'alphabetic';
+        const x = align === 'left' ? position.x + entry.width / 2 : align === 'right' ? position.x - entry.width / 2 : position.x;
+        const y = baseline === 'top' ? position.y + entry.height / 2 : baseline === 'middle' ? position.y : position.y - entry.height / 2;
+        this.batch.draw(entry.texture, x, y, entry.width, entry.height, 0, 0, 0, 1, 1, color, this.globalAlpha);
+    }
 
-        const positionLocation = this.gl.getAttribLocation(this.shaderProgram, 'a_position');
-        const texCoordLocation = this.gl.getAttribLocation(this.shaderProgram, 'a_texCoord');
+    /**
+     * Limit drawing to a screen rectangle (scissor test); null removes it
+     */
+    setClip(rect: Rectangle | null): void {
+        this.batch.flush();
+        if (!rect) {
+            this.gl.disable(this.gl.SCISSOR_TEST);
+            return;
+        }
+        // Scissor rectangles start at the bottom-left corner (targets are stored top row first)
+        const x = Math.round(rect.x);
+        const y = Math.round(this.target ? rect.y : this.viewport.height - rect.y - rect.height);
+        this.gl.enable(this.gl.SCISSOR_TEST);
+        this.gl.scissor(x, y, Math.max(0, Math.round(rect.width)), Math.max(0, Math.round(rect.height)));
+    }
+
+    setBlendMode(mode: BlendMode): void {
+        this.batch.setBlendMode(mode);
+    }
+
+    /**
+     * Draw the following sprites with the material's effect (compiled once
+     * per source). Effects that fail to compile fall back to plain tinting.
+     */
+    setMaterial(material: MaterialInstance | null): void {
+        const entry = material?.fragment ? this.getEffectShader(EFFECT_HEADER + material.fragment + MATERIAL_MAIN) : null;
+        this.activateEffect(entry, material);
+    }
+
+    /**
+     * Offscreen framebuffer; sample it with applyPostEffect
+     */
+    createRenderTarget(width: number, height: number): RenderTarget {
+        const gl = this.gl;
+        this.batch.flush();
+        const texture = this.createTexture(null, width, height);
+        const framebuffer = gl.createFramebuffer()!;
+        gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, this.target?.framebuffer ?? null);
+        const target: WebGLRenderTarget = { width, height, framebuffer, texture };
+        return target;
+    }
 
-        this.gl.enableVertexAttribArray(positionLocation);
-        this.gl.enableVertexAttribArray(texCoordLocation);
+    setRenderTarget(target: RenderTarget | null, clear: boolean = false): void {
+        this.batch.flush();
+        this.target = target as WebGLRenderTarget | null;
+        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.target?.framebuffer ?? null);
+        if (this.target) {
+            this.applyViewport(this.target.width, this.target.height);
+        } else {
+            this.applyViewport(this.canvas.width, this.canvas.height);
+        }
+        if (clear) {
+            const color = this.backgroundColor;
+            this.gl.clearColor(color.r / 255, color.g / 255, color.b / 255, color.a / 255);
+            this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+        }
+    }
 
-        // Position attribute (2 floats)
-        this.gl.vertexAttribPointer(positionLocation, 2, this.gl.FLOAT, false, 16, 0);
-        // Texture coordinate attribute (2 floats)
-        this.gl.vertexAttribPointer(texCoordLocation, 2, this.gl.FLOAT, false, 16, 8);
+    destroyRenderTarget(target: RenderTarget): void {
+        const { framebuffer, texture } = target as WebGLRenderTarget;
+        if (this.target === target) this.setRenderTarget(null);
+        this.batch.flush();
+        this.gl.deleteFramebuffer(framebuffer);
+        this.gl.deleteTexture(texture);
+    }
+
+    /**
+     * Draw `source` over the whole destination through the effect's shader
+     * (a plain copy if it does not compile)
+     */
+    applyPostEffect(effect: PostEffectInstance, source: RenderTarget, destination: RenderTarget | null): void {
+        const entry = this.getEffectShader(EFFECT_HEADER + effect.fragment + POST_EFFECT_MAIN);
+        this.setRenderTarget(destination, destination !== null);
+        this.batch.setBlendMode('normal');
+        this.activateEffect(entry, effect);
+
+        const { width, height } = this.viewport;
+        this.batch.draw((source as WebGLRenderTarget).texture, width / 2, height / 2, width, height, 0, 0, 0, 1, 1, WHITE, 1);
+        this.activateEffect(null, null);
+    }
 
-        this.gl.drawElements(this.gl.TRIANGLES, 6, this.gl.UNSIGNED_SHORT, 0);
+    submit(commands: readonly RenderCommand[]): void {
+        executeRenderCommands(this, commands);
+    }
+
+    /**
+     * Draw the sprites queued so far (needed before issuing other GL calls)
+     */
+    flush(): void {
+        this.batch.flush();
+    }
+
+    /**
+     * Draw calls, sprites and vertices of the last presented frame
+     */
+    getFrameStats(): SpriteBatchStats {
+        return this.batch ? this.batch.getStats() : { drawCalls: 0, sprites: 0, vertices: 0 };
     }
 
     present(): void {
-        // WebGL presents automatically
+        // WebGL presents automatically once the pending batch is drawn
+        this.batch.end();
     }
 
     destroy(): void {
-        if (this.gl && this.shaderProgram) {
-            this.gl.deleteProgram(this.shaderProgram);
-        }
+        this.batch?.destroy();
+        this.effectShaders.clear();
+        this.effect = null;
+        this.target = null;
 
         // Clean up textures
-        this.textures.forEach((texture) => {
+        this.textures.forEach(({ texture, release }) => {
+            release();
             this.gl.deleteTexture(texture);
         });
         this.textures.clear();
-
-        if (this.vertexBuffer) {
-            this.gl.deleteBuffer(this.vertexBuffer);
-        }
-        if (this.indexBuffer) {
-            this.gl.deleteBuffer(this.indexBuffer);
-        }
+        this.textTextures.forEach(({ texture }) => this.gl.deleteTexture(texture));
+        this.textTextures.clear();
+        if (this.whiteTexture) this.gl.deleteTexture(this.whiteTexture);
+        if (this.circleTexture) this.gl.deleteTexture(this.circleTexture);
+        this.whiteTexture = null;
+        this.circleTexture = null;
     }
 
-    private initializeShaders(): void {
-        const vertexShader = this.createShader(this.gl.VERTEX_SHADER, WebGLRenderer.VERTEX_SHADER_SOURCE);
-        const fragmentShader = this.createShader(this.gl.FRAGMENT_SHADER, WebGLRenderer.FRAGMENT_SHADER_SOURCE);
+    /**
+     * Follow canvas resizes: viewport and pixel projection
+     */
+    private updateViewport(): void {
+        if (this.target) return;
+        const { width, height } = this.canvas;
+        if (width === this.viewport.width && height === this.viewport.height) return;
+        this.applyViewport(width, height);
+    }
 
-        if (!vertexShader || !fragmentShader) {
-            throw new Error('Failed to create shaders');
-        }
+    private applyViewport(width: number, height: number): void {
+        this.viewport = { width, height };
+        this.gl.viewport(0, 0, width, height);
 
-        this.shaderProgram = this.gl.createProgram()!;
-        this.gl.attachShader(this.shaderProgram, vertexShader);
-        this.gl.attachShader(this.shaderProgram, fragmentShader);
-        this.gl.linkProgram(this.shaderProgram);
+        // Orthographic projection matrix. Render targets are drawn upside down so
+        // their first row is the top one and they sample like images
+        const sy = this.target ? 2 / height : -2 / height;
+        this.projection = new Float32Array([
+            2 / width, 0, 0,
+            0, sy, 0,
+            -1, this.target ? -1 : 1, 1
+        ]);
+        this.batch.setProjection(this.projection);
+    }
 
-        if (!this.gl.getProgramParameter(this.shaderProgram, this.gl.LINK_STATUS)) {
-            const info = this.gl.getProgramInfoLog(this.shaderProgram);
-            throw new Error('Failed to link shader program: ' + info);
+    private getEffectShader(source: string): EffectShader | null {
+        if (this.effectShaders.has(source)) return this.effectShaders.get(source)!;
+
+        let entry: EffectShader | null = null;
+        try {
+            const uniforms = new Map<string, ActiveUniform>();
+            const shader = this.batch.createShader(source, 1, (_gl, textures) => this.bindEffect(uniforms, textures));
+            this.readActiveUniforms(shader.program, uniforms);
+            entry = { shader, uniforms };
+        } catch (error) {
+            console.error('[WebGLRenderer] Effect failed to compile; drawing without it', error);
         }
+        this.effectShaders.set(source, entry);
+        return entry;
     }
 
-    private createShader(type: number, source: string): WebGLShader | null {
-        const shader = this.gl.createShader(type)!;
-        this.gl.shaderSource(shader, source);
-        this.gl.compileShader(shader);
-
-        if (!this.gl.getShaderParameter(shader, this.gl.COMPILE_STATUS)) {
-            const info = this.gl.getShaderInfoLog(shader);
-            this.gl.deleteShader(shader);
-            throw new Error('Failed to compile shader: ' + info);
+    private activateEffect(entry: EffectShader | null, effect: Pick<MaterialInstance, 'uniforms' | 'textures'> | null): void {
+        // Uniforms are read when the batch flushes: quads queued with the old values go first
+        this.batch.flush();
+        if (entry && effect) {
+            const textures: Array<{ name: string; texture: WebGLTexture }> = [];
+            for (const [name, texture] of Object.entries(effect.textures)) {
+                const webglTexture = this.getOrCreateTexture(texture);
+                if (webglTexture) textures.push({ name, texture: webglTexture });
+            }
+            this.effect = { uniforms: effect.uniforms, textures };
+        } else {
+            this.effect = null;
         }
-
-        return shader;
+        this.batch.setShader(this.effect ? entry!.shader : null);
     }
 
-    private initializeBuffers(): void {
-        // Vertex data: position (x, y) and texture coordinates (u, v)
-        const vertices = new Float32Array([
-            -0.5, -0.5, 0.0, 1.0,  // Bottom-left
-            0.5, -0.5, 1.0, 1.0,  // Bottom-right
-            0.5, 0.5, 1.0, 0.0,  // Top-right
-            -0.5, 0.5, 0.0, 0.0   // Top-left
-        ]);
+    private readActiveUniforms(program: WebGLProgram, uniforms: Map<string, ActiveUniform>): void {
+        const gl = this.gl;
+        const count = Number(gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS)) || 0;
+        for (let i = 0; i < count; i++) {
+            const info = gl.getActiveUniform(program, i);
+            if (!info?.name) continue;
+            // Arrays are reported as 'name[0]'; the bare name locates the whole array
+            const name = info.name.replace(/\[0\]$/, '');
+            const location = gl.getUniformLocation(program, name);
+            if (!location) continue;
+            uniforms.set(name, { location, type: info.type, size: info.size });
+        }
+    }
 
-        const indices = new Uint16Array([
-            0, 1, 2,  // First triangle
-            2, 3, 0   // Second triangle
-        ]);
+    /**
+     * Upload the active effect at flush: the sprite texture is on unit 0,
+     * extra textures go on the next units
+     */
+    private bindEffect(uniforms: Map<string, ActiveUniform>, textures: readonly WebGLTexture[]): void {
+        const effect = this.effect;
+        if (!effect) return;
+        const gl = this.gl;
+
+        const sampler = uniforms.get('u_texture');
+        if (sampler) gl.uniform1i(sampler.location, 0);
+        const textureSize = uniforms.get('u_textureSize');
+        const size = textures[0] ? this.textureSizes.get(textures[0]) : undefined;
+        if (textureSize && size) gl.uniform2f(textureSize.location, size.width, size.height);
+        const time = uniforms.get('u_time');
+        if (time) gl.uniform1f(time.location, this.time);
+
+        for (const [name, value] of Object.entries(effect.uniforms)) {
+            const uniform = uniforms.get(name);
+            if (uniform) this.setUniform(uniform, value);
+        }
 
-        this.vertexBuffer = this.gl.createBuffer()!;
-        this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.vertexBuffer);
-        this.gl.bufferData(this.gl.ARRAY_BUFFER, vertices, this.gl.STATIC_DRAW);
+        let unit = 1;
+        for (const { name, texture } of effect.textures) {
+            const uniform = uniforms.get(name);
+            if (!uniform) continue;
+            gl.activeTexture(gl.TEXTURE0 + unit);
+            gl.bindTexture(gl.TEXTURE_2D, texture);
+            gl.uniform1i(uniform.location, unit);
+            unit++;
+        }
+        gl.activeTexture(gl.TEXTURE0);
+    }
 
-        this.indexBuffer = this.gl.createBuffer()!;
-        this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
-        this.gl.bufferData(this.gl.ELEMENT_ARRAY_BUFFER, indices, this.gl.STATIC_DRAW);
+    private setUniform(uniform: ActiveUniform, value: MaterialUniformValue): void {
+        const gl = this.gl;
+        const { location, type } = uniform;
+        const integer = ([gl.INT, gl.BOOL, gl.SAMPLER_2D, gl.INT_VEC2, gl.INT_VEC3, gl.INT_VEC4, gl.BOOL_VEC2, gl.BOOL_VEC3, gl.BOOL_VEC4] as number[]).includes(type);
+        const components =
+            type === gl.FLOAT_VEC2 || type === gl.INT_VEC2 || type === gl.BOOL_VEC2 ? 2 :
+            type === gl.FLOAT_VEC3 || type === gl.INT_VEC3 || type === gl.BOOL_VEC3 ? 3 :
+            type === gl.FLOAT_VEC4 || type === gl.INT_VEC4 || type === gl.BOOL_VEC4 ? 4 : 1;
+
+        const data = toUniformData(value, components).slice(0, uniform.size * components);
+        if (data.length < components) return;
+        const length = data.length - (data.length % components);
+
+        if (integer) {
+            const values = Int32Array.from(data.slice(0, length), Math.round);
+            if (components === 1) gl.uniform1iv(location, values);
+            else if (components === 2) gl.uniform2iv(location, values);
+            else if (components === 3) gl.uniform3iv(location, values);
+            else gl.uniform4iv(location, values);
+        } else {
+            const values = Float32Array.from(data.slice(0, length));
+            if (components === 1) gl.uniform1fv(location, values);
+            else if (components === 2) gl.uniform2fv(location, values);
+            else if (components === 3) gl.uniform3fv(location, values);
+            else gl.uniform4fv(location, values);
+        }
     }
 
-    private setupProjectionMatrix(width: number, height: number): void {
-        // Orthographic projection matrix
-        const projection = new Float32Array([
-            2 / width, 0, 0,
-            0, -2 / height, 0,
-            -1, 1, 1
-        ]);
+    private getOrCreateTexture(texture: Texture): WebGLTexture | null {
+        const existing = this.textures.get(texture);
+        if (existing) {
+            if (existing.version !== texture.getVersion()) {
+                // Redrawn canvas: quads queued with the old contents go first
+                this.batch.flush();
+                this.gl.bindTexture(this.gl.TEXTURE_2D, existing.texture);
+                this.gl.texImage2D(this.gl.TEXTURE_2D, 0, this.gl.RGBA, this.gl.RGBA, this.gl.UNSIGNED_BYTE, texture.getImage());
+                existing.version = texture.getVersion();
+            }
+            return existing.texture;
+        }
+        if (texture.isDisposed()) return null;
 
-        this.gl.useProgram(this.shaderProgram);
-        const projectionLocation = this.gl.getUniformLocation(this.shaderProgram, 'u_projection');
-        this.gl.uniformMatrix3fv(projectionLocation, false, projection);
+        const webglTexture = this.createTexture(texture.getImage(), texture.width, texture.height);
+        const release = texture.onDispose(() => this.releaseTexture(texture));
+        this.textures.set(texture, { texture: webglTexture, version: texture.getVersion(), release });
+        return webglTexture;
     }
 
-    private createTransformMatrix(position: Vector2, size: Vector2, rotation: number): Float32Array {
-        const cos = Math.cos(rotation);
-        const sin = Math.sin(rotation);
+    private releaseTexture(texture: Texture): void {
+        const entry = this.textures.get(texture);
+        if (!entry) return;
+        // Quads still queued with this texture must be drawn before it goes away
+        this.batch.flush();
+        this.gl.deleteTexture(entry.texture);
+        this.textures.delete(texture);
+    }
 
-        return new Float32Array([
-            cos * size.x, sin * size.x, 0,
-            -sin * size.y, cos * size.y, 0,
-            position.x, position.y, 1
-        ]);
+    private getWhiteTexture(): WebGLTexture {
+        if (!this.whiteTexture) {
+            this.whiteTexture = this.createTexture(new Uint8Array([255, 255, 255, 255]), 1, 1);
+        }
+        return this.whiteTexture;
     }
 
-    private getOrCreateTexture(texture: Texture): WebGLTexture {
-        const textureKey = texture.getImage().src;
+    private getCircleTexture(): WebGLTexture {
+        if (!this.circleTexture) {
+            const size = CIRCLE_TEXTURE_SIZE;
+            const radius = size / 2;
+            const pixels = new Uint8Array(size * size * 4).fill(255);
+            for (let y = 0; y < size; y++) {
+                for (let x = 0; x < size; x++) {
+                    // One pixel of antialiasing at the edge
+                    const distance = Math.hypot(x + 0.5 - radius, y + 0.5 - radius);
+                    pixels[(y * size + x) * 4 + 3] = Math.round(Math.max(0, Math.min(1, radius - distance)) * 255);
+                }
+            }
+            this.circleTexture = this.createTexture(pixels, size, size);
+        }
+        return this.circleTexture;
+    }
 
-        if (this.textures.has(textureKey)) {
-            return this.textures.get(textureKey)!;
+    private getTextTexture(text: string, font: string): { texture: WebGLTexture; width: number; height: number } | null {
+        const key = `${font}|${text}`;
+        const cached = this.textTextures.get(key);
+        if (cached) return cached;
+
+        this.textCanvas = this.textCanvas ?? document.createElement('canvas');
+        const ctx = this.textCanvas.getContext('2d');
+        if (!ctx) return null;
+
+        ctx.font = font;
+        const fontSize = Number(/(\d+(?:\.\d+)?)px/.exec(font)?.[1] ?? 16);
+        const width = Math.max(1, Math.ceil(ctx.measureText(text).width) + 2);
+        const height = Math.ceil(fontSize * 1.4);
+        this.textCanvas.width = width;
+        this.textCanvas.height = height;
+        // Resizing resets the context state
+        ctx.font = font;
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = 'white';
+        ctx.clearRect(0, 0, width, height);
+        ctx.fillText(text, 1, height / 2);
+
+        if (this.textTextures.size >= MAX_TEXT_TEXTURES) {
+            const [oldestKey, oldest] = this.textTextures.entries().next().value!;
+            this.batch.flush();
+            this.gl.deleteTexture(oldest.texture);
+            this.textTextures.delete(oldestKey);
         }
+        const entry = { texture: this.createTexture(this.textCanvas, width, height), width, height };
+        this.textTextures.set(key, entry);
+        return entry;
+    }
 
-        const webglTexture = this.gl.createTexture()!;
-        this.gl.bindTexture(this.gl.TEXTURE_2D, webglTexture);
+    // A null source allocates an empty texture (render targets)
+    private createTexture(source: TexImageSource | Uint8Array | null, width: number, height: number): WebGLTexture {
+        const gl = this.gl;
+        const webglTexture = gl.createTexture()!;
+        gl.bindTexture(gl.TEXTURE_2D, webglTexture);
 
-        this.gl.texImage2D(
-            this.gl.TEXTURE_2D,
-            0,
-            this.gl.RGBA,
-            this.gl.RGBA,
-            this.gl.UNSIGNED_BYTE,
-            texture.getImage()
-        );
+        if (source === null || source instanceof Uint8Array) {
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, source);
+        } else {
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+        }
 
         // Set texture parameters
-        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_S, this.gl.CLAMP_TO_EDGE);
-        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_T, this.gl.CLAMP_TO_EDGE);
-        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MIN_FILTER, this.gl.LINEAR);
-        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MAG_FILTER, this.gl.LINEAR);
-
-        this.textures.set(textureKey, webglTexture);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        this.textureSizes.set(webglTexture, { width, height });
         return webglTexture;
     }
 }
+
+/**
+ * Flat numbers for a uniform: colours are normalized and cut to the
+ * declared components (rgb for vec3), booleans become 0/1
+ */
+function toUniformData(value: MaterialUniformValue, components: number): number[] {
+    const items = Array.isArray(value) ? value : [value];
+    const data: number[] = [];
+    for (const item of items) {
+        if (item instanceof Color) {
+            data.push(...[item.r / 255, item.g / 255, item.b / 255, item.a / 255].slice(0, components < 3 ? 4 : components));
+        } else {
+            data.push(typeof item === 'boolean' ? Number(item) : item);
+        }
+    }
+    return data;
+}
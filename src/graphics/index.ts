@@ -1,7 +1,25 @@
 // Core rendering interfaces and classes
-export type { RenderStrategy } from './Renderer';
+export type { RenderStrategy, RenderCapabilities, RenderCapability, RenderTarget, TextStyle, SpriteBatchItem } from './Renderer';
+export { createRenderCapabilities, getRenderCapabilities } from './Renderer';
+export { RenderCommandList, executeRenderCommands } from './RenderCommands';
+export type { RenderCommand, SpriteCommand, SpriteUVCommand, SpriteBatchCommand, PrimitiveCommand, TextCommand, PostEffectCommand, StateCommand } from './RenderCommands';
+export { RecordingRenderer } from './RecordingRenderer';
+export type { RecordingRendererOptions, RecordedCommand } from './RecordingRenderer';
 export { WebGLRenderer } from './WebGLRenderer';
 export { Canvas2DRenderer } from './Canvas2DRenderer';
+export type { WebGLRendererOptions } from './WebGLRenderer';
+export { SpriteBatch } from './SpriteBatch';
+export type { BlendMode, BatchShader, SpriteBatchOptions, SpriteBatchStats } from './SpriteBatch';
+
+// Materials and effects
+export { MaterialRegistry, materialRegistry } from './Material';
+export type { Material, MaterialEffect, MaterialInstance, MaterialUniformValue, CanvasEffect } from './Material';
+export { flashMaterial, outlineMaterial, grayscaleMaterial, paletteSwapMaterial, MAX_PALETTE_COLORS } from './MaterialEffects';
+
+// Post-processing
+export { PostEffectRegistry, PostProcessStack, postEffectRegistry } from './PostProcess';
+export type { PostEffect, PostEffectInstance, PostProcessPass, PostProcessContext } from './PostProcess';
+export { bloomPass, vignettePass, colorGradingPass, crtPass, chromaticAberrationPass, pixelatePass } from './PostEffects';
 
 // Texture and sprite management
 export { Texture } from './Texture';
@@ -17,7 +35,11 @@ export { AnimationSystem } from './AnimationSystem';
 
 // Rendering system
 export { RenderSystem } from './RenderSystem';
-export type { TransformComponent, RenderStats } from './RenderSystem';
+export type { TransformComponent, RenderStats, RenderLayer, RenderPass, RenderFrame, RenderParticle, ParticleSource } from './RenderSystem';
+
+// Scene transitions
+export { fadeTransition, wipeTransition, crossfadeTransition } from './SceneTransition';
+export type { SceneTransition, TransitionFrame, TransitionCover, WipeDirection } from './SceneTransition';
 
 // Type aliases for convenience
 export type Renderer = import('./Renderer').RenderStrategy;
@@ -42,6 +42,25 @@ export interface TouchData {
     force: number;
 }
 
+/**
+ * Everything the query methods can answer at one moment (see
+ * `getSnapshot` / `applySnapshot`, used by input replays)
+ */
+export interface InputSnapshot {
+    keys: string[];
+    keysJustPressed: string[];
+    keysJustReleased: string[];
+    mouseButtons: number[];
+    mouseButtonsJustPressed: number[];
+    mouseButtonsJustReleased: number[];
+    mousePosition: { x: number; y: number };
+    mouseDelta: { x: number; y: number };
+    wheelDelta: number;
+    touches: TouchData[];
+    touchesJustStarted: TouchData[];
+    touchesJustEnded: TouchData[];
+}
+
 export class InputManager {
     private static instance: InputManager;
     private eventSystem: EventSystem;
@@ -67,6 +86,8 @@ export class InputManager {
 
     // Configuración
     private config: InputConfig;
+    // Off while a replay drives the state, so the real devices don't interfere
+    private liveInput = true;
 
     // Callbacks de usuario
     private keyDownCallbacks = new Map<string, Function[]>();
@@ -178,6 +199,7 @@ export class InputManager {
     }
 
     private handleKeyDown(event: globalThis.KeyboardEvent): void {
+        if (!this.liveInput) return;
         const key = event.code;
 
         if (this.config.preventDefaultKeys?.includes(key)) {
@@ -206,6 +228,7 @@ export class InputManager {
     }
 
     private handleKeyUp(event: globalThis.KeyboardEvent): void {
+        if (!this.liveInput) return;
         const key = event.code;
 
         if (this.keysPressed.has(key)) {
@@ -230,7 +253,7 @@ export class InputManager {
     }
 
     private handleMouseDown(event: globalThis.MouseEvent): void {
-        if (!this.canvas) return;
+        if (!this.canvas || !this.liveInput) return;
 
         const button = event.button;
         const position = this.getCanvasMousePosition(event);
@@ -256,7 +279,7 @@ export class InputManager {
     }
 
     private handleMouseUp(event: globalThis.MouseEvent): void {
-        if (!this.canvas) return;
+        if (!this.canvas || !this.liveInput) return;
 
         const button = event.button;
         const position = this.getCanvasMousePosition(event);
@@ -282,6 +305,7 @@ export class InputManager {
     }
 
     private handleMouseMove(event: globalThis.MouseEvent): void {
+        if (!this.liveInput) return;
         if (!this.canvas) return;
 
         const newPosition = this.getCanvasMousePosition(event);
@@ -307,6 +331,7 @@ export class InputManager {
     }
 
     private handleMouseWheel(event: WheelEvent): void {
+        if (!this.liveInput) return;
         event.preventDefault();
         this.wheelDelta = event.deltaY;
 
@@ -320,6 +345,7 @@ export class InputManager {
     }
 
     private handleTouchStart(event: globalThis.TouchEvent): void {
+        if (!this.liveInput) return;
         event.preventDefault();
 
         for (let i = 0; i < event.changedTouches.length; i++) {
@@ -345,6 +371,7 @@ export class InputManager {
     }
 
     private handleTouchMove(event: globalThis.TouchEvent): void {
+        if (!this.liveInput) return;
         event.preventDefault();
 
         const changedTouches: TouchData[] = [];
@@ -366,6 +393,7 @@ export class InputManager {
     }
 
     private handleTouchEnd(event: globalThis.TouchEvent): void {
+        if (!this.liveInput) return;
         event.preventDefault();
 
         const changedTouches: TouchData[] = [];
@@ -390,6 +418,7 @@ export class InputManager {
     }
 
     private handleWindowBlur(): void {
+        if (!this.liveInput) return;
         // Limpiar todos los estados cuando se pierde el foco
         this.keysPressed.clear();
         this.mouseButtons.clear();
@@ -573,6 +602,60 @@ export class InputManager {
         this.touchEndCallbacks.forEach(callback => callback(event));
     }
 
+    /**
+     * Ignorar (false) o volver a escuchar (true) los dispositivos reales
+     */
+    public setLiveInputEnabled(enabled: boolean): void {
+        this.liveInput = enabled;
+    }
+
+    public isLiveInputEnabled(): boolean {
+        return this.liveInput;
+    }
+
+    /**
+     * Copia del estado actual de teclado, mouse y touch
+     */
+    public getSnapshot(): InputSnapshot {
+        const copyTouch = (touch: TouchData): TouchData => ({ ...touch, position: touch.position.clone() });
+        return {
+            keys: Array.from(this.keysPressed),
+            keysJustPressed: Array.from(this.keysJustPressed),
+            keysJustReleased: Array.from(this.keysJustReleased),
+            mouseButtons: Array.from(this.mouseButtons),
+            mouseButtonsJustPressed: Array.from(this.mouseButtonsJustPressed),
+            mouseButtonsJustReleased: Array.from(this.mouseButtonsJustReleased),
+            mousePosition: { x: this.mousePosition.x, y: this.mousePosition.y },
+            mouseDelta: { x: this.mouseDelta.x, y: this.mouseDelta.y },
+            wheelDelta: this.wheelDelta,
+            touches: Array.from(this.touches.values(), copyTouch),
+            touchesJustStarted: Array.from(this.touchesJustStarted.values(), copyTouch),
+            touchesJustEnded: Array.from(this.touchesJustEnded.values(), copyTouch)
+        };
+    }
+
+    /**
+     * Reemplaza el estado consultado por `isKeyPressed`, `getMousePosition`...
+     * No dispara callbacks ni eventos.
+     */
+    public applySnapshot(snapshot: InputSnapshot): void {
+        const toTouch = (touch: TouchData): [number, TouchData] =>
+            [touch.identifier, { ...touch, position: new Vector2(touch.position.x, touch.position.y) }];
+
+        this.keysPressed = new Set(snapshot.keys);
+        this.keysJustPressed = new Set(snapshot.keysJustPressed);
+        this.keysJustReleased = new Set(snapshot.keysJustReleased);
+        this.mouseButtons = new Set(snapshot.mouseButtons);
+        this.mouseButtonsJustPressed = new Set(snapshot.mouseButtonsJustPressed);
+        this.mouseButtonsJustReleased = new Set(snapshot.mouseButtonsJustReleased);
+        this.mousePosition.set(snapshot.mousePosition.x, snapshot.mousePosition.y);
+        this.mouseDelta.set(snapshot.mouseDelta.x, snapshot.mouseDelta.y);
+        this.wheelDelta = snapshot.wheelDelta;
+        this.touches = new Map(snapshot.touches.map(toTouch));
+        this.touchesJustStarted = new Map(snapshot.touchesJustStarted.map(toTouch));
+        this.touchesJustEnded = new Map(snapshot.touchesJustEnded.map(toTouch));
+    }
+
     // Método para limpiar los estados "just pressed/released" - debe llamarse cada frame
     public update(): void {
         this.keysJustPressed.clear();
@@ -0,0 +1,265 @@
+import { InputManager, InputSnapshot, TouchData } from './InputManager';
+import { Vector2 } from '../math/Vector2';
+import { RandomService, randomService } from '../math/Random';
+import type { GameLoop } from '../core/GameLoop';
+
+export const INPUT_REPLAY_VERSION = 1;
+
+// Compact touch: [identifier, x, y, force]
+type TouchTuple = [number, number, number, number];
+
+/**
+ * Input state of one fixed step. Empty fields are left out, so idle steps
+ * encode as `{}`.
+ */
+export interface InputFrame {
+    k?: string[];   // keys held
+    kp?: string[];  // keys just pressed
+    kr?: string[];  // keys just released
+    b?: number[];   // mouse buttons held
+    bp?: number[];
+    br?: number[];
+    m?: [number, number];  // mouse position
+    d?: [number, number];  // mouse delta
+    w?: number;            // wheel delta
+    t?: TouchTuple[];      // active touches
+    ts?: TouchTuple[];     // touches just started
+    te?: TouchTuple[];     // touches just ended
+}
+
+/**
+ * Recorded session. Only the steps whose input changed are stored; a step
+ * without an entry repeats the previous one, transient fields (just pressed,
+ * deltas) included.
+ */
+export interface InputReplay {
+    version: number;
+    fixedTimestep: number;
+    // Seed of the random service when recording started
+    seed: number;
+    steps: number;
+    frames: Array<[number, InputFrame]>;
+}
+
+export interface InputRecorderOptions {
+    seed?: number;
+    fixedTimestep?: number;
+}
+
+// Input state is sampled right before the scenes and systems of each fixed step
+const REPLAY_PHASE_PRIORITY = 100;
+
+/**
+ * Captures the InputManager state once per fixed step. Starting a recording
+ * reseeds the random service, so the replay only needs the seed.
+ */
+export class InputRecorder {
+    private frames: Array<[number, InputFrame]> = [];
+    private steps = 0;
+    private lastEncoded: string | null = null;
+    private seed = 0;
+    private fixedTimestep = 1 / 60;
+    private recording = false;
+    private detach: (() => void) | null = null;
+
+    constructor(
+        private input: InputManager = InputManager.getInstance(),
+        private random: RandomService | null = randomService
+    ) { }
+
+    start(options: InputRecorderOptions = {}): void {
+        this.frames = [];
+        this.steps = 0;
+        this.lastEncoded = null;
+        this.seed = (options.seed ?? Math.floor(Math.random() * 0xFFFFFFFF)) >>> 0;
+        this.random?.setSeed(this.seed);
+        this.fixedTimestep = options.fixedTimestep ?? this.fixedTimestep;
+        this.recording = true;
+    }
+
+    /**
+     * Start recording and capture automatically at every fixed step of `loop`
+     */
+    attach(loop: GameLoop, options: InputRecorderOptions = {}): void {
+        this.start({ fixedTimestep: loop.getFixedTimestep(), ...options });
+        this.detach = loop.onPhase((phase) => {
+            if (phase === 'fixedUpdate') this.capture();
+        }, REPLAY_PHASE_PRIORITY);
+    }
+
+    /**
+     * Record the current input as the next step
+     */
+    capture(): void {
+        if (!this.recording) return;
+
+        const frame = encodeFrame(this.input.getSnapshot());
+        const encoded = JSON.stringify(frame);
+        if (encoded !== this.lastEncoded) {
+            this.frames.push([this.steps, frame]);
+            this.lastEncoded = encoded;
+        }
+        this.steps++;
+    }
+
+    stop(): InputReplay {
+        this.recording = false;
+        this.detach?.();
+        this.detach = null;
+        return this.getReplay();
+    }
+
+    getReplay(): InputReplay {
+        return {
+            version: INPUT_REPLAY_VERSION,
+            fixedTimestep: this.fixedTimestep,
+            seed: this.seed,
+            steps: this.steps,
+            frames: this.frames.map(([step, frame]) => [step, frame])
+        };
+    }
+
+    isRecording(): boolean {
+        return this.recording;
+    }
+}
+
+/**
+ * Feeds a replay back into the InputManager one fixed step at a time. While
+ * playing, the real devices are ignored; the random service is reseeded with
+ * the replay seed on the first step.
+ */
+export class InputPlayer {
+    private step = 0;
+    private frameIndex = 0;
+    private current: InputSnapshot = decodeFrame({});
+    private playing = false;
+    private detach: (() => void) | null = null;
+    private finishCallbacks: Array<() => void> = [];
+
+    constructor(
+        private replay: InputReplay,
+        private input: InputManager = InputManager.getInstance(),
+        private random: RandomService | null = randomService
+    ) {
+        if (replay.version > INPUT_REPLAY_VERSION) {
+            throw new Error(`Input replay version ${replay.version} is newer than the supported version ${INPUT_REPLAY_VERSION}`);
+        }
+    }
+
+    /**
+     * Apply the next step on every fixed step of `loop`. The loop should use
+     * the replay's `fixedTimestep` to reproduce the session exactly.
+     */
+    attach(loop: GameLoop): void {
+        if (Math.abs(loop.getFixedTimestep() - this.replay.fixedTimestep) > 1e-9) {
+            console.warn(`InputPlayer: replay was recorded at ${this.replay.fixedTimestep}s steps, loop runs at ${loop.getFixedTimestep()}s`);
+        }
+        this.detach = loop.onPhase((phase) => {
+            if (phase === 'fixedUpdate') this.next();
+        }, REPLAY_PHASE_PRIORITY);
+    }
+
+    /**
+     * Apply the input of the next step. Returns false once the replay ended
+     * (live input is enabled again at that point).
+     */
+    next(): boolean {
+        if (this.step >= this.replay.steps) {
+            this.finish();
+            return false;
+        }
+        if (!this.playing) {
+            this.playing = true;
+            this.input.setLiveInputEnabled(false);
+            if (this.step === 0) this.random?.setSeed(this.replay.seed);
+        }
+
+        const frames = this.replay.frames;
+        while (this.frameIndex < frames.length && frames[this.frameIndex][0] <= this.step) {
+            this.current = decodeFrame(frames[this.frameIndex][1]);
+            this.frameIndex++;
+        }
+        // Applied on every step: InputManager.update() clears the transient
+        // state once per frame, and playback may split frames differently
+        this.input.applySnapshot(this.current);
+        this.step++;
+        return true;
+    }
+
+    /**
+     * Stop early and give control back to the real devices
+     */
+    stop(): void {
+        this.finish();
+    }
+
+    onFinish(callback: () => void): void {
+        this.finishCallbacks.push(callback);
+    }
+
+    getStep(): number {
+        return this.step;
+    }
+
+    getSeed(): number {
+        return this.replay.seed;
+    }
+
+    isFinished(): boolean {
+        return this.step >= this.replay.steps;
+    }
+
+    private finish(): void {
+        this.detach?.();
+        this.detach = null;
+        if (!this.playing) return;
+
+        this.playing = false;
+        this.input.applySnapshot(decodeFrame({}));
+        this.input.setLiveInputEnabled(true);
+        for (const callback of this.finishCallbacks) callback();
+    }
+}
+
+function encodeTouches(touches: TouchData[]): TouchTuple[] {
+    return touches.map(t => [t.identifier, t.position.x, t.position.y, t.force]);
+}
+
+function decodeTouches(touches: TouchTuple[] = []): TouchData[] {
+    return touches.map(([identifier, x, y, force]) => ({ identifier, position: new Vector2(x, y), force }));
+}
+
+export function encodeFrame(snapshot: InputSnapshot): InputFrame {
+    const frame: InputFrame = {};
+    if (snapshot.keys.length) frame.k = [...snapshot.keys].sort();
+    if (snapshot.keysJustPressed.length) frame.kp = [...snapshot.keysJustPressed].sort();
+    if (snapshot.keysJustReleased.length) frame.kr = [...snapshot.keysJustReleased].sort();
+    if (snapshot.mouseButtons.length) frame.b = [...snapshot.mouseButtons].sort();
+    if (snapshot.mouseButtonsJustPressed.length) frame.bp = [...snapshot.mouseButtonsJustPressed].sort();
+    if (snapshot.mouseButtonsJustReleased.length) frame.br = [...snapshot.mouseButtonsJustReleased].sort();
+    if (snapshot.mousePosition.x || snapshot.mousePosition.y) frame.m = [snapshot.mousePosition.x, snapshot.mousePosition.y];
+    if (snapshot.mouseDelta.x || snapshot.mouseDelta.y) frame.d = [snapshot.mouseDelta.x, snapshot.mouseDelta.y];
+    if (snapshot.wheelDelta) frame.w = snapshot.wheelDelta;
+    if (snapshot.touches.length) frame.t = encodeTouches(snapshot.touches);
+    if (snapshot.touchesJustStarted.length) frame.ts = encodeTouches(snapshot.touchesJustStarted);
+    if (snapshot.touchesJustEnded.length) frame.te = encodeTouches(snapshot.touchesJustEnded);
+    return frame;
+}
+
+export function decodeFrame(frame: InputFrame): InputSnapshot {
+    return {
+        keys: frame.k ?? [],
+        keysJustPressed: frame.kp ?? [],
+        keysJustReleased: frame.kr ?? [],
+        mouseButtons: frame.b ?? [],
+        mouseButtonsJustPressed: frame.bp ?? [],
+        mouseButtonsJustReleased: frame.br ?? [],
+        mousePosition: { x: frame.m?.[0] ?? 0, y: frame.m?.[1] ?? 0 },
+        mouseDelta: { x: frame.d?.[0] ?? 0, y: frame.d?.[1] ?? 0 },
+        wheelDelta: frame.w ?? 0,
+        touches: decodeTouches(frame.t),
+        touchesJustStarted: decodeTouches(frame.ts),
+        touchesJustEnded: decodeTouches(frame.te)
+    };
+}
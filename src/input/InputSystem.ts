@@ -1,8 +1,9 @@
-import { System } from '../core/ecs/System';
-import { Entity } from '../core/ecs/Entity';
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
 import { InputManager } from './InputManager';
-import { Transform } from '../math/Transform';
+import type { TransformComponent } from '../graphics/RenderSystem';
 import { INPUT_EVENTS } from '@/types/event-const';
+import type { SystemPhase } from '../core/SystemScheduler';
 
 export interface InputComponent {
     type: 'input';
@@ -14,28 +15,32 @@ export interface InputComponent {
 }
 
 export class InputSystem extends System {
+    readonly requiredComponents = ['input', 'transform'];
+    readonly phase: SystemPhase = 'input';
     private inputManager: InputManager;
 
     constructor() {
-        super(['input', 'transform']);
+        super();
         this.inputManager = InputManager.getInstance();
     }
 
-    public update(deltaTime: number): void {
+    public update(entities: Entity[], deltaTime: number): void {
         // Update input manager state
         this.inputManager.update();
 
         // Process input for all entities with input components
-        this.entities.forEach((entity: Entity) => {
+        this.getEntitiesWithComponents(entities, this.requiredComponents).forEach((entity: Entity) => {
             this.processEntityInput(entity, deltaTime);
         });
     }
 
     private processEntityInput(entity: Entity, deltaTime: number): void {
         const inputComponent = entity.getComponent('input') as InputComponent;
-        const transform = entity.getComponent('transform') as Transform;
+        const transform = entity.getComponent<TransformComponent>('transform');
 
         if (!inputComponent || !transform) return;
+        const { x, y } = transform.position;
+        const rotation = transform.rotation;
 
         // Process keyboard input based on key bindings
         inputComponent.keyBindings.forEach((action, key) => {
@@ -53,6 +58,10 @@ export class InputSystem extends System {
         if (inputComponent.touchEnabled) {
             this.processTouchInput(entity, inputComponent, transform, deltaTime);
         }
+
+        if (transform.position.x !== x || transform.position.y !== y || transform.rotation !== rotation) {
+            entity.markChanged('transform');
+        }
     }
 
     private handleAction(
@@ -60,7 +69,7 @@ export class InputSystem extends System {
         action: string,
         deltaTime: number,
         inputComponent: InputComponent,
-        transform: Transform
+        transform: TransformComponent
     ): void {
         switch (action) {
             case 'moveUp':
@@ -84,7 +93,7 @@ export class InputSystem extends System {
             default:
                 // Emit custom action event for game-specific handling
                 this.inputManager['eventSystem'].emit(INPUT_EVENTS.ACTION, {
-                    entity: entity.getId(),
+                    entity: entity.id,
                     action,
                     deltaTime
                 });
@@ -95,7 +104,7 @@ export class InputSystem extends System {
     private processMouseInput(
         entity: Entity,
         _inputComponent: InputComponent,
-        transform: Transform,
+        transform: TransformComponent,
         deltaTime: number
     ): void {
         // Example: Rotate entity to face mouse position
@@ -109,7 +118,7 @@ export class InputSystem extends System {
         // Handle mouse button clicks
         if (this.inputManager.isMouseButtonJustPressed(0)) { // Left click
             this.inputManager['eventSystem'].emit(INPUT_EVENTS.ACTION, {
-                entity: entity.getId(),
+                entity: entity.id,
                 action: INPUT_EVENTS.MOUSE_PRIMARY_ACTION,
                 position: mousePosition,
                 deltaTime
@@ -118,7 +127,7 @@ export class InputSystem extends System {
 
         if (this.inputManager.isMouseButtonJustPressed(2)) { // Right click
             this.inputManager['eventSystem'].emit(INPUT_EVENTS.ACTION, {
-                entity: entity.getId(),
+                entity: entity.id,
                 action: INPUT_EVENTS.MOUSE_SECONDARY_ACTION,
                 position: mousePosition,
                 deltaTime
@@ -129,7 +138,7 @@ export class InputSystem extends System {
     private processTouchInput(
         entity: Entity,
         inputComponent: InputComponent,
-        transform: Transform,
+        transform: TransformComponent,
         deltaTime: number
     ): void {
         const touches = this.inputManager.getTouches();
@@ -150,7 +159,7 @@ export class InputSystem extends System {
 
             // Emit touch events
             this.inputManager['eventSystem'].emit(INPUT_EVENTS.ACTION, {
-                entity: entity.getId(),
+                entity: entity.id,
                 action: 'touchMove',
                 position: touch.position,
                 force: touch.force,
@@ -1,8 +1,11 @@
 export { InputManager } from './InputManager';
 export { InputSystem } from './InputSystem';
+export { InputRecorder, InputPlayer, INPUT_REPLAY_VERSION, encodeFrame, decodeFrame } from './InputReplay';
+export type { InputReplay, InputFrame, InputRecorderOptions } from './InputReplay';
 export type { InputComponent } from './InputSystem';
 export type {
     InputConfig,
+    InputSnapshot,
     KeyboardEvent,
     MouseEvent,
     TouchEvent,
@@ -1,7 +1,12 @@
-import { Entity } from "@/ecs";
+import { Entity, getWorldPosition } from "@/ecs";
 import { LightComponent, LightEntry, LightInstance } from "./LightComponent";
 import { LightRegistry } from "./LightRegistry";
 import { Scene } from "@/core/Scene";
+import { releaseSubscriptions } from "@/core/EventSystem";
+import { WORLD_EVENTS } from "@/types/event-const";
+import { Texture } from "@/graphics/Texture";
+import type { PostProcessPass } from "@/graphics/PostProcess";
+import { bloomPass } from "@/graphics/PostEffects";
 
 export class LightingSystem {
     private lightRegistry: LightRegistry;
@@ -12,10 +17,17 @@ export class LightingSystem {
     // Canvas para efectos de iluminación
     private lightingCanvas?: HTMLCanvasElement;
     private lightingContext?: CanvasRenderingContext2D | null;
+    // Textura del mapa de luz para el post-procesado (se recrea al cambiar de tamaño)
+    private lightMap: Texture | null = null;
+    private lightingPass: PostProcessPass | null = null;
+    private bloom: PostProcessPass = { ...bloomPass(), enabled: false };
 
     // Configuración de rendering
     private blendMode: GlobalCompositeOperation = 'multiply';
 
+    // Escena a la que pertenece el sistema (cuando la escena lo posee)
+    private scene: Scene | null = null;
+
     constructor(lightRegistry: LightRegistry) {
         this.lightRegistry = lightRegistry;
         this.initializeLightingCanvas();
@@ -71,12 +83,13 @@ export class LightingSystem {
 
             // Actualizar instancia
             if (entry.instance) {
-                // Sincronizar posición con entidad si tiene transform
+                // Sincronizar posición (en espacio de mundo, incluye al padre) si tiene transform
                 const transform = entity.getComponent?.('transform');
                 if (transform && transform.position) {
+                    const worldPosition = getWorldPosition(entity);
                     entry.instance.position = {
-                        x: transform.position.x,
-                        y: transform.position.y
+                        x: worldPosition.x,
+                        y: worldPosition.y
                     };
                 }
 
@@ -98,7 +111,8 @@ export class LightingSystem {
     }
 
     /**
-     * Renderiza la iluminación
+     * Renderiza la iluminación directamente sobre un contexto Canvas2D.
+     * El bloom solo se aplica a través del post-procesado (getPostProcessPasses).
      */
     render(context: CanvasRenderingContext2D, entities: any[], camera?: any): void {
         if (!this.lightingCanvas || !this.lightingContext) return;
@@ -106,7 +120,72 @@ export class LightingSystem {
         // small read to keep shadowsEnabled in use until shadows are implemented
         if (!this.shadowsEnabled) { /* shadows disabled - no-op for now */ }
 
-        const { width, height } = context.canvas;
+        this.prepareLightingCanvas(context.canvas.width, context.canvas.height);
+
+        // Renderizar todas las luces
+        this.renderLights(entities, camera);
+
+        // Componer iluminación en el contexto principal
+        context.save();
+        context.globalCompositeOperation = this.blendMode;
+        context.drawImage(this.lightingCanvas, 0, 0);
+        context.restore();
+    }
+
+    /**
+     * Dibuja el mapa de luz en coordenadas de pantalla de la cámara y lo
+     * devuelve como textura, lista para el efecto 'lighting'
+     */
+    renderLightMap(width: number, height: number, entities: any[], camera?: any): Texture | null {
+        if (!this.lightingCanvas || !this.lightingContext) return null;
+
+        this.prepareLightingCanvas(width, height);
+
+        // Las luces están en coordenadas de mundo: misma transformación que el RenderSystem
+        const ctx = this.lightingContext;
+        ctx.save();
+        if (camera?.position && typeof camera.zoom === 'number') {
+            ctx.translate(width / 2, height / 2);
+            ctx.scale(camera.zoom, camera.zoom);
+            if (camera.rotation) ctx.rotate(camera.rotation);
+            ctx.translate(-camera.position.x, -camera.position.y);
+        }
+        this.renderLights(entities, camera);
+        ctx.restore();
+
+        if (this.lightMap && (this.lightMap.width !== width || this.lightMap.height !== height)) {
+            this.lightMap.dispose();
+            this.lightMap = null;
+        }
+        if (this.lightMap) {
+            this.lightMap.invalidate();
+        } else {
+            this.lightMap = new Texture(this.lightingCanvas);
+        }
+        return this.lightMap;
+    }
+
+    /**
+     * Pasos de post-procesado de la iluminación, para añadir a la cámara:
+     * el mapa de luz multiplicado sobre la escena y el bloom (activo con
+     * setBloomEnabled). Las luces se toman de la escena registrada.
+     */
+    getPostProcessPasses(): PostProcessPass[] {
+        this.lightingPass ??= {
+            effect: 'lighting',
+            beforeApply: ({ width, height, camera }) => {
+                const lightMap = this.renderLightMap(width, height, this.scene?.getEntities() ?? [], camera);
+                this.lightingPass!.textures = lightMap ? { u_lightMap: lightMap } : {};
+            }
+        };
+        return [this.lightingPass, this.bloom];
+    }
+
+    /**
+     * Ajusta el tamaño del canvas de iluminación, lo limpia y aplica la luz ambiente
+     */
+    private prepareLightingCanvas(width: number, height: number): void {
+        if (!this.lightingCanvas || !this.lightingContext) return;
 
         // Ajustar tamaño del canvas de iluminación
         if (this.lightingCanvas.width !== width || this.lightingCanvas.height !== height) {
@@ -119,20 +198,6 @@ export class LightingSystem {
 
         // Aplicar luz ambiente
         this.renderAmbientLight();
-
-        // Renderizar todas las luces
-        this.renderLights(entities, camera);
-
-        // Aplicar efectos post-processing si están habilitados
-        if (this.bloomEnabled) {
-            this.applyBloom();
-        }
-
-        // Componer iluminación en el contexto principal
-        context.save();
-        context.globalCompositeOperation = this.blendMode;
-        context.drawImage(this.lightingCanvas, 0, 0);
-        context.restore();
     }
 
     /**
@@ -152,6 +217,16 @@ export class LightingSystem {
     private renderLights(entities: any[], camera?: any): void {
         if (!this.lightingContext) return;
 
+        // Con índice espacial en la escena, solo las entidades cuyo radio de luz toca la vista
+        const spatial = this.scene?.getSpatialIndex();
+        if (spatial && camera) {
+            const camBounds = this.getCameraBounds(camera, this.lightingCanvas!);
+            if (camBounds) {
+                const visible = new Set<any>(spatial.queryRegion(camBounds, { includeInactive: true }));
+                entities = entities.filter(entity => visible.has(entity));
+            }
+        }
+
         for (const entity of entities) {
             const lightComponent = entity.getComponent('light') as LightComponent;
             if (!lightComponent) continue;
@@ -303,29 +378,6 @@ export class LightingSystem {
         ctx.restore();
     }
 
-    /**
-     * Aplica efecto bloom
-     */
-    private applyBloom(): void {
-        if (!this.lightingContext || !this.lightingCanvas) return;
-
-        // Implementación básica de bloom
-        const imageData = this.lightingContext.getImageData(0, 0, this.lightingCanvas.width, this.lightingCanvas.height);
-        const data = imageData.data;
-
-        // Aplicar filtro de blur (simplificado)
-        for (let i = 0; i < data.length; i += 4) {
-            const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
-            if (brightness > 128) {
-                data[i] = Math.min(255, data[i] * 1.2);     // R
-                data[i + 1] = Math.min(255, data[i + 1] * 1.2); // G
-                data[i + 2] = Math.min(255, data[i + 2] * 1.2); // B
-            }
-        }
-
-        this.lightingContext.putImageData(imageData, 0, 0);
-    }
-
     /**
      * Limpia recursos de luces destruidas
      */
@@ -375,6 +427,11 @@ export class LightingSystem {
 
     setBloomEnabled(enabled: boolean): void {
         this.bloomEnabled = enabled;
+        this.bloom.enabled = enabled;
+    }
+
+    isBloomEnabled(): boolean {
+        return this.bloomEnabled;
     }
 
     setBlendMode(mode: GlobalCompositeOperation): void {
@@ -387,8 +444,30 @@ export class LightingSystem {
      */
     setScene(scene: Scene): void {
         if (!scene) return;
+        if (this.scene !== scene) {
+            releaseSubscriptions(this);
+            // Libera las luces de cada entidad destruida en la escena, antes de
+            // que pierda sus componentes
+            scene.getEventBus().on(WORLD_EVENTS.ENTITY_DESTROYED, (event) => {
+                this.cleanup([event.data.entity]);
+            }, { owner: this });
+        }
+        this.scene = scene;
         this.lightRegistry.setLayerResolver(name => scene.getLayer(name)?.bit);
     }
+
+    /**
+     * Libera las luces de la escena propietaria (Scene.removeSystem / destroy)
+     */
+    destroy(): void {
+        releaseSubscriptions(this);
+        this.lightMap?.dispose();
+        this.lightMap = null;
+        if (this.scene) {
+            this.cleanup(this.scene.getEntities());
+            this.scene = null;
+        }
+    }
 }
 
 // ===== INSTANCIAS GLOBALES =====
@@ -1,6 +1,7 @@
 import { Entity } from "@/ecs";
 import { LightInstance, LightBounds, createLightComponent, LightComponent } from "./LightComponent";
 import { LightingSystem, lightRegistry } from "./LightingSystem";
+import { Random, randomService } from "@/math/Random";
 
 export class PointLight implements LightInstance {
     id: string = '';
@@ -426,6 +427,9 @@ export class LightingUtils {
 export class LightingEffects {
     private effects: Map<string, any> = new Map();
 
+    // Stream semillado: el parpadeo se repite igual en replays
+    constructor(private random: Random = randomService.stream('lighting')) { }
+
     /**
      * Agrega un efecto de parpadeo a una luz
      */
@@ -441,7 +445,7 @@ export class LightingEffects {
             speed: options.speed || 5,
             randomness: options.randomness || 0.5,
             time: 0,
-            phase: Math.random() * Math.PI * 2
+            phase: this.random.angle()
         };
 
         this.effects.set(lightInstance.id, effect);
@@ -509,7 +513,7 @@ export class LightingEffects {
     }
 
     private updateFlickerEffect(light: LightInstance, effect: any, _dt: number): void {
-        const noise = (Math.random() - 0.5) * effect.randomness;
+        const noise = (this.random.next() - 0.5) * effect.randomness;
         const wave = Math.sin(effect.time * effect.speed + effect.phase);
         const flicker = wave + noise;
 
@@ -11,6 +11,10 @@ export class Color {
         this.a = a;
     }
 
+    clone(): Color {
+        return new Color(this.r, this.g, this.b, this.a);
+    }
+
     static fromHex(hex: string): Color {
         const bigint = parseInt(hex.replace('#', ''), 16);
         const r = (bigint >> 16) & 255;
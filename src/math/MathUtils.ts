@@ -1,3 +1,5 @@
+import { randomService } from './Random';
+
 /**
  * Math utilities for the game engine
  */
@@ -107,17 +109,17 @@ export class MathUtils {
     }
 
     /**
-     * Generate a random number between min and max (inclusive)
+     * Generate a random number between min and max (default seeded stream)
      */
     static random(min: number = 0, max: number = 1): number {
-        return Math.random() * (max - min) + min;
+        return randomService.range(min, max);
     }
 
     /**
      * Generate a random integer between min and max (inclusive)
      */
     static randomInt(min: number, max: number): number {
-        return Math.floor(Math.random() * (max - min + 1)) + min;
+        return randomService.int(min, max);
     }
 
     /**
@@ -0,0 +1,147 @@
+import { SpatialPartition, rectContains, rectsEqual, rectsOverlap } from './SpatialPartition';
+
+export interface QuadTreeOptions {
+    // Items a node holds before it splits
+    maxItems?: number;
+    maxDepth?: number;
+}
+
+interface QuadNode<T> {
+    bounds: Rectangle;
+    depth: number;
+    items: T[];
+    children: QuadNode<T>[] | null;
+}
+
+/**
+ * Region quadtree over fixed bounds. Each item lives in the deepest node
+ * that fully contains it; items outside the bounds are kept aside and
+ * checked on every query.
+ */
+export class QuadTree<T> implements SpatialPartition<T> {
+    private root: QuadNode<T>;
+    private outside = new Set<T>();
+    private itemBounds = new Map<T, Rectangle>();
+    private itemNodes = new Map<T, QuadNode<T>>();
+    private readonly maxItems: number;
+    private readonly maxDepth: number;
+
+    constructor(bounds: Rectangle, options: QuadTreeOptions = {}) {
+        if (!(bounds.width > 0 && bounds.height > 0)) {
+            throw new Error('QuadTree bounds must have a positive size');
+        }
+        this.maxItems = options.maxItems ?? 8;
+        this.maxDepth = options.maxDepth ?? 8;
+        this.root = createNode({ ...bounds }, 0);
+    }
+
+    get size(): number {
+        return this.itemBounds.size;
+    }
+
+    getRootBounds(): Rectangle {
+        return { ...this.root.bounds };
+    }
+
+    insert(item: T, bounds: Rectangle): void {
+        const previous = this.itemBounds.get(item);
+        if (previous && rectsEqual(previous, bounds)) return;
+        if (previous) this.unlink(item);
+
+        const copy = { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height };
+        this.itemBounds.set(item, copy);
+        if (!rectContains(this.root.bounds, copy)) {
+            this.outside.add(item);
+            return;
+        }
+        this.insertInto(this.root, item, copy);
+    }
+
+    remove(item: T): boolean {
+        if (!this.itemBounds.has(item)) return false;
+        this.unlink(item);
+        this.itemBounds.delete(item);
+        return true;
+    }
+
+    has(item: T): boolean {
+        return this.itemBounds.has(item);
+    }
+
+    getBounds(item: T): Rectangle | undefined {
+        return this.itemBounds.get(item);
+    }
+
+    query(area: Rectangle, out: T[] = []): T[] {
+        for (const item of this.outside) {
+            if (rectsOverlap(this.itemBounds.get(item)!, area)) out.push(item);
+        }
+        this.queryNode(this.root, area, out);
+        return out;
+    }
+
+    clear(): void {
+        this.root = createNode(this.root.bounds, 0);
+        this.outside.clear();
+        this.itemBounds.clear();
+        this.itemNodes.clear();
+    }
+
+    private insertInto(node: QuadNode<T>, item: T, bounds: Rectangle): void {
+        if (node.children) {
+            const child = node.children.find(c => rectContains(c.bounds, bounds));
+            if (child) {
+                this.insertInto(child, item, bounds);
+                return;
+            }
+        }
+
+        node.items.push(item);
+        this.itemNodes.set(item, node);
+        if (!node.children && node.items.length > this.maxItems && node.depth < this.maxDepth) {
+            this.split(node);
+        }
+    }
+
+    private split(node: QuadNode<T>): void {
+        const { x, y, width, height } = node.bounds;
+        const w = width / 2;
+        const h = height / 2;
+        node.children = [
+            createNode({ x, y, width: w, height: h }, node.depth + 1),
+            createNode({ x: x + w, y, width: w, height: h }, node.depth + 1),
+            createNode({ x, y: y + h, width: w, height: h }, node.depth + 1),
+            createNode({ x: x + w, y: y + h, width: w, height: h }, node.depth + 1)
+        ];
+
+        // Push down the items that fit in a quadrant
+        const items = node.items;
+        node.items = [];
+        for (const item of items) {
+            this.insertInto(node, item, this.itemBounds.get(item)!);
+        }
+    }
+
+    private unlink(item: T): void {
+        if (this.outside.delete(item)) return;
+        const node = this.itemNodes.get(item);
+        if (!node) return;
+        const index = node.items.indexOf(item);
+        if (index !== -1) node.items.splice(index, 1);
+        this.itemNodes.delete(item);
+    }
+
+    private queryNode(node: QuadNode<T>, area: Rectangle, out: T[]): void {
+        for (const item of node.items) {
+            if (rectsOverlap(this.itemBounds.get(item)!, area)) out.push(item);
+        }
+        if (!node.children) return;
+        for (const child of node.children) {
+            if (rectsOverlap(child.bounds, area)) this.queryNode(child, area, out);
+        }
+    }
+}
+
+function createNode<T>(bounds: Rectangle, depth: number): QuadNode<T> {
+    return { bounds, depth, items: [], children: null };
+}
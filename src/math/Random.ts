@@ -0,0 +1,261 @@
+import { Vector2 } from './Vector2';
+
+/**
+ * Seedable pseudo random generator (mulberry32). The whole state is one
+ * 32-bit integer, so it can be stored in save games and replays.
+ */
+export class Random {
+    private seed: number;
+    private state: number;
+
+    constructor(seed: number = randomSeed()) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    /**
+     * Restart the sequence from `seed`
+     */
+    setSeed(seed: number): void {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    getSeed(): number {
+        return this.seed;
+    }
+
+    getState(): number {
+        return this.state;
+    }
+
+    setState(state: number): void {
+        this.state = state >>> 0;
+    }
+
+    /**
+     * Float in [0, 1)
+     */
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Float in [min, max)
+     */
+    range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /**
+     * Integer in [min, max] (both inclusive)
+     */
+    int(min: number, max: number): number {
+        return Math.floor(this.next() * (max - min + 1)) + min;
+    }
+
+    /**
+     * True with probability `chance` (0..1)
+     */
+    bool(chance: number = 0.5): boolean {
+        return this.next() < chance;
+    }
+
+    /**
+     * -1 or 1
+     */
+    sign(): number {
+        return this.next() < 0.5 ? -1 : 1;
+    }
+
+    /**
+     * Angle in radians in [0, 2PI)
+     */
+    angle(): number {
+        return this.next() * Math.PI * 2;
+    }
+
+    /**
+     * Random element of `items` (undefined when empty)
+     */
+    pick<T>(items: readonly T[]): T | undefined {
+        return items.length ? items[Math.floor(this.next() * items.length)] : undefined;
+    }
+
+    /**
+     * Random element where each item has probability weight / totalWeight.
+     * Items with weight <= 0 are never picked.
+     */
+    weighted<T>(items: readonly T[], weights: readonly number[] | ((item: T) => number)): T | undefined {
+        const weightOf = typeof weights === 'function' ? weights : (_item: T, index: number) => weights[index] ?? 0;
+        let total = 0;
+        for (let i = 0; i < items.length; i++) total += Math.max(0, weightOf(items[i], i));
+        if (total <= 0) return undefined;
+
+        let roll = this.next() * total;
+        for (let i = 0; i < items.length; i++) {
+            const weight = Math.max(0, weightOf(items[i], i));
+            if (weight <= 0) continue;
+            if (roll < weight) return items[i];
+            roll -= weight;
+        }
+        // Float rounding: fall back to the last item with weight
+        for (let i = items.length - 1; i >= 0; i--) {
+            if (weightOf(items[i], i) > 0) return items[i];
+        }
+        return undefined;
+    }
+
+    /**
+     * Shuffle `items` in place (Fisher-Yates) and return it
+     */
+    shuffle<T>(items: T[]): T[] {
+        for (let i = items.length - 1; i > 0; i--) {
+            const j = Math.floor(this.next() * (i + 1));
+            const tmp = items[i];
+            items[i] = items[j];
+            items[j] = tmp;
+        }
+        return items;
+    }
+
+    /**
+     * Normally distributed value (Box-Muller)
+     */
+    gaussian(mean: number = 0, stdDev: number = 1): number {
+        // 1 - next() is in (0, 1], so log never sees 0
+        const u = 1 - this.next();
+        const v = this.next();
+        return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+
+    /**
+     * Unit vector with a random direction
+     */
+    direction(): Vector2 {
+        const angle = this.angle();
+        return new Vector2(Math.cos(angle), Math.sin(angle));
+    }
+
+    /**
+     * Point on the edge of a circle centered at the origin
+     */
+    onCircle(radius: number = 1): Vector2 {
+        return this.direction().multiply(radius);
+    }
+
+    /**
+     * Point inside a circle centered at the origin, uniformly distributed
+     */
+    inCircle(radius: number = 1): Vector2 {
+        return this.direction().multiply(radius * Math.sqrt(this.next()));
+    }
+
+    /**
+     * Point inside the rectangle (x, y, width, height)
+     */
+    inRect(x: number, y: number, width: number, height: number): Vector2 {
+        return new Vector2(this.range(x, x + width), this.range(y, y + height));
+    }
+}
+
+/**
+ * Saved state of a RandomService: master seed and the position of each stream
+ */
+export interface RandomState {
+    seed: number;
+    streams: Record<string, number>;
+}
+
+export const DEFAULT_RANDOM_STREAM = 'default';
+
+/**
+ * Named random streams derived from one master seed. Each system draws from
+ * its own stream ('particles', 'lighting', ...) so adding particles does not
+ * change what gameplay scripts roll.
+ */
+export class RandomService {
+    private seed: number;
+    private streams = new Map<string, Random>();
+
+    constructor(seed: number = randomSeed()) {
+        this.seed = seed >>> 0;
+    }
+
+    /**
+     * Stream for `name`, created on first use from the master seed
+     */
+    stream(name: string = DEFAULT_RANDOM_STREAM): Random {
+        let stream = this.streams.get(name);
+        if (!stream) {
+            stream = new Random(deriveSeed(this.seed, name));
+            this.streams.set(name, stream);
+        }
+        return stream;
+    }
+
+    /**
+     * Reseed every stream. Same seed, same sequences.
+     */
+    setSeed(seed: number): void {
+        this.seed = seed >>> 0;
+        for (const [name, stream] of this.streams) {
+            stream.setSeed(deriveSeed(this.seed, name));
+        }
+    }
+
+    getSeed(): number {
+        return this.seed;
+    }
+
+    getState(): RandomState {
+        const streams: Record<string, number> = {};
+        for (const [name, stream] of this.streams) streams[name] = stream.getState();
+        return { seed: this.seed, streams };
+    }
+
+    /**
+     * Restore a state from `getState`. Streams missing from it restart from
+     * the saved seed.
+     */
+    setState(state: RandomState): void {
+        this.setSeed(state.seed);
+        for (const [name, value] of Object.entries(state.streams ?? {})) {
+            this.stream(name).setState(value);
+        }
+    }
+
+    // Shortcuts to the default stream
+    next(): number {
+        return this.stream().next();
+    }
+
+    range(min: number, max: number): number {
+        return this.stream().range(min, max);
+    }
+
+    int(min: number, max: number): number {
+        return this.stream().int(min, max);
+    }
+}
+
+function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// FNV-1a of the stream name mixed with the master seed
+function deriveSeed(seed: number, name: string): number {
+    let hash = 0x811C9DC5 ^ seed;
+    for (let i = 0; i < name.length; i++) {
+        hash ^= name.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// ===== INSTANCIA GLOBAL =====
+export const randomService = new RandomService();
@@ -0,0 +1,165 @@
+/**
+ * World-space collision shapes. Boxes (axis-aligned or oriented) are
+ * polygons with four points; polygons must be convex.
+ */
+export type CollisionShape =
+    | { type: 'circle'; x: number; y: number; radius: number }
+    | { type: 'polygon'; points: Vector2D[] };
+
+export interface ShapeContact {
+    // Unit vector pointing from the first shape to the second
+    normal: Vector2D;
+    // Overlap along the normal: moving the second shape by normal * depth separates them.
+    // Negative for shapes apart by less than the `margin` of testShapes
+    depth: number;
+    point: Vector2D;
+}
+
+export function getShapeBounds(shape: CollisionShape): Rectangle {
+    if (shape.type === 'circle') {
+        return { x: shape.x - shape.radius, y: shape.y - shape.radius, width: shape.radius * 2, height: shape.radius * 2 };
+    }
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const p of shape.points) {
+        minX = Math.min(minX, p.x);
+        minY = Math.min(minY, p.y);
+        maxX = Math.max(maxX, p.x);
+        maxY = Math.max(maxY, p.y);
+    }
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+export function getShapeCenter(shape: CollisionShape): Vector2D {
+    if (shape.type === 'circle') return { x: shape.x, y: shape.y };
+    let x = 0, y = 0;
+    for (const p of shape.points) {
+        x += p.x;
+        y += p.y;
+    }
+    return { x: x / shape.points.length, y: y / shape.points.length };
+}
+
+/**
+ * Separating axis test between two shapes. Returns the minimum translation
+ * vector (normal and depth) or null when they do not overlap; shapes that
+ * only touch do not overlap. With a `margin`, shapes closer than that still
+ * return a contact, with a depth of zero or less.
+ */
+export function testShapes(a: CollisionShape, b: CollisionShape, margin: number = 0): ShapeContact | null {
+    if (a.type === 'circle' && b.type === 'circle') return testCircles(a, b, margin);
+
+    const centerA = getShapeCenter(a);
+    const centerB = getShapeCenter(b);
+    const axes = [...getAxes(a, b), ...getAxes(b, a)];
+
+    let depth = Infinity;
+    let normal: Vector2D | null = null;
+    for (const axis of axes) {
+        const [minA, maxA] = project(a, axis);
+        const [minB, maxB] = project(b, axis);
+        const overlap = Math.min(maxA, maxB) - Math.max(minA, minB);
+        if (overlap <= -margin) return null;
+        if (overlap < depth) {
+            depth = overlap;
+            normal = axis;
+        }
+    }
+    if (!normal) return null;
+
+    // Point the normal from a to b
+    if ((centerB.x - centerA.x) * normal.x + (centerB.y - centerA.y) * normal.y < 0) {
+        normal = { x: -normal.x, y: -normal.y };
+    }
+
+    // Midpoint of the deepest points of each shape along the normal
+    const deepA = support(a, normal);
+    const deepB = support(b, { x: -normal.x, y: -normal.y });
+    return { normal, depth, point: { x: (deepA.x + deepB.x) / 2, y: (deepA.y + deepB.y) / 2 } };
+}
+
+function testCircles(
+    a: { x: number; y: number; radius: number },
+    b: { x: number; y: number; radius: number },
+    margin: number
+): ShapeContact | null {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const distance = Math.hypot(dx, dy);
+    const depth = a.radius + b.radius - distance;
+    if (depth <= -margin) return null;
+
+    const normal = distance === 0 ? { x: 0, y: 1 } : { x: dx / distance, y: dy / distance };
+    const reach = a.radius - depth / 2;
+    return { normal, depth, point: { x: a.x + normal.x * reach, y: a.y + normal.y * reach } };
+}
+
+/**
+ * Candidate separating axes: polygon edge normals, or for a circle the
+ * axis towards the closest vertex of the other shape
+ */
+function getAxes(shape: CollisionShape, other: CollisionShape): Vector2D[] {
+    if (shape.type === 'circle') {
+        const closest = other.type === 'circle' ? other : closestPoint(other.points, shape);
+        const dx = closest.x - shape.x;
+        const dy = closest.y - shape.y;
+        const length = Math.hypot(dx, dy);
+        return length === 0 ? [] : [{ x: dx / length, y: dy / length }];
+    }
+
+    const axes: Vector2D[] = [];
+    const points = shape.points;
+    for (let i = 0; i < points.length; i++) {
+        const p1 = points[i];
+        const p2 = points[(i + 1) % points.length];
+        const ex = p2.x - p1.x;
+        const ey = p2.y - p1.y;
+        const length = Math.hypot(ex, ey);
+        if (length === 0) continue;
+        axes.push({ x: -ey / length, y: ex / length });
+    }
+    return axes;
+}
+
+function closestPoint(points: Vector2D[], to: Vector2D): Vector2D {
+    let best = points[0];
+    let bestDistance = Infinity;
+    for (const p of points) {
+        const d = (p.x - to.x) ** 2 + (p.y - to.y) ** 2;
+        if (d < bestDistance) {
+            bestDistance = d;
+            best = p;
+        }
+    }
+    return best;
+}
+
+function project(shape: CollisionShape, axis: Vector2D): [number, number] {
+    if (shape.type === 'circle') {
+        const center = shape.x * axis.x + shape.y * axis.y;
+        return [center - shape.radius, center + shape.radius];
+    }
+    let min = Infinity, max = -Infinity;
+    for (const p of shape.points) {
+        const d = p.x * axis.x + p.y * axis.y;
+        min = Math.min(min, d);
+        max = Math.max(max, d);
+    }
+    return [min, max];
+}
+
+// Farthest point of the shape along a direction
+function support(shape: CollisionShape, direction: Vector2D): Vector2D {
+    if (shape.type === 'circle') {
+        return { x: shape.x + direction.x * shape.radius, y: shape.y + direction.y * shape.radius };
+    }
+    let best = shape.points[0];
+    let bestDot = -Infinity;
+    for (const p of shape.points) {
+        const d = p.x * direction.x + p.y * direction.y;
+        if (d > bestDot) {
+            bestDot = d;
+            best = p;
+        }
+    }
+    return best;
+}
@@ -0,0 +1,170 @@
+import { SpatialPartition, rectsEqual, rectsOverlap } from './SpatialPartition';
+
+// Cell coordinates are packed into one safe integer key
+const CELL_OFFSET = 2 ** 20;
+const ROW_SIZE = 2 ** 21;
+// Items covering more cells than this skip the grid and are checked on every query
+const MAX_ITEM_CELLS = 1024;
+
+interface HashEntry {
+    bounds: Rectangle;
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+    large: boolean;
+}
+
+/**
+ * Uniform grid of square cells. Items are stored in every cell their bounds
+ * touch, so queries only look at the cells the area covers. Pick a cell
+ * size around the size of a typical object.
+ */
+export class SpatialHash<T> implements SpatialPartition<T> {
+    private cells = new Map<number, Set<T>>();
+    private entries = new Map<T, HashEntry>();
+    private large = new Set<T>();
+
+    constructor(private readonly cellSize: number = 128) {
+        if (!(cellSize > 0)) {
+            throw new Error(`Cell size must be positive, got ${cellSize}`);
+        }
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    getCellSize(): number {
+        return this.cellSize;
+    }
+
+    insert(item: T, bounds: Rectangle): void {
+        const previous = this.entries.get(item);
+        if (previous && rectsEqual(previous.bounds, bounds)) return;
+
+        const entry = this.createEntry(bounds);
+        if (previous && !entry.large && !previous.large && previous.minX === entry.minX && previous.minY === entry.minY &&
+            previous.maxX === entry.maxX && previous.maxY === entry.maxY) {
+            // Same cells, only the stored bounds change
+            previous.bounds = entry.bounds;
+            return;
+        }
+
+        if (previous) this.unlink(item, previous);
+        this.entries.set(item, entry);
+        if (entry.large) {
+            this.large.add(item);
+            return;
+        }
+        for (let cx = entry.minX; cx <= entry.maxX; cx++) {
+            for (let cy = entry.minY; cy <= entry.maxY; cy++) {
+                const key = cellKey(cx, cy);
+                let cell = this.cells.get(key);
+                if (!cell) {
+                    cell = new Set();
+                    this.cells.set(key, cell);
+                }
+                cell.add(item);
+            }
+        }
+    }
+
+    remove(item: T): boolean {
+        const entry = this.entries.get(item);
+        if (!entry) return false;
+        this.unlink(item, entry);
+        this.entries.delete(item);
+        return true;
+    }
+
+    has(item: T): boolean {
+        return this.entries.has(item);
+    }
+
+    getBounds(item: T): Rectangle | undefined {
+        return this.entries.get(item)?.bounds;
+    }
+
+    query(area: Rectangle, out: T[] = []): T[] {
+        const minX = this.cellOf(area.x);
+        const minY = this.cellOf(area.y);
+        const maxX = this.cellOf(area.x + area.width);
+        const maxY = this.cellOf(area.y + area.height);
+
+        // Huge areas: checking every item is cheaper than visiting empty cells
+        if ((maxX - minX + 1) * (maxY - minY + 1) > this.cells.size) {
+            for (const [item, entry] of this.entries) {
+                if (rectsOverlap(entry.bounds, area)) out.push(item);
+            }
+            return out;
+        }
+
+        const seen = new Set<T>();
+        for (const item of this.large) {
+            seen.add(item);
+            if (rectsOverlap(this.entries.get(item)!.bounds, area)) out.push(item);
+        }
+        for (let cx = minX; cx <= maxX; cx++) {
+            for (let cy = minY; cy <= maxY; cy++) {
+                const cell = this.cells.get(cellKey(cx, cy));
+                if (!cell) continue;
+                for (const item of cell) {
+                    if (seen.has(item)) continue;
+                    seen.add(item);
+                    if (rectsOverlap(this.entries.get(item)!.bounds, area)) out.push(item);
+                }
+            }
+        }
+        return out;
+    }
+
+    clear(): void {
+        this.cells.clear();
+        this.entries.clear();
+        this.large.clear();
+    }
+
+    // Cells in use (for debugging and tuning the cell size)
+    getCellCount(): number {
+        return this.cells.size;
+    }
+
+    private createEntry(bounds: Rectangle): HashEntry {
+        const minX = this.cellOf(bounds.x);
+        const minY = this.cellOf(bounds.y);
+        const maxX = this.cellOf(bounds.x + bounds.width);
+        const maxY = this.cellOf(bounds.y + bounds.height);
+        const cells = (maxX - minX + 1) * (maxY - minY + 1);
+        return {
+            bounds: { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height },
+            minX, minY, maxX, maxY,
+            // Also catches NaN/Infinity bounds
+            large: !(cells <= MAX_ITEM_CELLS)
+        };
+    }
+
+    private unlink(item: T, entry: HashEntry): void {
+        if (entry.large) {
+            this.large.delete(item);
+            return;
+        }
+        for (let cx = entry.minX; cx <= entry.maxX; cx++) {
+            for (let cy = entry.minY; cy <= entry.maxY; cy++) {
+                const key = cellKey(cx, cy);
+                const cell = this.cells.get(key);
+                if (!cell) continue;
+                cell.delete(item);
+                if (cell.size === 0) this.cells.delete(key);
+            }
+        }
+    }
+
+    private cellOf(value: number): number {
+        return Math.floor(value / this.cellSize);
+    }
+}
+
+function cellKey(cx: number, cy: number): number {
+    return (cx + CELL_OFFSET) * ROW_SIZE + (cy + CELL_OFFSET);
+}
@@ -0,0 +1,73 @@
+/**
+ * Broad-phase structure that stores items by their axis-aligned bounds.
+ * `SpatialHash` suits many similar-sized objects over an open world;
+ * `QuadTree` suits bounded levels with uneven density or object sizes.
+ */
+export interface SpatialPartition<T> {
+    readonly size: number;
+    // Adds the item, or moves it if it is already stored
+    insert(item: T, bounds: Rectangle): void;
+    remove(item: T): boolean;
+    has(item: T): boolean;
+    getBounds(item: T): Rectangle | undefined;
+    // Items whose bounds overlap the area (touching edges count)
+    query(area: Rectangle, out?: T[]): T[];
+    clear(): void;
+}
+
+export function rectsOverlap(a: Rectangle, b: Rectangle): boolean {
+    return a.x <= b.x + b.width && b.x <= a.x + a.width &&
+        a.y <= b.y + b.height && b.y <= a.y + a.height;
+}
+
+export function rectContains(outer: Rectangle, inner: Rectangle): boolean {
+    return inner.x >= outer.x && inner.y >= outer.y &&
+        inner.x + inner.width <= outer.x + outer.width &&
+        inner.y + inner.height <= outer.y + outer.height;
+}
+
+export function rectsEqual(a: Rectangle, b: Rectangle): boolean {
+    return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+}
+
+/**
+ * Distance from a point to the closest point of a rectangle (0 inside)
+ */
+export function distanceToRect(x: number, y: number, rect: Rectangle): number {
+    const dx = Math.max(rect.x - x, 0, x - (rect.x + rect.width));
+    const dy = Math.max(rect.y - y, 0, y - (rect.y + rect.height));
+    return Math.sqrt(dx * dx + dy * dy);
+}
+
+/**
+ * Distance along a ray (direction need not be normalized, distances are in
+ * its units) to where it enters the rectangle, or null if it misses it
+ * within `maxDistance`. A ray starting inside hits at 0.
+ */
+export function rayIntersectsRect(
+    originX: number, originY: number,
+    dirX: number, dirY: number,
+    rect: Rectangle,
+    maxDistance: number = Infinity
+): number | null {
+    let tMin = 0;
+    let tMax = maxDistance;
+
+    const slabs: Array<[number, number, number, number]> = [
+        [originX, dirX, rect.x, rect.x + rect.width],
+        [originY, dirY, rect.y, rect.y + rect.height]
+    ];
+    for (const [origin, dir, min, max] of slabs) {
+        if (dir === 0) {
+            if (origin < min || origin > max) return null;
+            continue;
+        }
+        let t1 = (min - origin) / dir;
+        let t2 = (max - origin) / dir;
+        if (t1 > t2) [t1, t2] = [t2, t1];
+        tMin = Math.max(tMin, t1);
+        tMax = Math.min(tMax, t2);
+        if (tMin > tMax) return null;
+    }
+    return tMin;
+}
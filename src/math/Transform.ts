@@ -158,6 +158,68 @@ export class Transform {
         ];
     }
 
+    /**
+     * Combine two matrices from `getMatrix()`. The result applies `child`
+     * first and then `parent` (parent * child).
+     */
+    static multiplyMatrices(parent: number[], child: number[]): number[] {
+        const [a1, b1, c1, d1, e1, f1] = parent;
+        const [a2, b2, c2, d2, e2, f2] = child;
+
+        return [
+            a1 * a2 + c1 * b2,
+            b1 * a2 + d1 * b2,
+            a1 * c2 + c1 * d2,
+            b1 * c2 + d1 * d2,
+            a1 * e2 + c1 * f2 + e1,
+            b1 * e2 + d1 * f2 + f1
+        ];
+    }
+
+    /**
+     * Invert a matrix from `getMatrix()` (returns identity for degenerate matrices)
+     */
+    static invertMatrix(m: number[]): number[] {
+        const [a, b, c, d, e, f] = m;
+        const det = a * d - b * c;
+        if (det === 0) return [1, 0, 0, 1, 0, 0];
+
+        return [
+            d / det,
+            -b / det,
+            -c / det,
+            a / det,
+            (c * f - d * e) / det,
+            (b * e - a * f) / det
+        ];
+    }
+
+    /**
+     * Apply a matrix from `getMatrix()` to a point
+     */
+    static applyMatrix(m: number[], point: { x: number; y: number }): Vector2 {
+        return new Vector2(
+            m[0] * point.x + m[2] * point.y + m[4],
+            m[1] * point.x + m[3] * point.y + m[5]
+        );
+    }
+
+    /**
+     * Build a transform back from a matrix. Shear (from non-uniform scale
+     * under a rotated parent) cannot be represented and is dropped.
+     */
+    static fromMatrix(m: number[]): Transform {
+        const [a, b, c, d, e, f] = m;
+        const scaleX = Math.hypot(a, b);
+        const scaleY = scaleX === 0 ? Math.hypot(c, d) : (a * d - b * c) / scaleX;
+
+        return new Transform(
+            new Vector2(e, f),
+            Math.atan2(b, a),
+            new Vector2(scaleX, scaleY)
+        );
+    }
+
     /**
      * Check if this transform equals another transform
      */
@@ -1,3 +1,12 @@
 export { Vector2 } from './Vector2';
 export { Transform } from './Transform';
 export { MathUtils } from './MathUtils';
+export { Random, RandomService, randomService, DEFAULT_RANDOM_STREAM } from './Random';
+export type { RandomState } from './Random';
+export { SpatialHash } from './SpatialHash';
+export { QuadTree } from './QuadTree';
+export type { QuadTreeOptions } from './QuadTree';
+export { rectsOverlap, rectContains, rectsEqual, distanceToRect, rayIntersectsRect } from './SpatialPartition';
+export type { SpatialPartition } from './SpatialPartition';
+export { testShapes, getShapeBounds, getShapeCenter } from './SAT';
+export type { CollisionShape, ShapeContact } from './SAT';
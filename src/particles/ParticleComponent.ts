@@ -13,6 +13,15 @@ export interface ParticleComponent {
     texture?: string;
 }
 
+/**
+ * ECS component holding emitter definitions; the ParticleSystem attaches
+ * them the first time it sees the entity
+ */
+export interface ParticleEmitterComponent {
+    type: 'particleEmitter';
+    emitters: ParticleComponent[];
+}
+
 export const createDefaultParticleComponent = (): ParticleComponent => ({
     type: 'point',
     color: { r: 255, g: 255, b: 255, a: 1 },
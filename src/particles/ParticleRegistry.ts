@@ -113,13 +113,17 @@ export class ParticleRegistry {
         return { type: typeof v, value: v };
     }
 
-    normalizeLayerTarget(target: any): { layer?: string; layerMask?: number } {
+    /**
+     * `resolver` defaults to the registry-wide one (scene-local particle
+     * systems pass their own scene's)
+     */
+    normalizeLayerTarget(target: any, resolver: LayerResolver | undefined = this.layerResolver): { layer?: string; layerMask?: number } {
         if (target == null) return {};
         // number
         if (typeof target === 'number') return { layerMask: target };
         // string
         if (typeof target === 'string') {
-            const mask = this.layerResolver ? this.layerResolver(target) : undefined;
+            const mask = resolver ? resolver(target) : undefined;
             return { layer: target, layerMask: mask ?? 0 };
         }
         // array -> combine
@@ -130,7 +134,7 @@ export class ParticleRegistry {
                 if (typeof t === 'number') mask |= t;
                 else if (typeof t === 'string') {
                     layer = layer ?? t;
-                    const m = this.layerResolver ? this.layerResolver(t) : undefined;
+                    const m = resolver ? resolver(t) : undefined;
                     if (m) mask |= m;
                 }
             }
@@ -141,7 +145,7 @@ export class ParticleRegistry {
             const { name, bit } = target as any;
             if (typeof bit === 'number') return { layerMask: bit };
             if (typeof name === 'string') {
-                const m = this.layerResolver ? this.layerResolver(name) : undefined;
+                const m = resolver ? resolver(name) : undefined;
                 return { layer: name, layerMask: m ?? 0 };
             }
         }
@@ -1,8 +1,10 @@
 import { System } from '../ecs/System';
 import { Entity } from '../ecs/Entity';
-import { ParticleComponent } from './ParticleComponent';
-import { ParticleRegistry } from './ParticleRegistry';
+import { getWorldPosition } from '../ecs/Hierarchy';
+import { ParticleComponent, ParticleEmitterComponent } from './ParticleComponent';
+import { LayerResolver, ParticleRegistry } from './ParticleRegistry';
 import { Scene } from '../core/Scene';
+import { Random, randomService } from '../math/Random';
 
 export class ParticleSystem extends System {
     readonly requiredComponents: string[] = [];
@@ -13,20 +15,34 @@ export class ParticleSystem extends System {
     private emitters: { entityId: string; component: ParticleComponent; accumulator: number }[] = [];
 
     private pool: any[] = [];
+    // 'particleEmitter' components whose emitters were already attached
+    private attachedComponents = new WeakSet<ParticleEmitterComponent>();
+    // Layer names of this system's scene, so several scenes can coexist
+    private layerResolver: LayerResolver | undefined;
 
-    constructor() {
+    // Seeded stream so emissions are reproducible
+    private random: Random;
+
+    constructor(random: Random = randomService.stream('particles')) {
         super();
+        this.random = random;
     }
 
-    setScene(scene: Scene | undefined) {
-        if (scene) {
-            ParticleRegistry.getInstance().setLayerResolver((name: string) => scene.getLayer(name)?.bit);
-        } else {
-            ParticleRegistry.getInstance().setLayerResolver(undefined);
-        }
+    setScene(scene: Scene | null | undefined) {
+        this.layerResolver = scene ? (name: string) => scene.getLayer(name)?.bit : undefined;
+        ParticleRegistry.getInstance().setLayerResolver(this.layerResolver);
+    }
+
+    destroy(): void {
+        this.particles = [];
+        this.pool = [];
+        this.emitters = [];
+        this.attachedComponents = new WeakSet();
     }
 
     update(entities: Entity[], deltaTime: number): void {
+        this.attachComponentEmitters(entities);
+
         // update emitters (spawn particles according to emissionRate)
         for (const emitter of this.emitters) {
             const acc = emitter.accumulator + emitter.component.emissionRate * deltaTime;
@@ -40,8 +56,10 @@ export class ParticleSystem extends System {
                 if (ent) {
                     const t = ent.getComponent<any>('transform');
                     if (t && t.position) {
-                        px = t.position.x ?? 0;
-                        py = t.position.y ?? 0;
+                        // emit from the world position so attached emitters follow their parent
+                        const worldPosition = getWorldPosition(ent);
+                        px = worldPosition.x || 0;
+                        py = worldPosition.y || 0;
                     }
                 }
 
@@ -77,10 +95,20 @@ export class ParticleSystem extends System {
         this.attachEmitter(entity, comp);
     }
 
+    // Emitters declared as data on a 'particleEmitter' component (e.g. by prefabs)
+    private attachComponentEmitters(entities: Entity[]) {
+        for (const entity of entities) {
+            const comp = entity.getComponent<ParticleEmitterComponent>('particleEmitter');
+            if (!comp || this.attachedComponents.has(comp)) continue;
+            this.attachedComponents.add(comp);
+            for (const emitter of comp.emitters) this.attachEmitter(entity, emitter);
+        }
+    }
+
     private spawnParticle(x: number, y: number, comp: ParticleComponent) {
         const p = this.pool.pop() || {};
-        const angle = (Math.random() - 0.5) * comp.spread;
-        const speed = comp.speed * (0.8 + Math.random() * 0.4);
+        const angle = (this.random.next() - 0.5) * comp.spread;
+        const speed = comp.speed * this.random.range(0.8, 1.2);
         p.x = x;
         p.y = y;
         p.vx = Math.cos(angle) * speed;
@@ -92,7 +120,7 @@ export class ParticleSystem extends System {
         p.gravityY = comp.gravity?.y ?? 0;
         // Normalize and store layer information on the particle for renderer filtering
         try {
-            const norm = ParticleRegistry.getInstance().normalizeLayerTarget((comp as any).layer ?? (comp as any).layerMask);
+            const norm = ParticleRegistry.getInstance().normalizeLayerTarget((comp as any).layer ?? (comp as any).layerMask, this.layerResolver);
             p.layer = norm.layer;
             p.layerMask = norm.layerMask ?? 0;
         } catch (e) {
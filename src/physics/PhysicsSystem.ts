@@ -1,64 +1,156 @@
-import { System } from '../core/ecs/System';
-import { Entity } from '../core/ecs/Entity';
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { QueryDescriptor } from '../ecs/Query';
 import { PhysicsWorld } from './PhysicsWorld';
 import { PhysicsBody, PhysicsBodyConfig, PhysicsBodyType, PhysicsShape } from './PhysicsBody';
-import { Transform } from '../math/Transform';
 import { Vector2 } from '../math/Vector2';
-import { PhysicsBodyComponent, TransformComponent } from '../ecs/Component';
+import { PhysicsBodyComponent } from '../ecs/Component';
+import { getWorldTransform, setWorldTransform } from '../ecs/Hierarchy';
+import { clearInterpolation, recordStepTransform, skipInterpolation } from '../ecs/Interpolation';
+import { EventSystem, releaseSubscriptions } from '../core/EventSystem';
+import { WORLD_EVENTS } from '../types/event-const';
+
+// Legacy scenes still use the 'physics' component type for bodies
+const PHYSICS_QUERY = { all: ['transform'], any: ['physicsBody', 'physics'] };
+// A transform this close to its body was synced from it, not moved
+const SYNC_EPSILON = 1e-6;
 
 /**
  * PhysicsSystem manages the lifecycle of physics bodies and synchronizes 
  * transforms between Box2D and the ECS according to v0.4.0 specification
  */
 export class PhysicsSystem extends System {
-    private world!: PhysicsWorld;
+    readonly requiredComponents = ['physicsBody', 'transform'];
+    private physicsWorld!: PhysicsWorld;
     private physicsBodyMap = new Map<string, PhysicsBody>();
+    // Entities that should own a body; bodies are created once Box2D is ready
+    private bodyEntities = new Map<string, Entity>();
     private initialized = false;
 
-    constructor() {
-        super(['physicsBody', 'transform']);
-        this.initialize();
+    /**
+     * Uses the shared `PhysicsWorld` unless a world is given; pass
+     * `PhysicsWorld.create()` to give a scene its own simulation
+     */
+    constructor(physicsWorld?: PhysicsWorld | Promise<PhysicsWorld>) {
+        super();
+        this.connectWorld(physicsWorld);
+
+        // Drop the body before the entity loses its components, so nothing
+        // reads a body whose entity is gone until the next step
+        EventSystem.getInstance().on(WORLD_EVENTS.ENTITY_DESTROYED, (event) => {
+            const { entity } = event.data;
+            if (this.bodyEntities.get(entity.id) === entity) this.onEntityRemoved(entity);
+        }, { owner: this });
     }
 
-    private async initialize(): Promise<void> {
+    private async connectWorld(physicsWorld?: PhysicsWorld | Promise<PhysicsWorld>): Promise<void> {
         if (this.initialized) return;
 
-        this.world = await PhysicsWorld.getInstance();
+        this.physicsWorld = await (physicsWorld ?? PhysicsWorld.getInstance());
         this.initialized = true;
     }
 
+    getPhysicsWorld(): PhysicsWorld | null {
+        return this.physicsWorld ?? null;
+    }
+
+    /**
+     * Register an entity with a physics component; its body is created now if
+     * Box2D is ready, otherwise on the next step
+     */
     public onEntityAdded(entity: Entity): void {
-        super.onEntityAdded(entity);
+        this.bodyEntities.set(entity.id, entity);
+        this.ensureBody(entity);
+    }
 
-        const physicsComponent = entity.getComponent('physicsBody') as PhysicsBodyComponent ||
-            entity.getComponent('physics') as PhysicsBodyComponent;
+    public onEntityRemoved(entity: Entity): void {
+        this.destroyBody(entity.id);
+        this.bodyEntities.delete(entity.id);
+    }
 
-        if (physicsComponent && this.world && this.initialized) {
-            this.createPhysicsBody(entity, physicsComponent);
-        }
+    onAdded(entity: Entity): void {
+        this.onEntityAdded(entity);
     }
 
-    public onEntityRemoved(entity: Entity): void {
-        const physicsBody = this.physicsBodyMap.get(entity.getId());
-        if (physicsBody) {
-            physicsBody.destroy();
-            this.physicsBodyMap.delete(entity.getId());
+    onRemoved(entity: Entity): void {
+        this.onEntityRemoved(entity);
+    }
+
+    /**
+     * Rebuild the body when its config changed, teleport it when the
+     * transform was edited outside the simulation
+     */
+    onChanged(entity: Entity, types: string[]): void {
+        if (types.includes('physicsBody') || types.includes('physics')) {
+            this.destroyBody(entity.id);
+            this.ensureBody(entity);
+            return;
+        }
+
+        const body = this.physicsBodyMap.get(entity.id);
+        if (body && entity.hasComponent('transform') && types.includes('transform')) {
+            const transform = getWorldTransform(entity);
+            // syncTransforms marks the transforms it copies from the bodies
+            if (matchesBody(body, transform.position, transform.rotation)) return;
+            body.setPosition(transform.position);
+            body.setAngle(transform.rotation);
+            skipInterpolation(entity);
         }
-        super.onEntityRemoved(entity);
     }
 
-    public update(deltaTime: number): void {
-        if (!this.world || !this.initialized) return;
+    public update(entities: Entity[], deltaTime: number): void {
+        if (!this.physicsWorld || !this.initialized) return;
+
+        // Without a world there are no hooks, so discover bodies from the list
+        if (!this.world) this.scanEntities(entities);
+
+        for (const entity of this.bodyEntities.values()) {
+            this.ensureBody(entity);
+        }
 
         // Step the physics world with fixed timestep (according to spec)
-        this.world.step(deltaTime);
+        this.physicsWorld.step(deltaTime);
 
         // Sync transforms from physics bodies to ECS transforms
         this.syncTransforms();
     }
 
+    protected getReactiveQuery(): QueryDescriptor {
+        return PHYSICS_QUERY;
+    }
+
+    private scanEntities(entities: Entity[]): void {
+        for (const entity of entities) {
+            if (!entity.active || !entity.hasComponent('transform')) continue;
+            if (this.bodyEntities.has(entity.id)) continue;
+            if (entity.hasComponent('physicsBody') || entity.hasComponent('physics')) {
+                this.onEntityAdded(entity);
+            }
+        }
+    }
+
+    private ensureBody(entity: Entity): void {
+        if (this.physicsBodyMap.has(entity.id) || !this.physicsWorld || !this.initialized) return;
+
+        const physicsComponent = entity.getComponent<PhysicsBodyComponent>('physicsBody') ||
+            entity.getComponent<PhysicsBodyComponent>('physics');
+        if (physicsComponent) {
+            this.createPhysicsBody(entity, physicsComponent);
+        }
+    }
+
+    private destroyBody(entityId: string): void {
+        const physicsBody = this.physicsBodyMap.get(entityId);
+        if (physicsBody) {
+            physicsBody.destroy();
+            this.physicsBodyMap.delete(entityId);
+        }
+        const entity = this.bodyEntities.get(entityId);
+        if (entity) clearInterpolation(entity);
+    }
+
     private createPhysicsBody(entity: Entity, component: PhysicsBodyComponent): void {
-        const transform = entity.getComponent('transform') as TransformComponent;
+        const transform = entity.hasComponent('transform') ? getWorldTransform(entity) : null;
 
         const config: PhysicsBodyConfig = {
             type: this.mapBodyType(component.bodyType),
@@ -74,27 +166,32 @@ export class PhysicsSystem extends System {
             angle: transform ? transform.rotation : 0
         };
 
-        const physicsBody = new PhysicsBody(this.world, config);
-        this.physicsBodyMap.set(entity.getId(), physicsBody);
+        const physicsBody = new PhysicsBody(this.physicsWorld, config);
+        this.physicsBodyMap.set(entity.id, physicsBody);
 
         // Store reference to entity in the physics body for collision callbacks
-        (physicsBody as any).entityId = entity.getId();
+        (physicsBody as any).entityId = entity.id;
     }
 
     private syncTransforms(): void {
         // Update entity transforms based on physics bodies (as per spec)
         for (const [entityId, physicsBody] of this.physicsBodyMap) {
-            const entity = this.getEntityById(entityId);
+            const entity = this.bodyEntities.get(entityId);
             if (!entity) continue;
 
-            const transform = entity.getComponent('transform') as Transform;
-            if (!transform) continue;
-
             const physicsTransform = physicsBody.getTransform();
 
-            // Sync position and rotation from physics to ECS transform
-            transform.position.copy(physicsTransform.position);
-            transform.rotation = physicsTransform.rotation;
+            // Bodies live in world space; convert back into the parent's space
+            setWorldTransform(entity, physicsTransform.position, physicsTransform.rotation);
+
+            // Keep the last two steps so the RenderSystem can blend between them
+            const component = entity.getComponent<PhysicsBodyComponent>('physicsBody') ||
+                entity.getComponent<PhysicsBodyComponent>('physics');
+            if (component?.interpolate === false) {
+                clearInterpolation(entity);
+            } else {
+                recordStepTransform(entity, physicsTransform.position, physicsTransform.rotation);
+            }
         }
     }
 
@@ -115,16 +212,6 @@ export class PhysicsSystem extends System {
         }
     }
 
-    private getEntityById(entityId: string): Entity | undefined {
-        // Find entity in the system's entities set
-        for (const entity of this.entities) {
-            if (entity.getId() === entityId) {
-                return entity;
-            }
-        }
-        return undefined;
-    }
-
     /**
      * API methods for applying forces and impulses (as per spec)
      */
@@ -149,6 +236,21 @@ export class PhysicsSystem extends System {
         }
     }
 
+    /**
+     * Move a body instantly (world space). The sprite jumps there instead of
+     * being interpolated from the old position.
+     */
+    public teleport(entityId: string, position: Vector2, angle?: number): void {
+        const body = this.physicsBodyMap.get(entityId);
+        const entity = this.bodyEntities.get(entityId);
+        if (!body || !entity) return;
+
+        body.setPosition(position);
+        if (angle !== undefined) body.setAngle(angle);
+        setWorldTransform(entity, position, angle);
+        skipInterpolation(entity);
+    }
+
     public getVelocity(entityId: string): Vector2 | null {
         const body = this.physicsBodyMap.get(entityId);
         return body ? body.getVelocity() : null;
@@ -159,17 +261,29 @@ export class PhysicsSystem extends System {
     }
 
     public destroy(): void {
+        releaseSubscriptions(this);
+
         // Clean up all physics bodies
         for (const physicsBody of this.physicsBodyMap.values()) {
             physicsBody.destroy();
         }
+        for (const entity of this.bodyEntities.values()) {
+            clearInterpolation(entity);
+        }
         this.physicsBodyMap.clear();
+        this.bodyEntities.clear();
 
-        // Destroy the physics world
-        if (this.world) {
-            this.world.destroy();
+        // Destroy the physics world unless other systems share it
+        if (this.physicsWorld && !this.physicsWorld.isShared()) {
+            this.physicsWorld.destroy();
         }
 
         this.initialized = false;
     }
 }
+
+function matchesBody(body: PhysicsBody, position: Vector2, rotation: number): boolean {
+    const turn = body.getAngle() - rotation;
+    return body.getPosition().equals(position, SYNC_EPSILON) &&
+        Math.abs(Math.sin(turn)) < SYNC_EPSILON && Math.cos(turn) > 0;
+}
@@ -20,6 +20,8 @@ export type PhysicsCollisionEvent = {
 };
 
 let _box2dFactory: (() => Promise<any>) | null = null;
+// One wasm module is shared by every PhysicsWorld
+let _box2dModule: Promise<any> | null = null;
 
 async function LoadBox2DFactory(): Promise<(() => Promise<any>) | null> {
     if (_box2dFactory !== null) return _box2dFactory;
@@ -113,6 +115,21 @@ export class PhysicsWorld {
         return PhysicsWorld.instance;
     }
 
+    /**
+     * Independent world (its own bodies, gravity and contacts), e.g. one per scene
+     */
+    public static async create(): Promise<PhysicsWorld> {
+        const world = new PhysicsWorld();
+        await world.initialize();
+        return world;
+    }
+
+    /**
+     * The world returned by `getInstance()`
+     */
+    public isShared(): boolean {
+        return PhysicsWorld.instance === this;
+    }
 
     private async initialize(): Promise<void> {
         try {
@@ -123,7 +140,11 @@ export class PhysicsWorld {
                 return;
             }
 
-            this.box2D = await factory();
+            _box2dModule ??= factory().catch((err) => {
+                _box2dModule = null;
+                throw err;
+            });
+            this.box2D = await _box2dModule;
             if (!this.box2D?.b2World) {
                 console.warn("PhysicsWorld: Box2D module shape unexpected, running in fallback mode");
                 this.box2D = undefined;
@@ -475,9 +496,14 @@ export class PhysicsWorld {
         }
 
         return results;
-    } public destroy(): void {
+    }
+
+    public destroy(): void {
         if (this.world) {
             (this.world as any).delete?.();
+            this.world = undefined;
         }
+        this.joints.clear();
+        this.bodies.clear();
     }
 }
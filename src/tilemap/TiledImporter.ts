@@ -0,0 +1,413 @@
+import { AssetLoader } from '../assets/AssetLoader';
+import { AssetManager } from '../assets/AssetManager';
+import { SpriteSheet, SpriteFrame } from '../graphics/SpriteSheet';
+import { Texture } from '../graphics/Texture';
+import { ObjectLayer, TiledObject, TileLayer, TileProperties, Tilemap, Tileset, TilesetTile } from './Tilemap';
+
+export interface TiledImportOptions {
+    // Textures or ready-made sheets for the tilesets, by tileset name
+    tilesets?: Record<string, SpriteSheet | Texture>;
+    // External tilesets (.tsj data or .tsx text) by their `source` path
+    externalTilesets?: Record<string, any>;
+}
+
+export interface TiledLoadOptions extends TiledImportOptions {
+    // Used to load the tileset images (defaults to the global AssetManager)
+    assets?: AssetManager;
+}
+
+/**
+ * Build a Tilemap from a map exported as Tiled JSON (.tmj/.json).
+ * Supports orthogonal maps, finite and infinite tile layers (CSV or
+ * uncompressed Base64), object layers, groups, custom properties and
+ * animated tiles.
+ */
+export function parseTiledJSON(data: any, options: TiledImportOptions = {}): Tilemap {
+    if (data.orientation && data.orientation !== 'orthogonal') {
+        throw new Error(`Only orthogonal Tiled maps are supported, got '${data.orientation}'`);
+    }
+
+    const map = new Tilemap(data.tilewidth, data.tileheight, data.width ?? 0, data.height ?? 0);
+    map.properties = readProperties(data.properties);
+
+    for (const entry of data.tilesets ?? []) {
+        let source = entry;
+        if (entry.source) {
+            const external = options.externalTilesets?.[entry.source];
+            if (external === undefined) {
+                throw new Error(`External tileset '${entry.source}' was not provided`);
+            }
+            source = typeof external === 'string' ? parseTSX(external) : external;
+        }
+        const tileset = map.addTileset(readTileset(source, entry.firstgid));
+        const image = options.tilesets?.[tileset.name];
+        if (image) attachTilesetImage(tileset, image);
+    }
+
+    readLayers(map, data.layers ?? [], { offsetX: 0, offsetY: 0, opacity: 1, visible: true });
+    return map;
+}
+
+/**
+ * Build a Tilemap from a map exported as Tiled XML (.tmx)
+ */
+export function parseTMX(xml: string, options: TiledImportOptions = {}): Tilemap {
+    return parseTiledJSON(tmxToJSON(parseXML(xml)), options);
+}
+
+/**
+ * Load a .tmx or .json map, its external tilesets and tileset images.
+ * Paths inside the map are resolved relative to it.
+ */
+export async function loadTiledMap(path: string, options: TiledLoadOptions = {}): Promise<Tilemap> {
+    const loader = AssetLoader.getInstance();
+    const text = await loader.loadText(path);
+    const data = text.trimStart().startsWith('<') ? tmxToJSON(parseXML(text)) : JSON.parse(text);
+
+    const externalTilesets = { ...options.externalTilesets };
+    for (const entry of data.tilesets ?? []) {
+        if (!entry.source || externalTilesets[entry.source] !== undefined) continue;
+        const source = await loader.loadText(resolvePath(path, entry.source));
+        const parsed = source.trimStart().startsWith('<') ? parseTSX(source) : JSON.parse(source);
+        // Images of external tilesets are relative to the tileset file
+        if (parsed.image) parsed.image = resolvePath(entry.source, parsed.image);
+        externalTilesets[entry.source] = parsed;
+    }
+
+    const map = parseTiledJSON(data, { ...options, externalTilesets });
+    const assets = options.assets ?? AssetManager.getInstance();
+    for (const tileset of map.tilesets) {
+        if (tileset.sheet || !tileset.image) continue;
+        const imagePath = resolvePath(path, tileset.image);
+        attachTilesetImage(tileset, await assets.loadTexture(imagePath, imagePath));
+    }
+    return map;
+}
+
+/**
+ * Give a tileset its image: a SpriteSheet is used as is, a Texture is cut
+ * into frames following the tileset grid (margin and spacing included)
+ */
+export function attachTilesetImage(tileset: Tileset, image: SpriteSheet | Texture): void {
+    if (image instanceof SpriteSheet) {
+        tileset.sheet = image;
+        if (!tileset.tileCount) tileset.tileCount = image.getFrameCount();
+        return;
+    }
+
+    const stride = tileset.tileWidth + tileset.spacing;
+    const columns = tileset.columns ||
+        Math.max(1, Math.floor((image.width - tileset.margin * 2 + tileset.spacing) / stride));
+    const rows = Math.floor((image.height - tileset.margin * 2 + tileset.spacing) / (tileset.tileHeight + tileset.spacing));
+    const count = tileset.tileCount || columns * rows;
+    const frames: SpriteFrame[] = [];
+    for (let i = 0; i < count; i++) {
+        frames.push({
+            x: tileset.margin + (i % columns) * stride,
+            y: tileset.margin + Math.floor(i / columns) * (tileset.tileHeight + tileset.spacing),
+            width: tileset.tileWidth,
+            height: tileset.tileHeight
+        });
+    }
+    tileset.columns = columns;
+    tileset.tileCount = count;
+    tileset.sheet = SpriteSheet.fromFrames(image, frames);
+}
+
+function readTileset(data: any, firstGid: number): Partial<Tileset> & { name: string } {
+    const tiles = new Map<number, TilesetTile>();
+    for (const tile of data.tiles ?? []) {
+        tiles.set(tile.id, {
+            properties: readProperties(tile.properties),
+            animation: tile.animation?.map((frame: any) => ({ tileId: frame.tileid, duration: frame.duration / 1000 }))
+        });
+    }
+    return {
+        name: data.name ?? '',
+        firstGid,
+        tileWidth: data.tilewidth,
+        tileHeight: data.tileheight,
+        tileCount: data.tilecount ?? 0,
+        columns: data.columns ?? 0,
+        margin: data.margin ?? 0,
+        spacing: data.spacing ?? 0,
+        image: data.image,
+        imageWidth: data.imagewidth,
+        imageHeight: data.imageheight,
+        properties: readProperties(data.properties),
+        tiles
+    };
+}
+
+interface LayerContext {
+    offsetX: number;
+    offsetY: number;
+    opacity: number;
+    visible: boolean;
+}
+
+// Groups are flattened: their offsets, opacity and visibility apply to the layers inside
+function readLayers(map: Tilemap, layers: any[], parent: LayerContext): void {
+    for (const data of layers) {
+        const context: LayerContext = {
+            offsetX: parent.offsetX + (data.offsetx ?? 0),
+            offsetY: parent.offsetY + (data.offsety ?? 0),
+            opacity: parent.opacity * (data.opacity ?? 1),
+            visible: parent.visible && data.visible !== false
+        };
+
+        if (data.type === 'group') {
+            readLayers(map, data.layers ?? [], context);
+        } else if (data.type === 'tilelayer') {
+            readTileLayer(map.addLayer(data.name ?? ''), data, context);
+        } else if (data.type === 'objectgroup') {
+            map.objectLayers.push(readObjectLayer(data, context));
+        }
+    }
+}
+
+function readTileLayer(layer: TileLayer, data: any, context: LayerContext): void {
+    layer.visible = context.visible;
+    layer.opacity = context.opacity;
+    layer.offsetX = context.offsetX;
+    layer.offsetY = context.offsetY;
+    layer.properties = readProperties(data.properties);
+
+    if (data.chunks) {
+        for (const chunk of data.chunks) {
+            layer.setTiles(chunk.x, chunk.y, chunk.width, decodeTileData(chunk.data, data.encoding, data.compression));
+        }
+    } else if (data.data !== undefined) {
+        layer.setTiles(data.x ?? 0, data.y ?? 0, data.width, decodeTileData(data.data, data.encoding, data.compression));
+    }
+}
+
+function readObjectLayer(data: any, context: LayerContext): ObjectLayer {
+    return {
+        name: data.name ?? '',
+        visible: context.visible,
+        opacity: context.opacity,
+        offsetX: context.offsetX,
+        offsetY: context.offsetY,
+        properties: readProperties(data.properties),
+        objects: (data.objects ?? []).map((object: any): TiledObject => ({
+            id: object.id,
+            name: object.name ?? '',
+            type: object.class ?? object.type ?? '',
+            x: object.x ?? 0,
+            y: object.y ?? 0,
+            width: object.width ?? 0,
+            height: object.height ?? 0,
+            rotation: object.rotation ?? 0,
+            visible: object.visible !== false,
+            ...(object.gid !== undefined ? { gid: object.gid >>> 0 } : {}),
+            ...(object.point ? { point: true } : {}),
+            ...(object.ellipse ? { ellipse: true } : {}),
+            ...(object.polygon ? { polygon: object.polygon } : {}),
+            ...(object.polyline ? { polyline: object.polyline } : {}),
+            ...(object.text ? { text: typeof object.text === 'string' ? object.text : object.text.text } : {}),
+            properties: readProperties(object.properties)
+        }))
+    };
+}
+
+function decodeTileData(data: number[] | string, encoding?: string, compression?: string): ArrayLike<number> {
+    if (compression) {
+        throw new Error(`Compressed tile layer data (${compression}) is not supported; export with CSV or uncompressed Base64`);
+    }
+    if (Array.isArray(data)) return data;
+    if (encoding === 'csv') return data.split(',').map(value => Number(value.trim()) >>> 0);
+
+    // Base64: little-endian 32-bit gids
+    const binary = atob(data.trim());
+    const gids = new Uint32Array(binary.length / 4);
+    for (let i = 0; i < gids.length; i++) {
+        gids[i] = (binary.charCodeAt(i * 4) |
+            (binary.charCodeAt(i * 4 + 1) << 8) |
+            (binary.charCodeAt(i * 4 + 2) << 16) |
+            (binary.charCodeAt(i * 4 + 3) << 24)) >>> 0;
+    }
+    return gids;
+}
+
+/**
+ * Tiled properties (`[{ name, type, value }]`) as a plain object
+ */
+function readProperties(properties: any): TileProperties {
+    if (!Array.isArray(properties)) return properties ?? {};
+    const result: TileProperties = {};
+    for (const property of properties) {
+        result[property.name] = property.value;
+    }
+    return result;
+}
+
+// ===== TMX / TSX =====
+
+function parseXML(xml: string): Element {
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    const error = document.getElementsByTagName('parsererror')[0];
+    if (error) {
+        throw new Error(`Invalid Tiled XML: ${error.textContent}`);
+    }
+    return document.documentElement;
+}
+
+/**
+ * External tileset (.tsx) in the same shape as Tiled JSON
+ */
+function parseTSX(xml: string): any {
+    return tilesetToJSON(parseXML(xml));
+}
+
+function tmxToJSON(root: Element): any {
+    return {
+        orientation: root.getAttribute('orientation') ?? 'orthogonal',
+        width: num(root, 'width'),
+        height: num(root, 'height'),
+        tilewidth: num(root, 'tilewidth'),
+        tileheight: num(root, 'tileheight'),
+        infinite: root.getAttribute('infinite') === '1',
+        properties: propertiesToJSON(root),
+        tilesets: children(root, 'tileset').map(element => element.hasAttribute('source')
+            ? { firstgid: num(element, 'firstgid'), source: element.getAttribute('source') }
+            : { ...tilesetToJSON(element), firstgid: num(element, 'firstgid') }),
+        layers: layersToJSON(root)
+    };
+}
+
+function tilesetToJSON(element: Element): any {
+    const image = children(element, 'image')[0];
+    return {
+        name: element.getAttribute('name') ?? '',
+        tilewidth: num(element, 'tilewidth'),
+        tileheight: num(element, 'tileheight'),
+        tilecount: num(element, 'tilecount') ?? 0,
+        columns: num(element, 'columns') ?? 0,
+        margin: num(element, 'margin') ?? 0,
+        spacing: num(element, 'spacing') ?? 0,
+        image: image?.getAttribute('source') ?? undefined,
+        imagewidth: image ? num(image, 'width') : undefined,
+        imageheight: image ? num(image, 'height') : undefined,
+        properties: propertiesToJSON(element),
+        tiles: children(element, 'tile').map(tile => {
+            const animation = children(tile, 'animation')[0];
+            return {
+                id: num(tile, 'id'),
+                properties: propertiesToJSON(tile),
+                ...(animation ? {
+                    animation: children(animation, 'frame').map(frame => ({ tileid: num(frame, 'tileid'), duration: num(frame, 'duration') }))
+                } : {})
+            };
+        })
+    };
+}
+
+function layersToJSON(parent: Element): any[] {
+    const layers: any[] = [];
+    for (const element of Array.from(parent.children)) {
+        const common = {
+            name: element.getAttribute('name') ?? '',
+            visible: element.getAttribute('visible') !== '0',
+            opacity: num(element, 'opacity') ?? 1,
+            offsetx: num(element, 'offsetx') ?? 0,
+            offsety: num(element, 'offsety') ?? 0,
+            properties: propertiesToJSON(element)
+        };
+
+        if (element.tagName === 'layer') {
+            const data = children(element, 'data')[0];
+            const encoding = data?.getAttribute('encoding') ?? undefined;
+            const compression = data?.getAttribute('compression') ?? undefined;
+            const chunks = data ? children(data, 'chunk') : [];
+            layers.push({
+                ...common,
+                type: 'tilelayer',
+                width: num(element, 'width'),
+                height: num(element, 'height'),
+                encoding: encoding ?? 'csv',
+                compression,
+                ...(chunks.length > 0
+                    ? { chunks: chunks.map(chunk => ({ x: num(chunk, 'x'), y: num(chunk, 'y'), width: num(chunk, 'width'), height: num(chunk, 'height'), data: tileDataToJSON(chunk, encoding) })) }
+                    : { data: data ? tileDataToJSON(data, encoding) : [] })
+            });
+        } else if (element.tagName === 'objectgroup') {
+            layers.push({ ...common, type: 'objectgroup', objects: children(element, 'object').map(objectToJSON) });
+        } else if (element.tagName === 'group') {
+            layers.push({ ...common, type: 'group', layers: layersToJSON(element) });
+        }
+    }
+    return layers;
+}
+
+function tileDataToJSON(element: Element, encoding: string | undefined): number[] | string {
+    if (encoding) return element.textContent ?? '';
+    // Old XML format: one <tile gid="..."/> per cell
+    return children(element, 'tile').map(tile => (num(tile, 'gid') ?? 0) >>> 0);
+}
+
+function objectToJSON(element: Element): any {
+    const polygon = children(element, 'polygon')[0] ?? null;
+    const polyline = children(element, 'polyline')[0] ?? null;
+    const text = children(element, 'text')[0] ?? null;
+    return {
+        id: num(element, 'id'),
+        name: element.getAttribute('name') ?? '',
+        type: element.getAttribute('class') ?? element.getAttribute('type') ?? '',
+        x: num(element, 'x') ?? 0,
+        y: num(element, 'y') ?? 0,
+        width: num(element, 'width') ?? 0,
+        height: num(element, 'height') ?? 0,
+        rotation: num(element, 'rotation') ?? 0,
+        visible: element.getAttribute('visible') !== '0',
+        gid: num(element, 'gid'),
+        point: children(element, 'point').length > 0,
+        ellipse: children(element, 'ellipse').length > 0,
+        polygon: polygon ? readPoints(polygon) : undefined,
+        polyline: polyline ? readPoints(polyline) : undefined,
+        text: text?.textContent ?? undefined,
+        properties: propertiesToJSON(element)
+    };
+}
+
+function propertiesToJSON(element: Element): Array<{ name: string; type: string; value: any }> {
+    const properties = children(element, 'properties')[0];
+    if (!properties) return [];
+    return children(properties, 'property').map(property => {
+        const type = property.getAttribute('type') ?? 'string';
+        // Multi-line strings are stored as the element text
+        const raw = property.getAttribute('value') ?? property.textContent ?? '';
+        let value: any = raw;
+        if (type === 'int' || type === 'float' || type === 'object') value = Number(raw);
+        else if (type === 'bool') value = raw === 'true';
+        return { name: property.getAttribute('name') ?? '', type, value };
+    });
+}
+
+function readPoints(element: Element): Vector2D[] {
+    return (element.getAttribute('points') ?? '').trim().split(/\s+/).filter(Boolean).map(pair => {
+        const [x, y] = pair.split(',').map(Number);
+        return { x, y };
+    });
+}
+
+function children(element: Element, tag: string): Element[] {
+    return Array.from(element.children).filter(child => child.tagName === tag);
+}
+
+function num(element: Element, attribute: string): number | undefined {
+    const value = element.getAttribute(attribute);
+    return value === null ? undefined : Number(value);
+}
+
+function resolvePath(base: string, relative: string): string {
+    if (/^([a-z]+:)?\//i.test(relative)) return relative;
+    const slash = base.lastIndexOf('/');
+    const parts = (slash >= 0 ? base.slice(0, slash + 1) + relative : relative).split('/');
+    const resolved: string[] = [];
+    for (const part of parts) {
+        if (part === '..' && resolved.length > 0 && resolved[resolved.length - 1] !== '..') resolved.pop();
+        else if (part !== '.') resolved.push(part);
+    }
+    return resolved.join('/');
+}
@@ -0,0 +1,115 @@
+import { Entity } from '../ecs/Entity';
+import { Component } from '../ecs/Component';
+import { setParent } from '../ecs/Hierarchy';
+import { Vector2 } from '../math/Vector2';
+import { PrefabRegistry, PrefabTarget, prefabRegistry } from '../core/Prefab';
+import { TiledObject, TileProperties, Tilemap } from './Tilemap';
+
+/**
+ * Data of the Tiled object an entity was created from
+ */
+export interface TiledObjectComponent extends Component {
+    type: 'tiledObject';
+    objectId: number;
+    objectType: string;
+    layer: string;
+    width: number;
+    height: number;
+    shape: 'rectangle' | 'ellipse' | 'point' | 'polygon' | 'polyline' | 'tile' | 'text';
+    // Relative to the object position (polygon / polyline)
+    points?: Vector2D[];
+    gid?: number;
+    properties: TileProperties;
+}
+
+export interface TiledObjectOptions {
+    // Object layers to read (all by default)
+    layers?: string[];
+    // Objects whose type (class) names a prefab are instantiated from it
+    prefabs?: PrefabRegistry;
+    // Entities become children of this entity (usually the map entity), so
+    // positions stay in map pixels
+    parent?: Entity;
+}
+
+/**
+ * Create one entity per visible object of the map's object layers. The
+ * transform sits at the object centre; name, type (as a tag) and custom
+ * properties are kept in a `tiledObject` component.
+ */
+export function createObjectEntities(map: Tilemap, target: PrefabTarget, options: TiledObjectOptions = {}): Entity[] {
+    const prefabs = options.prefabs ?? prefabRegistry;
+    const entities: Entity[] = [];
+
+    for (const layer of map.objectLayers) {
+        if (!layer.visible) continue;
+        if (options.layers && !options.layers.includes(layer.name)) continue;
+
+        for (const object of layer.objects) {
+            if (!object.visible) continue;
+            const center = getObjectCenter(object);
+            const position = { x: center.x + layer.offsetX, y: center.y + layer.offsetY };
+            const rotation = object.rotation * Math.PI / 180;
+
+            let entity: Entity;
+            if (object.type && prefabs.has(object.type)) {
+                entity = prefabs.instantiate(object.type, target, {
+                    position,
+                    rotation,
+                    ...(object.name ? { name: object.name } : {})
+                });
+            } else {
+                entity = new Entity();
+                entity.addComponent({ type: 'transform', position: new Vector2(position.x, position.y), rotation, scale: new Vector2(1, 1) });
+                if (object.name) entity.setName(object.name);
+                if (object.type) entity.addTag(object.type);
+                target.addEntity(entity);
+            }
+
+            const component: TiledObjectComponent = {
+                type: 'tiledObject',
+                objectId: object.id,
+                objectType: object.type,
+                layer: layer.name,
+                width: object.width,
+                height: object.height,
+                shape: getObjectShape(object),
+                properties: { ...layer.properties, ...object.properties }
+            };
+            const points = object.polygon ?? object.polyline;
+            if (points) component.points = points.map(p => ({ x: p.x, y: p.y }));
+            if (object.gid !== undefined) component.gid = object.gid;
+            entity.addComponent(component);
+
+            if (options.parent) setParent(entity, options.parent);
+            entities.push(entity);
+        }
+    }
+    return entities;
+}
+
+function getObjectShape(object: TiledObject): TiledObjectComponent['shape'] {
+    if (object.gid !== undefined) return 'tile';
+    if (object.point) return 'point';
+    if (object.ellipse) return 'ellipse';
+    if (object.polygon) return 'polygon';
+    if (object.polyline) return 'polyline';
+    if (object.text !== undefined) return 'text';
+    return 'rectangle';
+}
+
+/**
+ * Tiled rotates objects around their origin: the top-left corner, or the
+ * bottom-left corner for tile objects
+ */
+function getObjectCenter(object: TiledObject): Vector2D {
+    const halfWidth = object.width / 2;
+    const halfHeight = object.gid !== undefined ? -object.height / 2 : object.height / 2;
+    const angle = object.rotation * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return {
+        x: object.x + halfWidth * cos - halfHeight * sin,
+        y: object.y + halfWidth * sin + halfHeight * cos
+    };
+}
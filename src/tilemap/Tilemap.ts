@@ -0,0 +1,299 @@
+import type { SpriteSheet } from '../graphics/SpriteSheet';
+
+// Tiled stores flip flags in the high bits of each global tile id (gid)
+export const TILE_FLIP_HORIZONTAL = 0x80000000;
+export const TILE_FLIP_VERTICAL = 0x40000000;
+export const TILE_FLIP_DIAGONAL = 0x20000000;
+export const TILE_GID_MASK = 0x1FFFFFFF;
+
+// Tile layers are stored in square chunks of this many tiles per side
+export const TILEMAP_CHUNK_SIZE = 16;
+
+// Chunk coordinates are packed into one safe integer key (as in SpatialHash)
+const CHUNK_OFFSET = 2 ** 20;
+const CHUNK_ROW = 2 ** 21;
+
+export type TileProperties = Record<string, any>;
+
+export interface TileAnimationFrame {
+    // Local id of the tile shown (inside the same tileset)
+    tileId: number;
+    // Seconds
+    duration: number;
+}
+
+export interface TilesetTile {
+    properties: TileProperties;
+    animation?: TileAnimationFrame[];
+}
+
+export interface Tileset {
+    name: string;
+    firstGid: number;
+    tileWidth: number;
+    tileHeight: number;
+    tileCount: number;
+    columns: number;
+    margin: number;
+    spacing: number;
+    // Image path as written in the map (relative to it)
+    image?: string;
+    imageWidth?: number;
+    imageHeight?: number;
+    // Frames in local tile id order; tiles are not drawn until it is set
+    sheet: SpriteSheet | null;
+    properties: TileProperties;
+    // Per-tile data (properties, animations) by local id
+    tiles: Map<number, TilesetTile>;
+}
+
+export interface TiledObject {
+    id: number;
+    name: string;
+    // Tiled "class" (or "type" before 1.9)
+    type: string;
+    // Top-left corner in map pixels (bottom-left for tile objects, as in Tiled)
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    // Degrees, clockwise
+    rotation: number;
+    visible: boolean;
+    gid?: number;
+    point?: boolean;
+    ellipse?: boolean;
+    polygon?: Vector2D[];
+    polyline?: Vector2D[];
+    text?: string;
+    properties: TileProperties;
+}
+
+export interface ObjectLayer {
+    name: string;
+    visible: boolean;
+    opacity: number;
+    offsetX: number;
+    offsetY: number;
+    properties: TileProperties;
+    objects: TiledObject[];
+}
+
+/**
+ * One layer of tiles stored in chunks, so large (or infinite) maps only keep
+ * the areas that have tiles. Values are raw gids: 0 is empty and the high
+ * bits hold the flip flags.
+ */
+export class TileLayer {
+    public visible = true;
+    public opacity = 1;
+    public offsetX = 0;
+    public offsetY = 0;
+    public properties: TileProperties = {};
+    private chunks = new Map<number, Uint32Array>();
+
+    constructor(public readonly name: string) { }
+
+    getTile(x: number, y: number): number {
+        const chunk = this.chunks.get(chunkKey(Math.floor(x / TILEMAP_CHUNK_SIZE), Math.floor(y / TILEMAP_CHUNK_SIZE)));
+        return chunk ? chunk[tileIndex(x, y)] : 0;
+    }
+
+    setTile(x: number, y: number, gid: number): void {
+        const key = chunkKey(Math.floor(x / TILEMAP_CHUNK_SIZE), Math.floor(y / TILEMAP_CHUNK_SIZE));
+        let chunk = this.chunks.get(key);
+        if (!chunk) {
+            if (gid === 0) return;
+            chunk = new Uint32Array(TILEMAP_CHUNK_SIZE * TILEMAP_CHUNK_SIZE);
+            this.chunks.set(key, chunk);
+        }
+        chunk[tileIndex(x, y)] = gid >>> 0;
+    }
+
+    /**
+     * Fill a rectangle of tiles from row-major gids (Tiled layer or chunk data)
+     */
+    setTiles(x: number, y: number, width: number, gids: ArrayLike<number>): void {
+        for (let i = 0; i < gids.length; i++) {
+            if (gids[i] !== 0) this.setTile(x + (i % width), y + Math.floor(i / width), gids[i]);
+        }
+    }
+
+    /**
+     * Visit the non-empty tiles inside a tile rectangle (inclusive bounds),
+     * chunk by chunk
+     */
+    forEachTile(minX: number, minY: number, maxX: number, maxY: number, callback: (x: number, y: number, gid: number) => void): void {
+        const minCX = Math.floor(minX / TILEMAP_CHUNK_SIZE);
+        const minCY = Math.floor(minY / TILEMAP_CHUNK_SIZE);
+        const maxCX = Math.floor(maxX / TILEMAP_CHUNK_SIZE);
+        const maxCY = Math.floor(maxY / TILEMAP_CHUNK_SIZE);
+
+        for (let cy = minCY; cy <= maxCY; cy++) {
+            for (let cx = minCX; cx <= maxCX; cx++) {
+                const chunk = this.chunks.get(chunkKey(cx, cy));
+                if (!chunk) continue;
+                const startX = Math.max(minX, cx * TILEMAP_CHUNK_SIZE);
+                const startY = Math.max(minY, cy * TILEMAP_CHUNK_SIZE);
+                const endX = Math.min(maxX, cx * TILEMAP_CHUNK_SIZE + TILEMAP_CHUNK_SIZE - 1);
+                const endY = Math.min(maxY, cy * TILEMAP_CHUNK_SIZE + TILEMAP_CHUNK_SIZE - 1);
+                for (let y = startY; y <= endY; y++) {
+                    for (let x = startX; x <= endX; x++) {
+                        const gid = chunk[tileIndex(x, y)];
+                        if (gid !== 0) callback(x, y, gid);
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Tile rectangle covered by the stored chunks, or null when empty
+     */
+    getTileBounds(): { minX: number; minY: number; maxX: number; maxY: number } | null {
+        if (this.chunks.size === 0) return null;
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        for (const key of this.chunks.keys()) {
+            const cx = Math.floor(key / CHUNK_ROW) - CHUNK_OFFSET;
+            const cy = (key % CHUNK_ROW) - CHUNK_OFFSET;
+            minX = Math.min(minX, cx * TILEMAP_CHUNK_SIZE);
+            minY = Math.min(minY, cy * TILEMAP_CHUNK_SIZE);
+            maxX = Math.max(maxX, cx * TILEMAP_CHUNK_SIZE + TILEMAP_CHUNK_SIZE - 1);
+            maxY = Math.max(maxY, cy * TILEMAP_CHUNK_SIZE + TILEMAP_CHUNK_SIZE - 1);
+        }
+        return { minX, minY, maxX, maxY };
+    }
+
+    getChunkCount(): number {
+        return this.chunks.size;
+    }
+
+    clear(): void {
+        this.chunks.clear();
+    }
+}
+
+/**
+ * Orthogonal tile map: tile layers, object layers and the tilesets their
+ * gids refer to. Built by hand or by the Tiled importer.
+ */
+export class Tilemap {
+    public properties: TileProperties = {};
+    public readonly layers: TileLayer[] = [];
+    public readonly objectLayers: ObjectLayer[] = [];
+    public readonly tilesets: Tileset[] = [];
+
+    constructor(
+        public readonly tileWidth: number,
+        public readonly tileHeight: number,
+        // Size in tiles (informative for infinite maps)
+        public width: number = 0,
+        public height: number = 0
+    ) {
+        if (!(tileWidth > 0 && tileHeight > 0)) {
+            throw new Error(`Tile size must be positive, got ${tileWidth}x${tileHeight}`);
+        }
+    }
+
+    addLayer(name: string): TileLayer {
+        const layer = new TileLayer(name);
+        this.layers.push(layer);
+        return layer;
+    }
+
+    getLayer(name: string): TileLayer | undefined {
+        return this.layers.find(layer => layer.name === name);
+    }
+
+    getObjectLayer(name: string): ObjectLayer | undefined {
+        return this.objectLayers.find(layer => layer.name === name);
+    }
+
+    /**
+     * Add a tileset. `firstGid` defaults to the first id after the last tileset.
+     */
+    addTileset(tileset: Partial<Tileset> & { name: string }): Tileset {
+        const last = this.tilesets[this.tilesets.length - 1];
+        const entry: Tileset = {
+            firstGid: last ? last.firstGid + last.tileCount : 1,
+            tileWidth: this.tileWidth,
+            tileHeight: this.tileHeight,
+            tileCount: tileset.sheet?.getFrameCount() ?? 0,
+            columns: 0,
+            margin: 0,
+            spacing: 0,
+            sheet: null,
+            properties: {},
+            tiles: new Map(),
+            ...tileset
+        };
+        this.tilesets.push(entry);
+        this.tilesets.sort((a, b) => a.firstGid - b.firstGid);
+        return entry;
+    }
+
+    getTileset(name: string): Tileset | undefined {
+        return this.tilesets.find(tileset => tileset.name === name);
+    }
+
+    /**
+     * Tileset a gid belongs to (flip flags are ignored)
+     */
+    getTilesetForGid(gid: number): Tileset | undefined {
+        const id = gid & TILE_GID_MASK;
+        if (id === 0) return undefined;
+        for (let i = this.tilesets.length - 1; i >= 0; i--) {
+            if (this.tilesets[i].firstGid <= id) return this.tilesets[i];
+        }
+        return undefined;
+    }
+
+    /**
+     * Custom properties of a tile (from its tileset), empty when it has none
+     */
+    getTileProperties(gid: number): TileProperties {
+        const tileset = this.getTilesetForGid(gid);
+        if (!tileset) return {};
+        return tileset.tiles.get((gid & TILE_GID_MASK) - tileset.firstGid)?.properties ?? {};
+    }
+
+    /**
+     * Gid shown at `time` seconds for a possibly animated tile, keeping its
+     * flip flags
+     */
+    getAnimatedGid(gid: number, time: number): number {
+        const tileset = this.getTilesetForGid(gid);
+        const animation = tileset?.tiles.get((gid & TILE_GID_MASK) - tileset.firstGid)?.animation;
+        if (!tileset || !animation || animation.length === 0) return gid;
+
+        const total = animation.reduce((sum, frame) => sum + frame.duration, 0);
+        if (!(total > 0)) return gid;
+        let t = time % total;
+        let frame = animation[animation.length - 1];
+        for (const candidate of animation) {
+            if (t < candidate.duration) {
+                frame = candidate;
+                break;
+            }
+            t -= candidate.duration;
+        }
+        return ((gid & ~TILE_GID_MASK) | (tileset.firstGid + frame.tileId)) >>> 0;
+    }
+
+    /**
+     * Tile coordinates containing a point in map pixels
+     */
+    pixelToTile(x: number, y: number): { x: number; y: number } {
+        return { x: Math.floor(x / this.tileWidth), y: Math.floor(y / this.tileHeight) };
+    }
+}
+
+function chunkKey(cx: number, cy: number): number {
+    return (cx + CHUNK_OFFSET) * CHUNK_ROW + (cy + CHUNK_OFFSET);
+}
+
+function tileIndex(x: number, y: number): number {
+    const lx = ((x % TILEMAP_CHUNK_SIZE) + TILEMAP_CHUNK_SIZE) % TILEMAP_CHUNK_SIZE;
+    const ly = ((y % TILEMAP_CHUNK_SIZE) + TILEMAP_CHUNK_SIZE) % TILEMAP_CHUNK_SIZE;
+    return ly * TILEMAP_CHUNK_SIZE + lx;
+}
@@ -0,0 +1,126 @@
+import { Entity } from '../ecs/Entity';
+import { setParent } from '../ecs/Hierarchy';
+import { Vector2 } from '../math/Vector2';
+import type { PrefabTarget } from '../core/Prefab';
+import { TileLayer, Tilemap } from './Tilemap';
+
+export interface TileColliderOptions {
+    // Tile layers to read (all by default)
+    layers?: string[];
+    // Which tiles block; by default tiles with a `solid` or `collides`
+    // property, or any tile of a layer with a `solid` or `collision` property
+    isSolid?: (gid: number, layer: TileLayer, map: Tilemap) => boolean;
+}
+
+export interface TileColliderEntityOptions extends TileColliderOptions {
+    // 'physicsBody' makes static Box2D bodies, 'collider' static CollisionSystem colliders
+    kind?: 'physicsBody' | 'collider';
+    // Entity layer of the colliders (collision filtering)
+    layer?: string | number;
+    friction?: number;
+}
+
+/**
+ * Merge the solid tiles into as few rectangles as possible (runs of tiles
+ * per row, stacked with identical runs of the rows below). Rectangles are
+ * in map pixels.
+ */
+export function buildTileColliders(map: Tilemap, options: TileColliderOptions = {}): Rectangle[] {
+    const isSolid = options.isSolid ?? defaultIsSolid;
+    const solid = new Set<string>();
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+    for (const layer of map.layers) {
+        if (options.layers && !options.layers.includes(layer.name)) continue;
+        const bounds = layer.getTileBounds();
+        if (!bounds) continue;
+        // Layer offsets are ignored: colliders follow the tile grid
+        layer.forEachTile(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY, (x, y, gid) => {
+            if (!isSolid(gid, layer, map)) return;
+            solid.add(`${x},${y}`);
+            minX = Math.min(minX, x);
+            minY = Math.min(minY, y);
+            maxX = Math.max(maxX, x);
+            maxY = Math.max(maxY, y);
+        });
+    }
+
+    const rects: Rectangle[] = [];
+    // Open rectangles by their run ("start,end") on the previous row
+    let open = new Map<string, { x: number; y: number; width: number; height: number }>();
+    for (let y = minY; y <= maxY + 1; y++) {
+        const next = new Map<string, { x: number; y: number; width: number; height: number }>();
+        let x = minX;
+        while (y <= maxY && x <= maxX) {
+            if (!solid.has(`${x},${y}`)) {
+                x++;
+                continue;
+            }
+            const start = x;
+            while (solid.has(`${x + 1},${y}`)) x++;
+            const key = `${start},${x}`;
+            const rect = open.get(key);
+            if (rect) {
+                rect.height++;
+                open.delete(key);
+                next.set(key, rect);
+            } else {
+                next.set(key, { x: start, y, width: x - start + 1, height: 1 });
+            }
+            x++;
+        }
+        // Runs that did not continue on this row are finished
+        for (const rect of open.values()) rects.push(rect);
+        open = next;
+    }
+
+    return rects.map(rect => ({
+        x: rect.x * map.tileWidth,
+        y: rect.y * map.tileHeight,
+        width: rect.width * map.tileWidth,
+        height: rect.height * map.tileHeight
+    }));
+}
+
+/**
+ * Create one static entity per merged rectangle, as children of the map
+ * entity (so they follow its position). Sizes are in map pixels.
+ */
+export function createTileColliders(mapEntity: Entity, map: Tilemap, target: PrefabTarget, options: TileColliderEntityOptions = {}): Entity[] {
+    const kind = options.kind ?? 'physicsBody';
+    return buildTileColliders(map, options).map((rect, i) => {
+        const entity = new Entity(`${mapEntity.id}-collider-${i}`);
+        entity.addComponent({
+            type: 'transform',
+            position: new Vector2(rect.x + rect.width / 2, rect.y + rect.height / 2),
+            rotation: 0,
+            scale: new Vector2(1, 1)
+        });
+        if (kind === 'physicsBody') {
+            entity.addComponent({
+                type: 'physicsBody',
+                bodyType: 'static',
+                shape: 'box',
+                width: rect.width,
+                height: rect.height,
+                density: 0,
+                friction: options.friction ?? 0.2,
+                restitution: 0
+            });
+        } else {
+            entity.addComponent({ type: 'collider', width: rect.width, height: rect.height, isTrigger: false, isStatic: true });
+        }
+        if (options.layer !== undefined) entity.setLayer(options.layer);
+        entity.addTag('tile-collider');
+
+        target.addEntity(entity);
+        setParent(entity, mapEntity);
+        return entity;
+    });
+}
+
+function defaultIsSolid(gid: number, layer: TileLayer, map: Tilemap): boolean {
+    if (layer.properties.solid === true || layer.properties.collision === true) return true;
+    const properties = map.getTileProperties(gid);
+    return properties.solid === true || properties.collides === true;
+}
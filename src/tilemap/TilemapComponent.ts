@@ -0,0 +1,27 @@
+import { Component } from '../ecs/Component';
+import { Tilemap } from './Tilemap';
+
+/**
+ * Draws a Tilemap with its top-left corner at the entity position (scale
+ * applies, rotation does not). The RenderSystem draws it in the entity's
+ * render layer, before that layer's sprites.
+ */
+export interface TilemapComponent extends Component {
+    type: 'tilemap';
+    map: Tilemap;
+    // Tile layers drawn by this entity (all by default); split foreground
+    // layers into a second entity on a higher render layer
+    layers?: string[];
+    // Animation clock in seconds, advanced by the TilemapSystem
+    time: number;
+    animationSpeed?: number;
+}
+
+export function createTilemapComponent(map: Tilemap, options: { layers?: string[]; animationSpeed?: number } = {}): TilemapComponent {
+    return {
+        type: 'tilemap',
+        map,
+        time: 0,
+        ...options
+    };
+}
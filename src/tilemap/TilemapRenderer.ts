@@ -0,0 +1,93 @@
+import { getRenderCapabilities, RenderStrategy } from '../graphics/Renderer';
+import { Vector2 } from '../math/Vector2';
+import { Color } from '../math/Color';
+import { TILE_FLIP_DIAGONAL, TILE_FLIP_HORIZONTAL, TILE_FLIP_VERTICAL, TILE_GID_MASK, Tilemap } from './Tilemap';
+
+const WHITE = new Color(255, 255, 255, 255);
+
+export interface TilemapDrawOptions {
+    // World position of the map's top-left corner
+    origin: Vector2D;
+    scale?: Vector2D;
+    // Tile layers to draw (all by default)
+    layers?: string[];
+    // Animation time in seconds
+    time?: number;
+    // Visible world rectangle; tiles outside it are skipped
+    view?: Rectangle | null;
+    // Alpha the layer opacities are multiplied by
+    opacity?: number;
+}
+
+/**
+ * Draw the visible tiles of a map. Only the chunks overlapping the view are
+ * visited. Tiles taller than the map grid are bottom-aligned, as in Tiled.
+ * Returns the number of tiles drawn; nothing is drawn when the renderer
+ * cannot draw atlas regions (`uvSprites`).
+ */
+export function renderTilemap(renderer: RenderStrategy, map: Tilemap, options: TilemapDrawOptions): number {
+    const scaleX = options.scale?.x ?? 1;
+    const scaleY = options.scale?.y ?? 1;
+    const cellWidth = map.tileWidth * scaleX;
+    const cellHeight = map.tileHeight * scaleY;
+    const time = options.time ?? 0;
+    const baseOpacity = options.opacity ?? 1;
+    const capabilities = getRenderCapabilities(renderer);
+    const canFade = capabilities.globalAlpha;
+    // Without regions every tile would be the whole tileset image
+    if (!capabilities.uvSprites) return 0;
+
+    // Oversized tiles reach into the cells above and to the right of theirs
+    const extraX = Math.max(0, ...map.tilesets.map(t => Math.ceil(t.tileWidth / map.tileWidth) - 1));
+    const extraY = Math.max(0, ...map.tilesets.map(t => Math.ceil(t.tileHeight / map.tileHeight) - 1));
+
+    let drawn = 0;
+    for (const layer of map.layers) {
+        if (!layer.visible || layer.opacity <= 0) continue;
+        if (options.layers && !options.layers.includes(layer.name)) continue;
+
+        const originX = options.origin.x + layer.offsetX * scaleX;
+        const originY = options.origin.y + layer.offsetY * scaleY;
+        let range = layer.getTileBounds();
+        if (!range) continue;
+        if (options.view) {
+            const view = options.view;
+            range = {
+                minX: Math.max(range.minX, Math.floor((view.x - originX) / cellWidth) - extraX),
+                minY: Math.max(range.minY, Math.floor((view.y - originY) / cellHeight)),
+                maxX: Math.min(range.maxX, Math.floor((view.x + view.width - originX) / cellWidth)),
+                maxY: Math.min(range.maxY, Math.floor((view.y + view.height - originY) / cellHeight) + extraY)
+            };
+            if (range.minX > range.maxX || range.minY > range.maxY) continue;
+        }
+
+        const alpha = baseOpacity * layer.opacity;
+        if (canFade && alpha !== baseOpacity) renderer.setGlobalAlpha!(alpha);
+
+        layer.forEachTile(range.minX, range.minY, range.maxX, range.maxY, (x, y, rawGid) => {
+            const gid = map.getAnimatedGid(rawGid, time);
+            const tileset = map.getTilesetForGid(gid);
+            const texture = tileset?.sheet?.getTexture();
+            const frame = tileset?.sheet?.getFrame((gid & TILE_GID_MASK) - tileset.firstGid);
+            if (!tileset || !texture || !frame) return;
+
+            const width = tileset.tileWidth * scaleX;
+            const height = tileset.tileHeight * scaleY;
+            const position = new Vector2(originX + x * cellWidth + width / 2, originY + (y + 1) * cellHeight - height / 2);
+            const size = new Vector2(width, height);
+            const flipH = (gid & TILE_FLIP_HORIZONTAL) !== 0;
+            const flipV = (gid & TILE_FLIP_VERTICAL) !== 0;
+            if (gid & TILE_FLIP_DIAGONAL) {
+                // Tiled swaps the axes before the other flips: a quarter
+                // turn clockwise of the tile flipped vertically
+                renderer.drawSpriteUV!(texture, position, size, frame.x, frame.y, frame.width, frame.height, Math.PI / 2, flipV, !flipH, WHITE);
+            } else {
+                renderer.drawSpriteUV!(texture, position, size, frame.x, frame.y, frame.width, frame.height, 0, flipH, flipV, WHITE);
+            }
+            drawn++;
+        });
+
+        if (canFade && alpha !== baseOpacity) renderer.setGlobalAlpha!(baseOpacity);
+    }
+    return drawn;
+}
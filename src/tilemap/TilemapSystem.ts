@@ -0,0 +1,17 @@
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { TilemapComponent } from './TilemapComponent';
+
+/**
+ * Advances the animated tiles of every tilemap
+ */
+export class TilemapSystem extends System {
+    readonly requiredComponents = ['tilemap'];
+
+    update(entities: Entity[], deltaTime: number): void {
+        for (const entity of this.getEntitiesWithComponents(entities, this.requiredComponents)) {
+            const tilemap = entity.getComponent<TilemapComponent>('tilemap')!;
+            tilemap.time += deltaTime * (tilemap.animationSpeed ?? 1);
+        }
+    }
+}
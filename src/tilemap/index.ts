@@ -0,0 +1,7 @@
+export * from './Tilemap';
+export * from './TilemapComponent';
+export * from './TilemapSystem';
+export * from './TilemapRenderer';
+export * from './TilemapColliders';
+export * from './TiledObjects';
+export * from './TiledImporter';
@@ -13,6 +13,8 @@ export const WORLD_EVENTS: WorldEvents = {
     ENTITY_CREATED: 'WORLD:ENTITY_CREATED',
     ENTITY_DESTROYED: 'WORLD:ENTITY_DESTROYED',
     WORLD_CLEARED: 'WORLD:WORLD_CLEARED',
+    TAG_ADDED: 'WORLD:TAG_ADDED',
+    TAG_REMOVED: 'WORLD:TAG_REMOVED',
 } as const;
 
 export const SCENE_EVENTS: SceneEvents = {
@@ -30,6 +32,10 @@ export const SCENE_EVENTS: SceneEvents = {
     CLEARED: 'SCENE:CLEARED',
     ENTITY_ADDED: 'SCENE:ENTITY_ADDED',
     ENTITY_REMOVED: 'SCENE:ENTITY_REMOVED',
+    PAUSE: 'SCENE:PAUSE',
+    RESUME: 'SCENE:RESUME',
+    TRANSITION_START: 'SCENE:TRANSITION_START',
+    TRANSITION_END: 'SCENE:TRANSITION_END',
 } as const;
 
 
@@ -92,6 +98,7 @@ export const GAMELOOP_EVENTS: GameLoopEvents = {
 
 export const PHYSICS_EVENTS: PhysicsEvents = {
     COLLISION_BEGIN: 'PHYSICS:COLLISION_BEGIN',
+    COLLISION_STAY: 'PHYSICS:COLLISION_STAY',
     COLLISION_END: 'PHYSICS:COLLISION_END',
     COLLISION_POST_SOLVE: 'PHYSICS:COLLISION_POST_SOLVE',
     JOINT_BREAK: 'PHYSICS:JOINT_BREAK',
@@ -111,3 +118,12 @@ export const ASSET_EVENTS: AssetEvents = {
     PROGRESS: 'ASSET:PROGRESS',
     CACHE_HIT: 'ASSET:CACHE_HIT',
 } as const;
+
+export const SAVE_EVENTS: SaveEvents = {
+    SAVING: 'SAVE:SAVING',
+    SAVED: 'SAVE:SAVED',
+    LOADING: 'SAVE:LOADING',
+    LOADED: 'SAVE:LOADED',
+    DELETED: 'SAVE:DELETED',
+    ERROR: 'SAVE:ERROR',
+} as const;
@@ -8,6 +8,7 @@ declare enum EventNames {
     PHYSICS = 'PHYSICS:',
     ASSET = 'ASSET:',
     ANIMATION = 'ANIMATION:',
+    SAVE = 'SAVE:',
     TEST = 'TEST:'
 }
 
@@ -92,12 +93,18 @@ declare type SceneEvents = {
     CLEARED: CreateEventType<EventNames.SCENE, 'CLEARED'>,
     ENTITY_ADDED: CreateEventType<EventNames.SCENE, 'ENTITY_ADDED'>,
     ENTITY_REMOVED: CreateEventType<EventNames.SCENE, 'ENTITY_REMOVED'>,
+    PAUSE: CreateEventType<EventNames.SCENE, 'PAUSE'>,
+    RESUME: CreateEventType<EventNames.SCENE, 'RESUME'>,
+    TRANSITION_START: CreateEventType<EventNames.SCENE, 'TRANSITION_START'>,
+    TRANSITION_END: CreateEventType<EventNames.SCENE, 'TRANSITION_END'>,
 };
 
 declare type WorldEvents = {
     ENTITY_CREATED: CreateEventType<EventNames.WORLD, 'ENTITY_CREATED'>,
     ENTITY_DESTROYED: CreateEventType<EventNames.WORLD, 'ENTITY_DESTROYED'>,
     WORLD_CLEARED: CreateEventType<EventNames.WORLD, 'WORLD_CLEARED'>,
+    TAG_ADDED: CreateEventType<EventNames.WORLD, 'TAG_ADDED'>,
+    TAG_REMOVED: CreateEventType<EventNames.WORLD, 'TAG_REMOVED'>,
 };
 
 declare type InputEvents = {
@@ -117,6 +124,7 @@ declare type InputEvents = {
 
 declare type PhysicsEvents = {
     COLLISION_BEGIN: CreateEventType<EventNames.PHYSICS, 'COLLISION_BEGIN'>,
+    COLLISION_STAY: CreateEventType<EventNames.PHYSICS, 'COLLISION_STAY'>,
     COLLISION_END: CreateEventType<EventNames.PHYSICS, 'COLLISION_END'>,
     COLLISION_POST_SOLVE: CreateEventType<EventNames.PHYSICS, 'COLLISION_POST_SOLVE'>,
     JOINT_BREAK: CreateEventType<EventNames.PHYSICS, 'JOINT_BREAK'>,
@@ -127,6 +135,15 @@ declare type AnimationEvents = {
     COMPLETE: CreateEventType<EventNames.ANIMATION, 'COMPLETE'>,
 };
 
+declare type SaveEvents = {
+    SAVING: CreateEventType<EventNames.SAVE, 'SAVING'>,
+    SAVED: CreateEventType<EventNames.SAVE, 'SAVED'>,
+    LOADING: CreateEventType<EventNames.SAVE, 'LOADING'>,
+    LOADED: CreateEventType<EventNames.SAVE, 'LOADED'>,
+    DELETED: CreateEventType<EventNames.SAVE, 'DELETED'>,
+    ERROR: CreateEventType<EventNames.SAVE, 'ERROR'>,
+};
+
 // Union type de todos los eventos disponibles
 declare type AllEventTypes =
     | TestEvents[keyof TestEvents]
@@ -137,4 +154,5 @@ declare type AllEventTypes =
     | GameLoopEvents[keyof GameLoopEvents]
     | PhysicsEvents[keyof PhysicsEvents]
     | AnimationEvents[keyof AnimationEvents]
-    | AssetEvents[keyof AssetEvents];
+    | AssetEvents[keyof AssetEvents]
+    | SaveEvents[keyof SaveEvents];
@@ -0,0 +1,218 @@
+// Payload (`event.data`) de cada evento del motor. Los eventos que no están
+// aquí aceptan cualquier dato. Un juego puede declarar los suyos:
+//
+//   declare global {
+//       interface EventPayloadMap {
+//           'GAME:COIN_PICKED': { entity: Entity; value: number };
+//       }
+//   }
+
+type SceneRef = import('../core/Scene').Scene;
+type EntityRef = import('../ecs/Entity').Entity;
+
+interface SceneEventData {
+    scene: SceneRef;
+}
+
+interface SceneEntityEventData {
+    scene: SceneRef;
+    entity: EntityRef;
+    entityId: string;
+}
+
+interface SceneUpdateEventData {
+    scene: SceneRef;
+    deltaTime: number;
+    entities: EntityRef[];
+}
+
+interface SceneTransitionEventData {
+    from: SceneRef | null;
+    to: SceneRef | null;
+    transition: import('../graphics/SceneTransition').SceneTransition;
+    error?: unknown;
+}
+
+interface InputKeyEventData {
+    key: string;
+    event: import('../input/InputManager').KeyboardEvent;
+}
+
+interface InputMouseEventData {
+    button?: number;
+    event: import('../input/InputManager').MouseEvent;
+}
+
+interface InputTouchEventData {
+    event: import('../input/InputManager').TouchEvent;
+}
+
+interface InputActionEventData {
+    // Id de la entidad con el componente de input
+    entity: string;
+    action: string;
+    deltaTime: number;
+    position?: Vector2D;
+    force?: number;
+}
+
+interface SystemEventData {
+    system: import('../core/GameLoop').System;
+}
+
+interface SystemErrorEventData extends SystemEventData {
+    error: unknown;
+    // Solo si el sistema pertenece a una escena
+    scene?: SceneRef;
+}
+
+interface LoopTimeEventData {
+    deltaTime: number;
+    alpha?: number;
+}
+
+interface SizeEventData {
+    width: number;
+    height: number;
+}
+
+// PhysicsWorld envía los cuerpos (bodyA/bodyB); CollisionSystem, las entidades
+interface CollisionEventData {
+    bodyA?: import('../physics/PhysicsBody').PhysicsBody;
+    bodyB?: import('../physics/PhysicsBody').PhysicsBody;
+    entityA?: EntityRef;
+    entityB?: EntityRef;
+    point?: Vector2D;
+    normal?: Vector2D;
+    impulse?: number;
+    // CollisionSystem: penetration along the normal, and whether a trigger took part
+    depth?: number;
+    isTrigger?: boolean;
+}
+
+interface AnimationEventData {
+    entity: EntityRef;
+    animationName: string;
+    frameIndex?: number;
+}
+
+interface SaveEventData {
+    slot: string;
+    scene?: SceneRef;
+    info?: import('../core/SaveManager').SaveSlotInfo;
+}
+
+interface SaveErrorEventData {
+    slot: string;
+    operation: 'save' | 'load' | 'delete';
+    error: unknown;
+}
+
+interface EventPayloadMap {
+    'WORLD:ENTITY_CREATED': { entity: EntityRef };
+    // Se envía antes de desmontar la entidad (aún tiene sus componentes)
+    'WORLD:ENTITY_DESTROYED': { entityId: string; entity: EntityRef; world: import('../ecs/World').World };
+    'WORLD:WORLD_CLEARED': Record<string, never>;
+    // La entidad entra en el grupo de la etiqueta (addTag o al entrar al World)
+    'WORLD:TAG_ADDED': { entity: EntityRef; tag: string };
+    // La entidad sale del grupo (removeTag o al salir del World)
+    'WORLD:TAG_REMOVED': { entity: EntityRef; tag: string };
+
+    'SCENE:INITIALIZE': SceneEventData;
+    'SCENE:ACTIVATE': SceneEventData;
+    'SCENE:DEACTIVATE': SceneEventData;
+    'SCENE:ENTER': SceneEventData;
+    'SCENE:EXIT': SceneEventData;
+    'SCENE:PAUSE': SceneEventData;
+    'SCENE:RESUME': SceneEventData;
+    'SCENE:CLEARED': SceneEventData;
+    'SCENE:DESTROY': SceneEventData;
+    'SCENE:UPDATE': SceneUpdateEventData;
+    'SCENE:ENTITY_ADDED': SceneEntityEventData;
+    'SCENE:ENTITY_REMOVED': SceneEntityEventData;
+    'SCENE:TRANSITION_START': SceneTransitionEventData;
+    'SCENE:TRANSITION_END': SceneTransitionEventData;
+
+    'INPUT:ACTION': InputActionEventData;
+    'INPUT:KEYDOWN': InputKeyEventData;
+    'INPUT:KEYUP': InputKeyEventData;
+    'INPUT:MOUSEDOWN': InputMouseEventData;
+    'INPUT:MOUSEUP': InputMouseEventData;
+    'INPUT:MOUSEMOVE': InputMouseEventData;
+    'INPUT:MOUSEWHEEL': { deltaY: number };
+    'INPUT:TOUCHSTART': InputTouchEventData;
+    'INPUT:TOUCHMOVE': InputTouchEventData;
+    'INPUT:TOUCHEND': InputTouchEventData;
+
+    'ENGINE:INITIALIZING': null;
+    'ENGINE:INITIALIZED': null;
+    'ENGINE:INITIALIZATION_ERROR': { error: unknown };
+    'ENGINE:STARTED': null;
+    'ENGINE:STOPPED': null;
+    'ENGINE:PAUSED': null;
+    'ENGINE:RESUMED': null;
+    'ENGINE:DESTROYED': null;
+    'ENGINE:SYSTEM_ADDED': SystemEventData;
+    'ENGINE:SYSTEM_REMOVED': SystemEventData;
+    'ENGINE:SCENE_ADDED': SceneEventData;
+    'ENGINE:SCENE_REMOVED': SceneEventData & { sceneName: string };
+    'ENGINE:ACTIVE_SCENE_CHANGE': { previousScene: SceneRef | null; newScene: SceneRef | null };
+    'ENGINE:CANVAS_RESIZED': SizeEventData;
+    'ENGINE:WINDOW_RESIZED': SizeEventData;
+    'ENGINE:WINDOW_HIDDEN': null;
+    'ENGINE:WINDOW_VISIBLE': null;
+
+    'GAMELOOP:START': null;
+    'GAMELOOP:STOP': null;
+    'GAMELOOP:PAUSE': null;
+    'GAMELOOP:RESUME': null;
+    'GAMELOOP:DESTROY': null;
+    'GAMELOOP:STEP': { count: number };
+    'GAMELOOP:FPS_UPDATE': { fps: number; averageFrameTime: number };
+    'GAMELOOP:FIXED_UPDATE': LoopTimeEventData;
+    'GAMELOOP:FIXED_UPDATE_COMPLETE': LoopTimeEventData;
+    'GAMELOOP:VARIABLE_UPDATE': LoopTimeEventData;
+    'GAMELOOP:VARIABLE_UPDATE_COMPLETE': LoopTimeEventData;
+    'GAMELOOP:LATE_UPDATE': LoopTimeEventData;
+    'GAMELOOP:RENDER': LoopTimeEventData;
+    'GAMELOOP:SYSTEM_ERROR': SystemErrorEventData;
+
+    'PHYSICS:COLLISION_BEGIN': CollisionEventData;
+    'PHYSICS:COLLISION_STAY': CollisionEventData;
+    'PHYSICS:COLLISION_END': CollisionEventData;
+    'PHYSICS:COLLISION_POST_SOLVE': CollisionEventData;
+    'PHYSICS:JOINT_BREAK': { joint: unknown; linearMag: number; torqueMag: number };
+
+    'ANIMATION:FRAME': AnimationEventData;
+    'ANIMATION:COMPLETE': AnimationEventData;
+
+    'ASSET:LOADED': import('../assets/AssetLoader').AssetLoadEvent;
+    'ASSET:ERROR': import('../assets/AssetLoader').AssetLoadEvent;
+    'ASSET:PROGRESS': import('../assets/AssetLoader').AssetLoadEvent;
+
+    'SAVE:SAVING': SaveEventData;
+    'SAVE:SAVED': SaveEventData;
+    'SAVE:LOADING': SaveEventData;
+    'SAVE:LOADED': SaveEventData;
+    'SAVE:DELETED': SaveEventData;
+    'SAVE:ERROR': SaveErrorEventData;
+}
+
+// Eventos del motor más los declarados en EventPayloadMap
+declare type EventType = AllEventTypes | keyof EventPayloadMap;
+
+// Suscripción a varios eventos: '*' (todos) o un prefijo como 'PHYSICS:*'
+declare type EventPattern = `${string}*`;
+
+// Payloads del mapa cuyos eventos empiezan por `Prefix` (any si no hay ninguno)
+declare type EventPatternPayload<Prefix extends string> =
+    [Extract<keyof EventPayloadMap, `${Prefix}${string}`>] extends [never]
+        ? any
+        : EventPayloadMap[Extract<keyof EventPayloadMap, `${Prefix}${string}`>];
+
+// Tipo de `event.data` para un evento o patrón (any si no está en el mapa)
+declare type EventPayload<K> =
+    K extends keyof EventPayloadMap ? EventPayloadMap[K]
+    : K extends '*' ? any
+    : K extends `${infer Prefix}*` ? EventPatternPayload<Prefix>
+    : any;
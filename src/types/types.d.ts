@@ -32,12 +32,21 @@ interface EngineConfig {
     pixelRatio?: number;
     antialias?: boolean;
     debug?: boolean;
+    // Fixed timestep, time scale and clock of the game loop
+    loop?: import('../core/GameLoop').GameLoopOptions;
+    // Dispatch mode of the global event bus
+    events?: { dispatchMode?: import('../core/EventSystem').EventDispatchMode };
 }
 
 interface GameEvent<T = any> {
-    type: AllEventTypes;
+    type: EventType;
     data: T;
     timestamp: number;
+    // Bus where the event was emitted (the global one or a scoped child)
+    target: import('../core/EventSystem').EventBus;
+    // Skip the remaining listeners and stop bubbling to the parent buses
+    stopPropagation(): void;
+    readonly propagationStopped: boolean;
 }
 
 type EventCallback<T> = (event: GameEvent<T>) => void;
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createKeyboardEvent, createMouseEvent, createTouch, createTouchEvent } from '../helpers/event-helpers'; import { INPUT_EVENTS } from '@/types/event-const';
 import { EventSystem } from '../../src/core/EventSystem';
 import { InputManager } from '../../src/input';
+import { Vector2 } from '../../src/math/Vector2';
 
 describe('Input System Tests', () => {
     let inputManager: InputManager;
@@ -114,7 +115,7 @@ describe('Input System Tests', () => {
             // Crear un touch data manualmente
             const touchData = {
                 identifier: 0,
-                position: { x: 100, y: 150 },
+                position: new Vector2(100, 150),
                 force: 1
             };
 
@@ -0,0 +1,48 @@
+import { vi } from 'vitest';
+import { WebGLRenderer, WebGLRendererOptions } from '../../src/graphics/WebGLRenderer';
+import { Texture } from '../../src/graphics/Texture';
+
+// WebGL context whose constants are numbers and whose methods are spies
+export function createMockGL(textureUnits = 4) {
+    const calls: Record<string, any> = {
+        getParameter: vi.fn(() => textureUnits),
+        getShaderParameter: vi.fn(() => true),
+        getProgramParameter: vi.fn(() => true),
+        getAttribLocation: vi.fn(() => 0)
+    };
+    let constant = 1;
+    return new Proxy(calls, {
+        get(target, prop: string) {
+            if (!(prop in target)) {
+                target[prop] = /^[A-Z0-9_]+$/.test(prop) ? constant++ : vi.fn(() => ({}));
+            }
+            return target[prop];
+        }
+    }) as any;
+}
+
+// Renderer on an 800x600 canvas that only offers the given context types
+export function createMockWebGLRenderer(options: WebGLRendererOptions = {}, textureUnits?: number, contexts = ['webgl2', 'webgl']) {
+    const gl = createMockGL(textureUnits);
+    const canvas = { width: 800, height: 600, getContext: vi.fn((type: string) => contexts.includes(type) ? gl : null) };
+    const renderer = new WebGLRenderer(options);
+    renderer.initialize(canvas as any);
+    return { gl, canvas, renderer };
+}
+
+export function createMockTexture(name: string, width = 16, height = 16) {
+    return new Texture({ src: name, width, height, complete: true } as any);
+}
+
+// Vertices (x, y, u, v, packed color, texture unit) of every flushed batch
+export function getFlushedVertices(gl: any): Array<{ x: number; y: number; u: number; v: number; color: number }> {
+    const vertices: Array<{ x: number; y: number; u: number; v: number; color: number }> = [];
+    for (const call of gl.bufferSubData.mock.calls) {
+        const data: Float32Array = call[2];
+        const colors = new Uint32Array(data.buffer, data.byteOffset, data.length);
+        for (let i = 0; i < data.length; i += 6) {
+            vertices.push({ x: data[i], y: data[i + 1], u: data[i + 2], v: data[i + 3], color: colors[i + 4] });
+        }
+    }
+    return vertices;
+}
@@ -1,6 +1,9 @@
 import { vi, beforeEach, afterEach } from 'vitest';
 import { EventSystem } from '../src/core/EventSystem';
 
+// Listeners run inside emit() so tests can assert right away
+EventSystem.setDefaultDispatchMode('immediate');
+
 // Reset EventSystem singleton before each test
 beforeEach(() => {
   // Reset EventSystem singleton
@@ -413,6 +416,9 @@ Object.defineProperty(global.navigator, 'getGamepads', {
   writable: true,
 });
 
+// Listeners run inside emit() so tests can assert right away
+EventSystem.setDefaultDispatchMode('immediate');
+
 // Reset EventSystem singleton before each test
 beforeEach(() => {
   EventSystem.reset();
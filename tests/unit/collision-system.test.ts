@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { Scene } from '../../src/core/Scene';
+import { Entity } from '../../src/ecs/Entity';
+import { CollisionSystem } from '../../src/ecs/CollisionSystem';
+import { ColliderComponent } from '../../src/ecs/Component';
+import { testShapes, CollisionShape } from '../../src/math/SAT';
+import { Vector2 } from '../../src/math/Vector2';
+import { PHYSICS_EVENTS } from '../../src/types/event-const';
+
+function box(x: number, y: number, width: number, height: number): CollisionShape {
+    return {
+        type: 'polygon',
+        points: [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }]
+    };
+}
+
+function place(scene: Scene, id: string, x: number, y: number, collider: Partial<ColliderComponent>, rotation = 0): Entity {
+    const entity = new Entity(id);
+    entity.addComponent({ type: 'transform', position: new Vector2(x, y), rotation, scale: new Vector2(1, 1) });
+    entity.addComponent({ type: 'collider', isTrigger: false, ...collider });
+    scene.addEntity(entity);
+    return entity;
+}
+
+function setup() {
+    const scene = new Scene('level');
+    scene.onEnter();
+    const collisions = new CollisionSystem();
+    scene.addSystem(collisions);
+    const log: string[] = [];
+    const bus = scene.getEventBus();
+    bus.on(PHYSICS_EVENTS.COLLISION_BEGIN, e => log.push(`begin ${e.data.entityA!.id}-${e.data.entityB!.id}`));
+    bus.on(PHYSICS_EVENTS.COLLISION_STAY, e => log.push(`stay ${e.data.entityA!.id}-${e.data.entityB!.id}`));
+    bus.on(PHYSICS_EVENTS.COLLISION_END, e => log.push(`end ${e.data.entityA!.id}-${e.data.entityB!.id}`));
+    return { scene, collisions, log };
+}
+
+describe('SAT shape tests', () => {
+    it('returns the minimum translation vector from the first shape to the second', () => {
+        const hit = testShapes(box(0, 0, 10, 10), box(8, 2, 10, 10))!;
+        expect(hit.normal.x).toBeCloseTo(1);
+        expect(hit.normal.y).toBeCloseTo(0);
+        expect(hit.depth).toBeCloseTo(2);
+
+        const circles = testShapes({ type: 'circle', x: 0, y: 0, radius: 5 }, { type: 'circle', x: 0, y: 8, radius: 5 })!;
+        expect(circles.normal).toEqual({ x: 0, y: 1 });
+        expect(circles.depth).toBeCloseTo(2);
+
+        // Circle near a box corner: the corner axis separates them
+        expect(testShapes({ type: 'circle', x: 14, y: 14, radius: 5 }, box(0, 0, 10, 10))).toBeNull();
+        expect(testShapes({ type: 'circle', x: 13, y: 13, radius: 5 }, box(0, 0, 10, 10))).not.toBeNull();
+
+        // Touching edges do not overlap, unless within the margin
+        expect(testShapes(box(0, 0, 10, 10), box(10, 0, 10, 10))).toBeNull();
+        expect(testShapes(box(0, 0, 10, 10), box(10.2, 0, 10, 10), 0.5)!.depth).toBeCloseTo(-0.2);
+        expect(testShapes(box(0, 0, 10, 10), box(11, 0, 10, 10), 0.5)).toBeNull();
+    });
+
+    it('rotates OBBs and polygons with the entity, but not AABBs', () => {
+        const { scene, log } = setup();
+        // A 45° square reaches ~14.1 from its centre along x
+        place(scene, 'diamond', 0, 0, { shape: 'obb', width: 20, height: 20, isStatic: true }, Math.PI / 4);
+        place(scene, 'probe', 22, 0, { shape: 'circle', radius: 10, isTrigger: true });
+        place(scene, 'flat', 0, 40, { width: 20, height: 20, isStatic: true }, Math.PI / 4);
+        place(scene, 'tri', 8, 57, { vertices: [{ x: -5, y: 0 }, { x: 5, y: 0 }, { x: 0, y: -8 }], isTrigger: true });
+
+        scene.update(1 / 60);
+        expect(log).toEqual(['begin diamond-probe', 'begin flat-tri']);
+    });
+});
+
+describe('CollisionSystem', () => {
+    it('tracks begin, stay and end contacts and separates solid colliders', () => {
+        const { scene, collisions, log } = setup();
+        const ground = place(scene, 'ground', 0, 100, { width: 200, height: 20, isStatic: true });
+        const crate = place(scene, 'crate', 0, 85, { width: 20, height: 20 });
+        crate.addComponent({ type: 'physics', velocity: new Vector2(0, 50), angularVelocity: 0 } as any);
+
+        scene.update(1 / 60);
+        expect(log).toEqual(['begin ground-crate']);
+        // Pushed out of the static ground, downward speed removed
+        expect(crate.getComponent<any>('transform').position.y).toBeCloseTo(80);
+        expect(ground.getComponent<any>('transform').position.y).toBe(100);
+        expect(crate.getComponent<any>('physics').velocity.y).toBeCloseTo(0);
+        expect(collisions.isTouching(crate, ground)).toBe(true);
+
+        scene.update(1 / 60);
+        crate.getComponent<any>('transform').position.y = 0;
+        scene.update(1 / 60);
+        expect(log).toEqual(['begin ground-crate', 'stay ground-crate', 'end ground-crate']);
+        expect(collisions.getContacts()).toEqual([]);
+    });
+
+    it('keeps a resolved body resting on the ground in contact', () => {
+        const { scene, collisions, log } = setup();
+        const ground = place(scene, 'ground', 0, 100, { width: 200, height: 20, isStatic: true });
+        const crate = place(scene, 'crate', 0, 85, { width: 20, height: 20 });
+        const position = crate.getComponent<any>('transform').position;
+
+        scene.update(1 / 60);
+        for (let i = 0; i < 4; i++) scene.update(1 / 60);
+        expect(position.y).toBeCloseTo(80);
+
+        // Gravity pulls it back into the ground every update
+        for (let i = 0; i < 4; i++) {
+            position.y += 0.3;
+            scene.update(1 / 60);
+            expect(position.y).toBeCloseTo(80);
+        }
+        expect(log).toEqual(['begin ground-crate', ...Array(8).fill('stay ground-crate')]);
+        expect(collisions.isTouching(crate, ground)).toBe(true);
+
+        // Lifted past the slop
+        position.y = 79;
+        scene.update(1 / 60);
+        expect(log[log.length - 1]).toBe('end ground-crate');
+    });
+
+    it('never moves triggers and ends contacts of destroyed entities', () => {
+        const { scene, collisions, log } = setup();
+        const player = place(scene, 'player', 0, 0, { width: 10, height: 10 });
+        place(scene, 'coin', 4, 0, { shape: 'circle', radius: 4, isTrigger: true });
+
+        scene.update(1 / 60);
+        expect(player.getComponent<any>('transform').position.x).toBe(0);
+        expect(collisions.getContacts(player)[0]).toMatchObject({ isTrigger: true });
+
+        scene.destroyEntity('coin');
+        scene.flushCommands();
+        scene.update(1 / 60);
+        expect(log).toEqual(['begin player-coin', 'end player-coin']);
+    });
+
+    it('filters pairs with the scene collision layers', () => {
+        const { scene, log } = setup();
+        scene.addLayer('ghost', 0x0040, 0x0008);
+        place(scene, 'ghost', 0, 0, { width: 10, height: 10, layer: 'ghost' });
+        place(scene, 'enemy', 2, 0, { width: 10, height: 10, layer: 'enemy' });
+        place(scene, 'ground', 0, 4, { width: 10, height: 10, layer: 'ground', isStatic: true });
+
+        scene.update(1 / 60);
+        expect(log).not.toContain('begin ghost-enemy');
+        expect(log).toContain('begin ghost-ground');
+        expect(log).toContain('begin enemy-ground');
+    });
+});
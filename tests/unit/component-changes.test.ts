@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { World } from '../../src/ecs/World';
+import { Entity } from '../../src/ecs/Entity';
+import { System } from '../../src/ecs/System';
+import { ScriptSystem } from '../../src/ecs/ScriptSystem';
+import { scriptRegistry } from '../../src/ecs/ScriptRegistry';
+import { createScriptComponent } from '../../src/ecs/ScriptComponent';
+import { RenderSystem } from '../../src/graphics/RenderSystem';
+
+const transform = (x = 0, y = 0) => ({ type: 'transform', position: { x, y }, rotation: 0, scale: { x: 1, y: 1 } });
+const sprite = (zIndex = 0) => ({ type: 'sprite', texture: 'tex', width: 8, height: 8, zIndex });
+
+class ReactiveSystem extends System {
+    readonly requiredComponents = ['transform'];
+    log: string[] = [];
+    onAdded(entity: Entity) { this.log.push(`added:${entity.id}`); }
+    onRemoved(entity: Entity) { this.log.push(`removed:${entity.id}`); }
+    onChanged(entity: Entity, types: string[]) { this.log.push(`changed:${entity.id}:${types.join(',')}`); }
+    update(): void { }
+}
+
+describe('Component change tracking', () => {
+    it('bumps component versions on add, replace and markChanged', () => {
+        const e = new Entity('e');
+        expect(e.getComponentVersion('transform')).toBe(0);
+
+        e.addComponent(transform());
+        const v1 = e.getComponentVersion('transform');
+        expect(v1).toBeGreaterThan(0);
+
+        e.getComponent<any>('transform').position.x = 5;
+        e.markChanged('transform');
+        const v2 = e.getComponentVersion('transform');
+        expect(v2).toBeGreaterThan(v1);
+
+        e.patchComponent('transform', { rotation: 1 });
+        expect(e.getComponent<any>('transform').rotation).toBe(1);
+        expect(e.getComponentVersion('transform')).toBeGreaterThan(v2);
+
+        e.removeComponent('transform');
+        expect(e.getComponentVersion('transform')).toBe(0);
+        e.addComponent(transform());
+        // Versions are never reused after re-adding a component
+        expect(e.getComponentVersion('transform')).toBeGreaterThan(v2);
+    });
+
+    it('delivers onAdded/onChanged/onRemoved hooks before update', () => {
+        const world = new World();
+        const existing = world.createEntity();
+        existing.addComponent(transform());
+
+        const system = new ReactiveSystem();
+        world.addSystem(system);
+        world.update(0);
+        expect(system.log).toEqual([`added:${existing.id}`]);
+
+        system.log = [];
+        existing.markChanged('transform');
+        existing.patchComponent('transform', { rotation: 2 });
+        const fresh = world.createEntity();
+        fresh.addComponent(transform());
+        fresh.markChanged('transform');
+        world.update(0);
+        // Changes on entities added in the same frame are folded into onAdded
+        expect(system.log).toEqual([`added:${fresh.id}`, `changed:${existing.id}:transform`]);
+
+        system.log = [];
+        existing.removeComponent('transform');
+        world.removeEntity(fresh.id);
+        world.update(0);
+        expect(system.log.sort()).toEqual([`removed:${existing.id}`, `removed:${fresh.id}`].sort());
+    });
+
+    it('reports onRemoved for delivered entities when the system leaves the world', () => {
+        const world = new World();
+        const e = world.createEntity();
+        e.addComponent(transform());
+        const system = new ReactiveSystem();
+        world.addSystem(system);
+        world.update(0);
+
+        system.log = [];
+        world.removeSystem(system);
+        expect(system.log).toEqual([`removed:${e.id}`]);
+    });
+
+    it('rebuilds the render draw order only when sprites change', () => {
+        const renderer = { clear() { }, present() { }, drawSprite() { } };
+        const rs = new RenderSystem(renderer as any);
+        rs.registerTexture('tex', { width: 8, height: 8 } as any);
+        const sort = (rs as any).sortEntitiesByZIndex.bind(rs);
+        let sorts = 0;
+        (rs as any).sortEntitiesByZIndex = (list: Entity[]) => { sorts++; return sort(list); };
+
+        const world = new World();
+        world.addSystem(rs);
+        const a = world.createEntity();
+        a.addComponent(transform());
+        a.addComponent(sprite(2));
+        const b = world.createEntity();
+        b.addComponent(transform());
+        b.addComponent(sprite(1));
+
+        world.update(0);
+        world.update(0);
+        expect(sorts).toBe(1);
+        expect((rs as any).drawOrder).toEqual([b, a]);
+
+        a.patchComponent('transform', { rotation: 1 });
+        world.update(0);
+        expect(sorts).toBe(1);
+
+        a.patchComponent('sprite', { zIndex: 0 });
+        world.update(0);
+        expect(sorts).toBe(2);
+        expect((rs as any).drawOrder).toEqual([a, b]);
+    });
+
+    it('notifies scripts about component edits', () => {
+        const seen: string[] = [];
+        class WatchScript {
+            onComponentChanged(type: string, component: any) {
+                seen.push(`${type}:${component ? 'present' : 'missing'}`);
+            }
+        }
+        scriptRegistry.register('watchscript', WatchScript as any);
+
+        const e = new Entity();
+        e.addComponent(createScriptComponent('watchscript'));
+        e.addComponent(transform());
+        const ss = new ScriptSystem();
+        ss.update([e], 1 / 60);
+        expect(seen).toEqual([]);
+
+        e.patchComponent('transform', { rotation: 3 });
+        ss.update([e], 1 / 60);
+        e.removeComponent('transform');
+        ss.update([e], 1 / 60);
+        expect(seen).toEqual(['transform:present', 'transform:missing']);
+    });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventSystem } from '../../src/core/EventSystem';
+import { Scene } from '../../src/core/Scene';
+import { Entity } from '../../src/ecs/Entity';
+import { setParent } from '../../src/ecs/Hierarchy';
+import { EntityPool } from '../../src/ecs/EntityPool';
+import { CommandBuffer } from '../../src/ecs/CommandBuffer';
+import { AudioManager } from '../../src/audio/AudioManager';
+import { AudioSystem } from '../../src/audio/AudioSystem';
+import { LightingSystem } from '../../src/light/LightingSystem';
+import { LightRegistry } from '../../src/light/LightRegistry';
+import { PhysicsWorld } from '../../src/physics/PhysicsWorld';
+import { PhysicsSystem } from '../../src/physics/PhysicsSystem';
+import { Vector2 } from '../../src/math/Vector2';
+import { SCENE_EVENTS, TEST_EVENTS, WORLD_EVENTS } from '../../src/types/event-const';
+
+function activeScene(name = 'level'): Scene {
+    const scene = new Scene(name);
+    scene.onEnter();
+    return scene;
+}
+
+describe('Entity lifecycle', () => {
+    it('applies spawns and destructions after the running phase', () => {
+        const scene = activeScene();
+        const bullet = new Entity('bullet');
+        const wall = new Entity('wall');
+        scene.addEntity(bullet);
+        scene.addEntity(wall);
+
+        const seen: string[] = [];
+        scene.addSystem({
+            update: (entities: Entity[]) => {
+                for (const entity of entities) {
+                    seen.push(entity.id);
+                    if (entity.id === 'bullet') {
+                        scene.destroyEntity(entity);
+                        scene.spawn(new Entity('spark'));
+                    }
+                }
+                expect(scene.hasEntity('bullet')).toBe(true);
+            }
+        });
+
+        scene.update(1 / 60);
+        expect(seen).toEqual(['bullet', 'wall']);
+        expect(scene.hasEntity('bullet')).toBe(false);
+        expect(scene.hasEntity('spark')).toBe(true);
+        expect(scene.getCommandBuffer().isEmpty()).toBe(true);
+    });
+
+    it('sends ENTITY_DESTROYED before the entity is torn down', () => {
+        const scene = activeScene();
+        const parent = new Entity('ship');
+        parent.addComponent({ type: 'health', value: 0 });
+        scene.addEntity(parent);
+        const turret = new Entity('turret');
+        turret.addComponent({ type: 'health', value: 5 });
+        scene.addEntity(turret);
+        setParent(turret, parent);
+
+        const calls: string[] = [];
+        EventSystem.getInstance().on(WORLD_EVENTS.ENTITY_DESTROYED, event => {
+            calls.push(`destroyed:${event.data.entityId}:${event.data.entity.hasComponent('health')}`);
+        });
+        scene.getEventBus().on(SCENE_EVENTS.ENTITY_REMOVED, event => calls.push(`removed:${event.data.entityId}`));
+
+        scene.destroyEntity('ship');
+        expect(calls).toEqual([]);
+        scene.flushCommands();
+
+        // Children first, then the entity, then the scene notifications
+        expect(calls).toEqual([
+            'destroyed:turret:true',
+            'destroyed:ship:true',
+            'removed:ship',
+            'removed:turret'
+        ]);
+        expect(turret.active).toBe(false);
+        expect(parent.getComponentTypes()).toEqual([]);
+    });
+
+    it('keeps applying commands queued during a flush', () => {
+        const buffer = new CommandBuffer();
+        const scene = activeScene();
+        buffer.run(() => buffer.spawn(new Entity('loot')));
+        buffer.destroy('missing');
+
+        expect(buffer.size).toBe(2);
+        expect(buffer.flush({
+            addEntity: entity => scene.addEntity(entity),
+            getEntity: id => scene.getEntity(id),
+            destroyEntity: id => scene.getWorld().removeEntity(id)
+        })).toBe(2);
+        expect(scene.hasEntity('loot')).toBe(true);
+    });
+
+    it('reuses pooled entities', () => {
+        const scene = activeScene();
+        const reset = vi.fn((entity: Entity) => entity.addComponent({ type: 'bullet', speed: 10 }));
+        let made = 0;
+        const pool = new EntityPool(() => {
+            const entity = new Entity(`bullet-${made++}`);
+            entity.addComponent({ type: 'bullet', speed: 10 });
+            return entity;
+        }, { reset, maxSize: 1 });
+
+        const first = pool.acquire();
+        const second = pool.acquire();
+        scene.addEntity(first);
+        scene.addEntity(second);
+        let heard = 0;
+        EventSystem.getInstance().on(TEST_EVENTS.TESTONE, () => heard++, { owner: first });
+
+        scene.destroyEntity(first);
+        scene.destroyEntity(second);
+        scene.flushCommands();
+
+        // Over maxSize the second one is destroyed for good
+        expect(pool.getFreeCount()).toBe(1);
+        expect(reset).toHaveBeenCalledTimes(2);
+        expect(second.getComponentTypes()).toEqual([]);
+        EventSystem.getInstance().emit(TEST_EVENTS.TESTONE);
+        expect(heard).toBe(0);
+
+        const again = pool.acquire();
+        expect(again).toBe(first);
+        expect(again.active).toBe(true);
+        expect(again.hasComponent('bullet')).toBe(true);
+        expect(pool.getCreatedCount()).toBe(2);
+        expect(() => pool.release(new Entity())).toThrow();
+    });
+
+    it('releases sounds and lights of destroyed entities', () => {
+        const manager = AudioManager.getInstance();
+        const stop = vi.spyOn(manager, 'stop').mockImplementation(() => { });
+        const scene = activeScene();
+        const audio = new AudioSystem();
+        const lighting = new LightingSystem(new LightRegistry());
+        scene.addSystem(audio);
+        lighting.setScene(scene);
+
+        const torch = new Entity('torch');
+        const destroyLight = vi.fn();
+        torch.addComponent({ type: 'audio', clip: 'fire', playingHandle: 'handle-1' } as any);
+        torch.addComponent({ type: 'light', lightType: 'PointLight', instance: { destroy: destroyLight } } as any);
+        scene.addEntity(torch);
+
+        scene.destroyEntity(torch);
+        scene.flushCommands();
+        expect(stop).toHaveBeenCalledWith('handle-1');
+        expect(destroyLight).toHaveBeenCalled();
+
+        // Lights of other scenes are not touched
+        const other = activeScene('menu');
+        const lamp = new Entity('lamp');
+        const destroyLamp = vi.fn();
+        lamp.addComponent({ type: 'light', lightType: 'PointLight', instance: { destroy: destroyLamp } } as any);
+        other.addEntity(lamp);
+        other.destroyEntity(lamp);
+        other.flushCommands();
+        expect(destroyLamp).not.toHaveBeenCalled();
+        stop.mockRestore();
+    });
+
+    it('drops physics bodies while the entity still has its components', async () => {
+        const scene = activeScene();
+        const physics = new PhysicsSystem(PhysicsWorld.create());
+        scene.addSystem(physics);
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        const crate = new Entity('crate');
+        crate.addComponent({ type: 'transform', position: new Vector2(0, 0), rotation: 0, scale: new Vector2(1, 1) });
+        crate.addComponent({ type: 'physicsBody', bodyType: 'dynamic', shape: 'box', width: 1, height: 1, density: 1, friction: 0, restitution: 0 });
+        scene.addEntity(crate);
+        scene.update(1 / 60);
+
+        const hadBody: boolean[] = [];
+        const removed = vi.spyOn(physics, 'onEntityRemoved').mockImplementation(entity => {
+            hadBody.push(entity.hasComponent('physicsBody'));
+        });
+        scene.destroyEntity(crate);
+        scene.update(1 / 60);
+
+        expect(hadBody[0]).toBe(true);
+        removed.mockRestore();
+        scene.destroy();
+    });
+});
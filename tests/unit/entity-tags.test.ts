@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { Scene } from '../../src/core/Scene';
+import { SceneSerializer } from '../../src/core/SceneSerializer';
+import { PrefabRegistry } from '../../src/core/Prefab';
+import { Entity } from '../../src/ecs/Entity';
+import { WORLD_EVENTS } from '../../src/types/event-const';
+
+describe('Entity names and tags', () => {
+    it('indexes names and tags as they change', () => {
+        const scene = new Scene('level');
+        const player = new Entity();
+        player.setName('player');
+        const goblin = new Entity();
+        goblin.addTag('enemy');
+        scene.addEntity(player);
+        scene.addEntity(goblin);
+
+        expect(scene.getByName('player')).toBe(player);
+        expect(scene.getByTag('enemy')).toEqual([goblin]);
+
+        player.setName('hero');
+        player.addTag('enemy');
+        goblin.removeTag('enemy');
+        expect(scene.getByName('player')).toBeUndefined();
+        expect(scene.getByName('hero')).toBe(player);
+        expect(scene.getByTag('enemy')).toEqual([player]);
+
+        scene.removeEntity(player.id);
+        expect(scene.getByName('hero')).toBeUndefined();
+        expect(scene.getByTag('enemy')).toEqual([]);
+        expect(scene.getWorld().getTagCount('enemy')).toBe(0);
+    });
+
+    it('sends group membership events on the scene bus', () => {
+        const scene = new Scene('level');
+        const calls: string[] = [];
+        scene.getEventBus().on(WORLD_EVENTS.TAG_ADDED, event => calls.push(`+${event.data.tag}:${event.data.entity.getName()}`));
+        scene.getEventBus().on(WORLD_EVENTS.TAG_REMOVED, event => calls.push(`-${event.data.tag}:${event.data.entity.getName()}`));
+
+        const orc = new Entity();
+        orc.setName('orc');
+        orc.addTag('enemy');
+        expect(calls).toEqual([]);
+
+        scene.addEntity(orc);
+        orc.addTag('boss');
+        orc.addTag('boss');
+        orc.removeTag('enemy');
+        scene.destroyEntity(orc);
+        scene.flushCommands();
+
+        expect(calls).toEqual(['+enemy:orc', '+boss:orc', '-enemy:orc', '-boss:orc']);
+    });
+
+    it('keeps names and tags through serialization, prefabs and clones', () => {
+        const scene = new Scene('level');
+        const coin = new Entity('coin-1');
+        coin.setName('coin');
+        coin.addTag('pickup');
+        scene.addEntity(coin);
+
+        const serializer = new SceneSerializer();
+        const restored = serializer.deserializeInto(new Scene('copy'), serializer.serialize(scene));
+        expect(restored.getByName('coin')?.id).toBe('coin-1');
+        expect(restored.getByTag('pickup')).toHaveLength(1);
+
+        const clone = coin.clone();
+        expect(clone.getName()).toBe('coin');
+        expect(clone.hasTag('pickup')).toBe(true);
+
+        const prefabs = new PrefabRegistry();
+        prefabs.register('enemy', { name: 'enemy', tags: ['enemy'] });
+        const boss = scene.instantiate('enemy', { name: 'boss', tags: ['boss'] }, prefabs);
+        expect(scene.getByName('boss')).toBe(boss);
+        expect(boss.getTags()).toEqual(['enemy', 'boss']);
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { EventBus, EventSystem } from '../../src/core/EventSystem';
+import { Scene } from '../../src/core/Scene';
+import { Entity } from '../../src/ecs/Entity';
+import { ENGINE_EVENTS, GAMELOOP_EVENTS, SCENE_EVENTS, TEST_EVENTS } from '../../src/types/event-const';
+
+describe('Event buses', () => {
+    it('types payloads from the event map', () => {
+        const bus = new EventBus({ dispatchMode: 'immediate' });
+        const counts: number[] = [];
+        bus.on(GAMELOOP_EVENTS.STEP, event => counts.push(event.data.count));
+        bus.emit(GAMELOOP_EVENTS.STEP, { count: 3 });
+
+        // @ts-expect-error wrong payload for a mapped event
+        bus.emit(GAMELOOP_EVENTS.STEP, { steps: 3 });
+        // Unmapped events take any data
+        bus.emit(TEST_EVENTS.TESTONE, { anything: true });
+
+        expect(counts[0]).toBe(3);
+    });
+
+    it('calls listeners by priority and stops on stopPropagation', () => {
+        const bus = new EventBus({ dispatchMode: 'immediate' });
+        const calls: string[] = [];
+        bus.on(TEST_EVENTS.TESTONE, () => calls.push('default'));
+        bus.on(TEST_EVENTS.TESTONE, () => calls.push('late'), -5);
+        bus.on(TEST_EVENTS.TESTONE, () => calls.push('first'), { priority: 10 });
+        bus.on(TEST_EVENTS.TESTONE, () => calls.push('default 2'));
+
+        bus.emit(TEST_EVENTS.TESTONE);
+        expect(calls).toEqual(['first', 'default', 'default 2', 'late']);
+
+        calls.length = 0;
+        bus.on(TEST_EVENTS.TESTONE, event => { calls.push('consume'); event.stopPropagation(); }, 5);
+        bus.emit(TEST_EVENTS.TESTONE);
+        expect(calls).toEqual(['first', 'consume']);
+    });
+
+    it('bubbles scoped events to the parent buses', () => {
+        const root = new EventBus({ name: 'root', dispatchMode: 'immediate' });
+        const child = root.createChild('level');
+        const calls: string[] = [];
+        root.on(TEST_EVENTS.TESTTWO, event => calls.push(`root:${event.target.name}`));
+        child.on(TEST_EVENTS.TESTTWO, () => calls.push('child'));
+
+        child.emit(TEST_EVENTS.TESTTWO);
+        root.emit(TEST_EVENTS.TESTTWO);
+        expect(calls).toEqual(['child', 'root:level', 'root:root']);
+
+        calls.length = 0;
+        child.once(TEST_EVENTS.TESTTWO, event => event.stopPropagation(), 1);
+        child.emit(TEST_EVENTS.TESTTWO);
+        child.emit(TEST_EVENTS.TESTTWO);
+        expect(calls).toEqual(['child', 'root:level']);
+
+        child.destroy();
+        child.emit(TEST_EVENTS.TESTTWO);
+        expect(calls).toHaveLength(2);
+    });
+
+    it('queues events in the root bus when the dispatch mode is queued', () => {
+        const root = new EventBus({ dispatchMode: 'queued' });
+        const child = root.createChild();
+        const calls: string[] = [];
+        child.on(TEST_EVENTS.TESTTHREE, () => calls.push('child'));
+        root.on(TEST_EVENTS.TESTTHREE, () => calls.push('root'));
+
+        child.emit(TEST_EVENTS.TESTTHREE);
+        expect(calls).toEqual([]);
+        expect(root.getQueueLength()).toBe(1);
+
+        root.processEvents();
+        expect(calls).toEqual(['child', 'root']);
+
+        child.setDispatchMode('immediate');
+        child.emit(TEST_EVENTS.TESTTHREE);
+        expect(calls).toHaveLength(4);
+        expect(root.getDispatchMode()).toBe('queued');
+    });
+
+    it('gives scenes and entities their own buses', () => {
+        const global = EventSystem.getInstance();
+        const scene = new Scene('level');
+        const other = new Scene('menu');
+        const entity = new Entity('player');
+        scene.addEntity(entity);
+
+        const calls: string[] = [];
+        global.on(SCENE_EVENTS.ENTITY_ADDED, event => calls.push(`global:${event.data.scene.name}`));
+        scene.getEventBus().on(SCENE_EVENTS.ENTITY_ADDED, () => calls.push('level'));
+        other.getEventBus().on(SCENE_EVENTS.ENTITY_ADDED, () => calls.push('menu'));
+        scene.getEntityEventBus(entity).on(TEST_EVENTS.TESTFOUR, () => calls.push('player'));
+        scene.getEventBus().on(TEST_EVENTS.TESTFOUR, () => calls.push('level:hit'));
+
+        scene.addEntity(new Entity('enemy'));
+        scene.getEntityEventBus('player').emit(TEST_EVENTS.TESTFOUR);
+        expect(calls).toEqual(['level', 'global:level', 'player', 'level:hit']);
+
+        // Removing the entity drops its bus
+        const bus = scene.getEntityEventBus(entity);
+        scene.removeEntity('player');
+        expect(bus.isDestroyed()).toBe(true);
+    });
+
+    it('switches the global bus to queued dispatch', () => {
+        expect(EventSystem.getDefaultDispatchMode()).toBe('immediate');
+        const global = EventSystem.getInstance();
+        global.setDispatchMode('queued');
+
+        let started = 0;
+        global.on(ENGINE_EVENTS.STARTED, () => started++);
+        global.emit(ENGINE_EVENTS.STARTED);
+        expect(started).toBe(0);
+        global.processEvents();
+        expect(started).toBe(1);
+        global.setDispatchMode(undefined);
+    });
+});
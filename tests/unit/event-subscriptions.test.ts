@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { EventBus, EventSystem, releaseSubscriptions } from '../../src/core/EventSystem';
+import { GameLoop, System } from '../../src/core/GameLoop';
+import { ManualClock } from '../../src/core/Clock';
+import { Scene } from '../../src/core/Scene';
+import { Entity } from '../../src/ecs/Entity';
+import { scriptRegistry } from '../../src/ecs/ScriptRegistry';
+import { AudioSystem } from '../../src/audio/AudioSystem';
+import { ANIMATION_EVENTS, PHYSICS_EVENTS, TEST_EVENTS } from '../../src/types/event-const';
+
+describe('Event subscriptions', () => {
+    it('returns handles that unsubscribe', () => {
+        const bus = new EventBus({ dispatchMode: 'immediate' });
+        let calls = 0;
+        const subscription = bus.on(TEST_EVENTS.TESTONE, () => calls++);
+        const once = bus.once(TEST_EVENTS.TESTONE, () => calls++);
+
+        bus.emit(TEST_EVENTS.TESTONE);
+        expect(calls).toBe(2);
+        expect(once.active).toBe(false);
+
+        subscription.unsubscribe();
+        subscription.unsubscribe();
+        bus.emit(TEST_EVENTS.TESTONE);
+        expect(calls).toBe(2);
+        expect(subscription.active).toBe(false);
+        expect(bus.hasListeners(TEST_EVENTS.TESTONE)).toBe(false);
+    });
+
+    it('matches namespace and catch-all patterns by priority', () => {
+        const bus = new EventBus({ dispatchMode: 'immediate' });
+        const calls: string[] = [];
+        bus.on(PHYSICS_EVENTS.COLLISION_BEGIN, () => calls.push('exact'));
+        // Namespace listeners get the union of the namespace payloads
+        bus.on('PHYSICS:*', event => calls.push(`physics:${'impulse' in event.data ? event.data.impulse : '-'}`));
+        bus.on('*', event => calls.push(`all:${event.type}`), 10);
+
+        bus.emit(PHYSICS_EVENTS.COLLISION_BEGIN, { impulse: 2 });
+        bus.emit(TEST_EVENTS.TESTTWO);
+        expect(calls).toEqual(['all:PHYSICS:COLLISION_BEGIN', 'exact', 'physics:2', 'all:TEST:TWO']);
+
+        bus.removeAllListeners('*');
+        calls.length = 0;
+        bus.emit(PHYSICS_EVENTS.JOINT_BREAK, { joint: null, linearMag: 0, torqueMag: 0 });
+        expect(calls).toEqual(['physics:-']);
+    });
+
+    it('lets a listener remove a later one during dispatch', () => {
+        const bus = new EventBus({ dispatchMode: 'immediate' });
+        const calls: string[] = [];
+        const later = bus.on(TEST_EVENTS.TESTTHREE, () => calls.push('later'));
+        bus.on(TEST_EVENTS.TESTTHREE, () => { calls.push('first'); later.unsubscribe(); }, 1);
+
+        bus.emit(TEST_EVENTS.TESTTHREE);
+        expect(calls).toEqual(['first']);
+    });
+
+    it('releases owned listeners on every bus', () => {
+        const global = EventSystem.getInstance();
+        const scene = new Scene('level');
+        const owner = {};
+        let calls = 0;
+        global.on(TEST_EVENTS.TESTFOUR, () => calls++, { owner });
+        scene.getEventBus().on('TEST:*', () => calls++, { owner });
+
+        scene.getEventBus().emit(TEST_EVENTS.TESTFOUR);
+        expect(calls).toBe(2);
+
+        releaseSubscriptions(owner);
+        scene.getEventBus().emit(TEST_EVENTS.TESTFOUR);
+        expect(calls).toBe(2);
+    });
+
+    it('removes listeners with their entity, script, system or scene', () => {
+        const global = EventSystem.getInstance();
+        const heard: string[] = [];
+        const listen = (name: string, owner: object) =>
+            global.on(TEST_EVENTS.TESTFIVE, () => heard.push(name), { owner });
+
+        const entity = new Entity('player');
+        const script = {};
+        const system: System = { update: () => { } };
+        const scene = new Scene('level');
+        const sceneEntity = new Entity('enemy');
+        scene.addEntity(sceneEntity);
+        const subscriptions = [
+            listen('entity', entity),
+            listen('script', script),
+            listen('system', system),
+            listen('scene', scene),
+            listen('scene entity', sceneEntity)
+        ];
+
+        entity.destroy();
+        scriptRegistry.cleanupInstance(script);
+        const loop = new GameLoop({ clock: new ManualClock() });
+        loop.addSystem(system);
+        loop.removeSystem(system);
+        scene.destroy();
+
+        global.emit(TEST_EVENTS.TESTFIVE);
+        expect(heard).toEqual([]);
+        expect(subscriptions.every(subscription => !subscription.active)).toBe(true);
+    });
+
+    it('stops built-in systems from leaking global listeners', () => {
+        const global = EventSystem.getInstance();
+        const audio = new AudioSystem();
+        expect(global.listenerCount(ANIMATION_EVENTS.FRAME)).toBe(1);
+
+        const scene = new Scene('level');
+        scene.addSystem(audio);
+        scene.removeSystem(audio);
+        expect(global.listenerCount(ANIMATION_EVENTS.FRAME)).toBe(0);
+    });
+});
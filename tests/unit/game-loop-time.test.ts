@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { GameLoop, System } from '../../src/core/GameLoop';
+import { ManualClock } from '../../src/core/Clock';
+import { Scene } from '../../src/core/Scene';
+import { EventSystem } from '../../src/core/EventSystem';
+import { GAMELOOP_EVENTS } from '../../src/types/event-const';
+
+function recorder(phase: System['phase'] = 'fixedUpdate') {
+    const deltas: number[] = [];
+    const system: System = { phase, update: (_entities, dt) => { deltas.push(dt); } };
+    return { system, deltas };
+}
+
+describe('GameLoop time control', () => {
+    it('runs on a manual clock with a configurable fixed rate', () => {
+        const clock = new ManualClock();
+        const loop = new GameLoop({ clock, fixedTimestep: 1 / 50 });
+        const fixed = recorder();
+        const render = recorder('render');
+        loop.addSystem(fixed.system);
+        loop.addSystem(render.system);
+
+        loop.start();
+        render.deltas.length = 0;
+
+        clock.advance(0.1);
+        expect(fixed.deltas).toHaveLength(5);
+        expect(fixed.deltas[0]).toBeCloseTo(0.02);
+        expect(render.deltas).toEqual([0.1]);
+
+        loop.stop();
+        expect(clock.hasPendingFrame()).toBe(false);
+    });
+
+    it('scales game time and caps the fixed steps per frame', () => {
+        const loop = new GameLoop({ clock: new ManualClock(), fixedTimestep: 0.1, maxFrameSkip: 2 });
+        const fixed = recorder();
+        loop.addSystem(fixed.system);
+
+        loop.setTimeScale(0.5);
+        loop.advance(0.2);
+        loop.advance(0.2);
+        expect(fixed.deltas).toHaveLength(2);
+
+        fixed.deltas.length = 0;
+        loop.setTimeScale(0);
+        loop.advance(0.2);
+        expect(fixed.deltas).toHaveLength(0);
+
+        loop.setTimeScale(4);
+        loop.advance(0.2);
+        expect(fixed.deltas).toHaveLength(2);
+
+        expect(() => loop.setTimeScale(-1)).toThrow();
+        expect(() => loop.setFixedTimestep(0)).toThrow();
+    });
+
+    it('steps a stopped loop by whole fixed steps', () => {
+        const loop = new GameLoop({ clock: new ManualClock() });
+        const fixed = recorder();
+        const render = recorder('render');
+        loop.addSystem(fixed.system);
+        loop.addSystem(render.system);
+        loop.setTimeScale(0);
+
+        const steps: any[] = [];
+        const onStep = (event: any) => steps.push(event.data);
+        EventSystem.getInstance().on(GAMELOOP_EVENTS.STEP, onStep);
+
+        loop.step(3);
+        expect(fixed.deltas).toEqual([1 / 60, 1 / 60, 1 / 60]);
+        expect(render.deltas).toHaveLength(3);
+        expect(steps).toEqual([{ count: 3 }]);
+        EventSystem.getInstance().off(GAMELOOP_EVENTS.STEP, onStep);
+    });
+
+    it('applies the scene time scale to its own systems', () => {
+        const scene = new Scene('game');
+        const fixed = recorder();
+        const late = recorder('lateUpdate');
+        scene.addSystem(fixed.system);
+        scene.addSystem(late.system);
+        scene.onEnter();
+
+        scene.setTimeScale(0.25);
+        scene.update(0.1);
+        scene.runPhase('lateUpdate', 0.1);
+        expect(fixed.deltas[0]).toBeCloseTo(0.025);
+        expect(late.deltas[0]).toBeCloseTo(0.025);
+        expect(scene.getDebugInfo().timeScale).toBe(0.25);
+    });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { World } from '../../src/ecs/World';
+import { Entity } from '../../src/ecs/Entity';
+import { Scene } from '../../src/core/Scene';
+import {
+    setParent, getParent, getChildren, getDescendants, getWorldMatrix,
+    getWorldTransform, getWorldPosition, setWorldTransform, cloneHierarchy
+} from '../../src/ecs/Hierarchy';
+import { RenderSystem } from '../../src/graphics/RenderSystem';
+import { Transform } from '../../src/math/Transform';
+import { Vector2 } from '../../src/math/Vector2';
+
+const transform = (x = 0, y = 0, rotation = 0, scale = 1) =>
+    ({ type: 'transform', position: { x, y }, rotation, scale: { x: scale, y: scale } });
+
+function spawn(world: World, x = 0, y = 0, rotation = 0, scale = 1): Entity {
+    const entity = world.createEntity();
+    entity.addComponent(transform(x, y, rotation, scale));
+    return entity;
+}
+
+describe('Transform matrix helpers', () => {
+    it('composes, inverts and decomposes matrices', () => {
+        const parent = new Transform(new Vector2(10, 0), Math.PI / 2, new Vector2(2, 2));
+        const child = new Transform(new Vector2(1, 0), 0, new Vector2(1, 1));
+        const m = Transform.multiplyMatrices(parent.getMatrix(), child.getMatrix());
+
+        const p = Transform.applyMatrix(m, { x: 0, y: 0 });
+        expect(p.x).toBeCloseTo(10);
+        expect(p.y).toBeCloseTo(2);
+
+        const back = Transform.applyMatrix(Transform.invertMatrix(m), p);
+        expect(back.x).toBeCloseTo(0);
+        expect(back.y).toBeCloseTo(0);
+
+        const decomposed = Transform.fromMatrix(m);
+        expect(decomposed.rotation).toBeCloseTo(Math.PI / 2);
+        expect(decomposed.scale.x).toBeCloseTo(2);
+        expect(decomposed.scale.y).toBeCloseTo(2);
+    });
+});
+
+describe('Entity hierarchy', () => {
+    it('links parents and children in sibling order', () => {
+        const world = new World();
+        const ship = spawn(world);
+        const gun = spawn(world);
+        const shield = spawn(world);
+
+        setParent(gun, ship);
+        setParent(shield, ship, 0);
+        expect(getParent(gun)).toBe(ship);
+        expect(getChildren(ship)).toEqual([shield, gun]);
+
+        setParent(gun, null);
+        expect(getParent(gun)).toBeUndefined();
+        expect(getChildren(ship)).toEqual([shield]);
+
+        expect(() => setParent(ship, shield)).toThrow(/descendant/);
+        expect(() => setParent(ship, ship)).toThrow();
+        expect(() => setParent(spawn(new World()), ship)).toThrow(/same world/);
+    });
+
+    it('propagates world transforms and keeps the cache fresh', () => {
+        const world = new World();
+        const ship = spawn(world, 100, 50, Math.PI / 2, 2);
+        const gun = spawn(world, 10, 0);
+        setParent(gun, ship);
+
+        const pos = getWorldPosition(gun);
+        expect(pos.x).toBeCloseTo(100);
+        expect(pos.y).toBeCloseTo(70);
+        expect(getWorldTransform(gun).rotation).toBeCloseTo(Math.PI / 2);
+
+        const cached = getWorldMatrix(gun);
+        expect(getWorldMatrix(gun)).toBe(cached);
+
+        // In-place edits of the parent are picked up without markChanged
+        ship.getComponent<any>('transform').position.x = 0;
+        expect(getWorldMatrix(gun)).not.toBe(cached);
+        expect(getWorldPosition(gun).x).toBeCloseTo(0);
+    });
+
+    it('writes world positions back into local space', () => {
+        const world = new World();
+        const ship = spawn(world, 100, 0, 0, 2);
+        const gun = spawn(world);
+        setParent(gun, ship);
+
+        setWorldTransform(gun, { x: 120, y: 10 }, 0.5);
+        const local = gun.getComponent<any>('transform');
+        expect(local.position.x).toBeCloseTo(10);
+        expect(local.position.y).toBeCloseTo(5);
+        expect(local.rotation).toBeCloseTo(0.5);
+    });
+
+    it('destroys and detaches children together with their parent', () => {
+        const world = new World();
+        const ship = spawn(world);
+        const gun = spawn(world);
+        const barrel = spawn(world);
+        setParent(gun, ship);
+        setParent(barrel, gun);
+
+        world.removeEntity(ship.id);
+        expect(world.getEntityCount()).toBe(0);
+        expect(barrel.active).toBe(false);
+
+        const scene = new Scene('h');
+        const root = new Entity();
+        scene.addEntity(root);
+        const child = new Entity();
+        scene.addEntity(child);
+        setParent(child, root);
+
+        scene.removeEntity(root.id);
+        expect(scene.getEntityCount()).toBe(0);
+        expect(child.active).toBe(true);
+    });
+
+    it('clones a whole subtree under the same parent', () => {
+        const world = new World();
+        const ship = spawn(world);
+        const character = spawn(world, 5, 5);
+        const hat = spawn(world, 0, -3);
+        setParent(character, ship);
+        setParent(hat, character);
+
+        const copy = cloneHierarchy(character);
+        expect(getParent(copy)).toBe(ship);
+        expect(getChildren(ship)).toEqual([character, copy]);
+
+        const [hatCopy] = getChildren(copy);
+        expect(hatCopy).not.toBe(hat);
+        expect(getDescendants(copy)).toEqual([hatCopy]);
+        expect(getWorldPosition(hatCopy).y).toBeCloseTo(2);
+    });
+
+    it('gives clones their own copy of every component', () => {
+        const world = new World();
+        const ship = world.createEntity();
+        ship.addComponent({ type: 'transform', position: new Vector2(0, 0), rotation: 0, scale: new Vector2(1, 1) });
+        ship.addComponent({ type: 'animation', animations: new Map([['idle', { frames: [0, 1] }]]) });
+        const gun = spawn(world, 4, 0);
+        setParent(gun, ship);
+
+        const copy = cloneHierarchy(ship);
+        const [gunCopy] = getChildren(copy);
+        const position = copy.getComponent<any>('transform').position;
+        expect(position).toBeInstanceOf(Vector2);
+        position.x = 100;
+        gunCopy.getComponent<any>('transform').position.y = 7;
+        copy.getComponent<any>('animation').animations.get('idle').frames.push(2);
+
+        expect(ship.getComponent<any>('transform').position.x).toBe(0);
+        expect(gun.getComponent<any>('transform').position).toEqual({ x: 4, y: 0 });
+        expect(ship.getComponent<any>('animation').animations.get('idle').frames).toEqual([0, 1]);
+        expect(getWorldPosition(gun).x).toBeCloseTo(4);
+        expect(getWorldPosition(gunCopy).x).toBeCloseTo(104);
+    });
+
+    it('renders children at their world position', () => {
+        const drawn: Array<{ x: number; y: number }> = [];
+        const renderer = {
+            clear() { }, present() { },
+            drawSprite(_t: any, position: Vector2) { drawn.push({ x: position.x, y: position.y }); }
+        };
+        const rs = new RenderSystem(renderer as any);
+        rs.registerTexture('tex', { width: 8, height: 8 } as any);
+
+        const world = new World();
+        world.addSystem(rs);
+        const ship = spawn(world, 50, 0);
+        const gun = spawn(world, 5, 0);
+        gun.addComponent({ type: 'sprite', texture: 'tex', width: 8, height: 8 });
+        setParent(gun, ship);
+
+        world.update(0);
+        expect(drawn).toEqual([{ x: 55, y: 0 }]);
+    });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createKeyboardEvent } from '../helpers/event-helpers';
+import { InputManager } from '../../src/input/InputManager';
+import { InputPlayer, InputRecorder, InputReplay } from '../../src/input/InputReplay';
+import { InputSystem } from '../../src/input/InputSystem';
+import { GameLoop, System } from '../../src/core/GameLoop';
+import { ManualClock } from '../../src/core/Clock';
+import { randomService } from '../../src/math/Random';
+
+function keyObserver(input: InputManager, log: string[]): System {
+    return {
+        update: () => {
+            log.push(`${input.isKeyPressed('Space') ? 'down' : 'up'}${input.isKeyJustPressed('Space') ? '!' : ''}`);
+            // Just-pressed lasts one step in this test
+            input.update();
+        }
+    };
+}
+
+describe('Input replay', () => {
+    let input: InputManager;
+
+    beforeEach(() => {
+        input = InputManager.getInstance();
+        input.initialize({ canvas: document.createElement('canvas') });
+    });
+
+    afterEach(() => {
+        input.destroy();
+    });
+
+    function record(): { replay: InputReplay; log: string[] } {
+        const loop = new GameLoop({ clock: new ManualClock() });
+        const log: string[] = [];
+        loop.addSystem(keyObserver(input, log));
+        const recorder = new InputRecorder(input);
+        recorder.attach(loop, { seed: 42 });
+
+        loop.step(2);
+        document.dispatchEvent(createKeyboardEvent('keydown', { code: 'Space' }));
+        loop.step(3);
+        document.dispatchEvent(createKeyboardEvent('keyup', { code: 'Space' }));
+        loop.step(2);
+
+        return { replay: recorder.stop(), log };
+    }
+
+    it('stores only the steps whose input changed', () => {
+        const { replay, log } = record();
+
+        expect(log).toEqual(['up', 'up', 'down!', 'down', 'down', 'up', 'up']);
+        expect(replay.seed).toBe(42);
+        expect(replay.steps).toBe(7);
+        expect(replay.fixedTimestep).toBeCloseTo(1 / 60);
+        expect(replay.frames).toEqual([
+            [0, {}],
+            [2, { k: ['Space'], kp: ['Space'] }],
+            [3, { k: ['Space'] }],
+            [5, { kr: ['Space'] }],
+            [6, {}]
+        ]);
+        // Plain JSON round-trips
+        expect(JSON.parse(JSON.stringify(replay))).toEqual(replay);
+    });
+
+    it('plays a replay back step by step through the query API, ignoring live input', () => {
+        const { replay, log: recorded } = record();
+        input.update();
+
+        const loop = new GameLoop({ clock: new ManualClock() });
+        const log: string[] = [];
+        loop.addSystem(keyObserver(input, log));
+        const player = new InputPlayer(replay, input);
+        let finished = false;
+        player.onFinish(() => { finished = true; });
+        player.attach(loop);
+
+        randomService.setSeed(7);
+        loop.step(1);
+        // The replay seed drives the random streams again
+        expect(randomService.getSeed()).toBe(42);
+        // Real keyboard is ignored while the replay runs
+        document.dispatchEvent(createKeyboardEvent('keydown', { code: 'KeyA' }));
+        expect(input.isKeyPressed('KeyA')).toBe(false);
+
+        loop.step(replay.steps - 1);
+        expect(log).toEqual(recorded);
+        expect(player.isFinished()).toBe(true);
+
+        loop.step(1);
+        expect(finished).toBe(true);
+        expect(input.isLiveInputEnabled()).toBe(true);
+        expect(player.getSeed()).toBe(42);
+    });
+
+    it('reproduces transient input with the real InputSystem whatever the frame split', () => {
+        // Fixed steps log the Space state; InputSystem clears just-pressed once per frame
+        function createLoop(log: string[]): GameLoop {
+            const loop = new GameLoop({ clock: new ManualClock() });
+            loop.addSystem(new InputSystem());
+            loop.addSystem({
+                update: () => log.push(`${input.isKeyPressed('Space') ? 'down' : 'up'}${input.isKeyJustPressed('Space') ? '!' : ''}`)
+            });
+            return loop;
+        }
+
+        const recorded: string[] = [];
+        const loop = createLoop(recorded);
+        // The key goes down in the middle of a frame, before step 1 is captured
+        let step = 0;
+        loop.onPhase((phase) => {
+            if (phase !== 'fixedUpdate') return;
+            if (step === 1) document.dispatchEvent(createKeyboardEvent('keydown', { code: 'Space' }));
+            if (step === 4) document.dispatchEvent(createKeyboardEvent('keyup', { code: 'Space' }));
+            step++;
+        }, 200);
+        const recorder = new InputRecorder(input);
+        recorder.attach(loop, { seed: 1 });
+        // Three fixed steps per frame
+        loop.advance(3 * loop.getFixedTimestep());
+        loop.advance(3 * loop.getFixedTimestep());
+        const replay = recorder.stop();
+        expect(recorded).toEqual(['up', 'down!', 'down!', 'down', 'up', 'up']);
+
+        // One fixed step per frame
+        const played: string[] = [];
+        const playback = createLoop(played);
+        new InputPlayer(replay, input).attach(playback);
+        for (let i = 0; i < replay.steps; i++) playback.advance(playback.getFixedTimestep());
+
+        expect(played).toEqual(recorded);
+    });
+
+    it('rejects replays from a newer format', () => {
+        expect(() => new InputPlayer({ version: 99, fixedTimestep: 1 / 60, seed: 0, steps: 0, frames: [] }, input))
+            .toThrow(/newer/);
+    });
+});
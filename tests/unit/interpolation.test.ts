@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { Entity } from '../../src/ecs/Entity';
+import {
+    clearInterpolation,
+    getInterpolatedTransform,
+    recordStepTransform,
+    skipInterpolation
+} from '../../src/ecs/Interpolation';
+import { RenderSystem } from '../../src/graphics/RenderSystem';
+import { Vector2 } from '../../src/math/Vector2';
+
+function spriteEntity(id: string): Entity {
+    const entity = new Entity(id);
+    entity.addComponent({ type: 'transform', position: new Vector2(20, 0), rotation: 0, scale: new Vector2(1, 1) });
+    entity.addComponent({ type: 'sprite', texture: 'box', width: 2, height: 2 });
+    return entity;
+}
+
+describe('Render interpolation', () => {
+    it('blends between the last two recorded steps', () => {
+        const entity = new Entity('ball');
+        expect(getInterpolatedTransform(entity, 0.5)).toBeNull();
+
+        recordStepTransform(entity, { x: 0, y: 0 }, 0);
+        recordStepTransform(entity, { x: 10, y: 4 }, 1);
+        recordStepTransform(entity, { x: 20, y: 8 }, 2);
+
+        const blended = getInterpolatedTransform(entity, 0.25)!;
+        expect(blended.position.x).toBeCloseTo(12.5);
+        expect(blended.position.y).toBeCloseTo(5);
+        expect(blended.rotation).toBeCloseTo(1.25);
+    });
+
+    it('rotates through the shortest arc', () => {
+        const entity = new Entity('wheel');
+        recordStepTransform(entity, { x: 0, y: 0 }, Math.PI - 0.1);
+        recordStepTransform(entity, { x: 0, y: 0 }, -Math.PI + 0.1);
+
+        expect(getInterpolatedTransform(entity, 0.5)!.rotation).toBeCloseTo(Math.PI);
+    });
+
+    it('jumps instead of blending after a teleport', () => {
+        const entity = new Entity('player');
+        recordStepTransform(entity, { x: 0, y: 0 }, 0);
+        recordStepTransform(entity, { x: 1, y: 0 }, 0);
+
+        skipInterpolation(entity);
+        expect(getInterpolatedTransform(entity, 0.5)).toBeNull();
+
+        recordStepTransform(entity, { x: 500, y: 0 }, 0);
+        expect(getInterpolatedTransform(entity, 0.1)!.position.x).toBe(500);
+
+        clearInterpolation(entity);
+        expect(getInterpolatedTransform(entity, 0.1)).toBeNull();
+    });
+
+    it('draws sprites at the interpolated position with the frame alpha', () => {
+        const drawn: Array<{ position: Vector2; rotation: number }> = [];
+        const renderer = {
+            clear() { }, present() { },
+            drawSprite(_texture: any, position: Vector2, _size: Vector2, rotation: number) {
+                drawn.push({ position, rotation });
+            }
+        };
+        const rs = new RenderSystem(renderer as any);
+        rs.registerTexture('box', { name: 'box', width: 2, height: 2 } as any);
+
+        const body = spriteEntity('body');
+        recordStepTransform(body, { x: 10, y: 0 }, 0);
+        recordStepTransform(body, { x: 20, y: 0 }, 0);
+        const still = spriteEntity('still');
+
+        rs.update([body, still], 1 / 120, 0.5);
+        expect(drawn[0].position.x).toBeCloseTo(15);
+        // Entities without recorded steps use their transform
+        expect(drawn[1].position.x).toBe(20);
+
+        drawn.length = 0;
+        rs.setInterpolationEnabled(false);
+        rs.update([body], 1 / 120, 0.5);
+        expect(drawn[0].position.x).toBe(20);
+    });
+});
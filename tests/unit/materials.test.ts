@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RenderSystem } from '../../src/graphics/RenderSystem';
+import { RecordingRenderer } from '../../src/graphics/RecordingRenderer';
+import { Canvas2DRenderer } from '../../src/graphics/Canvas2DRenderer';
+import { materialRegistry } from '../../src/graphics/Material';
+import { flashMaterial, grayscaleMaterial, outlineMaterial, paletteSwapMaterial } from '../../src/graphics/MaterialEffects';
+import { Entity } from '../../src/ecs/Entity';
+import { Vector2 } from '../../src/math/Vector2';
+import { Color } from '../../src/math/Color';
+import { createMockTexture, createMockWebGLRenderer } from '../helpers/webgl-helpers';
+
+const WHITE = new Color(255, 255, 255, 255);
+const RED = new Color(255, 0, 0, 255);
+
+// Make the mock program report the given active uniforms; locations are the uniform names
+function withUniforms(gl: any, uniforms: Array<{ name: string; type: string; size?: number }>) {
+    gl.getProgramParameter = vi.fn((_program: any, parameter: number) => parameter === gl.ACTIVE_UNIFORMS ? uniforms.length : true);
+    gl.getActiveUniform = vi.fn((_program: any, i: number) => ({ name: uniforms[i].name, type: gl[uniforms[i].type], size: uniforms[i].size ?? 1 }));
+    gl.getUniformLocation = vi.fn((_program: any, name: string) => name);
+}
+
+function createSprite(name: string, texture: string, sprite: Record<string, unknown> = {}) {
+    const entity = new Entity(name);
+    entity.addComponent({ type: 'transform', position: new Vector2(0, 0), rotation: 0, scale: new Vector2(1, 1) });
+    entity.addComponent({ type: 'sprite', texture, width: 16, height: 16, tint: WHITE, ...sprite } as any);
+    return entity;
+}
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('Material', () => {
+    it('resolves effects with default uniforms and named textures', () => {
+        const noise = createMockTexture('noise.png');
+        const instance = materialRegistry.resolve(
+            { effect: 'flash', uniforms: { u_amount: 0.5 }, textures: { u_noise: 'noise' } },
+            new Map([['noise', noise]])
+        );
+
+        expect(instance.effect).toBe('flash');
+        expect(instance.uniforms).toMatchObject({ u_flashColor: WHITE, u_amount: 0.5 });
+        expect(instance.textures.u_noise).toBe(noise);
+        expect(materialRegistry.resolve({ fragment: 'vec4 effect(vec4 t, vec2 uv) { return t; }' }, new Map()).effect).toBe('custom');
+    });
+
+    it('builds the built-in materials', () => {
+        expect(outlineMaterial(RED, 2).uniforms).toEqual({ u_outlineColor: RED, u_thickness: 2 });
+        expect(paletteSwapMaterial([[RED, WHITE]]).uniforms).toMatchObject({ u_from: [RED], u_to: [WHITE], u_count: 1 });
+        for (const effect of ['flash', 'outline', 'grayscale', 'paletteSwap']) {
+            expect(materialRegistry.has(effect)).toBe(true);
+        }
+    });
+});
+
+describe('WebGLRenderer materials', () => {
+    it('compiles each effect once and uploads uniforms by type at flush', () => {
+        const { gl, renderer } = createMockWebGLRenderer();
+        withUniforms(gl, [
+            { name: 'u_texture', type: 'SAMPLER_2D' },
+            { name: 'u_textureSize', type: 'FLOAT_VEC2' },
+            { name: 'u_from[0]', type: 'FLOAT_VEC4', size: 8 },
+            { name: 'u_count', type: 'INT' },
+            { name: 'u_tolerance', type: 'FLOAT' }
+        ]);
+        const hero = createMockTexture('hero.png', 32, 16);
+        const material = materialRegistry.resolve(paletteSwapMaterial([[RED, WHITE]], 0.1), new Map());
+        const programs = gl.createProgram.mock.calls.length;
+
+        renderer.setMaterial(material);
+        renderer.drawSprite(hero, new Vector2(0, 0), new Vector2(16, 16), 0, WHITE);
+        renderer.setMaterial(material);
+        renderer.drawSprite(hero, new Vector2(0, 0), new Vector2(16, 16), 0, WHITE);
+        renderer.setMaterial(null);
+
+        expect(gl.createProgram.mock.calls.length).toBe(programs + 1);
+        expect(gl.drawElements).toHaveBeenCalledTimes(2);
+        expect(gl.uniform1i).toHaveBeenCalledWith('u_texture', 0);
+        expect(gl.uniform2f).toHaveBeenCalledWith('u_textureSize', 32, 16);
+        expect(gl.uniform4fv).toHaveBeenCalledWith('u_from', new Float32Array([1, 0, 0, 1]));
+        expect(gl.uniform1iv).toHaveBeenCalledWith('u_count', new Int32Array([1]));
+        expect(gl.uniform1fv.mock.lastCall).toEqual(['u_tolerance', new Float32Array([0.1])]);
+    });
+
+    it('binds extra textures and falls back when an effect does not compile', () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => { });
+        const { gl, renderer } = createMockWebGLRenderer();
+        withUniforms(gl, [{ name: 'u_noise', type: 'SAMPLER_2D' }]);
+        const noise = createMockTexture('noise.png');
+        const dissolve = materialRegistry.resolve(
+            { fragment: 'uniform sampler2D u_noise; vec4 effect(vec4 t, vec2 uv) { return t; }', textures: { u_noise: 'noise' } },
+            new Map([['noise', noise]])
+        );
+
+        renderer.setMaterial(dissolve);
+        renderer.drawSprite(createMockTexture('hero.png'), new Vector2(0, 0), new Vector2(16, 16), 0, WHITE);
+        renderer.flush();
+        expect(gl.activeTexture).toHaveBeenCalledWith(gl.TEXTURE0 + 1);
+        expect(gl.uniform1i).toHaveBeenCalledWith('u_noise', 1);
+
+        gl.getShaderParameter = vi.fn(() => false);
+        const broken = materialRegistry.resolve({ fragment: 'not glsl' }, new Map());
+        renderer.setMaterial(broken);
+        renderer.setMaterial(broken);
+        expect(error).toHaveBeenCalledTimes(1);
+    });
+
+    it('only points the attributes an effect program uses', () => {
+        const { gl, renderer } = createMockWebGLRenderer();
+        // Effects never read v_texIndex, so the linker drops a_texIndex
+        const locations: Record<string, number> = { a_position: 0, a_texCoord: 1, a_color: 2 };
+        gl.getAttribLocation.mockImplementation((_program: unknown, name: string) => locations[name] ?? -1);
+        renderer.setMaterial(materialRegistry.resolve(grayscaleMaterial(), new Map()));
+        gl.enableVertexAttribArray.mockClear();
+        gl.vertexAttribPointer.mockClear();
+
+        renderer.drawSprite(createMockTexture('hero.png'), new Vector2(0, 0), new Vector2(16, 16), 0, WHITE);
+        renderer.flush();
+        expect(gl.enableVertexAttribArray.mock.calls).toEqual([[0], [1], [2]]);
+        expect(gl.vertexAttribPointer.mock.calls.map((call: unknown[]) => call[0])).toEqual([0, 1, 2]);
+    });
+});
+
+describe('Canvas2DRenderer materials', () => {
+    it('approximates effects with filters and silhouettes', () => {
+        const renderer = new Canvas2DRenderer();
+        renderer.initialize(document.createElement('canvas'));
+        const ctx = renderer.getContext() as any;
+        const filters: string[] = [];
+        ctx.drawImage = vi.fn(() => filters.push(ctx.filter));
+        const hero = createMockTexture('hero.png');
+
+        renderer.setMaterial(materialRegistry.resolve(grayscaleMaterial(0.5), new Map()));
+        renderer.drawSprite(hero, new Vector2(0, 0), new Vector2(16, 16), 0, WHITE);
+        expect(filters).toEqual(['grayscale(0.5)']);
+
+        // Flash: the sprite, then its silhouette in the flash colour on top
+        renderer.setMaterial(materialRegistry.resolve(flashMaterial(RED), new Map()));
+        renderer.drawSpriteUV(hero, new Vector2(0, 0), new Vector2(16, 16), 0, 0, 8, 8);
+        expect(ctx.drawImage).toHaveBeenCalledTimes(3);
+        expect(ctx.drawImage.mock.lastCall[0].tagName).toBe('CANVAS');
+
+        // Effects without a Canvas fallback draw the plain sprite
+        renderer.setMaterial(materialRegistry.resolve(paletteSwapMaterial([[RED, WHITE]]), new Map()));
+        renderer.drawSprite(hero, new Vector2(0, 0), new Vector2(16, 16), 0, WHITE);
+        expect(ctx.drawImage).toHaveBeenCalledTimes(4);
+    });
+});
+
+describe('RenderSystem materials', () => {
+    it('sends materials and their blend mode, and resets them after the pass', () => {
+        const renderer = new RecordingRenderer();
+        const render = new RenderSystem(renderer);
+        render.registerTexture('hero', createMockTexture('hero.png'));
+
+        const hit = flashMaterial(RED, 0.75);
+        const entities = [
+            createSprite('plain', 'hero'),
+            createSprite('hit', 'hero', { material: hit }),
+            createSprite('glow', 'hero', { material: { blendMode: 'additive' } })
+        ];
+        render.update(entities, 0);
+
+        expect(renderer.toSnapshot().filter(command => command.type !== 'sprite')).toEqual([
+            // 'additive' sorts first, then the effect
+            { type: 'blend', mode: 'additive' },
+            { type: 'blend', mode: 'normal' },
+            { type: 'blend', mode: 'normal' },
+            { type: 'material', material: { effect: 'flash', uniforms: { u_flashColor: 'rgba(255, 0, 0, 1)', u_amount: 0.75 }, textures: {} } },
+            // End of the pass
+            { type: 'material', material: null },
+            { type: 'blend', mode: 'normal' }
+        ]);
+        expect(renderer.getCommands().map(command => command.type)).toEqual(
+            ['blend', 'sprite', 'blend', 'sprite', 'blend', 'material', 'sprite', 'material', 'blend']
+        );
+    });
+
+    it('warns once when the renderer has no materials', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const renderer = new RecordingRenderer({ capabilities: { materials: false } });
+        const render = new RenderSystem(renderer);
+        render.registerTexture('hero', createMockTexture('hero.png'));
+
+        render.update([createSprite('a', 'hero', { material: grayscaleMaterial() }), createSprite('b', 'hero', { material: grayscaleMaterial() })], 0);
+
+        expect(renderer.getCommands().some(command => command.type === 'material')).toBe(false);
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain("'materials'");
+    });
+});
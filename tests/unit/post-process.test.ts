@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RenderSystem } from '../../src/graphics/RenderSystem';
+import { RecordingRenderer } from '../../src/graphics/RecordingRenderer';
+import { Canvas2DRenderer } from '../../src/graphics/Canvas2DRenderer';
+import { Camera2D } from '../../src/graphics/Camera2D';
+import { RenderCommandList } from '../../src/graphics/RenderCommands';
+import { PostProcessStack, postEffectRegistry } from '../../src/graphics/PostProcess';
+import { bloomPass, colorGradingPass, pixelatePass, vignettePass } from '../../src/graphics/PostEffects';
+import { Texture } from '../../src/graphics/Texture';
+import { LightingSystem } from '../../src/light/LightingSystem';
+import { LightRegistry } from '../../src/light/LightRegistry';
+import { Entity } from '../../src/ecs/Entity';
+import { Vector2 } from '../../src/math/Vector2';
+import { Color } from '../../src/math/Color';
+import { createMockTexture, createMockWebGLRenderer } from '../helpers/webgl-helpers';
+
+const WHITE = new Color(255, 255, 255, 255);
+
+function createSprite(name: string, texture: string) {
+    const entity = new Entity(name);
+    entity.addComponent({ type: 'transform', position: new Vector2(0, 0), rotation: 0, scale: new Vector2(1, 1) });
+    entity.addComponent({ type: 'sprite', texture, width: 16, height: 16, tint: WHITE } as any);
+    return entity;
+}
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('PostProcessStack', () => {
+    it('keeps passes in order and resolves them with their defaults', () => {
+        const stack = new PostProcessStack();
+        const bloom = stack.add(bloomPass(0.5));
+        stack.add('vignette');
+        stack.add(pixelatePass(2), 0);
+        stack.setEnabled('vignette', false);
+
+        expect(stack.getPasses().map(pass => pass.effect)).toEqual(['pixelate', 'bloom', 'vignette']);
+        expect(stack.getActivePasses().map(pass => pass.effect)).toEqual(['pixelate', 'bloom']);
+        expect(stack.remove('pixelate')).toBe(true);
+        expect(stack.remove(bloom)).toBe(true);
+        expect(stack.getPasses().map(pass => pass.effect)).toEqual(['vignette']);
+
+        const lut = createMockTexture('lut.png', 256, 16);
+        const instance = postEffectRegistry.resolve(colorGradingPass('lut', 0.5), new Map([['lut', lut]]));
+        expect(instance?.uniforms).toEqual({ u_intensity: 0.5 });
+        expect(instance?.textures.u_lut).toBe(lut);
+        expect(postEffectRegistry.resolve(vignettePass(0.8), new Map())?.uniforms).toMatchObject({ u_strength: 0.8, u_radius: 0.75 });
+    });
+
+    it('skips unknown effects and reports them once', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        expect(postEffectRegistry.resolve({ effect: 'sepia' }, new Map())).toBeNull();
+        expect(postEffectRegistry.resolve({ effect: 'sepia' }, new Map())).toBeNull();
+        expect(warn).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('RenderSystem post-processing', () => {
+    it('draws the scene into a target and ping-pongs the passes before the HUD', () => {
+        const renderer = new RecordingRenderer();
+        const render = new RenderSystem(renderer);
+        render.registerTexture('hero', createMockTexture('hero.png'));
+        const camera = new Camera2D(320, 240);
+        render.setCamera(camera);
+        const beforeApply = vi.fn();
+        camera.postProcess.add({ ...bloomPass(), beforeApply });
+        camera.postProcess.add(vignettePass());
+        camera.postProcess.add(pixelatePass(3));
+        render.drawCommands(new RenderCommandList().text('score', new Vector2(4, 4), WHITE), 'screen');
+
+        render.update([createSprite('hero', 'hero')], 0);
+
+        expect(beforeApply).toHaveBeenCalledWith({ width: 320, height: 240, camera });
+        const commands = renderer.toSnapshot().filter(command => ['target', 'sprite', 'postEffect', 'text'].includes(command.type));
+        expect(commands.map(command => command.type)).toEqual(['target', 'sprite', 'postEffect', 'postEffect', 'postEffect', 'text']);
+        expect(commands[0]).toEqual({ type: 'target', target: { width: 320, height: 240, id: 1 }, clear: true });
+        const passes = commands.filter(command => command.type === 'postEffect');
+        expect(passes.map(({ effect, source, destination }) => [effect, (source as any).id, (destination as any)?.id ?? null])).toEqual([
+            ['bloom', 1, 2],
+            ['vignette', 2, 1],
+            ['pixelate', 1, null]
+        ]);
+
+        // Same size next frame: targets are reused
+        render.update([createSprite('hero', 'hero')], 0);
+        expect(renderer.toSnapshot()[0]).toMatchObject({ type: 'target', target: { id: 1 } });
+    });
+
+    it('draws straight to the screen when the renderer has no render targets', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const renderer = new RecordingRenderer({ capabilities: { renderTargets: false } });
+        const render = new RenderSystem(renderer);
+        render.registerTexture('hero', createMockTexture('hero.png'));
+        const camera = new Camera2D();
+        camera.postProcess.add(bloomPass());
+        render.setCamera(camera);
+
+        render.update([createSprite('hero', 'hero')], 0);
+        render.update([createSprite('hero', 'hero')], 0);
+
+        expect(renderer.getCommands().some(command => command.type === 'target' || command.type === 'postEffect')).toBe(false);
+        expect(renderer.getCommands().some(command => command.type === 'sprite')).toBe(true);
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain("'renderTargets'");
+    });
+});
+
+describe('WebGLRenderer render targets', () => {
+    it('renders into framebuffers and draws them through the effect shader', () => {
+        const { gl, renderer } = createMockWebGLRenderer();
+        const target = renderer.createRenderTarget(200, 100);
+        expect(gl.framebufferTexture2D).toHaveBeenCalledTimes(1);
+
+        renderer.setRenderTarget(target, true);
+        expect(gl.viewport).toHaveBeenLastCalledWith(0, 0, 200, 100);
+        renderer.drawSprite(createMockTexture('hero.png'), new Vector2(0, 0), new Vector2(16, 16), 0, WHITE);
+        renderer.flush();
+        // Targets are drawn with the y axis flipped so they sample like images
+        expect(gl.uniformMatrix3fv.mock.lastCall[2]).toEqual(new Float32Array([0.01, 0, 0, 0, 0.02, 0, -1, -1, 1]));
+
+        const programs = gl.createProgram.mock.calls.length;
+        const effect = postEffectRegistry.resolve(vignettePass(), new Map())!;
+        renderer.applyPostEffect(effect, target, null);
+        renderer.applyPostEffect(effect, target, null);
+        expect(gl.createProgram.mock.calls.length).toBe(programs + 1);
+        expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, null);
+        expect(gl.viewport).toHaveBeenLastCalledWith(0, 0, 800, 600);
+        expect(gl.drawElements).toHaveBeenCalledTimes(3);
+
+        renderer.destroyRenderTarget(target);
+        expect(gl.deleteFramebuffer).toHaveBeenCalledTimes(1);
+    });
+
+    it('uploads invalidated textures again', () => {
+        const { gl, renderer } = createMockWebGLRenderer();
+        const canvas = document.createElement('canvas');
+        const texture = new Texture(canvas);
+        renderer.drawSprite(texture, new Vector2(0, 0), new Vector2(16, 16), 0, WHITE);
+        renderer.drawSprite(texture, new Vector2(0, 0), new Vector2(16, 16), 0, WHITE);
+        const uploads = gl.texImage2D.mock.calls.length;
+
+        texture.invalidate();
+        renderer.drawSprite(texture, new Vector2(0, 0), new Vector2(16, 16), 0, WHITE);
+        expect(gl.texImage2D.mock.calls.length).toBe(uploads + 1);
+        expect(gl.texImage2D.mock.lastCall[5]).toBe(canvas);
+    });
+});
+
+describe('Canvas2DRenderer render targets', () => {
+    it('draws into offscreen canvases and applies the Canvas fallbacks', () => {
+        const renderer = new Canvas2DRenderer();
+        const screen = document.createElement('canvas');
+        renderer.initialize(screen);
+        const ctx = renderer.getContext() as any;
+        const target = renderer.createRenderTarget(64, 32);
+
+        renderer.setRenderTarget(target, true);
+        expect(renderer.getContext()).not.toBe(ctx);
+        const offscreen = (target as any).canvas;
+
+        ctx.drawImage = vi.fn();
+        ctx.fillRect = vi.fn();
+        renderer.applyPostEffect(postEffectRegistry.resolve({ effect: 'crt' }, new Map())!, target, null);
+        expect(renderer.getContext()).toBe(ctx);
+        expect(ctx.drawImage).toHaveBeenCalledWith(offscreen, 0, 0, ctx.canvas.width, ctx.canvas.height);
+        // One scanline every two rows
+        expect(ctx.fillRect).toHaveBeenCalledTimes(Math.floor(ctx.canvas.height / 2));
+
+        // Effects without a fallback copy the image unchanged
+        renderer.applyPostEffect(postEffectRegistry.resolve(colorGradingPass(createMockTexture('lut.png')), new Map())!, target, null);
+        expect(ctx.drawImage).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('LightingSystem post-processing', () => {
+    it('provides the light map pass and a bloom pass toggled with setBloomEnabled', () => {
+        const lighting = new LightingSystem(new LightRegistry());
+        const [light, bloom] = lighting.getPostProcessPasses();
+        expect(bloom.effect).toBe('bloom');
+        expect(bloom.enabled).toBe(false);
+        lighting.setBloomEnabled(true);
+        expect(bloom.enabled).toBe(true);
+
+        const camera = new Camera2D(160, 120);
+        light.beforeApply!({ width: 160, height: 120, camera });
+        const lightMap = light.textures!.u_lightMap as Texture;
+        expect(lightMap).toBeInstanceOf(Texture);
+        expect([lightMap.width, lightMap.height]).toEqual([160, 120]);
+
+        // Redrawn every frame: same texture, new version; a new size makes a new texture
+        const version = lightMap.getVersion();
+        light.beforeApply!({ width: 160, height: 120, camera });
+        expect(light.textures!.u_lightMap).toBe(lightMap);
+        expect(lightMap.getVersion()).toBe(version + 1);
+        light.beforeApply!({ width: 320, height: 240, camera });
+        expect(light.textures!.u_lightMap).not.toBe(lightMap);
+        expect(lightMap.isDisposed()).toBe(true);
+    });
+});
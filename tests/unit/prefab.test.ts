@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Scene } from '../../src/core/Scene';
+import { PrefabRegistry, prefabRegistry } from '../../src/core/Prefab';
+import { getChildren, getWorldPosition } from '../../src/ecs/Hierarchy';
+import { scriptRegistry } from '../../src/ecs/ScriptRegistry';
+import { ParticleSystem } from '../../src/particles/ParticleSystem';
+import { Vector2 } from '../../src/math/Vector2';
+
+class PatrolScript {
+    speed = 1;
+    update(_dt: number) { }
+}
+
+describe('PrefabRegistry', () => {
+    let registry: PrefabRegistry;
+
+    beforeEach(() => {
+        scriptRegistry.register('patrol', PatrolScript as any);
+        registry = new PrefabRegistry();
+        registry.register('gun', {
+            components: {
+                transform: { position: { x: 10, y: 0 }, rotation: 0, scale: { x: 1, y: 1 } },
+                sprite: { texture: 'gun', width: 4, height: 2 }
+            }
+        });
+        registry.register('enemy', {
+            layer: 'enemy',
+            components: {
+                transform: { position: { x: 0, y: 0 }, rotation: 0, scale: { x: 1, y: 1 } },
+                health: { value: 10 }
+            },
+            scripts: [{ scriptName: 'patrol', state: { speed: 2 } }],
+            children: [{ prefab: 'gun' }]
+        });
+        registry.register('boss', {
+            extends: 'enemy',
+            components: { health: { value: 100 } }
+        });
+    });
+
+    it('instantiates components, layer, scripts and nested children', () => {
+        const scene = new Scene('p');
+        const enemy = registry.instantiate('enemy', scene, { position: { x: 50, y: 60 } });
+
+        expect(scene.getEntityCount()).toBe(2);
+        expect(enemy.getLayer()).toBe('enemy');
+        expect(enemy.getComponent<any>('health').value).toBe(10);
+        expect(enemy.getComponent<any>('script').scripts).toEqual([{ scriptName: 'patrol', state: { speed: 2 } }]);
+
+        const [gun] = getChildren(enemy);
+        expect(gun.getComponent<any>('sprite').texture).toBe('gun');
+        expect(getWorldPosition(gun).x).toBe(60);
+        expect(getWorldPosition(gun).y).toBe(60);
+    });
+
+    it('applies overrides and inheritance without touching the template', () => {
+        const scene = new Scene('p');
+        const boss = registry.instantiate('boss', scene, {
+            components: { health: { regen: 1 } },
+            scripts: { patrol: { speed: 5 } }
+        });
+
+        expect(boss.getComponent<any>('health')).toMatchObject({ type: 'health', value: 100, regen: 1 });
+        expect(boss.getComponent<any>('script').scripts[0].state.speed).toBe(5);
+
+        const plain = registry.instantiate('enemy', scene);
+        expect(plain.getComponent<any>('health').value).toBe(10);
+        expect(plain.getComponent<any>('script').scripts[0].state.speed).toBe(2);
+        // Every instance owns its component objects
+        expect(plain.getComponent('transform')).not.toBe(boss.getComponent('transform'));
+    });
+
+    it('overrides nested prefab children', () => {
+        registry.register('tank', {
+            children: [{ prefab: 'gun', overrides: { position: { x: 0, y: -5 } } }]
+        });
+        const scene = new Scene('p');
+        const [gun] = getChildren(registry.instantiate('tank', scene));
+        expect(gun.getComponent<any>('transform').position).toEqual({ x: 0, y: -5 });
+    });
+
+    it('builds components with their runtime types', () => {
+        registry.register('walker', {
+            components: { animation: { animations: { walk: { frames: [0, 1] } } } }
+        });
+        const scene = new Scene('p');
+        const walker = registry.instantiate('walker', scene, { position: { x: 2, y: 3 }, scale: { x: 2, y: 2 } });
+        const transform = walker.getComponent<any>('transform');
+        expect(transform.position).toBeInstanceOf(Vector2);
+        expect(transform.scale).toBeInstanceOf(Vector2);
+        expect(transform.position.add(new Vector2(1, 1))).toMatchObject({ x: 3, y: 4 });
+        expect(walker.getComponent<any>('animation').animations.get('walk')).toEqual({ frames: [0, 1] });
+
+        const [gun] = getChildren(registry.instantiate('enemy', scene));
+        expect(gun.getComponent<any>('transform').position).toBeInstanceOf(Vector2);
+        expect(registry.resolve('gun', { position: { x: 1, y: 1 } }).components!.transform.position).toBeInstanceOf(Vector2);
+    });
+
+    it('rejects unknown prefabs and cycles', () => {
+        const scene = new Scene('p');
+        expect(() => registry.instantiate('missing', scene)).toThrow(/not registered/);
+
+        registry.register('a', { extends: 'b' });
+        registry.register('b', { extends: 'a' });
+        expect(() => registry.instantiate('a', scene)).toThrow(/cycle/);
+
+        registry.register('loop', { children: [{ prefab: 'loop' }] });
+        expect(() => registry.instantiate('loop', scene)).toThrow(/cycle/);
+        expect(scene.getEntityCount()).toBe(0);
+    });
+
+    it('supports scene.instantiate with the global registry and particle emitters', () => {
+        prefabRegistry.register('torch', {
+            components: { transform: { position: { x: 0, y: 0 }, rotation: 0, scale: { x: 1, y: 1 } } },
+            emitters: [{ state: { emissionRate: 100 } }]
+        });
+        const scene = new Scene('p');
+        const torch = scene.instantiate('torch', { position: { x: 3, y: 4 } });
+        expect(scene.getEntity(torch.id)).toBe(torch);
+
+        const ps = new ParticleSystem();
+        ps.update(scene.getEntities(), 0.1);
+        expect(ps.getParticleCount()).toBeGreaterThan(0);
+        ps.update(scene.getEntities(), 0.1);
+        // The component emitter is attached only once
+        expect((ps as any).emitters).toHaveLength(1);
+        prefabRegistry.unregister('torch');
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RenderSystem } from '../../src/graphics/RenderSystem';
+import { RecordingRenderer } from '../../src/graphics/RecordingRenderer';
+import { RenderCommandList } from '../../src/graphics/RenderCommands';
+import { Canvas2DRenderer } from '../../src/graphics/Canvas2DRenderer';
+import { Camera2D } from '../../src/graphics/Camera2D';
+import { Texture } from '../../src/graphics/Texture';
+import { Entity } from '../../src/ecs/Entity';
+import { Vector2 } from '../../src/math/Vector2';
+import { Color } from '../../src/math/Color';
+
+const WHITE = new Color(255, 255, 255, 255);
+
+function createScene(renderer: RecordingRenderer) {
+    const render = new RenderSystem(renderer);
+    render.registerTexture('hero', new Texture({ src: 'hero.png', width: 64, height: 32, complete: true } as any));
+    render.setLayerOrder([{ name: 'fx', bit: 1, opacity: 0.5 }]);
+    render.setCamera(new Camera2D(800, 600));
+
+    const hero = new Entity('hero');
+    hero.setLayer('fx');
+    hero.addComponent({ type: 'transform', position: new Vector2(10, 20), rotation: 0, scale: new Vector2(1, 1) });
+    hero.addComponent({
+        type: 'sprite', texture: 'hero', width: 16, height: 16, tint: WHITE,
+        uvX: 0.25, uvY: 0, uvWidth: 0.25, uvHeight: 0.5, flipX: true, flipY: false
+    } as any);
+    return { render, hero };
+}
+
+describe('RecordingRenderer', () => {
+    it('records a frame as plain commands', () => {
+        const renderer = new RecordingRenderer();
+        const { render, hero } = createScene(renderer);
+
+        render.drawCommands(new RenderCommandList().text('HP 3', new Vector2(8, 16), WHITE, { font: '12px monospace' }), 'screen');
+        render.update([hero], 0);
+
+        expect(renderer.toSnapshot()).toEqual([
+            { type: 'camera', x: 0, y: 0, zoom: 1, rotation: 0 },
+            { type: 'alpha', alpha: 0.5 },
+            { type: 'blend', mode: 'normal' },
+            {
+                type: 'spriteUV', texture: 'hero.png',
+                position: { x: 10, y: 20 }, size: { x: 16, y: 16 },
+                uv: { x: 16, y: 0, width: 16, height: 16 },
+                rotation: 0, flipX: true, flipY: false, tint: 'rgba(255, 255, 255, 1)'
+            },
+            { type: 'alpha', alpha: 1 },
+            { type: 'resetTransform' },
+            { type: 'text', text: 'HP 3', position: { x: 8, y: 16 }, color: 'rgba(255, 255, 255, 1)', style: { font: '12px monospace' } },
+            { type: 'blend', mode: 'normal' }
+        ]);
+        expect(render.getStats()).toMatchObject({ drawCalls: 2, sprites: 2 });
+
+        // Queued commands are drawn once
+        render.update([hero], 0);
+        expect(renderer.getFrames()).toHaveLength(2);
+        expect(renderer.getCommands().some(command => command.type === 'text')).toBe(false);
+    });
+
+    it('reports missing capabilities once and falls back', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const renderer = new RecordingRenderer({ capabilities: { uvSprites: false, globalAlpha: false } });
+        const { render, hero } = createScene(renderer);
+
+        render.update([hero], 0);
+        render.update([hero], 0);
+
+        expect(renderer.getCommands().map(command => command.type)).toEqual(['camera', 'blend', 'sprite', 'resetTransform', 'blend']);
+        expect(warn).toHaveBeenCalledTimes(2);
+        expect(warn.mock.calls.map(call => call[0])).toEqual([
+            expect.stringContaining("'globalAlpha'"),
+            expect.stringContaining("'uvSprites'")
+        ]);
+        warn.mockRestore();
+    });
+});
+
+describe('RenderCommandList', () => {
+    it('runs on any renderer, skipping what it cannot draw', () => {
+        const drawSprite = vi.fn();
+        const texture = { width: 64, height: 32 } as any;
+        new RenderCommandList()
+            .spriteUV(texture, new Vector2(1, 2), new Vector2(16, 16), { x: 0, y: 0, width: 16, height: 16 })
+            .text('skipped', new Vector2(0, 0), WHITE)
+            .submit({ clear() { }, present() { }, drawSprite } as any);
+
+        expect(drawSprite).toHaveBeenCalledTimes(1);
+        expect(drawSprite.mock.calls[0][1]).toMatchObject({ x: 1, y: 2 });
+    });
+
+    it('maps blend, clip and text onto Canvas2D', () => {
+        const renderer = new Canvas2DRenderer();
+        renderer.initialize(document.createElement('canvas'));
+        const ctx = renderer.getContext() as any;
+        Object.assign(ctx, { clip: vi.fn(), getTransform: vi.fn(() => 'camera'), fillText: vi.fn() });
+
+        new RenderCommandList()
+            .blend('additive')
+            .clip({ x: 0, y: 0, width: 100, height: 50 })
+            .text('Score', new Vector2(4, 8), WHITE, { align: 'center' })
+            .clip(null)
+            .submit(renderer);
+
+        expect(ctx.globalCompositeOperation).toBe('lighter');
+        expect(ctx.rect).toHaveBeenCalledWith(0, 0, 100, 50);
+        expect(ctx.setTransform).toHaveBeenLastCalledWith('camera');
+        expect(ctx.fillText).toHaveBeenCalledWith('Score', 4, 8);
+        expect(ctx.textAlign).toBe('center');
+        // The clip's save is undone by clip(null)
+        expect(ctx.save.mock.calls.length).toBe(ctx.restore.mock.calls.length);
+    });
+});
@@ -12,7 +12,7 @@ describe('RenderSystem with particles', () => {
     it('accepts particle system and queries particles for render', () => {
         const rs = new RenderSystem(new (DummyRenderer as any)());
         const ps = new ParticleSystem();
-        rs.setParticleSystem(ps as any);
+        rs.setParticleSystem(ps);
 
         // should not throw when calling update with no entities
         rs.update([], 0);
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Scene } from '../../src/core/Scene';
+import { SaveManager, saveManager } from '../../src/core/SaveManager';
+import { LocalStorageSaveStorage, MemorySaveStorage, SaveStorage } from '../../src/core/SaveStorage';
+import { EventSystem } from '../../src/core/EventSystem';
+import { SAVE_EVENTS } from '../../src/types/event-const';
+import { Entity } from '../../src/ecs/Entity';
+import { Vector2 } from '../../src/math/Vector2';
+
+class CounterScript {
+    count = 0;
+    getAllProperties() { return { count: this.count }; }
+    setAllProperties(state: any) { this.count = state.count; }
+}
+
+function buildScene(): { scene: Scene; player: Entity; coin: Entity; npc: Entity; wall: Entity } {
+    const scene = new Scene('level1');
+
+    const player = new Entity('player');
+    player.addComponent({ type: 'persistent' });
+    player.addComponent({ type: 'transform', position: new Vector2(1, 2), rotation: 0, scale: new Vector2(1, 1) });
+    player.addComponent({ type: 'health', value: 10 });
+    scene.addEntity(player);
+
+    const coin = new Entity('coin');
+    coin.addComponent({ type: 'persistent', components: ['collected'] });
+    coin.addComponent({ type: 'collected', value: false });
+    coin.addComponent({ type: 'sprite', texture: 'coin', width: 4, height: 4 });
+    scene.addEntity(coin);
+
+    const npc = new Entity('npc');
+    npc.addComponent({ type: 'script', scripts: [{ scriptName: 'counter', instance: new CounterScript() }] });
+    scene.addEntity(npc);
+
+    const wall = new Entity('wall');
+    wall.addComponent({ type: 'sprite', texture: 'wall', width: 4, height: 4 });
+    scene.addEntity(wall);
+
+    return { scene, player, coin, npc, wall };
+}
+
+describe('SaveManager', () => {
+    it('captures only persistent components and live script state', () => {
+        const { scene, npc } = buildScene();
+        (npc.getComponent<any>('script').scripts[0].instance as CounterScript).count = 4;
+
+        const snapshot = new SaveManager().createSnapshot(scene, 'quick');
+        const byId = Object.fromEntries(snapshot.entities.map(e => [e.id, e.components.map(c => c.type)]));
+
+        expect(byId).toEqual({
+            player: ['persistent', 'transform', 'health'],
+            coin: ['persistent', 'collected'],
+            npc: ['script']
+        });
+        expect(snapshot.entities[2].components[0].scripts).toEqual([{ scriptName: 'counter', state: { count: 4 } }]);
+    });
+
+    it('restores saved state in place and removes destroyed persistent entities', async () => {
+        const saves = new SaveManager({ storage: new MemorySaveStorage() });
+        const { scene, player, coin, npc } = buildScene();
+        const counter = npc.getComponent<any>('script').scripts[0].instance as CounterScript;
+        counter.count = 3;
+        await saves.save('slot1', scene);
+
+        player.getComponent<any>('transform').position.x = 99;
+        player.getComponent<any>('health').value = 1;
+        counter.count = 50;
+        const extra = new Entity('extra');
+        extra.addComponent({ type: 'persistent' });
+        scene.addEntity(extra);
+        coin.getComponent<any>('collected').value = true;
+
+        const info = await saves.load('slot1', scene);
+        expect(info?.sceneName).toBe('level1');
+        expect(scene.getEntity('player')).toBe(player);
+        expect(player.getComponent<any>('transform').position).toBeInstanceOf(Vector2);
+        expect(player.getComponent<any>('transform').position.x).toBe(1);
+        expect(player.getComponent<any>('health').value).toBe(10);
+        // The running instance is kept and receives the saved state
+        expect(npc.getComponent<any>('script').scripts[0].instance).toBe(counter);
+        expect(counter.count).toBe(3);
+        expect(scene.hasEntity('extra')).toBe(false);
+        expect(coin.getComponent<any>('collected').value).toBe(false);
+
+        expect(await saves.load('missing', scene)).toBeNull();
+    });
+
+    it('recreates missing entities only from full persistent captures', () => {
+        const saves = new SaveManager();
+        const { scene, player, coin, npc } = buildScene();
+        const snapshot = saves.createSnapshot(scene, 'quick');
+
+        const fresh = new Scene('level1');
+        saves.applySnapshot(fresh, snapshot);
+
+        expect(fresh.getEntity('player')).not.toBe(player);
+        expect(fresh.getEntity('player').getComponent('health').value).toBe(10);
+        // Partial and script-only captures are a slice of the entity, not a whole one
+        expect(fresh.hasEntity(coin.id)).toBe(false);
+        expect(fresh.hasEntity(npc.id)).toBe(false);
+    });
+
+    it('lists, deletes and stores metadata for named slots', async () => {
+        const saves = new SaveManager({ storage: new LocalStorageSaveStorage('test-saves:', window.localStorage) });
+        const { scene } = buildScene();
+        const now = vi.spyOn(Date, 'now');
+
+        now.mockReturnValue(1000);
+        await saves.save('auto', scene, { label: 'Autosave', thumbnail: 'data:image/png;base64,AAAA' });
+        now.mockReturnValue(2000);
+        await saves.save('manual', scene, { custom: { chapter: 2 } });
+        now.mockRestore();
+
+        const slots = await saves.listSlots();
+        expect(slots.map(s => s.slot)).toEqual(['manual', 'auto']);
+        expect(slots[0].custom).toEqual({ chapter: 2 });
+        expect(slots[1]).toMatchObject({ label: 'Autosave', thumbnail: 'data:image/png;base64,AAAA' });
+        expect(window.localStorage.getItem('test-saves:info:auto')).not.toBeNull();
+
+        await saves.delete('auto');
+        expect(await saves.has('auto')).toBe(false);
+        expect((await saves.listSlots()).map(s => s.slot)).toEqual(['manual']);
+        await saves.delete('manual');
+    });
+
+    it('emits SAVE_EVENTS and works with custom async adapters', async () => {
+        const written: Record<string, string> = {};
+        const adapter: SaveStorage = {
+            read: async (key) => written[key] ?? null,
+            write: async (key, value) => { written[key] = value; },
+            remove: async () => { throw new Error('read-only'); },
+            keys: async () => Object.keys(written)
+        };
+        const saves = new SaveManager({ storage: adapter });
+        const events = EventSystem.getInstance();
+        const seen: string[] = [];
+        const record = (event: any) => seen.push(event.type);
+        const types = [SAVE_EVENTS.SAVING, SAVE_EVENTS.SAVED, SAVE_EVENTS.LOADING, SAVE_EVENTS.LOADED, SAVE_EVENTS.ERROR];
+        types.forEach(type => events.on(type, record));
+
+        const { scene } = buildScene();
+        // An empty slot is not a load: no LOADING left without its LOADED
+        expect(await saves.load('cloud', scene)).toBeNull();
+        await saves.save('cloud', scene);
+        await saves.load('cloud', scene);
+        await expect(saves.delete('cloud')).rejects.toThrow('read-only');
+        types.forEach(type => events.off(type, record));
+
+        expect(seen).toEqual([
+            SAVE_EVENTS.SAVING, SAVE_EVENTS.SAVED, SAVE_EVENTS.LOADING, SAVE_EVENTS.LOADED, SAVE_EVENTS.ERROR
+        ]);
+        expect(JSON.parse(written['slot:cloud']).info.slot).toBe('cloud');
+    });
+
+    it('emits through the current event bus after EventSystem.reset()', async () => {
+        saveManager.getStorage(); // the global instance exists before the reset
+        EventSystem.reset();
+        const saved = vi.fn();
+        EventSystem.getInstance().on(SAVE_EVENTS.SAVED, saved);
+
+        await saveManager.save('reset', buildScene().scene);
+        await saveManager.delete('reset');
+
+        expect(saved).toHaveBeenCalledTimes(1);
+        EventSystem.getInstance().off(SAVE_EVENTS.SAVED, saved);
+    });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Scene } from '../../src/core/Scene';
+import { SceneStack } from '../../src/core/SceneStack';
+import { Engine } from '../../src/core/Engine';
+import { EventSystem } from '../../src/core/EventSystem';
+import { Entity } from '../../src/ecs/Entity';
+import { RenderSystem } from '../../src/graphics/RenderSystem';
+import { crossfadeTransition, fadeTransition, wipeTransition } from '../../src/graphics/SceneTransition';
+import { SCENE_EVENTS } from '../../src/types/event-const';
+import { Vector2 } from '../../src/math/Vector2';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function spriteScene(name: string, texture: string): Scene {
+    const scene = new Scene(name);
+    const entity = new Entity();
+    entity.addComponent({ type: 'transform', position: new Vector2(10, 10), rotation: 0, scale: new Vector2(1, 1) });
+    entity.addComponent({ type: 'sprite', texture, width: 4, height: 4 });
+    scene.addEntity(entity);
+    return scene;
+}
+
+describe('SceneStack', () => {
+    it('pauses and hides the scenes below according to their policies', async () => {
+        const stack = new SceneStack();
+        const game = new Scene('game');
+        const pause = new Scene('pause');
+        pause.setPolicy({ renderBelow: true });
+        const hud = new Scene('hud');
+        hud.setPolicy({ updateBelow: true, renderBelow: true });
+
+        stack.reset(game);
+        await stack.push(pause);
+        expect(stack.getTop()).toBe(pause);
+        expect(game.active).toBe(true);
+        expect(game.paused).toBe(true);
+        expect(stack.getUpdatingScenes()).toEqual([pause]);
+        expect(stack.getRenderedScenes()).toEqual([game, pause]);
+
+        await stack.pop();
+        expect(pause.active).toBe(false);
+        expect(game.paused).toBe(false);
+
+        await stack.push(hud);
+        expect(stack.getUpdatingScenes()).toEqual([hud, game]);
+
+        const level2 = new Scene('level2');
+        await stack.replace(level2);
+        expect(stack.getScenes()).toEqual([game, level2]);
+        expect(stack.getRenderedScenes()).toEqual([level2]);
+        expect(game.paused).toBe(true);
+
+        await expect(stack.push(game)).rejects.toThrow(/already/);
+    });
+
+    it('switches scenes halfway through a fade and resolves when it ends', async () => {
+        const stack = new SceneStack();
+        const a = new Scene('a');
+        const b = new Scene('b');
+        stack.reset(a);
+
+        const events: string[] = [];
+        const record = (event: any) => events.push(event.type);
+        const eventSystem = EventSystem.getInstance();
+        eventSystem.on(SCENE_EVENTS.TRANSITION_START, record);
+        eventSystem.on(SCENE_EVENTS.TRANSITION_END, record);
+
+        let done = false;
+        stack.replace(b, { transition: fadeTransition(1) }).then(() => { done = true; });
+        await flush();
+        expect(stack.isTransitioning()).toBe(true);
+
+        stack.update(0.25);
+        let frame = stack.getRenderFrame();
+        expect(frame.passes.map(p => p.world)).toEqual([a.getWorld()]);
+        expect(frame.cover!.alpha).toBeCloseTo(0.5);
+        expect(stack.getTop()).toBe(a);
+
+        stack.update(0.5);
+        frame = stack.getRenderFrame();
+        expect(stack.getTop()).toBe(b);
+        expect(a.active).toBe(false);
+        expect(frame.passes.map(p => [p.world, p.opacity])).toEqual([[a.getWorld(), 0], [b.getWorld(), 1]]);
+
+        stack.update(0.5);
+        await flush();
+        expect(done).toBe(true);
+        expect(stack.isTransitioning()).toBe(false);
+        expect(events).toEqual([SCENE_EVENTS.TRANSITION_START, SCENE_EVENTS.TRANSITION_END]);
+        eventSystem.off(SCENE_EVENTS.TRANSITION_START, record);
+        eventSystem.off(SCENE_EVENTS.TRANSITION_END, record);
+    });
+
+    it('holds the transition until the next scene assets are preloaded', async () => {
+        let finishLoading!: () => void;
+        const loader = vi.fn(() => new Promise<void>(resolve => { finishLoading = resolve; }));
+        const stack = new SceneStack(null, loader);
+        const menu = new Scene('menu');
+        const level = new Scene('level');
+        level.setPreloadAssets([{ name: 'tiles', type: 'texture', path: 'tiles.png' }]);
+        stack.reset(menu);
+
+        const change = stack.replace(level, { transition: wipeTransition(1, 'left') });
+        await flush();
+        expect(loader).toHaveBeenCalledWith([{ name: 'tiles', type: 'texture', path: 'tiles.png' }]);
+
+        stack.update(0.9);
+        expect(stack.getTop()).toBe(menu);
+        // Fully covered while waiting
+        expect(stack.getRenderFrame().cover).toMatchObject({ x: 0, width: 1 });
+
+        finishLoading();
+        await flush();
+        expect(stack.getTop()).toBe(level);
+        stack.update(0.5);
+        await change;
+    });
+
+    it('queues changes requested during a transition', async () => {
+        const stack = new SceneStack();
+        const game = new Scene('game');
+        const menu = new Scene('menu');
+        menu.setPolicy({ renderBelow: true });
+        stack.reset(game);
+
+        const push = stack.push(menu, { transition: crossfadeTransition(1) });
+        const pop = stack.pop();
+        await flush();
+        // Crossfades switch immediately and fade the new scene in
+        expect(stack.getTop()).toBe(menu);
+        expect(stack.getRenderFrame().passes.map(p => p.opacity)).toEqual([1, 0]);
+
+        stack.update(1);
+        await push;
+        await pop;
+        expect(stack.getScenes()).toEqual([game]);
+    });
+});
+
+describe('Engine scene stack', () => {
+    it('pushes scenes by name and draws the stack through the RenderSystem', async () => {
+        const canvas = document.createElement('canvas');
+        const engine = new Engine({ canvas, width: 100, height: 100, renderer: 'canvas2d' });
+        const game = spriteScene('game', 'hero');
+        const pause = spriteScene('pause', 'panel');
+        pause.setPolicy({ renderBelow: true });
+        engine.addScene(game);
+        engine.addScene(pause);
+        engine.setActiveScene('game');
+
+        await engine.pushScene('pause');
+        expect(engine.getActiveScene()).toBe(pause);
+        expect(engine.getSceneStack().getScenes()).toEqual([game, pause]);
+
+        const drawn: string[] = [];
+        const rects: any[] = [];
+        const renderer = {
+            clear() { }, present() { },
+            drawSprite(texture: any) { drawn.push(texture.name); },
+            drawRectangle(position: Vector2, size: Vector2, color: any) { rects.push({ position, size, color }); }
+        };
+        const rs = new RenderSystem(renderer as any);
+        rs.registerTexture('hero', { name: 'hero', width: 4, height: 4 } as any);
+        rs.registerTexture('panel', { name: 'panel', width: 4, height: 4 } as any);
+        rs.setFrameProvider(() => ({ ...engine.getSceneStack().getRenderFrame(), viewport: { width: 100, height: 100 } }));
+        engine.addSystem(rs);
+
+        rs.update([], 0);
+        expect(drawn).toEqual(['hero', 'panel']);
+
+        const back = engine.popScene({ transition: fadeTransition(1) });
+        await flush();
+        engine.getSceneStack().update(0.25);
+        drawn.length = 0;
+        rs.update([], 0);
+        expect(drawn).toEqual(['hero', 'panel']);
+        expect(rects[0].size).toEqual(new Vector2(100, 100));
+        expect(rects[0].color.a).toBeCloseTo(127.5);
+
+        engine.getSceneStack().update(1);
+        await back;
+        expect(engine.getActiveScene()).toBe(game);
+        expect(game.paused).toBe(false);
+        engine.destroy();
+    });
+});
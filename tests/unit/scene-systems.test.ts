@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Scene } from '../../src/core/Scene';
+import { SceneStack } from '../../src/core/SceneStack';
+import { EventSystem } from '../../src/core/EventSystem';
+import { Entity } from '../../src/ecs/Entity';
+import { ParticleSystem } from '../../src/particles/ParticleSystem';
+import { createDefaultParticleComponent } from '../../src/particles/ParticleComponent';
+import { PhysicsWorld } from '../../src/physics/PhysicsWorld';
+import { PhysicsSystem } from '../../src/physics/PhysicsSystem';
+import { GAMELOOP_EVENTS } from '../../src/types/event-const';
+import { Vector2 } from '../../src/math/Vector2';
+
+function mockSystem() {
+    return {
+        initialize: vi.fn(),
+        setWorld: vi.fn(),
+        setScene: vi.fn(),
+        suspend: vi.fn(),
+        resume: vi.fn(),
+        destroy: vi.fn(),
+        update: vi.fn()
+    };
+}
+
+function emitterScene(name: string): Scene {
+    const scene = new Scene(name);
+    const entity = new Entity(`${name}-emitter`);
+    entity.addComponent({ type: 'transform', position: new Vector2(0, 0), rotation: 0, scale: new Vector2(1, 1) });
+    entity.addComponent({ type: 'particleEmitter', emitters: [{ ...createDefaultParticleComponent(), emissionRate: 100 }] });
+    scene.addEntity(entity);
+    scene.addSystem(new ParticleSystem());
+    return scene;
+}
+
+describe('Scene systems', () => {
+    it('runs its systems only while the scene is active and not paused', () => {
+        const scene = new Scene('game');
+        const system = mockSystem();
+        scene.addSystem(system);
+
+        expect(system.initialize).toHaveBeenCalled();
+        expect(system.setWorld).toHaveBeenCalledWith(scene.getWorld());
+        expect(system.setScene).toHaveBeenCalledWith(scene);
+
+        scene.update(0.016);
+        expect(system.update).not.toHaveBeenCalled();
+
+        scene.onEnter();
+        expect(system.resume).toHaveBeenCalledTimes(1);
+        scene.update(0.016);
+        expect(system.update).toHaveBeenCalledWith(scene.getActiveEntities(), 0.016, undefined);
+
+        scene.pause();
+        expect(system.suspend).toHaveBeenCalledTimes(1);
+        scene.update(0.016);
+        expect(system.update).toHaveBeenCalledTimes(1);
+
+        scene.resume();
+        expect(system.resume).toHaveBeenCalledTimes(2);
+        scene.onExit();
+        expect(system.suspend).toHaveBeenCalledTimes(2);
+    });
+
+    it('suspends the systems of scenes paused by the stack', async () => {
+        const stack = new SceneStack();
+        const game = new Scene('game');
+        const menu = new Scene('menu');
+        const gameSystem = mockSystem();
+        game.addSystem(gameSystem);
+
+        stack.reset(game);
+        await stack.push(menu);
+        expect(gameSystem.suspend).toHaveBeenCalledTimes(1);
+
+        await stack.pop();
+        expect(gameSystem.resume).toHaveBeenCalledTimes(2);
+        // Scene-wide resolvers are registered again on resume
+        expect(gameSystem.setScene).toHaveBeenCalledTimes(3);
+    });
+
+    it('removes and destroys systems, reporting update errors', () => {
+        const scene = new Scene('game');
+        const broken = { update: vi.fn(() => { throw new Error('boom'); }) };
+        const system = mockSystem();
+        scene.addSystem(broken);
+        scene.addSystem(system);
+        scene.onEnter();
+
+        const errors: any[] = [];
+        const onError = (event: any) => errors.push(event.data);
+        const eventSystem = EventSystem.getInstance();
+        eventSystem.on(GAMELOOP_EVENTS.SYSTEM_ERROR, onError);
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => { });
+
+        scene.update(0.016);
+        expect(errors).toHaveLength(1);
+        expect(errors[0].scene).toBe(scene);
+        expect(system.update).toHaveBeenCalled();
+
+        expect(scene.removeSystem(broken)).toBe(true);
+        expect(scene.removeSystem(broken)).toBe(false);
+
+        scene.destroy();
+        expect(system.suspend).toHaveBeenCalled();
+        expect(system.setWorld).toHaveBeenLastCalledWith(null);
+        expect(system.destroy).toHaveBeenCalled();
+        expect(scene.getSystems()).toEqual([]);
+
+        consoleError.mockRestore();
+        eventSystem.off(GAMELOOP_EVENTS.SYSTEM_ERROR, onError);
+    });
+
+    it('keeps a particle pool per scene', () => {
+        const a = emitterScene('a');
+        const b = emitterScene('b');
+        a.onEnter();
+        b.onEnter();
+
+        a.update(0.1);
+        const aParticles = a.getSystem(ParticleSystem)!;
+        const bParticles = b.getSystem(ParticleSystem)!;
+        expect(aParticles).not.toBe(bParticles);
+        expect(aParticles.getParticleCount()).toBeGreaterThan(0);
+        expect(bParticles.getParticleCount()).toBe(0);
+
+        a.destroy();
+        expect(aParticles.getParticleCount()).toBe(0);
+    });
+
+    it('gives each scene its own physics world', async () => {
+        const shared = await PhysicsWorld.getInstance();
+        const local = await PhysicsWorld.create();
+        expect(local).not.toBe(shared);
+        expect(shared.isShared()).toBe(true);
+        expect(local.isShared()).toBe(false);
+
+        const scene = new Scene('level');
+        const physics = new PhysicsSystem(local);
+        scene.addSystem(physics);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(physics.getPhysicsWorld()).toBe(local);
+
+        local.setGravity(new Vector2(0, 2));
+        expect(shared.getGravity()).not.toEqual(new Vector2(0, 2));
+
+        // Destroying a scene-owned system leaves the shared world alone
+        const destroyShared = vi.spyOn(shared, 'destroy');
+        scene.destroy();
+        const globalPhysics = new PhysicsSystem();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        globalPhysics.destroy();
+        expect(destroyShared).not.toHaveBeenCalled();
+        destroyShared.mockRestore();
+    });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { Scene } from '../../src/core/Scene';
+import { SceneSerializer, SCENE_SCHEMA_VERSION } from '../../src/core/SceneSerializer';
+import { Entity } from '../../src/ecs/Entity';
+import { setParent, getParent } from '../../src/ecs/Hierarchy';
+import { Vector2 } from '../../src/math/Vector2';
+import { Camera2D } from '../../src/graphics/Camera2D';
+
+function buildScene(): Scene {
+    const scene = new Scene('level1');
+    scene.addLayer('water', 0x0040, 0x0001, false, 0.5);
+    scene.setCameraSettings({ position: { x: 10, y: 20 }, zoom: 2, rotation: 0, bounds: { x: 0, y: 0, width: 500, height: 400 } });
+
+    const player = new Entity('player');
+    player.setLayer('player');
+    player.addComponent({ type: 'transform', position: new Vector2(5, 6), rotation: 0.5, scale: new Vector2(1, 1) });
+    player.addComponent({ type: 'sprite', texture: 'hero', width: 16, height: 16 });
+    player.addComponent({
+        type: 'animation', spriteSheet: 'hero', currentAnimation: 'idle', currentFrame: 0, frameTime: 0.1,
+        elapsedTime: 0, loop: true, playing: true,
+        animations: new Map([['idle', { name: 'idle', frames: [0, 1], duration: 0.2, loop: true, pingPong: false }]])
+    });
+    player.addComponent({ type: 'anim-machine', defKey: 'hero', currentState: 'idle', elapsed: 0 });
+    player.addComponent({ type: 'physicsBody', bodyType: 'dynamic', shape: 'box', width: 1, height: 2, density: 1, friction: 0.2, restitution: 0 });
+    player.addComponent({ type: 'audio', clip: 'step', volume: 0.5, playingHandle: { id: 7 } });
+    player.addComponent({
+        type: 'script',
+        scripts: [{ scriptName: 'patrol', state: { speed: 1 }, instance: { getAllProperties: () => ({ speed: 9 }) } }]
+    });
+    player.addComponent({ type: 'light', lightType: 'point', state: { radius: 10 }, castShadows: true });
+    player.addComponent({ type: 'particleEmitter', emitters: [{ type: 'point', emissionRate: 3, color: { r: 1, g: 2, b: 3, a: 1 } }] });
+    scene.addEntity(player);
+
+    const hat = new Entity('hat');
+    hat.addComponent({ type: 'transform', position: new Vector2(0, -8), rotation: 0, scale: new Vector2(1, 1) });
+    scene.addEntity(hat);
+    setParent(hat, player);
+    return scene;
+}
+
+describe('Scene serialization', () => {
+    it('round-trips layers, camera, hierarchy and built-in components', () => {
+        const data = JSON.parse(JSON.stringify(buildScene().toJSON()));
+        expect(data.version).toBe(SCENE_SCHEMA_VERSION);
+
+        const loaded = Scene.fromJSON(data);
+        expect(loaded.name).toBe('level1');
+        expect(loaded.getLayer('water')).toMatchObject({ bit: 0x0040, visible: false, opacity: 0.5 });
+        expect(loaded.getCameraSettings()).toMatchObject({ position: { x: 10, y: 20 }, zoom: 2 });
+
+        const player: Entity = loaded.getEntity('player');
+        expect(player.getLayer()).toBe('player');
+        const transform = player.getComponent<any>('transform');
+        expect(transform.position).toBeInstanceOf(Vector2);
+        expect(transform.position.x).toBe(5);
+
+        const animation = player.getComponent<any>('animation');
+        expect(animation.animations).toBeInstanceOf(Map);
+        expect(animation.animations.get('idle').frames).toEqual([0, 1]);
+
+        expect(player.getComponent<any>('anim-machine').currentState).toBe('idle');
+        expect(player.getComponent<any>('physicsBody').height).toBe(2);
+        expect(player.getComponent<any>('audio').playingHandle).toBeUndefined();
+        // Live script state is captured from the running instance
+        expect(player.getComponent<any>('script').scripts).toEqual([{ scriptName: 'patrol', state: { speed: 9 } }]);
+        expect(player.getComponent<any>('light')).toMatchObject({ lightType: 'point', state: { radius: 10 }, castShadows: true });
+        expect(player.getComponent<any>('particleEmitter').emitters[0].emissionRate).toBe(3);
+
+        expect(getParent(loaded.getEntity('hat')!)).toBe(player);
+    });
+
+    it('clones entities through the component serializers', () => {
+        const player: Entity = buildScene().getEntity('player');
+        const copy = player.clone();
+
+        expect(copy.getComponent<any>('transform').position).toBeInstanceOf(Vector2);
+        copy.getComponent<any>('transform').position.x = 100;
+        expect(player.getComponent<any>('transform').position.x).toBe(5);
+        expect(copy.getComponent<any>('animation').animations).not.toBe(player.getComponent<any>('animation').animations);
+        // Runtime state is rebuilt for the clone, not shared
+        expect(copy.getComponent<any>('script').scripts).toEqual([{ scriptName: 'patrol', state: { speed: 9 } }]);
+        expect(copy.getComponent<any>('audio').playingHandle).toBeUndefined();
+    });
+
+    it('migrates pre-versioned scene files', () => {
+        const legacy = {
+            name: 'old',
+            active: true,
+            entities: [{ id: 'e1', layer: 'enemy', components: [{ type: 'transform', position: { x: 1, y: 2 } }] }]
+        };
+
+        const scene = Scene.fromJSON(legacy);
+        expect(scene.active).toBe(true);
+        const e1: Entity = scene.getEntity('e1');
+        expect(e1.active).toBe(true);
+        expect(e1.getLayer()).toBe('enemy');
+        expect(e1.getComponent<any>('transform').scale.x).toBe(1);
+    });
+
+    it('runs registered migrations and rejects newer files', () => {
+        const serializer = new SceneSerializer();
+        serializer.registerMigration(0, (data) => ({
+            ...data,
+            layers: [],
+            camera: null,
+            entities: data.objects.map((o: any) => ({ id: o.name, active: true, layer: 'default', components: [] }))
+        }));
+
+        const scene = Scene.fromJSON({ name: 'custom', objects: [{ name: 'a' }] }, serializer);
+        expect(scene.hasEntity('a')).toBe(true);
+
+        expect(() => Scene.fromJSON({ name: 'future', version: SCENE_SCHEMA_VERSION + 1 })).toThrow(/newer/);
+    });
+
+    it('captures and applies camera settings', () => {
+        const camera = new Camera2D(100, 100);
+        camera.position.set(3, 4);
+        camera.zoom = 1.5;
+        const settings = camera.getSettings();
+
+        const other = new Camera2D(100, 100);
+        other.applySettings(settings);
+        expect(other.position.x).toBe(3);
+        expect(other.zoom).toBe(1.5);
+    });
+});
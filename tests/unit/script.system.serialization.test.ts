@@ -47,7 +47,7 @@ describe('ScriptSystem serialization integration', () => {
 
         // emit entity removed
         const es = EventSystem.getInstance();
-        es.emit(SCENE_EVENTS.ENTITY_REMOVED, { entity: e });
+        es.emit(SCENE_EVENTS.ENTITY_REMOVED, { scene: null as any, entity: e, entityId: e.id });
 
         // after removal, component state should be updated
         expect(sc.scripts[0].state).toBeDefined();
@@ -69,7 +69,7 @@ describe('ScriptSystem', () => {
         (sc.instance as any).destroy = () => { destroyed = true; };
 
         const ev = EventSystem.getInstance();
-        ev.emit(SCENE_EVENTS.ENTITY_REMOVED, { scene: null, entity: e, entityId: e.id });
+        ev.emit(SCENE_EVENTS.ENTITY_REMOVED, { scene: null as any, entity: e, entityId: e.id });
 
         // process queued events (test env processes immediately)
         ev.processEvents?.();
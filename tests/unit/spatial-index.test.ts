@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Scene } from '../../src/core/Scene';
+import { EventSystem } from '../../src/core/EventSystem';
+import { Entity } from '../../src/ecs/Entity';
+import { setParent, setWorldTransform } from '../../src/ecs/Hierarchy';
+import { CollisionSystem } from '../../src/ecs/CollisionSystem';
+import { RenderSystem } from '../../src/graphics/RenderSystem';
+import { Camera2D } from '../../src/graphics/Camera2D';
+import { Random } from '../../src/math/Random';
+import { SpatialHash } from '../../src/math/SpatialHash';
+import { QuadTree } from '../../src/math/QuadTree';
+import { rectsOverlap } from '../../src/math/SpatialPartition';
+import { Vector2 } from '../../src/math/Vector2';
+import { PHYSICS_EVENTS } from '../../src/types/event-const';
+
+function place(scene: Scene, id: string, x: number, y: number, size = 10): Entity {
+    const entity = new Entity(id);
+    entity.addComponent({ type: 'transform', position: new Vector2(x, y), rotation: 0, scale: new Vector2(1, 1) });
+    entity.addComponent({ type: 'collider', width: size, height: size, isTrigger: false });
+    scene.addEntity(entity);
+    return entity;
+}
+
+describe('Spatial partitioning', () => {
+    it('hash and quadtree agree with a brute-force search', () => {
+        const random = new Random(7);
+        const hash = new SpatialHash<number>(32);
+        const tree = new QuadTree<number>({ x: 0, y: 0, width: 1000, height: 1000 }, { maxItems: 4 });
+        const rects = new Map<number, Rectangle>();
+        const randomRect = () => ({ x: random.range(-100, 1100), y: random.range(-100, 1100), width: random.range(0, 80), height: random.range(0, 80) });
+
+        for (let i = 0; i < 300; i++) rects.set(i, randomRect());
+        // Move some items and remove others
+        for (let i = 0; i < 100; i++) rects.set(i, randomRect());
+        for (const [item, rect] of rects) {
+            hash.insert(item, rect);
+            tree.insert(item, rect);
+        }
+        for (let i = 100; i < 150; i++) {
+            rects.delete(i);
+            hash.remove(i);
+            tree.remove(i);
+        }
+
+        for (let q = 0; q < 50; q++) {
+            const area = randomRect();
+            const expected = [...rects].filter(([, rect]) => rectsOverlap(rect, area)).map(([item]) => item).sort((a, b) => a - b);
+            expect(hash.query(area).sort((a, b) => a - b)).toEqual(expected);
+            expect(tree.query(area).sort((a, b) => a - b)).toEqual(expected);
+        }
+        expect(hash.size).toBe(250);
+        expect(tree.size).toBe(250);
+    });
+
+    it('answers region, radius, ray and nearest queries for a scene', () => {
+        const scene = new Scene('level');
+        scene.onEnter();
+        const index = scene.enableSpatialIndex({ type: 'quadtree', bounds: { x: -500, y: -500, width: 1000, height: 1000 } });
+        const a = place(scene, 'a', 0, 0);
+        const b = place(scene, 'b', 100, 0);
+        const c = place(scene, 'c', 300, 0);
+        c.addTag('enemy');
+
+        expect(index.queryRegion({ x: -10, y: -10, width: 120, height: 20 })).toEqual(expect.arrayContaining([a, b]));
+        expect(index.queryRadius({ x: 0, y: 0 }, 96).map(e => e.id).sort()).toEqual(['a', 'b']);
+        expect(index.queryRadius({ x: 0, y: 0 }, 94)).toEqual([a]);
+        expect(index.raycast({ x: -50, y: 0 }, { x: 1, y: 0 }, 1000).map(hit => hit.entity.id)).toEqual(['a', 'b', 'c']);
+        expect(index.raycast({ x: -50, y: 0 }, { x: 2, y: 0 }, 1000)[0].distance).toBe(45);
+        expect(index.nearest({ x: 290, y: 0 }, 2)).toEqual([c, b]);
+        expect(index.nearest({ x: 0, y: 0 }, 1, { tag: 'enemy' })).toEqual([c]);
+
+        // Marked moves are seen by the next query, in the same phase
+        b.getComponent<any>('transform').position.x = 1000;
+        b.markChanged('transform');
+        expect(index.queryRadius({ x: 1000, y: 0 }, 1)).toEqual([b]);
+
+        scene.removeEntity('b');
+        expect(index.size).toBe(2);
+    });
+
+    it('reinserts only the entities that changed, with their descendants', () => {
+        const scene = new Scene('level');
+        scene.onEnter();
+        const index = scene.enableSpatialIndex({ cellSize: 64 });
+        const ship = place(scene, 'ship', 0, 0);
+        const gun = place(scene, 'gun', 20, 0);
+        setParent(gun, ship);
+        place(scene, 'rock', 300, 0);
+        expect(index.size).toBe(3);
+
+        const insert = vi.spyOn(index.getPartition(), 'insert');
+        setWorldTransform(ship, { x: 500, y: 0 });
+        scene.update(1 / 60);
+        expect(insert.mock.calls.map(([entity]) => entity.id).sort()).toEqual(['gun', 'ship']);
+        expect(index.queryRadius({ x: 520, y: 0 }, 1)).toEqual([gun]);
+
+        // Unmarked edits wait for update() or refresh()
+        insert.mockClear();
+        ship.getComponent<any>('transform').position.x = 0;
+        expect(index.queryRadius({ x: 0, y: 0 }, 1)).toEqual([]);
+        expect(insert).not.toHaveBeenCalled();
+        index.update(ship);
+        expect(index.queryRadius({ x: 0, y: 0 }, 1)).toEqual([ship]);
+    });
+
+    it('lets the CollisionSystem skip distant pairs', () => {
+        const run = (withIndex: boolean) => {
+            const scene = new Scene('level');
+            scene.onEnter();
+            scene.addSystem(new CollisionSystem());
+            place(scene, 'a', 0, 0);
+            place(scene, 'b', 5, 0);
+            place(scene, 'far', 500, 500);
+            place(scene, 'far-2', 504, 500);
+            const index = withIndex ? scene.enableSpatialIndex({ cellSize: 64 }) : null;
+            const query = index ? vi.spyOn(index, 'queryRegion') : null;
+
+            const pairs: string[] = [];
+            const subscription = EventSystem.getInstance().on(PHYSICS_EVENTS.COLLISION_BEGIN, event => pairs.push(`${event.data.entityA!.id}-${event.data.entityB!.id}`));
+            scene.update(1 / 60);
+            subscription.unsubscribe();
+            return { pairs, query };
+        };
+
+        const bruteForce = run(false).pairs;
+        const { pairs, query } = run(true);
+        expect(pairs).toEqual(bruteForce);
+        expect(pairs).toEqual(['a-b', 'far-far-2']);
+        expect(query).toHaveBeenCalled();
+    });
+
+    it('follows the positions corrected by collision resolution', () => {
+        const scene = new Scene('level');
+        scene.onEnter();
+        const collisions = new CollisionSystem();
+        scene.addSystem(collisions);
+        const ground = place(scene, 'ground', 0, 10);
+        ground.getComponent<any>('collider').isStatic = true;
+        const crate = place(scene, 'crate', 0, 2);
+        const index = scene.enableSpatialIndex({ cellSize: 64 });
+        index.refresh();
+
+        collisions.update(scene.getEntities(), 1 / 60);
+
+        // Pushed up by 2 and marked changed, so the index already has it
+        expect(crate.getComponent<any>('transform').position.y).toBeCloseTo(0);
+        expect(index.getEntityBounds(crate)!.y).toBeCloseTo(-5);
+        expect(index.getEntityBounds(ground)!.y).toBeCloseTo(5);
+    });
+
+    it('culls sprites outside the camera with the index', () => {
+        const scene = new Scene('level');
+        const drawSprite = vi.fn();
+        const renderer = { clear: () => { }, present: () => { }, drawSprite };
+        const render = new RenderSystem(renderer as any);
+        render.registerTexture('mock', { width: 16, height: 16 } as any);
+        render.setWorld(scene.getWorld());
+        const camera = new Camera2D(200, 200);
+        render.setCamera(camera);
+
+        for (const [id, x] of [['near', 10], ['far', 5000]] as const) {
+            const entity = new Entity(id);
+            entity.addComponent({ type: 'transform', position: new Vector2(x, 0), rotation: 0, scale: new Vector2(1, 1) });
+            entity.addComponent({ type: 'sprite', texture: 'mock', width: 16, height: 16 } as any);
+            scene.addEntity(entity);
+        }
+
+        const index = scene.enableSpatialIndex();
+        const query = vi.spyOn(index, 'queryRegion');
+        render.update(scene.getEntities(), 0);
+        expect(query).toHaveBeenCalledWith({ x: -150, y: -150, width: 300, height: 300 }, { includeInactive: true });
+        expect(drawSprite).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RenderSystem } from '../../src/graphics/RenderSystem';
+import { Entity } from '../../src/ecs/Entity';
+import { Vector2 } from '../../src/math/Vector2';
+import { Color } from '../../src/math/Color';
+import { createMockTexture as texture, createMockWebGLRenderer as createRenderer, getFlushedVertices } from '../helpers/webgl-helpers';
+
+const WHITE = new Color(255, 255, 255, 255);
+
+describe('WebGL sprite batching', () => {
+    it('draws thousands of sprites of one texture with a single call', () => {
+        const { gl, renderer } = createRenderer();
+        const tex = texture('a.png');
+
+        renderer.clear();
+        renderer.drawSprite(tex, new Vector2(10, 20), new Vector2(4, 2), 0, WHITE);
+        for (let i = 1; i < 3000; i++) renderer.drawSprite(tex, new Vector2(i, i), new Vector2(8, 8), 0, WHITE);
+        expect(gl.drawElements).not.toHaveBeenCalled();
+        renderer.present();
+
+        expect(gl.drawElements).toHaveBeenCalledTimes(1);
+        expect(gl.drawElements.mock.calls[0][1]).toBe(3000 * 6);
+        expect(renderer.getFrameStats()).toEqual({ drawCalls: 1, sprites: 3000, vertices: 12000 });
+
+        // First quad: top-left, top-right, bottom-right, bottom-left with normalized UVs
+        const corners = getFlushedVertices(gl).slice(0, 4).map(({ x, y, u, v }) => [x, y, u, v]);
+        expect(corners).toEqual([[8, 19, 0, 0], [12, 19, 1, 0], [12, 21, 1, 1], [8, 21, 0, 1]]);
+    });
+
+    it('flushes when the texture units, the buffer or the blend mode run out', () => {
+        const { gl, renderer } = createRenderer({ maxSprites: 10 }, 4);
+        const textures = ['a', 'b', 'c', 'd', 'e'].map(name => texture(name));
+
+        renderer.clear();
+        // Five textures on four units: two calls
+        for (const tex of textures) renderer.drawSprite(tex, new Vector2(0, 0), new Vector2(1, 1), 0, WHITE);
+        renderer.flush();
+        expect(gl.drawElements).toHaveBeenCalledTimes(2);
+
+        // 25 sprites with room for 10: three calls
+        for (let i = 0; i < 25; i++) renderer.drawSprite(textures[0], new Vector2(0, 0), new Vector2(1, 1), 0, WHITE);
+        renderer.flush();
+        expect(gl.drawElements).toHaveBeenCalledTimes(5);
+
+        // Each blend change draws what was queued before it
+        renderer.drawSprite(textures[0], new Vector2(0, 0), new Vector2(1, 1), 0, WHITE);
+        renderer.setBlendMode('additive');
+        renderer.drawSprite(textures[0], new Vector2(0, 0), new Vector2(1, 1), 0, WHITE);
+        renderer.setBlendMode('additive');
+        renderer.drawSpriteBatch(textures[0], [{ x: 0, y: 0, size: 2, color: { r: 255, g: 0, b: 0, a: 0.5 } }]);
+        renderer.setBlendMode('normal');
+        renderer.present();
+        expect(gl.drawElements).toHaveBeenCalledTimes(7);
+        expect(gl.blendFunc).toHaveBeenLastCalledWith(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+        expect(renderer.getFrameStats()).toMatchObject({ drawCalls: 7, sprites: 33 });
+    });
+
+    it('sorts sprites of the same depth by blend mode and texture', () => {
+        const drawn: string[] = [];
+        const renderer = {
+            clear() { }, present() { },
+            setBlendMode: vi.fn(),
+            getFrameStats: () => ({ drawCalls: 2, sprites: 5, vertices: 20 }),
+            drawSprite: (tex: any) => drawn.push(tex.name)
+        };
+        const render = new RenderSystem(renderer as any);
+        for (const name of ['a', 'b', 'glow']) render.registerTexture(name, { name } as any);
+
+        const sprites = [['a', 0], ['b', 0], ['a', 0], ['glow', 0, 'additive'], ['b', -1]] as const;
+        const entities = sprites.map(([name, zIndex, blendMode], i) => {
+            const entity = new Entity(`e${i}`);
+            entity.addComponent({ type: 'transform', position: new Vector2(0, 0), rotation: 0, scale: new Vector2(1, 1) });
+            entity.addComponent({ type: 'sprite', texture: name, width: 8, height: 8, tint: WHITE, zIndex, blendMode } as any);
+            return entity;
+        });
+        render.update(entities, 0);
+
+        // zIndex still decides first; 'additive' sorts before 'normal'
+        expect(drawn).toEqual(['b', 'glow', 'a', 'a', 'b']);
+        expect(renderer.setBlendMode.mock.calls.map(call => call[0])).toEqual(['normal', 'additive', 'normal', 'normal', 'normal', 'normal']);
+        expect(render.getStats()).toMatchObject({ drawCalls: 2, sprites: 5, vertices: 20 });
+    });
+});
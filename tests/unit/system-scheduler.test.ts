@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SystemScheduler } from '../../src/core/SystemScheduler';
+import { GameLoop, System } from '../../src/core/GameLoop';
+import { Scene } from '../../src/core/Scene';
+
+function named(name: string, log: string[], phase?: System['phase']): System {
+    return { phase, update: () => { log.push(name); } };
+}
+
+describe('SystemScheduler', () => {
+    it('orders systems of a phase with before/after constraints', () => {
+        const log: string[] = [];
+        const scheduler = new SystemScheduler();
+        const physics = named('physics', log);
+        const movement = named('movement', log);
+        const camera = named('camera', log);
+
+        scheduler.add(physics, { name: 'physics' });
+        scheduler.add(camera, { name: 'camera', phase: 'lateUpdate' });
+        scheduler.add(movement, { name: 'movement', before: ['physics'], after: [camera] });
+
+        expect(scheduler.getSystems('fixedUpdate')).toEqual([movement, physics]);
+        expect(scheduler.getSystems()).toEqual([movement, physics, camera]);
+
+        scheduler.run('fixedUpdate', [], 1 / 60);
+        expect(log).toEqual(['movement', 'physics']);
+    });
+
+    it('rejects circular constraints and keeps the previous order', () => {
+        const scheduler = new SystemScheduler();
+        const a = named('a', []);
+        const b = named('b', []);
+        scheduler.add(a, { name: 'a', before: ['b'] });
+
+        expect(() => scheduler.add(b, { name: 'b', before: [a] })).toThrow(/Circular/);
+        expect(scheduler.has(b)).toBe(false);
+        expect(scheduler.getSystems()).toEqual([a]);
+    });
+
+    it('skips disabled systems and reports errors without stopping the phase', () => {
+        const log: string[] = [];
+        const errors: unknown[] = [];
+        const scheduler = new SystemScheduler((_system, error) => errors.push(error));
+        const broken: System = { update: () => { throw new Error('boom'); } };
+        const debug = named('debug', log, 'postRender');
+        scheduler.add(broken, { phase: 'postRender' });
+        scheduler.add(debug, { name: 'debug' });
+
+        scheduler.setEnabled('debug', false);
+        scheduler.run('postRender', [], 0);
+        expect(log).toEqual([]);
+        expect(errors).toHaveLength(1);
+
+        scheduler.setEnabled(debug, true);
+        expect(scheduler.isEnabled('debug')).toBe(true);
+        scheduler.run('postRender', [], 0);
+        expect(log).toEqual(['debug']);
+    });
+});
+
+describe('GameLoop phases', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('renders once per animation frame with the interpolation alpha', () => {
+        let now = 1000;
+        let frame: FrameRequestCallback | null = null;
+        vi.spyOn(performance, 'now').mockImplementation(() => now);
+        vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => { frame = callback; return 1; });
+        vi.stubGlobal('cancelAnimationFrame', () => { });
+
+        const loop = new GameLoop();
+        const calls: Array<[string, number | undefined]> = [];
+        const system = (name: string, phase: System['phase']): System => ({
+            phase,
+            update: (_entities, _dt, alpha) => { calls.push([name, alpha]); }
+        });
+        loop.addSystem(system('render', 'render'));
+        loop.addSystem(system('physics', 'fixedUpdate'));
+        loop.addSystem(system('input', 'input'));
+        loop.addSystem(system('late', 'lateUpdate'));
+        const phases: string[] = [];
+        loop.onPhase(phase => phases.push(phase));
+
+        loop.start();
+        calls.length = 0;
+        phases.length = 0;
+
+        // Two and a half fixed steps since the last frame
+        now += 2.5 * 1000 * loop.getFixedTimestep();
+        frame!(now);
+
+        expect(calls.map(([name]) => name)).toEqual(['input', 'physics', 'physics', 'late', 'render']);
+        expect(calls[calls.length - 1][1]).toBeCloseTo(0.5);
+        expect(phases).toEqual(['input', 'preUpdate', 'fixedUpdate', 'fixedUpdate', 'update', 'lateUpdate', 'render', 'postRender']);
+        loop.stop();
+    });
+
+    it('lets scene systems choose their phase', () => {
+        const scene = new Scene('game');
+        const log: string[] = [];
+        scene.addSystem(named('logic', log));
+        scene.addSystem(named('draw', log, 'render'));
+        scene.onEnter();
+
+        scene.update(1 / 60);
+        expect(log).toEqual(['logic']);
+
+        scene.pause();
+        scene.runPhase('update', 1 / 60);
+        scene.runPhase('render', 1 / 60, 0.5);
+        // Paused scenes below an overlay are still drawn
+        expect(log).toEqual(['logic', 'draw']);
+    });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Scene } from '../../src/core/Scene';
+import { PrefabRegistry } from '../../src/core/Prefab';
+import { Entity } from '../../src/ecs/Entity';
+import { getChildren } from '../../src/ecs/Hierarchy';
+import { RenderSystem } from '../../src/graphics/RenderSystem';
+import { Camera2D } from '../../src/graphics/Camera2D';
+import { Vector2 } from '../../src/math/Vector2';
+import { attachTilesetImage, parseTiledJSON, parseTMX } from '../../src/tilemap/TiledImporter';
+import { TILE_FLIP_DIAGONAL, TILE_FLIP_HORIZONTAL, Tilemap } from '../../src/tilemap/Tilemap';
+import { renderTilemap } from '../../src/tilemap/TilemapRenderer';
+import { buildTileColliders, createTileColliders } from '../../src/tilemap/TilemapColliders';
+import { createObjectEntities } from '../../src/tilemap/TiledObjects';
+import { createTilemapComponent } from '../../src/tilemap/TilemapComponent';
+import { TilemapSystem } from '../../src/tilemap/TilemapSystem';
+
+const texture = { width: 64, height: 32 } as any;
+
+// 4x3 map: a 3x2 block of solid tiles and a 2-tile ledge below its right edge
+const TILES = [
+    1, 1, 1, 0,
+    1, 1, 1, 0,
+    0, 0, 1, 1
+];
+
+const TILED_JSON = {
+    orientation: 'orthogonal',
+    width: 4,
+    height: 3,
+    tilewidth: 16,
+    tileheight: 16,
+    properties: [{ name: 'music', type: 'string', value: 'cave.ogg' }],
+    tilesets: [{
+        firstgid: 1,
+        name: 'terrain',
+        tilewidth: 16,
+        tileheight: 16,
+        tilecount: 8,
+        columns: 4,
+        image: 'terrain.png',
+        tiles: [
+            { id: 0, properties: [{ name: 'solid', type: 'bool', value: true }] },
+            { id: 4, animation: [{ tileid: 4, duration: 100 }, { tileid: 5, duration: 100 }] }
+        ]
+    }],
+    layers: [
+        { type: 'tilelayer', name: 'ground', width: 4, height: 3, data: TILES },
+        {
+            type: 'group', name: 'decor', offsetx: 8, opacity: 0.5, layers: [
+                { type: 'tilelayer', name: 'water', width: 4, height: 3, data: [0, 0, 0, 5 | TILE_FLIP_HORIZONTAL, 0, 0, 0, 0, 0, 0, 0, 0] }
+            ]
+        },
+        {
+            type: 'objectgroup', name: 'spawns', objects: [
+                { id: 1, name: 'start', type: 'player', x: 16, y: 0, width: 16, height: 32, properties: [{ name: 'lives', type: 'int', value: 3 }] },
+                { id: 2, name: 'gem', class: 'pickup', x: 48, y: 16, width: 0, height: 0, point: true }
+            ]
+        }
+    ]
+};
+
+function toBase64(gids: number[]): string {
+    const bytes = new Uint8Array(new Uint32Array(gids).buffer);
+    return btoa(String.fromCharCode(...bytes));
+}
+
+const TMX = `<?xml version="1.0" encoding="UTF-8"?>
+<map version="1.10" orientation="orthogonal" width="4" height="3" tilewidth="16" tileheight="16" infinite="0">
+ <properties><property name="music" value="cave.ogg"/></properties>
+ <tileset firstgid="1" name="terrain" tilewidth="16" tileheight="16" tilecount="8" columns="4">
+  <image source="terrain.png" width="64" height="32"/>
+  <tile id="0"><properties><property name="solid" type="bool" value="true"/></properties></tile>
+  <tile id="4"><animation><frame tileid="4" duration="100"/><frame tileid="5" duration="100"/></animation></tile>
+ </tileset>
+ <layer id="1" name="ground" width="4" height="3">
+  <data encoding="csv">${TILES.join(',')}</data>
+ </layer>
+ <group name="decor" offsetx="8" opacity="0.5">
+  <layer id="2" name="water" width="4" height="3">
+   <data encoding="base64">${toBase64([0, 0, 0, (5 | TILE_FLIP_HORIZONTAL) >>> 0, 0, 0, 0, 0, 0, 0, 0, 0])}</data>
+  </layer>
+ </group>
+ <objectgroup name="spawns">
+  <object id="1" name="start" type="player" x="16" y="0" width="16" height="32"><properties><property name="lives" type="int" value="3"/></properties></object>
+  <object id="2" name="gem" class="pickup" x="48" y="16"><point/></object>
+ </objectgroup>
+</map>`;
+
+function expectSameMap(map: Tilemap) {
+    expect(map.properties).toEqual({ music: 'cave.ogg' });
+    expect(map.tilesets[0]).toMatchObject({ name: 'terrain', firstGid: 1, tileCount: 8, columns: 4 });
+    expect(map.tilesets[0].sheet?.getFrame(5)).toMatchObject({ x: 16, y: 16, width: 16, height: 16 });
+
+    const ground = map.getLayer('ground')!;
+    expect(ground.getTile(2, 2)).toBe(1);
+    expect(ground.getTile(3, 0)).toBe(0);
+    expect(map.getTileProperties(ground.getTile(0, 0))).toEqual({ solid: true });
+
+    const water = map.getLayer('water')!;
+    expect(water).toMatchObject({ offsetX: 8, opacity: 0.5 });
+    const gid = water.getTile(3, 0);
+    expect(gid).toBe((5 | TILE_FLIP_HORIZONTAL) >>> 0);
+    // Animated tile: local 4 for 0.1s, then local 5; flip flags are kept
+    expect(map.getAnimatedGid(gid, 0.05)).toBe(gid);
+    expect(map.getAnimatedGid(gid, 0.15)).toBe((6 | TILE_FLIP_HORIZONTAL) >>> 0);
+
+    const spawns = map.getObjectLayer('spawns')!;
+    expect(spawns.objects[0]).toMatchObject({ name: 'start', type: 'player', properties: { lives: 3 } });
+    expect(spawns.objects[1]).toMatchObject({ name: 'gem', type: 'pickup', point: true });
+}
+
+describe('Tiled import', () => {
+    it('reads JSON and TMX maps into the same tilemap', () => {
+        expectSameMap(parseTiledJSON(TILED_JSON, { tilesets: { terrain: texture } }));
+        expectSameMap(parseTMX(TMX, { tilesets: { terrain: texture } }));
+    });
+
+    it('reads infinite maps and rejects what it cannot decode', () => {
+        const map = parseTiledJSON({
+            tilewidth: 8, tileheight: 8, infinite: true, tilesets: [],
+            layers: [{ type: 'tilelayer', name: 'ground', chunks: [{ x: -16, y: 32, width: 2, height: 1, data: [3, 4] }] }]
+        });
+        expect(map.getLayer('ground')!.getTile(-15, 32)).toBe(4);
+        expect(map.getLayer('ground')!.getTileBounds()).toEqual({ minX: -16, minY: 32, maxX: -1, maxY: 47 });
+
+        expect(() => parseTiledJSON({ ...TILED_JSON, orientation: 'isometric' })).toThrow(/orthogonal/);
+        expect(() => parseTiledJSON({ ...TILED_JSON, tilesets: [{ firstgid: 1, source: 'terrain.tsx' }] })).toThrow(/terrain\.tsx/);
+        expect(() => parseTiledJSON({
+            ...TILED_JSON,
+            layers: [{ type: 'tilelayer', name: 'zip', width: 1, height: 1, encoding: 'base64', compression: 'zlib', data: 'eJw=' }]
+        })).toThrow(/zlib/);
+    });
+});
+
+describe('Tilemap', () => {
+    it('merges solid tiles into static colliders', () => {
+        const map = parseTiledJSON(TILED_JSON);
+        expect(buildTileColliders(map)).toEqual([
+            { x: 0, y: 0, width: 48, height: 32 },
+            { x: 32, y: 32, width: 32, height: 16 }
+        ]);
+
+        const scene = new Scene('level');
+        const mapEntity = new Entity('map');
+        mapEntity.addComponent({ type: 'transform', position: new Vector2(100, 0), rotation: 0, scale: new Vector2(1, 1) });
+        scene.addEntity(mapEntity);
+        const colliders = createTileColliders(mapEntity, map, scene, { kind: 'collider', layer: 'ground' });
+        expect(getChildren(mapEntity)).toEqual(colliders);
+        expect(colliders[1].getComponent('collider')).toMatchObject({ width: 32, height: 16, isStatic: true });
+        expect(colliders[1].getComponent<any>('transform').position).toMatchObject({ x: 48, y: 40 });
+        expect(colliders[1].getLayer()).toBe('ground');
+    });
+
+    it('turns objects into entities, using prefabs for known types', () => {
+        const map = parseTiledJSON(TILED_JSON);
+        const prefabs = new PrefabRegistry();
+        prefabs.register('player', { tags: ['hero'], components: { health: { value: 10 } } });
+        const scene = new Scene('level');
+
+        const [start, gem] = createObjectEntities(map, scene, { prefabs });
+        expect(start.hasTag('hero')).toBe(true);
+        expect(start.getName()).toBe('start');
+        expect(start.getComponent<any>('transform').position).toMatchObject({ x: 24, y: 16 });
+        expect(start.getComponent('tiledObject')).toMatchObject({ objectType: 'player', shape: 'rectangle', properties: { lives: 3 } });
+
+        expect(scene.getByTag('pickup')).toEqual([gem]);
+        expect(gem.getComponent('tiledObject')).toMatchObject({ shape: 'point', layer: 'spawns' });
+    });
+
+    it('draws only the tiles inside the camera view, with flips and animation', () => {
+        const map = new Tilemap(16, 16);
+        map.addTileset({ name: 'terrain', tileCount: 8, columns: 4 });
+        const big = map.addLayer('big');
+        for (let y = 0; y < 100; y++) {
+            for (let x = 0; x < 100; x++) big.setTile(x, y, x === 0 && y === 0 ? (1 | TILE_FLIP_HORIZONTAL) >>> 0 : 1);
+        }
+        attachTilesetImage(map.tilesets[0], texture);
+
+        const scene = new Scene('level');
+        const entity = new Entity('map');
+        entity.addComponent({ type: 'transform', position: new Vector2(0, 0), rotation: 0, scale: new Vector2(1, 1) });
+        entity.addComponent(createTilemapComponent(map));
+        scene.addEntity(entity);
+
+        const drawSpriteUV = vi.fn();
+        const render = new RenderSystem({ clear: () => { }, present: () => { }, drawSprite: vi.fn(), drawSpriteUV } as any);
+        render.setWorld(scene.getWorld());
+        const camera = new Camera2D(64, 32);
+        camera.position = new Vector2(32, 16);
+        render.setCamera(camera);
+        render.update(scene.getEntities(), 0);
+
+        // View 0..64 x 0..32: 5x3 tiles touch it (edges included)
+        expect(drawSpriteUV).toHaveBeenCalledTimes(15);
+        const [, position, size, , , , , , flipX] = drawSpriteUV.mock.calls[0];
+        expect(position).toMatchObject({ x: 8, y: 8 });
+        expect(size).toMatchObject({ x: 16, y: 16 });
+        expect(flipX).toBe(true);
+
+        const system = new TilemapSystem();
+        system.update([entity], 0.5);
+        expect(entity.getComponent<any>('tilemap').time).toBe(0.5);
+    });
+
+    it('draws diagonal flips as a turn and skips renderers without atlas regions', () => {
+        const map = new Tilemap(16, 16);
+        map.addTileset({ name: 'terrain', tileCount: 8, columns: 4 });
+        const layer = map.addLayer('ground');
+        layer.setTile(0, 0, (1 | TILE_FLIP_DIAGONAL) >>> 0);
+        layer.setTile(1, 0, (1 | TILE_FLIP_DIAGONAL | TILE_FLIP_HORIZONTAL) >>> 0);
+        attachTilesetImage(map.tilesets[0], texture);
+
+        const drawSpriteUV = vi.fn();
+        renderTilemap({ clear: () => { }, present: () => { }, drawSprite: vi.fn(), drawSpriteUV } as any, map, { origin: { x: 0, y: 0 } });
+        // rotation, flipX, flipY: swapping the axes, then the horizontal flip
+        expect(drawSpriteUV.mock.calls.map(call => call.slice(7, 10))).toEqual([
+            [Math.PI / 2, false, true],
+            [Math.PI / 2, false, false]
+        ]);
+
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const scene = new Scene('level');
+        const entity = new Entity('map');
+        entity.addComponent({ type: 'transform', position: new Vector2(0, 0), rotation: 0, scale: new Vector2(1, 1) });
+        entity.addComponent(createTilemapComponent(map));
+        scene.addEntity(entity);
+        const drawSprite = vi.fn();
+        const render = new RenderSystem({ clear: () => { }, present: () => { }, drawSprite } as any);
+        render.update(scene.getEntities(), 0);
+        render.update(scene.getEntities(), 0);
+
+        expect(drawSprite).not.toHaveBeenCalled();
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain("'uvSprites'");
+        warn.mockRestore();
+    });
+});
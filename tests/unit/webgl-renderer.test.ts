@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2 } from '../../src/math/Vector2';
+import { Color } from '../../src/math/Color';
+import { createMockTexture, createMockWebGLRenderer, getFlushedVertices } from '../helpers/webgl-helpers';
+
+const WHITE = new Color(255, 255, 255, 255);
+
+// Clip-space position of a point through the last projection uploaded (float32, so rounded)
+function project(gl: any, x: number, y: number): [number, number] {
+    const m: Float32Array = gl.uniformMatrix3fv.mock.lastCall[2];
+    const round = (value: number) => Math.round(value * 1e4) / 1e4 + 0;
+    return [round(m[0] * x + m[3] * y + m[6]), round(m[1] * x + m[4] * y + m[7])];
+}
+
+describe('WebGLRenderer', () => {
+    it('prefers WebGL2 and falls back to WebGL1', () => {
+        expect(createMockWebGLRenderer().renderer.isWebGL2()).toBe(true);
+        expect(createMockWebGLRenderer({}, 4, ['webgl']).renderer.isWebGL2()).toBe(false);
+
+        const { canvas, renderer } = createMockWebGLRenderer({ webgl2: false });
+        expect(renderer.isWebGL2()).toBe(false);
+        expect(canvas.getContext).not.toHaveBeenCalledWith('webgl2');
+    });
+
+    it('applies the camera like Canvas2D and restores screen space', () => {
+        const { gl, renderer } = createMockWebGLRenderer();
+
+        renderer.applyCameraTransform(100, 50, 2, 0);
+        // The camera position lands on the centre; 200px to the right doubles to the screen edge
+        expect(project(gl, 100, 50)).toEqual([0, 0]);
+        expect(project(gl, 300, 50)).toEqual([1, 0]);
+
+        renderer.applyCameraTransform(0, 0, 1, Math.PI / 2);
+        // Rotated a quarter turn: world +x points down the screen
+        expect(project(gl, 300, 0)).toEqual([0, -1]);
+
+        renderer.resetTransform();
+        expect(project(gl, 0, 0)).toEqual([-1, 1]);
+        expect(project(gl, 800, 600)).toEqual([1, -1]);
+    });
+
+    it('draws atlas regions with flips, tint and layer alpha', () => {
+        const { gl, renderer } = createMockWebGLRenderer();
+        const sheet = createMockTexture('sheet.png', 64, 32);
+
+        renderer.setGlobalAlpha(0.5);
+        renderer.drawSpriteUV(sheet, new Vector2(0, 0), new Vector2(16, 16), 16, 0, 16, 16, 0, true, false, new Color(255, 0, 0, 255));
+        renderer.resetGlobalAlpha();
+        renderer.drawSprite(sheet, new Vector2(0, 0), new Vector2(16, 16), 0, WHITE);
+        renderer.flush();
+
+        const [topLeft, topRight, bottomRight] = getFlushedVertices(gl);
+        expect([topLeft.u, topRight.u, bottomRight.v]).toEqual([0.5, 0.25, 0.5]);
+        // RGBA bytes: red at half alpha, then opaque white
+        expect(topLeft.color).toBe(((128 << 24) | 255) >>> 0);
+        expect(getFlushedVertices(gl)[4].color).toBe(0xffffffff);
+    });
+
+    it('clears to the background colour and batches primitives', () => {
+        const { gl, renderer } = createMockWebGLRenderer();
+        const red = new Color(255, 0, 0, 255);
+
+        renderer.setBackgroundColor(new Color(0, 0, 255, 255));
+        renderer.clear();
+        expect(gl.clearColor).toHaveBeenCalledWith(0, 0, 1, 1);
+
+        renderer.drawRectangle(new Vector2(10, 10), new Vector2(20, 10), red, true);
+        renderer.drawRectangle(new Vector2(10, 10), new Vector2(20, 10), red, false);
+        renderer.drawCircle(new Vector2(0, 0), 8, red, true);
+        renderer.drawLine(new Vector2(0, 0), new Vector2(10, 0), red, 2);
+        renderer.present();
+
+        // White pixel and disc textures share one draw call
+        expect(renderer.getFrameStats()).toEqual({ drawCalls: 1, sprites: 7, vertices: 28 });
+        const line = getFlushedVertices(gl).slice(24);
+        expect(line.map(({ x, y }) => [x, y])).toEqual([[0, -1], [10, -1], [10, 1], [0, 1]]);
+    });
+
+    it('releases the GPU texture when the texture is disposed', () => {
+        const { gl, renderer } = createMockWebGLRenderer();
+        const texture = createMockTexture('hero.png');
+
+        renderer.drawSprite(texture, new Vector2(0, 0), new Vector2(16, 16), 0, WHITE);
+        const uploaded = gl.createTexture.mock.results[0].value;
+        texture.dispose();
+
+        // The queued quad is drawn before its texture is deleted
+        expect(gl.drawElements).toHaveBeenCalledTimes(1);
+        expect(gl.deleteTexture).toHaveBeenCalledWith(uploaded);
+
+        renderer.drawSprite(texture, new Vector2(0, 0), new Vector2(16, 16), 0, WHITE);
+        renderer.present();
+        expect(gl.createTexture).toHaveBeenCalledTimes(1);
+        expect(gl.drawElements).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { World } from '../../src/ecs/World';
+import { Entity } from '../../src/ecs/Entity';
+import { System } from '../../src/ecs/System';
+import { Scene } from '../../src/core/Scene';
+import { TransformComponent, SpriteComponent } from '../../src/ecs/Component';
+
+const transform = (x = 0, y = 0) => ({ type: 'transform', position: { x, y }, rotation: 0, scale: { x: 1, y: 1 } });
+const sprite = () => ({ type: 'sprite', texture: 'tex', width: 8, height: 8 });
+
+describe('World archetype storage and queries', () => {
+    it('groups entities into archetypes and keeps queries cached', () => {
+        const world = new World();
+        const a = world.createEntity();
+        a.addComponent(transform());
+        a.addComponent(sprite());
+        const b = world.createEntity();
+        b.addComponent(transform());
+
+        const q = world.query(['transform', 'sprite']);
+        expect(world.query(['transform', 'sprite'])).toBe(q);
+        expect(q.getEntities()).toEqual([a]);
+
+        b.addComponent(sprite());
+        expect(q.size).toBe(2);
+
+        a.removeComponent('sprite');
+        expect(q.getEntities()).toEqual([b]);
+    });
+
+    it('supports any/none filters', () => {
+        const world = new World();
+        const a = world.createEntity();
+        a.addComponent(transform());
+        a.addComponent({ type: 'physics' });
+        const b = world.createEntity();
+        b.addComponent(transform());
+        b.addComponent({ type: 'physicsBody' });
+        b.addComponent({ type: 'static' });
+
+        expect(world.query({ all: ['transform'], any: ['physics', 'physicsBody'] }).size).toBe(2);
+        expect(world.query({ all: ['transform'], none: ['static'] }).getEntities()).toEqual([a]);
+    });
+
+    it('iterates typed component columns with forEach', () => {
+        const world = new World();
+        const e = world.createEntity();
+        e.addComponent(transform(5, 6));
+        e.addComponent(sprite());
+
+        const seen: Array<[string, number]> = [];
+        world.query<[TransformComponent, SpriteComponent]>(['transform', 'sprite'])
+            .forEach((entity, t, s) => seen.push([entity.id, t.position.x + s.width]));
+
+        expect(seen).toEqual([[e.id, 13]]);
+    });
+
+    it('passes columns in the order each caller declared', () => {
+        const world = new World();
+        const e = world.createEntity();
+        e.addComponent(transform(5, 6));
+        e.addComponent(sprite());
+
+        const types: string[][] = [];
+        world.query(['transform', 'sprite']).forEach((_entity, a, b) => types.push([a.type, b.type]));
+        world.query(['sprite', 'transform']).forEach((_entity, a, b) => types.push([a.type, b.type]));
+
+        expect(types).toEqual([['transform', 'sprite'], ['sprite', 'transform']]);
+        expect(world.query(['sprite', 'transform']).getEntities()).toEqual([e]);
+    });
+
+    it('reports added, removed and changed entities per tracker', () => {
+        const world = new World();
+        const q = world.query(['transform']);
+        const first = q.track();
+        const second = q.track();
+
+        const e = world.createEntity();
+        e.addComponent(transform());
+        expect(first.added()).toEqual([e]);
+        expect(first.added()).toEqual([]);
+        // A second tracker on the same query still sees the addition
+        expect(second.added()).toEqual([e]);
+
+        e.markChanged('transform');
+        e.addComponent(transform(1, 1));
+        expect(first.changed()).toEqual([e]);
+        expect(first.changed()).toEqual([]);
+
+        e.removeComponent('transform');
+        expect(first.removed()).toEqual([e]);
+        expect(second.removed()).toEqual([e]);
+    });
+
+    it('attaches existing entities and detaches them without destroying', () => {
+        const world = new World();
+        const e = new Entity('existing');
+        e.addComponent(transform());
+        world.addEntity(e);
+
+        expect(e.getWorld()).toBe(world);
+        expect(world.query(['transform']).getEntities()).toEqual([e]);
+
+        world.detachEntity(e.id);
+        expect(e.getWorld()).toBeNull();
+        expect(e.hasComponent('transform')).toBe(true);
+        expect(world.query(['transform']).size).toBe(0);
+
+        const other = new World();
+        other.addEntity(e);
+        expect(() => world.addEntity(e)).toThrow();
+    });
+
+    it('lets systems read from the attached world query', () => {
+        class CountingSystem extends System {
+            readonly requiredComponents = ['transform', 'sprite'];
+            count = 0;
+            update(entities: Entity[]): void {
+                this.count = this.getEntitiesWithComponents(entities, this.requiredComponents).length;
+            }
+        }
+
+        const scene = new Scene('ecs');
+        const e = new Entity();
+        e.addComponent(transform());
+        e.addComponent(sprite());
+        scene.addEntity(e);
+
+        const system = new CountingSystem();
+        scene.getWorld().addSystem(system);
+        scene.getWorld().update(0);
+        expect(system.count).toBe(1);
+        expect(scene.findEntitiesWithComponents(['transform', 'sprite'])).toEqual([e]);
+
+        scene.removeEntity(e.id);
+        scene.getWorld().update(0);
+        expect(system.count).toBe(0);
+    });
+});